@@ -13,7 +13,8 @@ CREATE TABLE IF NOT EXISTS users (
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     preferences JSONB DEFAULT '{}'::jsonb,
-    is_active BOOLEAN DEFAULT true
+    is_active BOOLEAN DEFAULT true,
+    role VARCHAR(20) DEFAULT 'member'
 );
 
 -- Conversations table
@@ -37,7 +38,8 @@ CREATE TABLE IF NOT EXISTS messages (
     metadata JSONB DEFAULT '{}'::jsonb,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     tokens_used INTEGER,
-    embedding JSONB -- For semantic search (stored as JSON array until pgvector is available)
+    embedding JSONB, -- For semantic search (stored as JSON array until pgvector is available)
+    embedding_model VARCHAR(100) -- Provider that produced the embedding
 );
 
 -- Context/Memory table
@@ -52,7 +54,8 @@ CREATE TABLE IF NOT EXISTS context_memory (
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     expires_at TIMESTAMP,
-    embedding JSONB -- For semantic search (stored as JSON array until pgvector is available)
+    embedding JSONB, -- For semantic search (stored as JSON array until pgvector is available)
+    embedding_model VARCHAR(100) -- Provider that produced the embedding
 );
 
 -- Reminders table
@@ -62,7 +65,7 @@ CREATE TABLE IF NOT EXISTS reminders (
     content TEXT NOT NULL,
     remind_at TIMESTAMP NOT NULL,
     channel VARCHAR(50) NOT NULL,
-    status VARCHAR(50) DEFAULT 'pending', -- 'pending', 'sent', 'snoozed', 'cancelled'
+    status VARCHAR(50) DEFAULT 'pending', -- 'pending', 'sent', 'snoozed', 'completed', 'cancelled'
     metadata JSONB DEFAULT '{}'::jsonb,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
@@ -88,10 +91,11 @@ CREATE TABLE IF NOT EXISTS oauth_tokens (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     user_id UUID REFERENCES users(id) ON DELETE CASCADE,
     provider VARCHAR(50) NOT NULL, -- 'google'
-    access_token TEXT NOT NULL,
-    refresh_token TEXT,
+    access_token TEXT NOT NULL, -- encrypted
+    refresh_token TEXT, -- encrypted
     expires_at TIMESTAMP,
     scopes TEXT[],
+    metadata JSONB DEFAULT '{}'::jsonb,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -148,3 +152,121 @@ CREATE INDEX idx_agentmail_inboxes_user ON agentmail_inboxes(user_id);
 
 CREATE TRIGGER update_agentmail_inboxes_updated_at BEFORE UPDATE ON agentmail_inboxes
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Access invites (allowlist for new handles)
+CREATE TABLE IF NOT EXISTS access_invites (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    handle VARCHAR(255) UNIQUE NOT NULL,
+    role VARCHAR(20) DEFAULT 'member',
+    status VARCHAR(20) DEFAULT 'pending',
+    invited_by VARCHAR(255) NOT NULL,
+    expires_at TIMESTAMP,
+    accepted_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    metadata JSONB DEFAULT '{}'::jsonb
+);
+
+CREATE TRIGGER update_access_invites_updated_at BEFORE UPDATE ON access_invites
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Per-tool permission overrides (by role or by user)
+CREATE TABLE IF NOT EXISTS tool_permissions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tool_name VARCHAR(100) NOT NULL,
+    role VARCHAR(20),
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    allowed BOOLEAN NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX idx_tool_permissions_role ON tool_permissions(tool_name, role) WHERE role IS NOT NULL;
+CREATE UNIQUE INDEX idx_tool_permissions_user ON tool_permissions(tool_name, user_id) WHERE user_id IS NOT NULL;
+
+CREATE TRIGGER update_tool_permissions_updated_at BEFORE UPDATE ON tool_permissions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Audit log
+CREATE TABLE IF NOT EXISTS audit_logs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    actor VARCHAR(255) NOT NULL,
+    action VARCHAR(100) NOT NULL,
+    user_id UUID,
+    details JSONB DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_audit_logs_action ON audit_logs(action, created_at);
+CREATE INDEX idx_audit_logs_user ON audit_logs(user_id);
+
+-- Execution agent batches (persisted so in-flight work survives restarts)
+CREATE TABLE IF NOT EXISTS execution_batches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE,
+    chat_guid VARCHAR(255) NOT NULL,
+    status VARCHAR(20) DEFAULT 'running',
+    state JSONB DEFAULT '{}'::jsonb,
+    recovery_attempts INTEGER DEFAULT 0,
+    completed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_execution_batches_status ON execution_batches(status, created_at);
+CREATE INDEX idx_execution_batches_user ON execution_batches(user_id);
+
+CREATE TRIGGER update_execution_batches_updated_at BEFORE UPDATE ON execution_batches
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS execution_tasks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    batch_id UUID REFERENCES execution_batches(id) ON DELETE CASCADE,
+    agent_name VARCHAR(255) NOT NULL,
+    instructions TEXT NOT NULL,
+    status VARCHAR(20) DEFAULT 'pending',
+    attempts INTEGER DEFAULT 1,
+    progress JSONB DEFAULT '[]'::jsonb,
+    response TEXT,
+    error TEXT,
+    tools_used JSONB DEFAULT '[]'::jsonb,
+    finished_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_execution_tasks_batch ON execution_tasks(batch_id, status);
+
+CREATE TRIGGER update_execution_tasks_updated_at BEFORE UPDATE ON execution_tasks
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Model usage per request, for cost reports and per-user budgets
+CREATE TABLE IF NOT EXISTS llm_usage (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL,
+    role VARCHAR(30) NOT NULL,
+    provider VARCHAR(20) NOT NULL,
+    model VARCHAR(100) NOT NULL,
+    description VARCHAR(100),
+    input_tokens INTEGER DEFAULT 0,
+    output_tokens INTEGER DEFAULT 0,
+    cost_usd DOUBLE PRECISION DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_llm_usage_user ON llm_usage(user_id, created_at);
+CREATE INDEX idx_llm_usage_conversation ON llm_usage(conversation_id);
+CREATE INDEX idx_llm_usage_created ON llm_usage(created_at);
+
+CREATE TABLE IF NOT EXISTS usage_budgets (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    daily_token_limit INTEGER,
+    monthly_cost_limit_usd DOUBLE PRECISION,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TRIGGER update_usage_budgets_updated_at BEFORE UPDATE ON usage_budgets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,7 @@
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  // config/index.ts exits without these; tests never talk to the real services
+  setupFiles: ['<rootDir>/src/eval/offlineEnv.ts']
+};
@@ -0,0 +1,144 @@
+import { logDebug, logError } from '../utils/logger';
+
+// A sentence ends at . ! or ? followed by whitespace, so "3.5" and URLs don't split
+const SENTENCE_END = /[.!?]["'”)]*(?=\s)/g;
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+/**
+ * Decode as much of a string field as has arrived in incomplete JSON, e.g.
+ * `{"message": "Hi there || Ho` gives `Hi there || Ho`. Returns null until
+ * the field has started. Only meant for flat objects like tool inputs.
+ */
+export function readPartialStringField(json: string, field: string): string | null {
+  const start = new RegExp(`"${field}"\\s*:\\s*"`).exec(json);
+  if (!start) {
+    return null;
+  }
+
+  let value = '';
+  for (let i = start.index + start[0].length; i < json.length; i++) {
+    const char = json[i];
+    if (char === '"') {
+      break;
+    }
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+
+    const escaped = json[i + 1];
+    if (escaped === undefined) {
+      break;
+    }
+    if (escaped === 'u') {
+      const hex = json.slice(i + 2, i + 6);
+      if (hex.length < 4) {
+        break;
+      }
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += JSON_ESCAPES[escaped] ?? escaped;
+      i += 1;
+    }
+  }
+  return value;
+}
+
+/**
+ * BubbleStreamer sends iMessage bubbles while the model is still writing a
+ * send_message_to_user call.
+ *
+ * It is fed the partial `message` text of each streaming tool call. A bubble
+ * goes out as soon as its "||" delimiter arrives, or, once an unfinished
+ * bubble reaches `sentenceFlushChars`, up to its last complete sentence.
+ * `finish` returns whatever the early sends didn't cover so the caller can
+ * deliver it the usual way.
+ *
+ * Offsets are kept per content block index. A retried request starts them
+ * over (`beginAttempt`), but bubbles already sent this turn are never sent
+ * again.
+ */
+export class BubbleStreamer {
+  private consumed = new Map<number, number>();
+  private sentBubbles: string[] = [];
+  /** Bubbles sent by earlier attempts of a retried request */
+  private sentBeforeRetry = new Set<string>();
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly send: (bubble: string) => Promise<void>,
+    private readonly sentenceFlushChars: number
+  ) {}
+
+  /**
+   * Call at the start of each request attempt.
+   */
+  beginAttempt(): void {
+    this.consumed.clear();
+    this.sentBeforeRetry = new Set(this.sentBubbles);
+  }
+
+  /**
+   * Feed the message text written so far for the tool call at `index`.
+   */
+  update(index: number, text: string): void {
+    let consumed = this.consumed.get(index) ?? 0;
+
+    while (consumed < text.length) {
+      const rest = text.slice(consumed);
+      const delimiter = rest.indexOf('||');
+
+      let cut: number;
+      let advance: number;
+      if (delimiter >= 0) {
+        cut = delimiter;
+        advance = delimiter + 2;
+      } else if (rest.trim().length >= this.sentenceFlushChars) {
+        const lastSentenceEnd = [...rest.matchAll(SENTENCE_END)].pop();
+        if (!lastSentenceEnd || lastSentenceEnd.index === undefined) {
+          break;
+        }
+        cut = advance = lastSentenceEnd.index + lastSentenceEnd[0].length;
+      } else {
+        break;
+      }
+
+      consumed += advance;
+      this.enqueue(rest.slice(0, cut).trim());
+    }
+
+    this.consumed.set(index, consumed);
+  }
+
+  /**
+   * Wait for early sends to finish and return the part of `finalText` that
+   * still has to be delivered ("||"-delimited, possibly empty).
+   */
+  async finish(index: number, finalText: string): Promise<string> {
+    await this.pending;
+
+    const consumed = this.consumed.get(index) ?? 0;
+    this.consumed.set(index, finalText.length);
+
+    return finalText
+      .slice(consumed)
+      .split('||')
+      .map(bubble => bubble.trim())
+      .filter(bubble => bubble.length > 0 && !this.sentBeforeRetry.has(bubble))
+      .join(' || ');
+  }
+
+  private enqueue(bubble: string): void {
+    if (!bubble || this.sentBeforeRetry.has(bubble)) {
+      return;
+    }
+
+    this.sentBubbles.push(bubble);
+    logDebug('BubbleStreamer sending early bubble', { length: bubble.length });
+    this.pending = this.pending
+      .then(() => this.send(bubble))
+      .catch(error => logError('BubbleStreamer failed to send bubble', error));
+  }
+}
@@ -4,6 +4,8 @@ import { getToolRegistry } from '../tools/ToolRegistry';
 import { ToolExecutionContext } from '../tools/Tool';
 import { logInfo, logError, logDebug, logWarn } from '../utils/logger';
 import { config } from '../config';
+import { getLLMRoute, LLMRoute } from '../services/LLMService';
+import { getAnthropicRequestManager } from '../services/AnthropicRequestManager';
 
 const MAX_TOOL_ITERATIONS = 8;
 
@@ -19,12 +21,18 @@ export interface ExecutionResult {
   error?: string;
 }
 
+/**
+ * Called after each tool call so callers can persist partial progress.
+ */
+export type ExecutionProgressCallback = (toolName: string, success: boolean, summary: string) => Promise<void>;
+
 /**
  * ExecutionAgentRuntime manages the LLM loop for a single execution agent request.
  */
 export class ExecutionAgentRuntime {
   private agent: ExecutionAgent;
-  private anthropic: Anthropic;
+  private route: LLMRoute;
+  private requestManager = getAnthropicRequestManager();
   private toolRegistry = getToolRegistry();
   private context: ToolExecutionContext;
 
@@ -33,15 +41,13 @@ export class ExecutionAgentRuntime {
     const { agent } = roster.getOrCreateAgent(agentName);
     this.agent = agent;
     this.context = context;
-    this.anthropic = new Anthropic({
-      apiKey: config.anthropic.apiKey
-    });
+    this.route = getLLMRoute('execution');
   }
 
   /**
    * Execute instructions and return the result.
    */
-  async execute(instructions: string): Promise<ExecutionResult> {
+  async execute(instructions: string, onProgress?: ExecutionProgressCallback): Promise<ExecutionResult> {
     const toolsUsed: string[] = [];
     let iterationCount = 0;
 
@@ -69,14 +75,28 @@ export class ExecutionAgentRuntime {
           iteration: iterationCount
         });
 
-        // Call Claude
-        const response = await this.anthropic.messages.create({
-          model: config.anthropic.model || 'claude-sonnet-4-20250514',
-          max_tokens: config.anthropic.responseMaxTokens || 1024,
-          system: systemPrompt,
-          tools: this.toolRegistry.getToolDefinitions() as any,
-          messages
-        });
+        // Call the model through the request manager so it shares the rate limits
+        const response = await this.requestManager.execute(
+          () => this.route.provider.createMessage({
+            model: this.route.model || config.anthropic.model || 'claude-sonnet-4-20250514',
+            max_tokens: config.anthropic.responseMaxTokens || 1024,
+            system: systemPrompt,
+            tools: this.toolRegistry.getToolDefinitions() as any,
+            messages
+          }),
+          {
+            description: 'execution-agent',
+            estimatedInputTokens: 1000,
+            estimatedOutputTokens: config.anthropic.responseMaxTokens || 1024,
+            tags: [this.agent.name],
+            usage: {
+              role: 'execution',
+              provider: this.route.provider.name,
+              userId: this.context.userId,
+              conversationId: this.context.conversationId
+            }
+          }
+        );
 
         // Check for tool use
         const toolUseBlocks = response.content.filter(
@@ -136,6 +156,14 @@ export class ExecutionAgentRuntime {
             result.success ? JSON.stringify(result.data) : (result.error || 'Unknown error')
           );
 
+          if (onProgress) {
+            await onProgress(
+              toolName,
+              result.success,
+              (result.success ? JSON.stringify(result.data) : result.error || 'Unknown error').substring(0, 500)
+            );
+          }
+
           toolResults.push({
             type: 'tool_result',
             tool_use_id: toolUse.id,
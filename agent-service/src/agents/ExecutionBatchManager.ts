@@ -1,5 +1,8 @@
 import { EventEmitter } from 'events';
 import { ExecutionAgentRuntime, ExecutionResult } from './ExecutionAgentRuntime';
+import { ExecutionBatchStore, getExecutionBatchStore } from './ExecutionBatchStore';
+import { ExecutionBatch } from '../database/entities/ExecutionBatch';
+import { AppDataSource } from '../database/connection';
 import { ToolExecutionContext } from '../tools/Tool';
 import { logInfo, logError, logDebug, logWarn } from '../utils/logger';
 
@@ -22,6 +25,16 @@ interface BatchState {
   createdAt: Date;
   pending: number;
   results: ExecutionResult[];
+  persisted: Promise<void>;
+}
+
+/**
+ * Where a batch came from, persisted with it so the interaction runtime can be
+ * rebuilt after a restart.
+ */
+export interface BatchOrigin {
+  chatGuid: string;
+  conversationHistory: Array<{ role: string; content: string }>;
 }
 
 /**
@@ -33,11 +46,17 @@ export class ExecutionBatchManager extends EventEmitter {
   private pending: Map<string, PendingExecution> = new Map();
   private batchState: BatchState | null = null;
   private context: ToolExecutionContext;
+  private origin?: BatchOrigin;
+  private store: ExecutionBatchStore | null;
   private onBatchComplete?: (payload: string) => Promise<void>;
 
-  constructor(context: ToolExecutionContext) {
+  constructor(context: ToolExecutionContext, origin?: BatchOrigin) {
     super();
     this.context = context;
+    this.origin = origin;
+    // Batches are only persisted when we know which chat to report back to,
+    // and skipped entirely when running without a database (offline evals)
+    this.store = origin && AppDataSource.isInitialized ? getExecutionBatchStore() : null;
   }
 
   /**
@@ -58,6 +77,7 @@ export class ExecutionBatchManager extends EventEmitter {
   ): Promise<ExecutionResult> {
     const id = requestId || crypto.randomUUID();
     const batchId = this.registerPendingExecution(agentName, instructions, id);
+    await this.persistPendingExecution(batchId, agentName, instructions, id);
 
     logInfo('ExecutionBatchManager starting agent execution', {
       agentName,
@@ -70,11 +90,13 @@ export class ExecutionBatchManager extends EventEmitter {
       
       // Execute with timeout
       const result = await Promise.race([
-        runtime.execute(instructions),
+        runtime.execute(instructions, async (toolName, success, summary) => {
+          await this.store?.recordProgress(id, { toolName, success, summary, at: new Date().toISOString() });
+        }),
         this.createTimeout(this.timeoutSeconds)
       ]);
 
-      await this.completeExecution(batchId, result, agentName);
+      await this.completeExecution(batchId, id, result, agentName);
       return result;
 
     } catch (error: any) {
@@ -87,7 +109,7 @@ export class ExecutionBatchManager extends EventEmitter {
         error: error.message || 'Timeout'
       };
 
-      await this.completeExecution(batchId, timeoutResult, agentName);
+      await this.completeExecution(batchId, id, timeoutResult, agentName);
       return timeoutResult;
 
     } finally {
@@ -109,8 +131,25 @@ export class ExecutionBatchManager extends EventEmitter {
         batchId: crypto.randomUUID(),
         createdAt: new Date(),
         pending: 0,
-        results: []
+        results: [],
+        persisted: Promise.resolve()
       };
+
+      if (this.store && this.origin) {
+        this.batchState.persisted = this.store.createBatch(
+          this.batchState.batchId,
+          this.context.userId,
+          this.context.conversationId,
+          this.origin.chatGuid,
+          {
+            userHandle: this.context.userHandle,
+            isAdmin: this.context.isAdmin,
+            userRole: this.context.userRole,
+            conversationHistory: this.origin.conversationHistory.slice(-10)
+          }
+        );
+      }
+
       logDebug('ExecutionBatchManager created new batch', { 
         batchId: this.batchState.batchId 
       });
@@ -130,14 +169,64 @@ export class ExecutionBatchManager extends EventEmitter {
     return batchId;
   }
 
+  /**
+   * Persist a pending execution once its batch row exists.
+   */
+  private async persistPendingExecution(
+    batchId: string,
+    agentName: string,
+    instructions: string,
+    requestId: string
+  ): Promise<void> {
+    if (!this.store || !this.batchState || this.batchState.batchId !== batchId) {
+      return;
+    }
+
+    await this.batchState.persisted;
+    await this.store.saveTask(batchId, requestId, agentName, instructions);
+  }
+
+  /**
+   * Pick up a batch that was interrupted by a restart: results that were
+   * already finished are carried over and the given tasks are run again.
+   * The batch dispatches as usual once the re-run tasks complete.
+   */
+  async resumeBatch(
+    batch: ExecutionBatch,
+    carriedResults: ExecutionResult[],
+    tasksToRun: Array<{ id: string; agentName: string; instructions: string }>
+  ): Promise<ExecutionResult[]> {
+    this.batchState = {
+      batchId: batch.id,
+      createdAt: batch.createdAt,
+      pending: 0,
+      results: [...carriedResults],
+      persisted: Promise.resolve()
+    };
+
+    logInfo('ExecutionBatchManager resuming batch', {
+      batchId: batch.id,
+      carriedResults: carriedResults.length,
+      tasksToRun: tasksToRun.length
+    });
+
+    // Start every task before awaiting so the batch isn't dispatched after the first one
+    return Promise.all(
+      tasksToRun.map(task => this.executeAgent(task.agentName, task.instructions, task.id))
+    );
+  }
+
   /**
    * Complete an execution and check if batch is done.
    */
   private async completeExecution(
     batchId: string,
+    requestId: string,
     result: ExecutionResult,
     agentName: string
   ): Promise<void> {
+    await this.store?.completeTask(requestId, result);
+
     if (!this.batchState || this.batchState.batchId !== batchId) {
       logWarn('ExecutionBatchManager received result for unknown batch', {
         batchId,
@@ -168,6 +257,7 @@ export class ExecutionBatchManager extends EventEmitter {
       });
 
       await this.dispatchToInteractionAgent(payload);
+      await this.store?.setBatchStatus(completedBatch.batchId, 'completed');
     }
   }
 
@@ -231,6 +321,6 @@ export class ExecutionBatchManager extends EventEmitter {
 }
 
 // Factory function
-export function createExecutionBatchManager(context: ToolExecutionContext): ExecutionBatchManager {
-  return new ExecutionBatchManager(context);
+export function createExecutionBatchManager(context: ToolExecutionContext, origin?: BatchOrigin): ExecutionBatchManager {
+  return new ExecutionBatchManager(context, origin);
 }
@@ -0,0 +1,177 @@
+import { Repository } from 'typeorm';
+import { AppDataSource } from '../database/connection';
+import { ExecutionBatch, ExecutionBatchState, ExecutionBatchStatus } from '../database/entities/ExecutionBatch';
+import { ExecutionTask, ExecutionTaskProgress } from '../database/entities/ExecutionTask';
+import { ExecutionResult } from './ExecutionAgentRuntime';
+import { logError, logDebug } from '../utils/logger';
+
+/**
+ * ExecutionBatchStore persists execution batches, their instructions and
+ * partial results so in-flight agent work can be recovered after a restart.
+ * Failures are logged and swallowed - persistence must never break a live run.
+ */
+export class ExecutionBatchStore {
+  private batchRepo: Repository<ExecutionBatch>;
+  private taskRepo: Repository<ExecutionTask>;
+
+  constructor() {
+    this.batchRepo = AppDataSource.getRepository(ExecutionBatch);
+    this.taskRepo = AppDataSource.getRepository(ExecutionTask);
+  }
+
+  async createBatch(
+    batchId: string,
+    userId: string,
+    conversationId: string,
+    chatGuid: string,
+    state: ExecutionBatchState
+  ): Promise<void> {
+    try {
+      await this.batchRepo.insert(this.batchRepo.create({
+        id: batchId,
+        userId,
+        conversationId,
+        chatGuid,
+        status: 'running',
+        state
+      }));
+
+      logDebug('Persisted execution batch', { batchId });
+    } catch (error) {
+      logError('Failed to persist execution batch', error, { batchId });
+    }
+  }
+
+  /**
+   * Record a task as pending. Re-registering an existing task (on resume)
+   * bumps its attempt count and clears the previous attempt's progress.
+   */
+  async saveTask(batchId: string, requestId: string, agentName: string, instructions: string): Promise<void> {
+    try {
+      const existing = await this.taskRepo.findOne({ where: { id: requestId } });
+
+      if (existing) {
+        await this.taskRepo.update(requestId, {
+          status: 'pending',
+          attempts: existing.attempts + 1,
+          progress: [],
+          error: null
+        } as any);
+        return;
+      }
+
+      await this.taskRepo.insert(this.taskRepo.create({
+        id: requestId,
+        batchId,
+        agentName,
+        instructions,
+        status: 'pending',
+        progress: [],
+        toolsUsed: []
+      }));
+    } catch (error) {
+      logError('Failed to persist execution task', error, { batchId, requestId });
+    }
+  }
+
+  async recordProgress(requestId: string, entry: ExecutionTaskProgress): Promise<void> {
+    try {
+      // Append in SQL so concurrent progress writes don't overwrite each other
+      await this.taskRepo
+        .createQueryBuilder()
+        .update(ExecutionTask)
+        .set({ progress: () => 'progress || CAST(:entry AS jsonb)' })
+        .where('id = :requestId', { requestId })
+        .setParameter('entry', JSON.stringify([entry]))
+        .execute();
+    } catch (error) {
+      logError('Failed to record execution progress', error, { requestId });
+    }
+  }
+
+  async completeTask(requestId: string, result: ExecutionResult): Promise<void> {
+    try {
+      await this.taskRepo.update(requestId, {
+        status: result.success ? 'succeeded' : 'failed',
+        response: result.response,
+        error: result.error ?? null,
+        toolsUsed: result.toolsUsed,
+        finishedAt: new Date()
+      } as any);
+    } catch (error) {
+      logError('Failed to persist execution result', error, { requestId });
+    }
+  }
+
+  async markTaskInterrupted(requestId: string): Promise<void> {
+    try {
+      await this.taskRepo.update(requestId, { status: 'interrupted', finishedAt: new Date() });
+    } catch (error) {
+      logError('Failed to mark execution task interrupted', error, { requestId });
+    }
+  }
+
+  async setBatchStatus(batchId: string, status: ExecutionBatchStatus): Promise<void> {
+    try {
+      await this.batchRepo.update(batchId, {
+        status,
+        completedAt: status === 'completed' ? new Date() : undefined
+      });
+    } catch (error) {
+      logError('Failed to update execution batch status', error, { batchId, status });
+    }
+  }
+
+  /**
+   * Atomically claim a running batch so only one recovery pass handles it.
+   * Batches being resumed stay `running`, so a crash mid-resume leaves them
+   * for the next pass; the bumped recovery count is what makes the claim stick.
+   */
+  async claimBatch(batch: ExecutionBatch, status: ExecutionBatchStatus): Promise<boolean> {
+    const result = await this.batchRepo.update(
+      { id: batch.id, status: 'running', recoveryAttempts: batch.recoveryAttempts },
+      { status, recoveryAttempts: batch.recoveryAttempts + 1 }
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * Batches that were still running when the process stopped, oldest first.
+   */
+  async findUnfinishedBatches(): Promise<ExecutionBatch[]> {
+    try {
+      return await this.batchRepo.find({
+        where: { status: 'running' },
+        relations: ['tasks'],
+        order: { createdAt: 'ASC' }
+      });
+    } catch (error) {
+      logError('Failed to load unfinished execution batches', error);
+      return [];
+    }
+  }
+}
+
+/**
+ * Convert a persisted task back into the result shape batches dispatch.
+ */
+export function taskToResult(task: ExecutionTask): ExecutionResult {
+  return {
+    agentName: task.agentName,
+    success: task.status === 'succeeded',
+    response: task.response || '',
+    toolsUsed: task.toolsUsed || [],
+    iterationCount: 0,
+    error: task.error || undefined
+  };
+}
+
+// Singleton instance
+let batchStoreInstance: ExecutionBatchStore | null = null;
+
+export function getExecutionBatchStore(): ExecutionBatchStore {
+  if (!batchStoreInstance) {
+    batchStoreInstance = new ExecutionBatchStore();
+  }
+  return batchStoreInstance;
+}
@@ -0,0 +1,142 @@
+import { InteractionAgentRuntime } from './InteractionAgentRuntime';
+import { ExecutionResult } from './ExecutionAgentRuntime';
+import { getExecutionBatchStore, taskToResult } from './ExecutionBatchStore';
+import { getIMessageAdapter } from './iMessageAdapter';
+import { ExecutionBatch } from '../database/entities/ExecutionBatch';
+import { ExecutionTask } from '../database/entities/ExecutionTask';
+import { logInfo, logError, logWarn } from '../utils/logger';
+import { config } from '../config';
+
+/**
+ * A task can be re-run safely only if it never got as far as calling a tool,
+ * so resuming can't repeat side effects like sending an email twice. Each
+ * resume bumps `attempts`, so a task that keeps getting cut off runs out.
+ */
+function isResumable(task: ExecutionTask): boolean {
+  return (task.progress?.length ?? 0) === 0 && task.attempts < config.agents.maxRecoveryAttempts;
+}
+
+function describeProgress(task: ExecutionTask): string {
+  const steps = (task.progress ?? []).map(step => `${step.toolName}${step.success ? '' : ' (failed)'}`);
+  return steps.length > 0 ? `completed steps: ${steps.join(', ')}` : 'no steps completed';
+}
+
+function interruptedResult(task: ExecutionTask): ExecutionResult {
+  return {
+    agentName: task.agentName,
+    success: false,
+    response: `Interrupted by a restart before finishing (${describeProgress(task)}). Task was: ${task.instructions.substring(0, 300)}`,
+    toolsUsed: (task.progress ?? []).map(step => step.toolName),
+    iterationCount: 0,
+    error: 'Interrupted'
+  };
+}
+
+/**
+ * Plain-text report for batches we won't resume, sent straight through the
+ * iMessage adapter so it doesn't depend on another model call succeeding.
+ */
+function formatInterruptedReport(finished: ExecutionTask[], interrupted: ExecutionTask[]): string {
+  const bubbles: string[] = [];
+
+  if (interrupted.length > 0) {
+    bubbles.push('sorry, I got restarted while I was working on something for you');
+    bubbles.push(interrupted
+      .map(task => `• ${task.instructions.substring(0, 140)}${task.instructions.length > 140 ? '…' : ''} (${describeProgress(task)})`)
+      .join('\n'));
+  }
+
+  if (finished.length > 0) {
+    bubbles.push(`here's what ${interrupted.length > 0 ? 'did finish' : 'I finished before the restart'}:\n` + finished
+      .map(task => `• ${task.status === 'succeeded' ? '' : '(failed) '}${(task.response || task.error || '').substring(0, 300)}`)
+      .join('\n'));
+  }
+
+  if (interrupted.length > 0) {
+    bubbles.push('want me to try again?');
+  }
+
+  return bubbles.join(' || ');
+}
+
+async function recoverBatch(batch: ExecutionBatch): Promise<void> {
+  const store = getExecutionBatchStore();
+  const tasks = batch.tasks ?? [];
+  const finished = tasks.filter(task => task.status === 'succeeded' || task.status === 'failed');
+  const unfinished = tasks.filter(task => task.status === 'pending' || task.status === 'interrupted');
+
+  const ageMinutes = (Date.now() - batch.createdAt.getTime()) / 60_000;
+  // Also capped per batch in case a resume died before it could bump the task attempts
+  const canResume = config.agents.resumeInterruptedTasks
+    && ageMinutes <= config.agents.recoveryMaxAgeMinutes
+    && batch.recoveryAttempts < config.agents.maxRecoveryAttempts;
+  const toResume = canResume ? unfinished.filter(isResumable) : [];
+  const interrupted = unfinished.filter(task => !toResume.includes(task));
+
+  const claimed = await store.claimBatch(batch, toResume.length > 0 ? 'running' : 'interrupted');
+  if (!claimed) {
+    return;
+  }
+
+  for (const task of interrupted) {
+    await store.markTaskInterrupted(task.id);
+  }
+
+  logInfo('Recovering interrupted execution batch', {
+    batchId: batch.id,
+    userId: batch.userId,
+    finished: finished.length,
+    resuming: toResume.length,
+    interrupted: interrupted.length
+  });
+
+  if (toResume.length > 0) {
+    const runtime = new InteractionAgentRuntime(
+      batch.conversationId,
+      batch.userId,
+      batch.chatGuid,
+      {
+        userId: batch.userId,
+        userHandle: batch.state.userHandle,
+        conversationId: batch.conversationId,
+        isAdmin: batch.state.isAdmin,
+        chatGuid: batch.chatGuid
+        // userRole omitted on purpose so tool permissions reflect the current role
+      },
+      batch.state.conversationHistory ?? []
+    );
+
+    // Resumed tasks report back through the normal batch completion path
+    runtime
+      .resumeBatch(batch, [...finished.map(taskToResult), ...interrupted.map(interruptedResult)], toResume)
+      .catch(error => logError('Failed to resume execution batch', error, { batchId: batch.id }));
+    return;
+  }
+
+  const report = formatInterruptedReport(finished, interrupted);
+  if (report) {
+    await getIMessageAdapter().sendToUser(report, batch.chatGuid);
+  }
+}
+
+/**
+ * Startup pass over execution batches that were still running when the
+ * process stopped. Safe-to-repeat tasks are resumed; everything else is
+ * reported back to the user along with any partial results.
+ */
+export async function recoverInterruptedExecutions(): Promise<void> {
+  const batches = await getExecutionBatchStore().findUnfinishedBatches();
+  if (batches.length === 0) {
+    return;
+  }
+
+  logWarn('Found execution batches interrupted by a restart', { count: batches.length });
+
+  for (const batch of batches) {
+    try {
+      await recoverBatch(batch);
+    } catch (error) {
+      logError('Failed to recover execution batch', error, { batchId: batch.id });
+    }
+  }
+}
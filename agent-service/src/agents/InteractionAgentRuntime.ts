@@ -1,22 +1,29 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { InteractionAgent, createInteractionAgent, INTERACTION_AGENT_TOOLS } from './InteractionAgent';
 import { ExecutionBatchManager, createExecutionBatchManager } from './ExecutionBatchManager';
+import { ExecutionResult } from './ExecutionAgentRuntime';
+import { ExecutionBatch } from '../database/entities/ExecutionBatch';
 import { iMessageAdapter, getIMessageAdapter } from './iMessageAdapter';
 import { ToolExecutionContext } from '../tools/Tool';
 import { logInfo, logError, logDebug, logWarn } from '../utils/logger';
 import { config } from '../config';
-import { getActionAcknowledgment, detectActionType, looksLikeSearchQuery, ActionType } from '../utils/actionAcknowledgments';
+import { getActionAcknowledgment, looksLikeSearchQuery } from '../utils/actionAcknowledgments';
 import { formatSearchResults } from '../utils/messageFormatting';
 import { getAnthropicRequestManager } from '../services/AnthropicRequestManager';
+import { getLLMRoute, LLMRoute } from '../services/LLMService';
+import { getUsageService, OVER_BUDGET_PROMPT_NOTE } from '../services/UsageService';
+import { getTypingManager } from '../services/TypingManager';
+import { BubbleStreamer, readPartialStringField } from './BubbleStreamer';
 
 const MAX_TOOL_ITERATIONS = 8;
 
+const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+
 /**
  * Build server-side tool definitions (web_search, web_fetch) if enabled.
  */
-function buildServerTools(): Array<{ type: string; name: string; max_uses?: number }> {
+function buildServerTools(model: string): Array<{ type: string; name: string; max_uses?: number }> {
   const tools: Array<{ type: string; name: string; max_uses?: number }> = [];
-  const model = config.anthropic.model || 'claude-sonnet-4-20250514';
   
   // Check if model supports web search
   const supportsWebSearch = [
@@ -53,6 +60,8 @@ export interface InteractionResult {
   agentsSpawned: string[];
   waitReasons: string[];
   iterationCount: number;
+  /** Input plus output tokens across every model call in this run */
+  tokensUsed: number;
   error?: string;
 }
 
@@ -62,7 +71,7 @@ export interface InteractionResult {
  */
 export class InteractionAgentRuntime {
   private agent: InteractionAgent;
-  private anthropic: Anthropic;
+  private route: LLMRoute;
   private requestManager = getAnthropicRequestManager();
   private batchManager: ExecutionBatchManager;
   private iMessageAdapter: iMessageAdapter;
@@ -71,6 +80,7 @@ export class InteractionAgentRuntime {
   private lastUserMessageGuid: string;
   private lastUserMessageText: string;  // Store text for debugging reaction targets
   private conversationHistory: Array<{ role: string; content: string }>;
+  private onOutboundBubble?: (bubble: string) => void;
 
   constructor(
     conversationId: string,
@@ -88,11 +98,9 @@ export class InteractionAgentRuntime {
     this.lastUserMessageText = lastUserMessageText;
     this.conversationHistory = conversationHistory;
     
-    this.anthropic = new Anthropic({
-      apiKey: config.anthropic.apiKey
-    });
+    this.route = getLLMRoute('interaction');
 
-    this.batchManager = createExecutionBatchManager(context);
+    this.batchManager = createExecutionBatchManager(context, { chatGuid, conversationHistory });
     this.iMessageAdapter = getIMessageAdapter();
 
     // Set up batch completion callback
@@ -115,6 +123,33 @@ export class InteractionAgentRuntime {
     return this.runInteractionLoop('agent', agentPayload);
   }
 
+  /**
+   * Re-run tasks from a batch interrupted by a restart. Results are reported
+   * to the user through the normal batch completion path.
+   */
+  async resumeBatch(
+    batch: ExecutionBatch,
+    carriedResults: ExecutionResult[],
+    tasksToRun: Array<{ id: string; agentName: string; instructions: string }>
+  ): Promise<void> {
+    await this.batchManager.resumeBatch(batch, carriedResults, tasksToRun);
+  }
+
+  /**
+   * Called with each bubble just before it is sent, including bubbles
+   * streamed mid-response and replies to execution agent results.
+   */
+  setOnOutboundBubble(callback: (bubble: string) => void): void {
+    this.onOutboundBubble = callback;
+  }
+
+  /**
+   * Number of execution agents still running for this runtime.
+   */
+  getPendingAgentCount(): number {
+    return this.batchManager.getPendingCount();
+  }
+
   /**
    * Run the interaction agent loop.
    */
@@ -126,8 +161,16 @@ export class InteractionAgentRuntime {
     const agentsSpawned: string[] = [];
     const waitReasons: string[] = [];
     let iterationCount = 0;
+    let tokensUsed = 0;
     let hasAcknowledged = false;
 
+    // Over budget: shorter answers and no web search
+    const budget = await getUsageService().getBudgetStatus(this.context.userId);
+    const maxTokens = budget.exceeded
+      ? Math.min(config.usage.degradedMaxTokens, config.anthropic.responseMaxTokens || 1024)
+      : config.anthropic.responseMaxTokens || 1024;
+    const allowServerTools = this.route.provider.name === 'anthropic' && !budget.exceeded;
+
     // PRE-EMPTIVE ACKNOWLEDGMENT: For user messages that look like search queries,
     // send acknowledgment BEFORE Claude API call (since web_search is a server tool)
     // Skip for tapback reactions (e.g., "Liked "what's the weather?"") - they contain quoted text that may match
@@ -142,9 +185,9 @@ export class InteractionAgentRuntime {
       looksLikeSearch,
       messageType 
     });
-    if (messageType === 'user' && looksLikeSearch && !hasAcknowledged && !isTapbackReaction) {
+    if (messageType === 'user' && allowServerTools && looksLikeSearch && !hasAcknowledged && !isTapbackReaction) {
       const ack = getActionAcknowledgment('web_search');
-      await this.iMessageAdapter.sendToUser(ack, this.chatGuid, true);
+      await this.deliver(ack);
       messagesSent.push(ack);
       hasAcknowledged = true;
       logInfo('Pre-emptive search acknowledgment sent', { ack });
@@ -154,7 +197,10 @@ export class InteractionAgentRuntime {
     const structuredContent = this.buildStructuredContent(messageType, content);
     
     // Build messages for Claude
-    const systemPrompt = this.agent.getSystemPrompt();
+    const systemPrompt = budget.exceeded
+      ? `${this.agent.getSystemPrompt()}\n\n${OVER_BUDGET_PROMPT_NOTE}`
+      : this.agent.getSystemPrompt();
+    const model = this.route.model || config.anthropic.model || DEFAULT_MODEL;
     const messages: Anthropic.MessageParam[] = [
       { role: 'user', content: structuredContent }
     ];
@@ -171,30 +217,53 @@ export class InteractionAgentRuntime {
         logDebug('InteractionAgentRuntime iteration', { iteration: iterationCount });
 
         // Build tools array with both interaction tools and server-side tools
-        const serverTools = buildServerTools();
+        // (server tools only exist on Anthropic)
+        const serverTools = allowServerTools ? buildServerTools(model) : [];
         const allTools = [
           ...INTERACTION_AGENT_TOOLS,
           ...serverTools
         ];
         
+        // Stream send_message_to_user so finished bubbles go out while the model keeps writing
+        const streamer = this.createBubbleStreamer();
+
         // Call Claude with interaction tools + server-side tools (web_search)
         // Use requestManager to emit typing indicator events
         // Only pass chatGuid on FIRST iteration to avoid restarting typing on tool follow-ups
         const response = await this.requestManager.execute(
-          () => this.anthropic.messages.create({
-            model: config.anthropic.model || 'claude-sonnet-4-20250514',
-            max_tokens: config.anthropic.responseMaxTokens || 1024,
-            system: systemPrompt,
-            tools: allTools as any,
-            messages
-          }),
+          () => {
+            streamer?.beginAttempt();
+            return this.route.provider.createMessage({
+              model,
+              max_tokens: maxTokens,
+              system: systemPrompt,
+              tools: allTools as any,
+              messages
+            }, streamer ? {
+              onToolInput: update => {
+                const text = update.name === 'send_message_to_user'
+                  ? readPartialStringField(update.partialJson, 'message')
+                  : null;
+                if (text !== null) {
+                  streamer.update(update.index, text);
+                }
+              }
+            } : undefined);
+          },
           {
             description: iterationCount === 1 ? 'interaction-agent-claude' : 'interaction-agent-tool-followup',
             estimatedInputTokens: 1000,
-            estimatedOutputTokens: config.anthropic.responseMaxTokens || 1024,
-            chatGuid: iterationCount === 1 ? this.chatGuid : undefined // Only start typing on first call
+            estimatedOutputTokens: maxTokens,
+            chatGuid: iterationCount === 1 ? this.chatGuid : undefined, // Only start typing on first call
+            usage: {
+              role: 'interaction',
+              provider: this.route.provider.name,
+              userId: this.context.userId,
+              conversationId: this.context.conversationId
+            }
           }
         );
+        tokensUsed += (response.usage?.input_tokens ?? 0) + (response.usage?.output_tokens ?? 0);
 
         // Log all content block types for debugging
         logDebug('Response content blocks', {
@@ -218,7 +287,7 @@ export class InteractionAgentRuntime {
         if (hasWebSearch && !hasAcknowledged) {
           const ack = getActionAcknowledgment('web_search');
           logInfo('Web search server tool detected - sending fallback acknowledgment', { ack });
-          await this.iMessageAdapter.sendToUser(ack, this.chatGuid, true);
+          await this.deliver(ack);
           messagesSent.push(ack);
           hasAcknowledged = true;
         }
@@ -240,7 +309,7 @@ export class InteractionAgentRuntime {
               // Strip citations and format for better iMessage display
               let cleanMessage = stripCitations(textContent);
               cleanMessage = formatSearchResults(cleanMessage);
-              await this.iMessageAdapter.sendToUser(cleanMessage, this.chatGuid, true);
+              await this.deliver(cleanMessage);
               messagesSent.push(cleanMessage);
             }
           }
@@ -257,7 +326,8 @@ export class InteractionAgentRuntime {
             messagesSent,
             agentsSpawned,
             waitReasons,
-            iterationCount
+            iterationCount,
+            tokensUsed
           };
         }
         
@@ -277,11 +347,17 @@ export class InteractionAgentRuntime {
             const data = result.data as { type: string; [key: string]: any };
 
             switch (data.type) {
-              case 'send_to_user':
+              case 'send_to_user': {
                 // Send message via iMessage (skipTyping=true because MessageRouter manages typing)
                 // Strip any citation markup from web search responses
+                // Bubbles streamed while the model was writing have already gone out
                 const cleanMessage = stripCitations(data.message);
-                await this.iMessageAdapter.sendToUser(cleanMessage, this.chatGuid, true);
+                const unsent = streamer
+                  ? await streamer.finish(response.content.indexOf(toolUse), data.message)
+                  : data.message;
+                if (unsent) {
+                  await this.deliver(stripCitations(unsent));
+                }
                 messagesSent.push(cleanMessage);
                 toolResults.push({
                   type: 'tool_result',
@@ -289,12 +365,13 @@ export class InteractionAgentRuntime {
                   content: `Message sent to user: "${data.message.substring(0, 50)}..."`
                 });
                 break;
+              }
 
               case 'send_to_agent':
                 // Send acknowledgment BEFORE spawning agent (if not already sent)
                 if (!hasAcknowledged) {
                   const ack = getActionAcknowledgment('spawn_agent');
-                  await this.iMessageAdapter.sendToUser(ack, this.chatGuid, true);
+                  await this.deliver(ack);
                   messagesSent.push(ack);
                   hasAcknowledged = true;
                   logInfo('Agent spawn acknowledgment sent', { ack, agentName: data.agentName });
@@ -399,6 +476,7 @@ export class InteractionAgentRuntime {
         agentsSpawned,
         waitReasons,
         iterationCount,
+        tokensUsed,
         error: 'Max iterations reached'
       };
 
@@ -411,11 +489,40 @@ export class InteractionAgentRuntime {
         agentsSpawned,
         waitReasons,
         iterationCount,
+        tokensUsed,
         error: error.message
       };
     }
   }
 
+  /**
+   * Send a message through the iMessage adapter, reporting each bubble to
+   * the outbound listener first so echo detection sees it before the
+   * BlueBubbles webhook does. skipTyping because MessageRouter manages typing.
+   */
+  private async deliver(message: string): Promise<void> {
+    for (const bubble of this.iMessageAdapter.parseBubbles(message)) {
+      this.onOutboundBubble?.(bubble);
+    }
+    await this.iMessageAdapter.sendToUser(message, this.chatGuid, true);
+  }
+
+  /**
+   * Streamer for one model request, or null when streaming is off or the
+   * provider can't stream. After each early bubble the typing indicator is
+   * shown again since the rest of the reply is still coming.
+   */
+  private createBubbleStreamer(): BubbleStreamer | null {
+    if (!config.messaging.streamBubbles || this.route.provider.name !== 'anthropic') {
+      return null;
+    }
+
+    return new BubbleStreamer(async bubble => {
+      await this.deliver(stripCitations(bubble));
+      await getTypingManager().refreshTyping(this.chatGuid);
+    }, config.messaging.streamSentenceFlushChars);
+  }
+
   /**
    * Build structured XML content for Claude.
    */
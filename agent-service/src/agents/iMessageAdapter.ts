@@ -173,7 +173,10 @@ export function getIMessageAdapter(blueBubblesClient?: BlueBubblesClient): iMess
   return adapterInstance;
 }
 
-export function initializeIMessageAdapter(blueBubblesClient: BlueBubblesClient): iMessageAdapter {
-  adapterInstance = new iMessageAdapter(blueBubblesClient);
+export function initializeIMessageAdapter(
+  blueBubblesClient: BlueBubblesClient,
+  delayBetweenBubblesMs?: number
+): iMessageAdapter {
+  adapterInstance = new iMessageAdapter(blueBubblesClient, delayBetweenBubblesMs);
   return adapterInstance;
 }
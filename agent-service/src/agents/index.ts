@@ -7,13 +7,18 @@ export type { InteractionResult } from './InteractionAgentRuntime';
 export { ExecutionAgent, AgentRoster, getAgentRoster } from './ExecutionAgent';
 export type { ExecutionHistoryEntry } from './ExecutionAgent';
 export { ExecutionAgentRuntime, createExecutionAgentRuntime } from './ExecutionAgentRuntime';
-export type { ExecutionResult } from './ExecutionAgentRuntime';
+export type { ExecutionResult, ExecutionProgressCallback } from './ExecutionAgentRuntime';
 
 // Execution Agent Log Store (persistent memory)
 export { ExecutionAgentLogStore, getExecutionAgentLogStore } from './ExecutionAgentLogStore';
 
 // Batch Manager
 export { ExecutionBatchManager, createExecutionBatchManager } from './ExecutionBatchManager';
+export type { BatchOrigin } from './ExecutionBatchManager';
+
+// Execution Batch Store (persisted batches for restart recovery)
+export { ExecutionBatchStore, getExecutionBatchStore } from './ExecutionBatchStore';
+export { recoverInterruptedExecutions } from './ExecutionRecovery';
 
 // iMessage Adapter
 export { iMessageAdapter, getIMessageAdapter, initializeIMessageAdapter } from './iMessageAdapter';
@@ -1,6 +1,6 @@
 import dotenv from 'dotenv';
 import path from 'path';
-import { AppConfig } from '../types';
+import { AppConfig, LLMProviderName } from '../types';
 
 // Load environment variables
 dotenv.config({ path: path.join(__dirname, '../../.env') });
@@ -93,27 +93,140 @@ export const config: AppConfig = {
   security: {
     encryptionKey: process.env.ENCRYPTION_KEY!,
     sessionSecret: process.env.SESSION_SECRET!,
-    rateLimitPerMinute: parseInt(process.env.RATE_LIMIT_PER_MINUTE || '60', 10)
+    rateLimitPerMinute: parseInt(process.env.RATE_LIMIT_PER_MINUTE || '60', 10),
+    adminApiToken: process.env.ADMIN_API_TOKEN,
+    ownerHandles: (process.env.OWNER_HANDLES || '')
+      .split(',')
+      .map(handle => handle.trim())
+      .filter(Boolean),
+    accessMode: process.env.ACCESS_MODE === 'invite' ? 'invite' : 'open',
+    defaultRole: process.env.NEW_USER_ROLE === 'guest' ? 'guest' : 'member'
   },
 
   messaging: {
     typingIndicators: parseBoolean(process.env.TYPING_INDICATORS_ENABLED, true), // Re-enabled with event-driven TypingManager
     typingIndicatorDurationMs: parseInt(process.env.TYPING_INDICATOR_DURATION_MS || '5000', 10),
     maxResponseBurst: parseInt(process.env.MAX_RESPONSE_BURST || '3', 10),
-    responseBurstDelayMs: parseInt(process.env.RESPONSE_BURST_DELAY_MS || '200', 10)
+    responseBurstDelayMs: parseInt(process.env.RESPONSE_BURST_DELAY_MS || '200', 10),
+    groupChatEnabledByDefault: parseBoolean(process.env.GROUP_CHAT_ENABLED_BY_DEFAULT, true),
+    assistantNames: (process.env.ASSISTANT_NAMES || 'Grace')
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean),
+    streamBubbles: parseBoolean(process.env.STREAM_BUBBLES_ENABLED, true),
+    streamSentenceFlushChars: parseInt(process.env.STREAM_SENTENCE_FLUSH_CHARS || '280', 10)
   },
 
   agents: {
     enableDualAgent: parseBoolean(process.env.ENABLE_DUAL_AGENT, false),
     executionTimeoutSeconds: parseInt(process.env.AGENT_EXECUTION_TIMEOUT_SECONDS || '90', 10),
-    maxToolIterations: parseInt(process.env.AGENT_MAX_TOOL_ITERATIONS || '8', 10)
+    maxToolIterations: parseInt(process.env.AGENT_MAX_TOOL_ITERATIONS || '8', 10),
+    resumeInterruptedTasks: parseBoolean(process.env.AGENT_RESUME_INTERRUPTED_TASKS, true),
+    recoveryMaxAgeMinutes: parseInt(process.env.AGENT_RECOVERY_MAX_AGE_MINUTES || '60', 10),
+    maxRecoveryAttempts: parseInt(process.env.AGENT_MAX_RECOVERY_ATTEMPTS || '2', 10)
   },
 
   agentmail: {
     apiKey: process.env.AGENTMAIL_API_KEY || '',
     enabled: parseBoolean(process.env.AGENTMAIL_ENABLED, false),
     defaultDomain: process.env.AGENTMAIL_DEFAULT_DOMAIN || 'agentmail.to',
-    webhookSecret: process.env.AGENTMAIL_WEBHOOK_SECRET
+    webhookSecret: process.env.AGENTMAIL_WEBHOOK_SECRET,
+    summarizeInbound: parseBoolean(process.env.AGENTMAIL_SUMMARIZE_INBOUND, true),
+    triageEnabled: parseBoolean(process.env.AGENTMAIL_TRIAGE_ENABLED, false)
+  },
+
+  google: {
+    clientId: process.env.GOOGLE_CLIENT_ID || '',
+    clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
+    redirectUri: process.env.GOOGLE_REDIRECT_URI || 'http://localhost:3000/auth/google/callback',
+    calendarEnabled: parseBoolean(process.env.GOOGLE_CALENDAR_ENABLED, false),
+    apiBaseUrl: process.env.GOOGLE_API_BASE_URL || undefined,
+    oauthBaseUrl: process.env.GOOGLE_OAUTH_BASE_URL || undefined,
+    calendarId: process.env.GOOGLE_CALENDAR_ID || 'primary',
+    syncIntervalMs: parseInt(process.env.GOOGLE_CALENDAR_SYNC_INTERVAL_MS || '600000', 10),
+    initialSyncDays: parseInt(process.env.GOOGLE_CALENDAR_INITIAL_SYNC_DAYS || '30', 10)
+  },
+
+  transcription: {
+    enabled: parseBoolean(process.env.TRANSCRIPTION_ENABLED, false),
+    provider: (process.env.TRANSCRIPTION_PROVIDER || 'http') as 'local' | 'http',
+    ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+    whisperBinaryPath: process.env.WHISPER_CPP_BINARY || 'whisper-cli',
+    whisperModelPath: process.env.WHISPER_CPP_MODEL,
+    httpUrl: process.env.TRANSCRIPTION_HTTP_URL || 'https://api.openai.com/v1/audio/transcriptions',
+    httpApiKey: process.env.TRANSCRIPTION_HTTP_API_KEY || process.env.OPENAI_API_KEY,
+    httpModel: process.env.TRANSCRIPTION_HTTP_MODEL || 'whisper-1',
+    language: process.env.TRANSCRIPTION_LANGUAGE,
+    timeoutMs: parseInt(process.env.TRANSCRIPTION_TIMEOUT_MS || '60000', 10),
+    maxBytes: parseInt(process.env.TRANSCRIPTION_MAX_BYTES || '26214400', 10)
+  },
+
+  triggers: {
+    pollIntervalMs: parseInt(process.env.TRIGGER_POLL_INTERVAL_MS || '30000', 10),
+    misfireGraceMs: parseInt(process.env.TRIGGER_MISFIRE_GRACE_MS || '300000', 10),
+    maxCatchUpRuns: parseInt(process.env.TRIGGER_MAX_CATCH_UP_RUNS || '24', 10),
+    runLeaseMs: parseInt(process.env.TRIGGER_RUN_LEASE_MS || '900000', 10)
+  },
+
+  reminders: {
+    deliveryMaxAttempts: parseInt(process.env.REMINDER_DELIVERY_MAX_ATTEMPTS || '3', 10),
+    deliveryRetryDelayMs: parseInt(process.env.REMINDER_DELIVERY_RETRY_DELAY_MS || '5000', 10),
+    escalationEnabled: parseBoolean(process.env.REMINDER_ESCALATION_ENABLED, true)
+  },
+
+  retention: {
+    purgeIntervalMs: parseInt(process.env.RETENTION_PURGE_INTERVAL_MS || '21600000', 10),
+    messagesDays: parseInt(process.env.RETENTION_MESSAGES_DAYS || '0', 10),
+    executionLogsDays: parseInt(process.env.RETENTION_EXECUTION_LOGS_DAYS || '30', 10),
+    workingMemoryDays: parseInt(process.env.RETENTION_WORKING_MEMORY_DAYS || '90', 10),
+    triggerRunsDays: parseInt(process.env.RETENTION_TRIGGER_RUNS_DAYS || '90', 10),
+    executionBatchesDays: parseInt(process.env.RETENTION_EXECUTION_BATCHES_DAYS || '30', 10),
+    deletionConfirmMinutes: parseInt(process.env.DATA_DELETION_CONFIRM_MINUTES || '10', 10)
+  },
+
+  embeddings: {
+    provider: (process.env.EMBEDDINGS_PROVIDER || 'local') as 'local' | 'http',
+    dimensions: parseInt(process.env.EMBEDDINGS_DIMENSIONS || '512', 10),
+    httpUrl: process.env.EMBEDDINGS_HTTP_URL || 'https://api.openai.com/v1/embeddings',
+    httpApiKey: process.env.EMBEDDINGS_HTTP_API_KEY || process.env.OPENAI_API_KEY,
+    httpModel: process.env.EMBEDDINGS_HTTP_MODEL || 'text-embedding-3-small',
+    timeoutMs: parseInt(process.env.EMBEDDINGS_TIMEOUT_MS || '15000', 10),
+    backfillEnabled: parseBoolean(process.env.EMBEDDINGS_BACKFILL_ENABLED, true),
+    backfillIntervalMs: parseInt(process.env.EMBEDDINGS_BACKFILL_INTERVAL_MS || '300000', 10),
+    backfillBatchSize: parseInt(process.env.EMBEDDINGS_BACKFILL_BATCH_SIZE || '50', 10),
+    minSimilarity: parseFloat(process.env.EMBEDDINGS_MIN_SIMILARITY || '0.1')
+  },
+  llm: {
+    openai: {
+      baseUrl: process.env.LLM_OPENAI_BASE_URL || 'https://api.openai.com/v1',
+      apiKey: process.env.LLM_OPENAI_API_KEY || process.env.OPENAI_API_KEY
+    },
+    local: {
+      baseUrl: process.env.LLM_LOCAL_BASE_URL || 'http://localhost:11434/v1',
+      apiKey: process.env.LLM_LOCAL_API_KEY
+    },
+    timeoutMs: parseInt(process.env.LLM_HTTP_TIMEOUT_MS || '120000', 10),
+    routes: {
+      interaction: {
+        provider: (process.env.LLM_INTERACTION_PROVIDER || 'anthropic') as LLMProviderName,
+        model: process.env.LLM_INTERACTION_MODEL
+      },
+      execution: {
+        provider: (process.env.LLM_EXECUTION_PROVIDER || 'anthropic') as LLMProviderName,
+        model: process.env.LLM_EXECUTION_MODEL
+      },
+      summarization: {
+        provider: (process.env.LLM_SUMMARIZATION_PROVIDER || 'anthropic') as LLMProviderName,
+        model: process.env.LLM_SUMMARIZATION_MODEL
+      }
+    }
+  },
+  usage: {
+    trackingEnabled: parseBoolean(process.env.USAGE_TRACKING_ENABLED, true),
+    dailyTokenBudget: parseInt(process.env.USAGE_DAILY_TOKEN_BUDGET || '0', 10),
+    monthlyCostBudgetUsd: parseFloat(process.env.USAGE_MONTHLY_COST_BUDGET_USD || '0'),
+    degradedMaxTokens: parseInt(process.env.USAGE_DEGRADED_MAX_TOKENS || '300', 10),
+    budgetCacheMs: parseInt(process.env.USAGE_BUDGET_CACHE_MS || '60000', 10)
   }
 };
 
@@ -9,9 +9,17 @@ import { Reminder } from './entities/Reminder';
 import { CalendarEvent } from './entities/CalendarEvent';
 import { OAuthToken } from './entities/OAuthToken';
 import { Trigger } from './entities/Trigger';
+import { TriggerRun } from './entities/TriggerRun';
 import { ExecutionAgentLog } from './entities/ExecutionAgentLog';
+import { ExecutionBatch } from './entities/ExecutionBatch';
+import { ExecutionTask } from './entities/ExecutionTask';
 import { WorkingMemoryState } from './entities/WorkingMemoryState';
 import { AgentMailInbox } from './entities/AgentMailInbox';
+import { AccessInvite } from './entities/AccessInvite';
+import { ToolPermission } from './entities/ToolPermission';
+import { AuditLog } from './entities/AuditLog';
+import { LLMUsage } from './entities/LLMUsage';
+import { UsageBudget } from './entities/UsageBudget';
 
 export const AppDataSource = new DataSource({
   type: 'postgres',
@@ -27,9 +35,17 @@ export const AppDataSource = new DataSource({
     CalendarEvent,
     OAuthToken,
     Trigger,
+    TriggerRun,
     ExecutionAgentLog,
+    ExecutionBatch,
+    ExecutionTask,
     WorkingMemoryState,
-    AgentMailInbox
+    AgentMailInbox,
+    AccessInvite,
+    ToolPermission,
+    AuditLog,
+    LLMUsage,
+    UsageBudget
   ],
   migrations: ['src/database/migrations/*.ts'],
   subscribers: ['src/database/subscribers/*.ts'],
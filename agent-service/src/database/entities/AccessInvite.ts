@@ -0,0 +1,42 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+import { UserRole } from './User';
+
+export type AccessInviteStatus = 'pending' | 'accepted' | 'revoked';
+
+/**
+ * AccessInvite entity - allowlist entry for a handle that hasn't messaged yet.
+ * When the handle first writes in, the user is created with the invited role.
+ */
+@Entity('access_invites')
+export class AccessInvite {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 255 })
+  handle!: string;
+
+  @Column({ type: 'varchar', length: 20, default: 'member' })
+  role!: UserRole;
+
+  @Column({ type: 'varchar', length: 20, default: 'pending' })
+  status!: AccessInviteStatus;
+
+  @Column({ name: 'invited_by', type: 'varchar', length: 255 })
+  invitedBy!: string;
+
+  @Column({ name: 'expires_at', type: 'timestamp', nullable: true })
+  expiresAt?: Date | null;
+
+  @Column({ name: 'accepted_at', type: 'timestamp', nullable: true })
+  acceptedAt?: Date;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+
+  @Column({ type: 'jsonb', default: {} })
+  metadata!: Record<string, any>;
+}
@@ -0,0 +1,27 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, Index } from 'typeorm';
+
+@Entity('audit_logs')
+@Index(['action', 'createdAt'])
+export class AuditLog {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  // Masked handle, or a system actor such as "admin-api"
+  @Index()
+  @Column({ type: 'varchar', length: 255 })
+  actor!: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  action!: string;
+
+  @Index()
+  @Column({ name: 'user_id', type: 'uuid', nullable: true })
+  userId?: string | null;
+
+  @Column({ type: 'jsonb', default: {} })
+  details!: Record<string, any>;
+
+  @Index()
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
@@ -36,11 +36,14 @@ export class ContextMemory {
   updatedAt!: Date;
 
   @Column({ name: 'expires_at', type: 'timestamp', nullable: true })
-  expiresAt?: Date;
+  expiresAt?: Date | null;
 
   @Column('jsonb', { nullable: true })
   embedding?: any;
 
+  @Column({ name: 'embedding_model', type: 'varchar', length: 100, nullable: true })
+  embeddingModel?: string;
+
   // Relations
   @ManyToOne(() => User, user => user.memories, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'user_id' })
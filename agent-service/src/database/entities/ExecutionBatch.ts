@@ -0,0 +1,55 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, OneToMany, Index } from 'typeorm';
+import { ExecutionTask } from './ExecutionTask';
+
+export type ExecutionBatchStatus = 'running' | 'completed' | 'interrupted';
+
+/**
+ * Enough of the interaction runtime's state to rebuild it after a restart.
+ */
+export interface ExecutionBatchState {
+  userHandle: string;
+  isAdmin: boolean;
+  userRole?: string;
+  conversationHistory: Array<{ role: string; content: string }>;
+  [key: string]: any;
+}
+
+@Entity('execution_batches')
+@Index(['status', 'createdAt'])
+export class ExecutionBatch {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Index()
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId!: string;
+
+  @Column({ name: 'conversation_id', type: 'uuid' })
+  conversationId!: string;
+
+  @Column({ name: 'chat_guid', type: 'varchar', length: 255 })
+  chatGuid!: string;
+
+  @Column({ type: 'varchar', length: 20, default: 'running' })
+  status!: ExecutionBatchStatus;
+
+  @Column({ type: 'jsonb', default: {} })
+  state!: ExecutionBatchState;
+
+  /** Startup recovery passes that have claimed this batch */
+  @Column({ name: 'recovery_attempts', type: 'integer', default: 0 })
+  recoveryAttempts!: number;
+
+  @Column({ name: 'completed_at', type: 'timestamp', nullable: true })
+  completedAt?: Date;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+
+  // Relations
+  @OneToMany(() => ExecutionTask, task => task.batch)
+  tasks!: ExecutionTask[];
+}
@@ -0,0 +1,63 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { ExecutionBatch } from './ExecutionBatch';
+
+export type ExecutionTaskStatus = 'pending' | 'succeeded' | 'failed' | 'interrupted';
+
+/**
+ * Tool calls an execution agent finished before the task completed (or was cut off).
+ */
+export interface ExecutionTaskProgress {
+  toolName: string;
+  success: boolean;
+  summary: string;
+  at: string;
+}
+
+@Entity('execution_tasks')
+@Index(['batchId', 'status'])
+export class ExecutionTask {
+  /** The request ID from send_message_to_agent */
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'batch_id', type: 'uuid' })
+  batchId!: string;
+
+  @Column({ name: 'agent_name', type: 'varchar', length: 255 })
+  agentName!: string;
+
+  @Column({ type: 'text' })
+  instructions!: string;
+
+  @Column({ type: 'varchar', length: 20, default: 'pending' })
+  status!: ExecutionTaskStatus;
+
+  @Column({ type: 'integer', default: 1 })
+  attempts!: number;
+
+  @Column({ type: 'jsonb', default: [] })
+  progress!: ExecutionTaskProgress[];
+
+  @Column({ type: 'text', nullable: true })
+  response?: string;
+
+  @Column({ type: 'text', nullable: true })
+  error?: string;
+
+  @Column({ name: 'tools_used', type: 'jsonb', default: [] })
+  toolsUsed!: string[];
+
+  @Column({ name: 'finished_at', type: 'timestamp', nullable: true })
+  finishedAt?: Date;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+
+  // Relations
+  @ManyToOne(() => ExecutionBatch, batch => batch.tasks, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'batch_id' })
+  batch!: ExecutionBatch;
+}
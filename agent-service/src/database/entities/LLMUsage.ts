@@ -0,0 +1,44 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, Index } from 'typeorm';
+
+/**
+ * One model request: who it was for, which role and model served it, and
+ * what it cost. Requests made outside a conversation have no user.
+ */
+@Entity('llm_usage')
+@Index(['userId', 'createdAt'])
+export class LLMUsage {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'user_id', type: 'uuid', nullable: true })
+  userId?: string | null;
+
+  @Index()
+  @Column({ name: 'conversation_id', type: 'uuid', nullable: true })
+  conversationId?: string | null;
+
+  @Column({ type: 'varchar', length: 30 })
+  role!: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  provider!: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  model!: string;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  description?: string | null;
+
+  @Column({ name: 'input_tokens', type: 'integer', default: 0 })
+  inputTokens!: number;
+
+  @Column({ name: 'output_tokens', type: 'integer', default: 0 })
+  outputTokens!: number;
+
+  @Column({ name: 'cost_usd', type: 'double precision', default: 0 })
+  costUsd!: number;
+
+  @Index()
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
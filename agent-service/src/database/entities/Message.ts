@@ -35,6 +35,9 @@ export class Message {
   @Column({ type: 'jsonb', nullable: true })
   embedding?: any;
 
+  @Column({ name: 'embedding_model', type: 'varchar', length: 100, nullable: true })
+  embeddingModel?: string;
+
   // Relations
   @ManyToOne(() => Conversation, conversation => conversation.messages, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'conversation_id' })
@@ -26,6 +26,10 @@ export class OAuthToken {
   @Column({ type: 'text', array: true, nullable: true })
   scopes?: string[];
 
+  // Provider-specific state, e.g. the calendar sync token
+  @Column({ type: 'jsonb', default: {} })
+  metadata!: Record<string, any>;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt!: Date;
 
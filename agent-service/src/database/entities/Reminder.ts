@@ -1,6 +1,6 @@
 import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
 import { User } from './User';
-import { ReminderMetadata } from '../../types';
+import { ReminderMetadata, ReminderStatus } from '../../types';
 
 @Entity('reminders')
 @Index(['userId', 'status'])
@@ -25,7 +25,7 @@ export class Reminder {
 
   @Index()
   @Column({ type: 'varchar', length: 50, default: 'pending' })
-  status!: 'pending' | 'sent' | 'snoozed' | 'cancelled';
+  status!: ReminderStatus;
 
   @Column({ type: 'jsonb', default: {} })
   metadata!: ReminderMetadata;
@@ -0,0 +1,38 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User, UserRole } from './User';
+
+/**
+ * ToolPermission entity - per-tool override of the tool's default permission level.
+ * A row applies either to a single user (userId) or to every user with a role.
+ * User-specific rows win over role rows.
+ */
+@Entity('tool_permissions')
+@Index(['toolName', 'role'], { unique: true, where: 'role IS NOT NULL' })
+@Index(['toolName', 'userId'], { unique: true, where: 'user_id IS NOT NULL' })
+export class ToolPermission {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Index()
+  @Column({ name: 'tool_name', type: 'varchar', length: 100 })
+  toolName!: string;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  role?: UserRole | null;
+
+  @Column({ name: 'user_id', type: 'uuid', nullable: true })
+  userId?: string | null;
+
+  @Column({ type: 'boolean' })
+  allowed!: boolean;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'user_id' })
+  user?: User;
+}
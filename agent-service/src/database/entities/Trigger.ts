@@ -9,6 +9,14 @@ export interface TriggerMetadata {
   [key: string]: any;
 }
 
+/**
+ * What to do with occurrences missed while no scheduler was running:
+ * - fire_once: run the most recent missed occurrence, record the rest as skipped
+ * - fire_all: run every missed occurrence (capped by TRIGGER_MAX_CATCH_UP_RUNS)
+ * - skip: record missed occurrences as skipped and wait for the next one
+ */
+export type TriggerMisfirePolicy = 'fire_once' | 'fire_all' | 'skip';
+
 @Entity('triggers')
 @Index(['userId', 'status'])
 @Index(['nextTrigger', 'status'])
@@ -39,6 +47,9 @@ export class Trigger {
   @Column({ type: 'varchar', length: 50, default: 'America/Chicago' })
   timezone!: string;
 
+  @Column({ name: 'misfire_policy', type: 'varchar', length: 20, default: 'fire_once' })
+  misfirePolicy!: TriggerMisfirePolicy;
+
   @Index()
   @Column({ type: 'varchar', length: 20, default: 'active' })
   status!: 'active' | 'paused' | 'completed';
@@ -0,0 +1,68 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { Trigger } from './Trigger';
+
+export type TriggerRunStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export interface TriggerRunMetadata {
+  manual?: boolean;
+  misfire?: boolean;
+  toolsUsed?: string[];
+  [key: string]: any;
+}
+
+@Entity('trigger_runs')
+@Index(['triggerId', 'scheduledFor'], { unique: true })
+@Index(['userId', 'createdAt'])
+@Index(['status', 'claimedAt'])
+export class TriggerRun {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Index()
+  @Column({ name: 'trigger_id', type: 'integer' })
+  triggerId!: number;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId!: string;
+
+  @Column({ name: 'agent_name', type: 'varchar', length: 255 })
+  agentName!: string;
+
+  @Column({ name: 'scheduled_for', type: 'timestamp' })
+  scheduledFor!: Date;
+
+  @Column({ type: 'varchar', length: 20, default: 'pending' })
+  status!: TriggerRunStatus;
+
+  @Column({ name: 'claimed_by', type: 'varchar', length: 255, nullable: true })
+  claimedBy?: string;
+
+  @Column({ name: 'claimed_at', type: 'timestamp', nullable: true })
+  claimedAt?: Date;
+
+  @Column({ name: 'started_at', type: 'timestamp', nullable: true })
+  startedAt?: Date;
+
+  @Column({ name: 'finished_at', type: 'timestamp', nullable: true })
+  finishedAt?: Date;
+
+  @Column({ type: 'text', nullable: true })
+  output?: string;
+
+  @Column({ type: 'text', nullable: true })
+  error?: string;
+
+  @Column({ type: 'jsonb', default: {} })
+  metadata!: TriggerRunMetadata;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+
+  // Relations
+  @ManyToOne(() => Trigger, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'trigger_id' })
+  trigger!: Trigger;
+}
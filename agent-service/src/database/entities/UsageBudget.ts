@@ -0,0 +1,23 @@
+import { Entity, Column, PrimaryColumn, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+
+/**
+ * Per-user override of the default usage budgets. A null limit falls back
+ * to the configured default; 0 means unlimited.
+ */
+@Entity('usage_budgets')
+export class UsageBudget {
+  @PrimaryColumn({ name: 'user_id', type: 'uuid' })
+  userId!: string;
+
+  @Column({ name: 'daily_token_limit', type: 'integer', nullable: true })
+  dailyTokenLimit?: number | null;
+
+  @Column({ name: 'monthly_cost_limit_usd', type: 'double precision', nullable: true })
+  monthlyCostLimitUsd?: number | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
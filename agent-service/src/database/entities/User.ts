@@ -7,6 +7,8 @@ import { CalendarEvent } from './CalendarEvent';
 import { OAuthToken } from './OAuthToken';
 import { UserPreferences } from '../../types';
 
+export type UserRole = 'owner' | 'admin' | 'member' | 'guest' | 'blocked';
+
 @Entity('users')
 export class User {
   @PrimaryGeneratedColumn('uuid')
@@ -36,6 +38,10 @@ export class User {
   @Column({ name: 'is_active', type: 'boolean', default: true })
   isActive!: boolean;
 
+  @Index()
+  @Column({ type: 'varchar', length: 20, default: 'member' })
+  role!: UserRole;
+
   // Relations
   @OneToMany(() => Conversation, conversation => conversation.user)
   conversations!: Conversation[];
@@ -0,0 +1,183 @@
+import Anthropic from '@anthropic-ai/sdk';
+
+/**
+ * One scripted model turn: optional text plus any tool calls to make.
+ */
+export interface ScriptedResponse {
+  text?: string;
+  toolCalls?: Array<{ name: string; input: Record<string, any> }>;
+}
+
+// Tool input is streamed in chunks this size, like input_json_delta events
+const STREAM_CHUNK_CHARS = 16;
+
+export interface RecordedRequest {
+  role: 'interaction' | 'agent_results' | 'execution';
+  agentName?: string;
+  params: Anthropic.MessageCreateParamsNonStreaming;
+}
+
+/**
+ * Anthropic client stand-in that replays scripted responses.
+ *
+ * Requests offering `send_message_to_user` come from the interaction agent.
+ * They are served in order from one queue while it handles the user's
+ * message and from a second queue once agent results come back, so the two
+ * loops can interleave without stealing each other's responses. Execution
+ * agent requests are matched to the agent that was sent their instructions
+ * and served from that agent's queue, so agents running side by side stay
+ * deterministic.
+ *
+ * `messages.stream` serves the same responses and replays each tool call's
+ * input as small `input_json_delta` events before resolving.
+ */
+export class FakeAnthropicClient {
+  readonly requests: RecordedRequest[] = [];
+
+  readonly messages = {
+    create: async (params: Anthropic.MessageCreateParamsNonStreaming): Promise<Anthropic.Message> => this.create(params),
+    stream: (params: Anthropic.MessageCreateParamsNonStreaming): FakeMessageStream =>
+      new FakeMessageStream(this.create(params))
+  };
+
+  private interactionQueue: ScriptedResponse[] = [];
+  private agentResultsQueue: ScriptedResponse[] = [];
+  private agentQueues = new Map<string, ScriptedResponse[]>();
+  private agentsByInstructions = new Map<string, string>();
+  private sequence = 0;
+
+  /**
+   * Queue the responses for the next user turn.
+   */
+  enqueue(
+    interaction: ScriptedResponse[],
+    agentResults: ScriptedResponse[] = [],
+    agents: Record<string, ScriptedResponse[]> = {}
+  ): void {
+    this.interactionQueue.push(...interaction);
+    this.agentResultsQueue.push(...agentResults);
+    for (const [agentName, responses] of Object.entries(agents)) {
+      this.agentQueues.set(agentName, [...(this.agentQueues.get(agentName) ?? []), ...responses]);
+    }
+  }
+
+  /**
+   * Scripted responses that were never requested, described for a report.
+   */
+  getUnusedResponses(): string[] {
+    const unused = [
+      ...this.interactionQueue.map(response => `interaction: ${describeResponse(response)}`),
+      ...this.agentResultsQueue.map(response => `agent results: ${describeResponse(response)}`)
+    ];
+    for (const [agentName, responses] of this.agentQueues) {
+      unused.push(...responses.map(response => `${agentName}: ${describeResponse(response)}`));
+    }
+    return unused;
+  }
+
+  asClient(): Anthropic {
+    return this as unknown as Anthropic;
+  }
+
+  private async create(params: Anthropic.MessageCreateParamsNonStreaming): Promise<Anthropic.Message> {
+    const isInteraction = (params.tools ?? []).some(tool => tool.name === 'send_message_to_user');
+    const first = params.messages[0];
+    const firstText = typeof first?.content === 'string' ? first.content : '';
+
+    if (isInteraction) {
+      const role = firstText.includes('<new_agent_message>') ? 'agent_results' : 'interaction';
+      this.requests.push({ role, params });
+      const response = (role === 'interaction' ? this.interactionQueue : this.agentResultsQueue).shift();
+      if (!response) {
+        throw new Error(`Scenario ran out of scripted ${role.replace('_', ' ')} responses`);
+      }
+
+      // Remember who got which instructions so their requests can be routed
+      for (const call of response.toolCalls ?? []) {
+        if (call.name === 'send_message_to_agent') {
+          this.agentsByInstructions.set(String(call.input.instructions), String(call.input.agent_name));
+        }
+      }
+      return this.buildMessage(params, response);
+    }
+
+    const instructions = firstText;
+    const agentName = this.agentsByInstructions.get(instructions);
+    this.requests.push({ role: 'execution', agentName, params });
+
+    if (!agentName) {
+      throw new Error(`No execution agent was sent instructions "${instructions.substring(0, 60)}"`);
+    }
+
+    const response = this.agentQueues.get(agentName)?.shift();
+    if (!response) {
+      throw new Error(`Scenario ran out of scripted responses for agent "${agentName}"`);
+    }
+    return this.buildMessage(params, response);
+  }
+
+  private buildMessage(params: Anthropic.MessageCreateParamsNonStreaming, response: ScriptedResponse): Anthropic.Message {
+    const content: any[] = [];
+    if (response.text) {
+      content.push({ type: 'text', text: response.text, citations: null });
+    }
+    for (const call of response.toolCalls ?? []) {
+      content.push({ type: 'tool_use', id: `toolu_eval_${++this.sequence}`, name: call.name, input: call.input });
+    }
+
+    return {
+      id: `msg_eval_${++this.sequence}`,
+      type: 'message',
+      role: 'assistant',
+      model: params.model,
+      content,
+      stop_reason: response.toolCalls?.length ? 'tool_use' : 'end_turn',
+      stop_sequence: null,
+      usage: { input_tokens: 0, output_tokens: 0 }
+    } as unknown as Anthropic.Message;
+  }
+}
+
+type StreamEventListener = (event: Record<string, any>, snapshot: Anthropic.Message) => void;
+
+/**
+ * The slice of the SDK's MessageStream that AnthropicProvider uses.
+ */
+class FakeMessageStream {
+  private listeners: StreamEventListener[] = [];
+
+  constructor(private readonly message: Promise<Anthropic.Message>) {}
+
+  on(event: string, listener: StreamEventListener): this {
+    if (event === 'streamEvent') {
+      this.listeners.push(listener);
+    }
+    return this;
+  }
+
+  async finalMessage(): Promise<Anthropic.Message> {
+    const message = await this.message;
+
+    message.content.forEach((block, index) => {
+      if (block.type !== 'tool_use') {
+        return;
+      }
+      const json = JSON.stringify(block.input ?? {});
+      for (let offset = 0; offset < json.length; offset += STREAM_CHUNK_CHARS) {
+        const event = {
+          type: 'content_block_delta',
+          index,
+          delta: { type: 'input_json_delta', partial_json: json.slice(offset, offset + STREAM_CHUNK_CHARS) }
+        };
+        this.listeners.forEach(listener => listener(event, message));
+      }
+    });
+
+    return message;
+  }
+}
+
+const describeResponse = (response: ScriptedResponse): string => {
+  const calls = (response.toolCalls ?? []).map(call => call.name);
+  return calls.length > 0 ? `tools ${calls.join(', ')}` : `text "${(response.text ?? '').substring(0, 40)}"`;
+};
@@ -0,0 +1,33 @@
+import { BlueBubblesClient } from '../integrations/BlueBubblesClient';
+
+export interface RecordedReaction {
+  chatGuid: string;
+  messageGuid: string;
+  reaction: string;
+}
+
+/**
+ * BlueBubblesClient stand-in that records outgoing traffic instead of
+ * talking to a BlueBubbles server. It never connects.
+ */
+export class FakeBlueBubblesClient extends BlueBubblesClient {
+  readonly bubbles: Array<{ chatGuid: string; text: string }> = [];
+  readonly reactions: RecordedReaction[] = [];
+  readonly typing: Array<{ chatGuid: string; active: boolean }> = [];
+
+  async sendMessage(chatGuid: string, text: string): Promise<void> {
+    this.bubbles.push({ chatGuid, text });
+  }
+
+  async sendReaction(chatGuid: string, messageGuid: string, reaction: string): Promise<void> {
+    this.reactions.push({ chatGuid, messageGuid, reaction });
+  }
+
+  async startTypingIndicator(chatGuid: string): Promise<void> {
+    this.typing.push({ chatGuid, active: true });
+  }
+
+  async stopTypingIndicator(chatGuid: string): Promise<void> {
+    this.typing.push({ chatGuid, active: false });
+  }
+}
@@ -0,0 +1,332 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createInteractionAgentRuntime, initializeIMessageAdapter } from '../agents';
+import { getToolRegistry } from '../tools/ToolRegistry';
+import { BaseTool, ITool, ToolDefinition, ToolExecutionContext, ToolResult } from '../tools/Tool';
+import { UserRole } from '../database/entities/User';
+import { AnthropicProvider, setLLMProviderOverride } from '../services/LLMService';
+import { FakeAnthropicClient, ScriptedResponse } from './FakeAnthropicClient';
+import { FakeBlueBubblesClient } from './FakeBlueBubblesClient';
+
+export const DEFAULT_SCENARIO_DIR = path.join(__dirname, 'scenarios');
+
+const AGENT_WAIT_TIMEOUT_MS = 10000;
+
+export interface ScenarioTurn {
+  /** Text of the incoming iMessage */
+  user: string;
+  /** Interaction agent responses while handling the user's message */
+  interaction: ScriptedResponse[];
+  /** Interaction agent responses once execution agent results come back */
+  agentResults?: ScriptedResponse[];
+  /** Execution agent responses keyed by agent name */
+  agents?: Record<string, ScriptedResponse[]>;
+}
+
+export interface ScenarioExpectations {
+  /** Each entry must appear (case-insensitive) in a sent bubble, in this order */
+  bubbles?: string[];
+  bubbleCount?: number;
+  /** No sent bubble may contain any of these */
+  forbiddenBubbles?: string[];
+  /** Tapback reactions sent, in order */
+  reactions?: string[];
+  /** Execution tools that must have been called */
+  toolCalls?: string[];
+  agentsSpawned?: string[];
+  /** Partial matches against create_reminder / create_trigger inputs */
+  reminders?: Array<Record<string, string>>;
+  triggers?: Array<Record<string, string>>;
+}
+
+export interface Scenario {
+  name: string;
+  description?: string;
+  user?: { handle?: string; role?: UserRole };
+  history?: Array<{ role: string; content: string }>;
+  /** Results returned by stubbed tools, keyed by tool name */
+  toolResults?: Record<string, ToolResult>;
+  turns: ScenarioTurn[];
+  expect: ScenarioExpectations;
+}
+
+export interface RecordedToolCall {
+  name: string;
+  input: Record<string, any>;
+}
+
+export interface ScenarioResult {
+  name: string;
+  file?: string;
+  passed: boolean;
+  failures: string[];
+  durationMs: number;
+  bubbles: string[];
+  reactions: string[];
+  toolCalls: RecordedToolCall[];
+}
+
+/**
+ * Stands in for a registered tool so execution agents can run without a
+ * database, Redis or outside APIs. Calls are recorded for assertions.
+ */
+class RecordingTool extends BaseTool {
+  constructor(private readonly original: ITool, private readonly runner: ScenarioRunner) {
+    super();
+  }
+
+  getDefinition(): ToolDefinition {
+    return this.original.getDefinition();
+  }
+
+  getRequiredPermission() {
+    return this.original.getRequiredPermission();
+  }
+
+  async execute(input: any): Promise<ToolResult> {
+    return this.runner.recordToolCall(this.getDefinition().name, input ?? {});
+  }
+}
+
+/**
+ * ScenarioRunner replays scripted conversations through the interaction and
+ * execution agent runtimes with a fake Anthropic client, a fake BlueBubbles
+ * client and recording tool stubs, then checks what the user would have seen.
+ */
+export class ScenarioRunner {
+  private toolCalls: RecordedToolCall[] = [];
+  private toolResults: Record<string, ToolResult> = {};
+  private toolsStubbed = false;
+
+  async run(scenario: Scenario): Promise<ScenarioResult> {
+    const startedAt = Date.now();
+    const failures: string[] = [];
+    const blueBubbles = new FakeBlueBubblesClient();
+    const anthropic = new FakeAnthropicClient();
+    const agentsSpawned: string[] = [];
+
+    this.stubTools();
+    this.toolCalls = [];
+    this.toolResults = scenario.toolResults ?? {};
+    initializeIMessageAdapter(blueBubbles, 0);
+    setLLMProviderOverride(new AnthropicProvider(anthropic.asClient()));
+
+    const chatGuid = `iMessage;-;eval-${scenario.name}`;
+    const context: ToolExecutionContext = {
+      userHandle: scenario.user?.handle ?? '+15555550100',
+      userId: 'eval-user',
+      conversationId: 'eval-conversation',
+      isAdmin: false,
+      userRole: scenario.user?.role ?? 'owner',
+      chatGuid
+    };
+    const history = [...(scenario.history ?? [])];
+
+    try {
+      for (const [index, turn] of scenario.turns.entries()) {
+        anthropic.enqueue(turn.interaction, turn.agentResults, turn.agents);
+        const bubblesBefore = blueBubbles.bubbles.length;
+
+        const runtime = createInteractionAgentRuntime(
+          context.conversationId,
+          context.userId,
+          chatGuid,
+          context,
+          [...history],
+          `eval-message-${index + 1}`,
+          turn.user
+        );
+
+        const result = await runtime.processUserMessage(turn.user);
+        agentsSpawned.push(...result.agentsSpawned);
+        if (!result.success) {
+          failures.push(`turn ${index + 1}: interaction agent failed: ${result.error}`);
+        }
+
+        if (!(await this.waitForAgents(() => runtime.getPendingAgentCount()))) {
+          failures.push(`turn ${index + 1}: execution agents still running after ${AGENT_WAIT_TIMEOUT_MS}ms`);
+        }
+
+        history.push({ role: 'user', content: turn.user });
+        const replies = blueBubbles.bubbles.slice(bubblesBefore).map(bubble => bubble.text);
+        if (replies.length > 0) {
+          history.push({ role: 'assistant', content: replies.join('\n') });
+        }
+      }
+    } catch (error: any) {
+      failures.push(`scenario threw: ${error.message || error}`);
+    } finally {
+      setLLMProviderOverride(null);
+    }
+
+    for (const request of anthropic.requests) {
+      if (request.role === 'execution' && !request.agentName) {
+        failures.push('execution request could not be matched to a scripted agent');
+      }
+    }
+    for (const unused of anthropic.getUnusedResponses()) {
+      failures.push(`scripted response never requested (${unused})`);
+    }
+
+    const bubbles = blueBubbles.bubbles.map(bubble => bubble.text);
+    const reactions = blueBubbles.reactions.map(reaction => reaction.reaction);
+    failures.push(...this.checkExpectations(scenario.expect, { bubbles, reactions, agentsSpawned }));
+
+    return {
+      name: scenario.name,
+      passed: failures.length === 0,
+      failures,
+      durationMs: Date.now() - startedAt,
+      bubbles,
+      reactions,
+      toolCalls: this.toolCalls
+    };
+  }
+
+  /**
+   * Called by the tool stubs. Reminders and triggers get a fake ID so the
+   * agent can refer to what it created.
+   */
+  recordToolCall(name: string, input: Record<string, any>): ToolResult {
+    this.toolCalls.push({ name, input });
+
+    const scripted = this.toolResults[name];
+    if (scripted) {
+      return scripted;
+    }
+
+    const id = `eval-${name}-${this.toolCalls.length}`;
+    return { success: true, data: { id, ...input } };
+  }
+
+  private stubTools(): void {
+    if (this.toolsStubbed) {
+      return;
+    }
+
+    const registry = getToolRegistry();
+    for (const definition of registry.getToolDefinitions()) {
+      const tool = registry.getTool(definition.name);
+      if (tool) {
+        registry.registerTool(new RecordingTool(tool, this));
+      }
+    }
+    this.toolsStubbed = true;
+  }
+
+  private async waitForAgents(pendingCount: () => number): Promise<boolean> {
+    const deadline = Date.now() + AGENT_WAIT_TIMEOUT_MS;
+    while (pendingCount() > 0) {
+      if (Date.now() > deadline) {
+        return false;
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    return true;
+  }
+
+  private checkExpectations(
+    expect: ScenarioExpectations,
+    observed: { bubbles: string[]; reactions: string[]; agentsSpawned: string[] }
+  ): string[] {
+    const failures: string[] = [];
+    const contains = (haystack: unknown, needle: string) =>
+      String(haystack ?? '').toLowerCase().includes(needle.toLowerCase());
+
+    let cursor = 0;
+    for (const expected of expect.bubbles ?? []) {
+      const found = observed.bubbles.findIndex((bubble, index) => index >= cursor && contains(bubble, expected));
+      if (found < 0) {
+        failures.push(`expected a bubble containing "${expected}"`);
+      } else {
+        cursor = found + 1;
+      }
+    }
+
+    if (expect.bubbleCount !== undefined && observed.bubbles.length !== expect.bubbleCount) {
+      failures.push(`expected ${expect.bubbleCount} bubble(s), got ${observed.bubbles.length}`);
+    }
+
+    for (const forbidden of expect.forbiddenBubbles ?? []) {
+      if (observed.bubbles.some(bubble => contains(bubble, forbidden))) {
+        failures.push(`no bubble should contain "${forbidden}"`);
+      }
+    }
+
+    if (expect.reactions && expect.reactions.join(',') !== observed.reactions.join(',')) {
+      failures.push(`expected reactions [${expect.reactions.join(', ')}], got [${observed.reactions.join(', ')}]`);
+    }
+
+    for (const agentName of expect.agentsSpawned ?? []) {
+      if (!observed.agentsSpawned.includes(agentName)) {
+        failures.push(`expected agent "${agentName}" to be spawned`);
+      }
+    }
+
+    for (const toolName of expect.toolCalls ?? []) {
+      if (!this.toolCalls.some(call => call.name === toolName)) {
+        failures.push(`expected tool "${toolName}" to be called`);
+      }
+    }
+
+    const checkCreated = (kind: string, toolName: string, expected: Array<Record<string, string>> = []) => {
+      const created = this.toolCalls.filter(call => call.name === toolName).map(call => call.input);
+      for (const fields of expected) {
+        const match = created.some(input => Object.entries(fields).every(([key, value]) => contains(input[key], value)));
+        if (!match) {
+          failures.push(`expected a ${kind} matching ${JSON.stringify(fields)}`);
+        }
+      }
+    };
+    checkCreated('reminder', 'create_reminder', expect.reminders);
+    checkCreated('trigger', 'create_trigger', expect.triggers);
+
+    return failures;
+  }
+}
+
+/**
+ * Load scenarios from JSON files and/or directories of JSON files.
+ */
+export async function loadScenarios(paths: string[]): Promise<Array<{ file: string; scenario: Scenario }>> {
+  const files: string[] = [];
+  for (const target of paths) {
+    const stat = await fs.stat(target);
+    if (stat.isDirectory()) {
+      const entries = (await fs.readdir(target)).filter(entry => entry.endsWith('.json')).sort();
+      files.push(...entries.map(entry => path.join(target, entry)));
+    } else {
+      files.push(target);
+    }
+  }
+
+  const scenarios: Array<{ file: string; scenario: Scenario }> = [];
+  for (const file of files) {
+    const scenario = JSON.parse(await fs.readFile(file, 'utf8')) as Scenario;
+    if (!scenario.name || !Array.isArray(scenario.turns) || !scenario.expect) {
+      throw new Error(`${file}: a scenario needs a name, turns and expect`);
+    }
+    scenarios.push({ file, scenario });
+  }
+  return scenarios;
+}
+
+/**
+ * Plain-text pass/fail report.
+ */
+export function formatScenarioReport(results: ScenarioResult[]): string {
+  const lines: string[] = [];
+  for (const result of results) {
+    lines.push(`${result.passed ? 'PASS' : 'FAIL'}  ${result.name} (${result.durationMs}ms)`);
+    for (const failure of result.failures) {
+      lines.push(`        - ${failure}`);
+    }
+    if (!result.passed && result.bubbles.length > 0) {
+      lines.push(`        sent: ${result.bubbles.map(bubble => JSON.stringify(bubble)).join(', ')}`);
+    }
+  }
+
+  const passed = results.filter(result => result.passed).length;
+  lines.push('', `${results.length} scenario(s): ${passed} passed, ${results.length - passed} failed`);
+  return lines.join('\n');
+}
@@ -0,0 +1,20 @@
+/**
+ * Placeholder values for the settings config/index.ts refuses to start
+ * without, so scenarios can run in CI with no .env. Real values win.
+ * Import this before anything that loads the config.
+ */
+const PLACEHOLDERS: Record<string, string> = {
+  ANTHROPIC_API_KEY: 'offline-eval',
+  BLUEBUBBLES_URL: 'http://localhost:1234',
+  BLUEBUBBLES_PASSWORD: 'offline-eval',
+  DATABASE_URL: 'postgresql://offline-eval@localhost:5432/offline-eval',
+  REDIS_URL: 'redis://localhost:6379',
+  ENCRYPTION_KEY: 'offline-eval-encryption-key-000000',
+  SESSION_SECRET: 'offline-eval'
+};
+
+for (const [name, value] of Object.entries(PLACEHOLDERS)) {
+  if (!process.env[name]) {
+    process.env[name] = value;
+  }
+}
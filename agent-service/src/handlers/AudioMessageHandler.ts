@@ -1,11 +1,11 @@
 import { BaseMessageHandler, ProcessedMessage } from './MessageHandler';
 import { BlueBubblesMessage } from '../types';
 import { logDebug, logWarn } from '../utils/logger';
+import { getTranscriptionService } from '../services/TranscriptionService';
 
 /**
- * Handler for messages with audio attachments. Currently acts as a placeholder
- * until transcription support is implemented, but preserves structure used by
- * the compiled runtime.
+ * Handler for messages with audio attachments. Voice memos are downloaded from
+ * BlueBubbles and transcribed via the configured TranscriptionService.
  */
 export class AudioMessageHandler extends BaseMessageHandler {
   private readonly audioExtensions = ['m4a', 'mp3', 'wav', 'aac', 'ogg', 'caf'];
@@ -31,13 +31,17 @@ export class AudioMessageHandler extends BaseMessageHandler {
     for (const attachment of message.attachments || []) {
       if (this.isAudioAttachment(attachment.mime_type || attachment.transfer_name || '')) {
         try {
-          const transcription = await this.transcribeAudio(attachment.guid);
-          if (transcription) {
+          const result = await getTranscriptionService().transcribeAttachment(attachment);
+          if (result) {
             processed.audio = {
-              transcription,
-              duration: attachment.total_bytes
+              transcription: result.text,
+              duration: result.durationSeconds,
+              language: result.language,
+              provider: result.provider
             };
-            processed.text = `${processed.text}\n\n[Audio transcription]: ${transcription}`;
+            processed.text = `${processed.text}\n\n[Audio transcription]: ${result.text}`;
+          } else {
+            processed.text = `${processed.text}\n\n[Audio message - transcription unavailable]`;
           }
         } catch (error: any) {
           logWarn('Failed to transcribe audio', {
@@ -60,10 +64,4 @@ export class AudioMessageHandler extends BaseMessageHandler {
     const lower = identifier.toLowerCase();
     return this.audioExtensions.some(ext => lower.includes(ext)) || lower.includes('audio/');
   }
-
-  // TODO: Implement real transcription service (e.g. Whisper, AssemblyAI).
-  private async transcribeAudio(_attachmentGuid: string): Promise<string | null> {
-    logWarn('Audio transcription not yet implemented');
-    return null;
-  }
 }
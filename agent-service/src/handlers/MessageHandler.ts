@@ -13,6 +13,8 @@ export interface ProcessedMessage {
   audio?: {
     transcription: string;
     duration?: number;
+    language?: string;
+    provider?: string;
   };
   files?: Array<{
     name: string;
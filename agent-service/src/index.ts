@@ -9,6 +9,13 @@ import { getMessageRouter, MessageRouter } from './services/MessageRouter';
 import { getReminderService } from './services/ReminderService';
 import { getContextService } from './services/ContextService';
 import { startTriggerScheduler, stopTriggerScheduler } from './services/TriggerScheduler';
+import { startEmbeddingBackfill, stopEmbeddingBackfill } from './services/EmbeddingBackfill';
+import { startCalendarSync, stopCalendarSync } from './services/CalendarSync';
+import { startRetentionPurge, stopRetentionPurge } from './services/RetentionPurge';
+import { getGoogleCalendarService } from './services/GoogleCalendarService';
+import { getEmailBridgeService, parseInboundEmail } from './services/EmailBridgeService';
+import { createAdminApiRouter } from './routes/adminApi';
+import { recoverInterruptedExecutions } from './agents';
 import { logInfo, logError, logWarn, logDebug } from './utils/logger';
 import { config } from './config';
 
@@ -26,7 +33,9 @@ let globalMessageRouter: MessageRouter | null = null;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Archive imports are parsed by the admin API with a larger limit, after authentication
+const jsonParser = express.json();
+app.use((req, res, next) => (req.path === '/admin/api/import' ? next() : jsonParser(req, res, next)));
 app.use(express.urlencoded({ extended: true }));
 
 // Request logging middleware
@@ -317,38 +326,22 @@ app.post('/webhook/email', async (req, res) => {
       }
     }
 
-    const { event, data } = req.body;
-    logInfo('Received AgentMail webhook', { event, inboxId: data?.inboxId });
+    const email = parseInboundEmail(req.body);
+    logInfo('Received AgentMail webhook', {
+      event: req.body?.event ?? req.body?.event_type,
+      inboxId: email?.inboxId
+    });
 
-    if (event === 'message.received' && data) {
+    if (email) {
       logInfo('Received email to Grace inbox', {
-        from: data.from,
-        subject: data.subject?.substring(0, 50),
-        inboxId: data.inboxId
+        from: email.from,
+        subject: email.subject.substring(0, 50),
+        inboxId: email.inboxId
       });
-      
-      // Notify admin user via iMessage about incoming email
-      try {
-        const { getSecurityManager } = await import('./middleware/security');
-        const { BlueBubblesClient } = await import('./integrations/BlueBubblesClient');
-        
-        const securityManager = getSecurityManager();
-        const adminHandles = securityManager.getAdminHandles();
-        
-        if (adminHandles.length > 0) {
-          const bbClient = new BlueBubblesClient();
-          const notificationText = `📧 New email received!\nFrom: ${data.from}\nSubject: ${data.subject || '(no subject)'}`;
-          
-          // Notify first admin
-          const adminHandle = adminHandles[0];
-          const chatGuid = await bbClient.findChatGuidByHandle(adminHandle);
-          if (chatGuid) {
-            await bbClient.sendMessage(chatGuid, notificationText);
-            logInfo('Sent email notification to admin via iMessage', { adminHandle });
-          }
-        }
-      } catch (notifyError) {
-        logWarn('Failed to send email notification to admin', { error: notifyError });
+
+      const result = await getEmailBridgeService().handleInboundEmail(email);
+      if (!result.success) {
+        logWarn('Inbound email was not routed to a user', { error: result.error });
       }
     }
 
@@ -359,6 +352,40 @@ app.post('/webhook/email', async (req, res) => {
   }
 });
 
+// Google OAuth callback for the link sent by the connect_calendar tool
+app.get('/auth/google/callback', async (req, res) => {
+  const page = (message: string) =>
+    `<!doctype html><html><body style="font-family: sans-serif; text-align: center; padding: 3em;"><p>${message}</p></body></html>`;
+
+  try {
+    const { code, state, error } = req.query;
+
+    if (error || typeof code !== 'string' || typeof state !== 'string') {
+      logWarn('Google OAuth callback without code', { error });
+      return res.status(400).send(page('Google Calendar was not connected. Ask Grace for a new link to try again.'));
+    }
+
+    const result = await getGoogleCalendarService().handleOAuthCallback(code, state);
+    if (!result.success || !result.data) {
+      return res.status(400).send(page('That link is invalid or has expired. Ask Grace for a new one.'));
+    }
+
+    if (globalMessageRouter) {
+      globalMessageRouter
+        .sendProactiveMessage(result.data.userId, '📅 Your Google Calendar is connected! Ask me about your schedule anytime.')
+        .catch(notifyError => logWarn('Failed to confirm calendar link via iMessage', { error: notifyError }));
+    }
+
+    return res.send(page('Google Calendar connected. You can close this window and go back to Messages.'));
+  } catch (error) {
+    logError('Google OAuth callback failed', error);
+    return res.status(500).send(page('Something went wrong connecting Google Calendar.'));
+  }
+});
+
+// Admin API (bearer token auth, see ADMIN_API_TOKEN)
+app.use('/admin/api', createAdminApiRouter());
+
 // 404 handler
 app.use((req, res) => {
   res.status(404).json({ error: 'Endpoint not found' });
@@ -416,6 +443,9 @@ async function startServer() {
     // Note: getMessageRouter() already calls initialize() internally, so we don't call it again
     const messageRouter = await getMessageRouter();
     globalMessageRouter = messageRouter;
+
+    // Resume or report agent work cut off by the last shutdown (needs the iMessage adapter from the router)
+    recoverInterruptedExecutions().catch(error => logError('Execution recovery failed', error));
     
     // Initialize context service
     const contextService = getContextService();
@@ -425,9 +455,18 @@ async function startServer() {
       await contextService.cleanupExpiredMemories();
     }, 60 * 60 * 1000); // Every hour
 
+    // Purge rows past their retention window
+    startRetentionPurge();
+
     // Start trigger scheduler for proactive agent execution
     startTriggerScheduler();
     logInfo('Trigger scheduler started');
+
+    // Embed memories and messages in the background for semantic search
+    startEmbeddingBackfill();
+
+    // Keep linked Google Calendars in sync
+    startCalendarSync();
     
     // Start HTTP server
     const PORT = config.port;
@@ -448,6 +487,9 @@ process.on('SIGINT', async () => {
   
   // Stop trigger scheduler
   stopTriggerScheduler();
+  stopEmbeddingBackfill();
+  stopCalendarSync();
+  stopRetentionPurge();
   
   httpServer.close(() => {
     logInfo('HTTP server closed');
@@ -256,6 +256,37 @@ class AgentMailClient {
     }
   }
 
+  /**
+   * AgentMail has no native forward, so fetch the original and send it on
+   * with a standard forwarded-message header.
+   */
+  async forwardEmail(
+    userId: string,
+    messageId: string,
+    to: string,
+    note?: string
+  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    const original = await this.getEmail(userId, messageId);
+    if (!original.success || !original.email) {
+      return { success: false, error: original.error || 'Original email not found' };
+    }
+
+    const email = original.email;
+    const subject = /^fwd?:/i.test(email.subject || '') ? email.subject : `Fwd: ${email.subject || '(no subject)'}`;
+    const body = [
+      note ? `${note}\n` : null,
+      '---------- Forwarded message ----------',
+      `From: ${email.from}`,
+      email.receivedAt ? `Date: ${new Date(email.receivedAt).toUTCString()}` : null,
+      `Subject: ${email.subject || '(no subject)'}`,
+      `To: ${Array.isArray(email.to) ? email.to.join(', ') : email.to}`,
+      '',
+      email.text || ''
+    ].filter(line => line !== null).join('\n');
+
+    return this.sendEmail(userId, to, subject, body);
+  }
+
   async getAgentEmailAddress(userId: string): Promise<string | null> {
     const inbox = await this.getOrCreateInbox(userId);
     return inbox?.emailAddress || null;
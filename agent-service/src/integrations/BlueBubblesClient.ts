@@ -253,6 +253,28 @@ export class BlueBubblesClient extends EventEmitter {
     }
   }
 
+  /**
+   * Download the raw bytes of an attachment via the REST API.
+   */
+  async downloadAttachment(attachmentGuid: string): Promise<Buffer> {
+    if (!attachmentGuid) {
+      throw new Error('Attachment GUID is required to download an attachment');
+    }
+
+    const url = `${this.apiUrl}/api/v1/attachment/${encodeURIComponent(attachmentGuid)}/download?password=${encodeURIComponent(this.password)}`;
+    const response = await axios.get<ArrayBuffer>(url, {
+      responseType: 'arraybuffer',
+      timeout: config.bluebubbles.timeout
+    });
+
+    logDebug('Downloaded attachment via REST', {
+      attachmentGuid,
+      bytes: response.data.byteLength
+    });
+
+    return Buffer.from(response.data);
+  }
+
   /**
    * Track a message GUID that we've sent (to prevent self-reactions).
    */
@@ -0,0 +1,31 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { logWarn } from '../utils/logger';
+import { config } from '../config';
+
+const digest = (value: string): Buffer => createHash('sha256').update(value).digest();
+
+/**
+ * Require `Authorization: Bearer <ADMIN_API_TOKEN>` on admin endpoints.
+ * The admin API stays disabled (503) until a token is configured.
+ */
+export const requireAdminToken = (req: Request, res: Response, next: NextFunction): void => {
+  const expected = config.security.adminApiToken;
+
+  if (!expected) {
+    res.status(503).json({ error: 'Admin API is not configured' });
+    return;
+  }
+
+  const header = req.get('authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+
+  // Compare fixed-length digests so the check doesn't leak the token length
+  if (!match || !timingSafeEqual(digest(match[1].trim()), digest(expected))) {
+    logWarn('Admin API: rejected request', { ip: req.ip, path: req.path });
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  next();
+};
@@ -1,4 +1,8 @@
-import { logInfo, logWarn } from '../utils/logger';
+import { AppDataSource } from '../database/connection';
+import { AuditLog } from '../database/entities/AuditLog';
+import { UserRole } from '../database/entities/User';
+import { logInfo, logWarn, logError } from '../utils/logger';
+import { config as appConfig } from '../config';
 
 /**
  * Security configuration for Agent Grace
@@ -18,26 +22,69 @@ export enum PermissionLevel {
   ADMIN = 'admin'
 }
 
+/**
+ * Highest permission level each role is granted. Blocked users get nothing.
+ */
+const ROLE_PERMISSION_LEVELS: Record<UserRole, PermissionLevel[]> = {
+  owner: [PermissionLevel.PUBLIC, PermissionLevel.USER, PermissionLevel.ADMIN],
+  admin: [PermissionLevel.PUBLIC, PermissionLevel.USER, PermissionLevel.ADMIN],
+  member: [PermissionLevel.PUBLIC, PermissionLevel.USER],
+  guest: [PermissionLevel.PUBLIC],
+  blocked: []
+};
+
+export const USER_ROLES = Object.keys(ROLE_PERMISSION_LEVELS) as UserRole[];
+
+export const isValidUserRole = (value: string): value is UserRole =>
+  USER_ROLES.includes(value as UserRole);
+
+export const isAdminRole = (role?: UserRole | null): boolean =>
+  role === 'owner' || role === 'admin';
+
+/**
+ * Normalize a handle for comparison: phone numbers to E.164-ish, emails lowercased
+ */
+export const normalizeHandle = (handle: string): string => {
+  const trimmed = handle.trim();
+  if (trimmed.includes('@')) {
+    return trimmed.toLowerCase();
+  }
+
+  // Remove all non-digit characters
+  const digits = trimmed.replace(/\D/g, '');
+
+  // If it's a US number without country code, add +1
+  if (digits.length === 10) {
+    return `+1${digits}`;
+  }
+
+  // If it already has country code
+  if (digits.length > 10) {
+    return `+${digits}`;
+  }
+
+  return trimmed;
+};
+
 /**
  * Security manager for authorization and audit logging
  */
 export class SecurityManager {
   private config: SecurityConfig;
   private rateLimitMap: Map<string, number[]> = new Map();
-  private auditLogEntries: Array<{
-    timestamp: Date;
-    handle: string;
-    action: string;
-    details: any;
-  }> = [];
 
   constructor(config?: Partial<SecurityConfig>) {
     this.config = {
-      adminHandles: config?.adminHandles || ['+19522779595'], // Weldon's number
+      // Owner handles from OWNER_HANDLES; everyone else gets a role from the users table
+      adminHandles: config?.adminHandles || appConfig.security.ownerHandles,
       enableAuditLog: config?.enableAuditLog ?? true,
       rateLimitPerMinute: config?.rateLimitPerMinute || 999999 // Effectively disabled
     };
 
+    if (this.config.adminHandles.length === 0) {
+      logWarn('No owner handles configured - set OWNER_HANDLES to bootstrap an owner');
+    }
+
     logInfo('Security manager initialized', {
       adminCount: this.config.adminHandles.length,
       auditEnabled: this.config.enableAuditLog,
@@ -46,12 +93,12 @@ export class SecurityManager {
   }
 
   /**
-   * Check if a handle has admin privileges
+   * Check if a handle is one of the configured owner handles
    */
   isAdmin(handle: string): boolean {
-    const normalized = this.normalizeHandle(handle);
+    const normalized = normalizeHandle(handle);
     const isAdmin = this.config.adminHandles.some(
-      adminHandle => this.normalizeHandle(adminHandle) === normalized
+      adminHandle => normalizeHandle(adminHandle) === normalized
     );
 
     if (isAdmin) {
@@ -61,24 +108,27 @@ export class SecurityManager {
     return isAdmin;
   }
 
+  /**
+   * Check if a handle can manage a group chat: global admins plus the chat's own admin handles
+   */
+  isChatAdmin(handle: string, chatAdminHandles: string[] = []): boolean {
+    if (this.isAdmin(handle)) {
+      return true;
+    }
+
+    const normalized = normalizeHandle(handle);
+    return chatAdminHandles.some(adminHandle => normalizeHandle(adminHandle) === normalized);
+  }
+
   getAdminHandles(): string[] {
     return [...this.config.adminHandles];
   }
 
   /**
-   * Check if a handle has permission for a specific operation
+   * Check if a role grants a permission level
    */
-  hasPermission(handle: string, requiredLevel: PermissionLevel): boolean {
-    switch (requiredLevel) {
-      case PermissionLevel.PUBLIC:
-        return true;
-      case PermissionLevel.USER:
-        return true; // All authenticated users
-      case PermissionLevel.ADMIN:
-        return this.isAdmin(handle);
-      default:
-        return false;
-    }
+  hasPermission(role: UserRole, requiredLevel: PermissionLevel): boolean {
+    return ROLE_PERMISSION_LEVELS[role]?.includes(requiredLevel) ?? false;
   }
 
   /**
@@ -86,7 +136,7 @@ export class SecurityManager {
    */
   checkRateLimit(handle: string): boolean {
     const now = Date.now();
-    const normalized = this.normalizeHandle(handle);
+    const normalized = normalizeHandle(handle);
     
     // Get or create timestamp array for this handle
     let timestamps = this.rateLimitMap.get(normalized) || [];
@@ -112,53 +162,39 @@ export class SecurityManager {
   }
 
   /**
-   * Log an action for audit trail
+   * Log an action for audit trail. Entries are written to the audit_logs table
+   * in the background so callers never wait on (or fail because of) the insert.
    */
-  logAudit(handle: string, action: string, details?: any): void {
+  logAudit(handle: string, action: string, details?: any, userId?: string): void {
     if (!this.config.enableAuditLog) return;
 
     const entry = {
-      timestamp: new Date(),
-      handle: this.maskHandle(handle),
+      // System actors such as "admin-api" are stored as-is, user handles are masked
+      actor: handle.includes('@') || /\d{4}/.test(handle) ? this.maskHandle(handle) : handle,
       action,
-      details
+      userId: userId ?? null,
+      details: details ?? {}
     };
 
-    this.auditLogEntries.push(entry);
+    logInfo('Audit log entry', entry);
 
-    // Keep only last 1000 entries
-    if (this.auditLogEntries.length > 1000) {
-      this.auditLogEntries.shift();
+    if (!AppDataSource.isInitialized) {
+      return;
     }
 
-    logInfo('Audit log entry', entry);
-  }
-
-  /**
-   * Get recent audit log entries
-   */
-  getAuditLog(limit: number = 100): Array<any> {
-    return this.auditLogEntries.slice(-limit);
+    AppDataSource.getRepository(AuditLog)
+      .insert(entry)
+      .catch(error => logError('Failed to persist audit log entry', error, { action }));
   }
 
   /**
-   * Normalize phone number format
+   * Get recent audit log entries, newest first
    */
-  private normalizeHandle(handle: string): string {
-    // Remove all non-digit characters
-    const digits = handle.replace(/\D/g, '');
-    
-    // If it's a US number without country code, add +1
-    if (digits.length === 10) {
-      return `+1${digits}`;
-    }
-    
-    // If it already has country code
-    if (digits.length > 10) {
-      return `+${digits}`;
-    }
-    
-    return handle;
+  async getAuditLog(limit: number = 100): Promise<AuditLog[]> {
+    return AppDataSource.getRepository(AuditLog).find({
+      order: { createdAt: 'DESC' },
+      take: limit
+    });
   }
 
   /**
@@ -180,7 +216,7 @@ export class SecurityManager {
       return false;
     }
 
-    const normalized = this.normalizeHandle(newAdminHandle);
+    const normalized = normalizeHandle(newAdminHandle);
     if (!this.config.adminHandles.includes(normalized)) {
       this.config.adminHandles.push(normalized);
       this.logAudit(requestingHandle, 'ADD_ADMIN', { newAdmin: this.maskHandle(newAdminHandle) });
@@ -205,7 +241,7 @@ export class SecurityManager {
       return false;
     }
 
-    const normalized = this.normalizeHandle(adminHandleToRemove);
+    const normalized = normalizeHandle(adminHandleToRemove);
     const index = this.config.adminHandles.indexOf(normalized);
     
     if (index > -1) {
@@ -0,0 +1,710 @@
+import express, { Router, Request, Response } from 'express';
+import { Between, LessThanOrEqual, MoreThanOrEqual, ObjectLiteral, EntityTarget, FindOptionsWhere } from 'typeorm';
+import { AppDataSource } from '../database/connection';
+import { User } from '../database/entities/User';
+import { Conversation } from '../database/entities/Conversation';
+import { Message } from '../database/entities/Message';
+import { Reminder } from '../database/entities/Reminder';
+import { Trigger } from '../database/entities/Trigger';
+import { ContextMemory } from '../database/entities/ContextMemory';
+import { ExecutionAgentLog } from '../database/entities/ExecutionAgentLog';
+import { AccessInvite } from '../database/entities/AccessInvite';
+import { ToolPermission } from '../database/entities/ToolPermission';
+import { AuditLog } from '../database/entities/AuditLog';
+import { requireAdminToken } from '../middleware/adminAuth';
+import { getSecurityManager, isValidUserRole, normalizeHandle } from '../middleware/security';
+import { getAccessControlService, AccessActor } from '../services/AccessControlService';
+import { getTriggerService, isValidMisfirePolicy, isValidTriggerStatus } from '../services/TriggerService';
+import { getReminderService, isValidReminderStatus } from '../services/ReminderService';
+import { getContextService } from '../services/ContextService';
+import { ArchiveRenderFormat, getConversationArchiveService } from '../services/ConversationArchiveService';
+import { getDataRetentionService } from '../services/DataRetentionService';
+import { getUsageService, UsageReportPeriod } from '../services/UsageService';
+import { PaginatedResponse, ServiceResponse } from '../types';
+import { logError } from '../utils/logger';
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+const AUDIT_HANDLE = 'admin-api';
+const DEFAULT_USAGE_REPORT_DAYS = 30;
+
+// The admin API holds the bearer token, so it acts with owner rights
+const ADMIN_ACTOR: AccessActor = { handle: AUDIT_HANDLE, role: 'owner' };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Archive uploads are far larger than the app-wide JSON body limit
+const ARCHIVE_MAX_SIZE = '50mb';
+
+const ARCHIVE_CONTENT_TYPES: Record<ArchiveRenderFormat, { contentType: string; extension: string }> = {
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+  markdown: { contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+  html: { contentType: 'text/html; charset=utf-8', extension: 'html' }
+};
+
+// Large columns that are never useful over the API
+const HIDDEN_FIELDS = ['embedding'];
+
+class BadRequestError extends Error {}
+
+interface AdminResource<T extends ObjectLiteral> {
+  entity: EntityTarget<T>;
+  idType: 'uuid' | 'int';
+  /** Column used for the `from`/`to` date filter and default ordering */
+  dateField: string;
+  /** Column matched by the `userId` filter, if the entity belongs to a user */
+  userField?: string;
+  /** Extra query parameters allowed as exact-match filters */
+  filters: string[];
+  /** Fields accepted by PATCH; an empty list makes the resource read-only */
+  updatable: string[];
+  /** Fields in PATCH bodies parsed as dates (null clears them) */
+  dateFields?: string[];
+  /** Rejects bad values in PATCH bodies by throwing a BadRequestError */
+  validate?: (changes: Record<string, any>) => void;
+  /** Custom update path for entities with their own validation in a service */
+  update?: (row: T, changes: Record<string, any>) => Promise<ServiceResponse<any>>;
+  /** Set to false to refuse DELETE (e.g. the audit log) */
+  deletable?: boolean;
+  /** Custom delete path, e.g. to invalidate a cache */
+  remove?: (id: string) => Promise<ServiceResponse<boolean>>;
+}
+
+const resources: Record<string, AdminResource<any>> = {
+  users: {
+    entity: User,
+    idType: 'uuid',
+    dateField: 'createdAt',
+    userField: 'id',
+    filters: ['phoneNumber', 'email', 'isActive', 'role'],
+    updatable: ['phoneNumber', 'email', 'preferences', 'isActive', 'role'],
+    update: async (user: User, changes) => {
+      const { role, ...fields } = changes;
+      if (role !== undefined) {
+        if (typeof role !== 'string' || !isValidUserRole(role)) {
+          throw new BadRequestError('role must be one of owner, admin, member, guest, blocked');
+        }
+        const result = await getAccessControlService().setUserRole(user.id, role, ADMIN_ACTOR);
+        if (!result.success) {
+          return result;
+        }
+      }
+      if (Object.keys(fields).length > 0) {
+        await AppDataSource.getRepository(User).update(user.id, fields);
+      }
+      return { success: true };
+    }
+  },
+  conversations: {
+    entity: Conversation,
+    idType: 'uuid',
+    dateField: 'startedAt',
+    userField: 'userId',
+    filters: ['channel', 'channelConversationId'],
+    updatable: ['metadata']
+  },
+  messages: {
+    entity: Message,
+    idType: 'uuid',
+    dateField: 'createdAt',
+    userField: 'userId',
+    filters: ['conversationId', 'role'],
+    updatable: ['content', 'metadata']
+  },
+  reminders: {
+    entity: Reminder,
+    idType: 'uuid',
+    dateField: 'createdAt',
+    userField: 'userId',
+    filters: ['status', 'channel'],
+    updatable: ['content', 'channel', 'status', 'metadata'],
+    validate: changes => {
+      if (changes.status !== undefined && (typeof changes.status !== 'string' || !isValidReminderStatus(changes.status))) {
+        throw new BadRequestError('status must be one of pending, sent, snoozed, completed, cancelled');
+      }
+    }
+  },
+  triggers: {
+    entity: Trigger,
+    idType: 'int',
+    dateField: 'createdAt',
+    userField: 'userId',
+    filters: ['status', 'agentName'],
+    updatable: ['payload', 'recurrenceRule', 'timezone', 'misfirePolicy', 'status', 'nextTrigger'],
+    dateFields: ['nextTrigger'],
+    validate: changes => {
+      if (changes.misfirePolicy !== undefined && !isValidMisfirePolicy(changes.misfirePolicy)) {
+        throw new BadRequestError('misfirePolicy must be one of fire_once, fire_all, skip');
+      }
+      if (changes.status !== undefined && (typeof changes.status !== 'string' || !isValidTriggerStatus(changes.status))) {
+        throw new BadRequestError('status must be one of active, paused, completed');
+      }
+    },
+    update: (trigger: Trigger, changes) => getTriggerService().updateTrigger(trigger.id, changes)
+  },
+  memories: {
+    entity: ContextMemory,
+    idType: 'uuid',
+    dateField: 'createdAt',
+    userField: 'userId',
+    filters: ['memoryType', 'conversationId', 'key'],
+    updatable: ['key', 'value', 'expiresAt', 'metadata'],
+    dateFields: ['expiresAt'],
+    update: (memory: ContextMemory, changes) =>
+      getContextService().updateMemory(memory.userId, memory.id, changes)
+  },
+  'execution-logs': {
+    entity: ExecutionAgentLog,
+    idType: 'uuid',
+    dateField: 'createdAt',
+    filters: ['agentName', 'entryType'],
+    updatable: []
+  },
+  invites: {
+    entity: AccessInvite,
+    idType: 'uuid',
+    dateField: 'createdAt',
+    filters: ['handle', 'status', 'role'],
+    updatable: []
+  },
+  'tool-permissions': {
+    entity: ToolPermission,
+    idType: 'uuid',
+    dateField: 'createdAt',
+    userField: 'userId',
+    filters: ['toolName', 'role'],
+    updatable: ['allowed'],
+    update: (row: ToolPermission, changes) => {
+      if (typeof changes.allowed !== 'boolean') {
+        throw new BadRequestError('allowed must be a boolean');
+      }
+      return getAccessControlService().setToolPermission({
+        toolName: row.toolName,
+        role: row.role ?? undefined,
+        userId: row.userId ?? undefined,
+        allowed: changes.allowed
+      }, ADMIN_ACTOR);
+    },
+    remove: id => getAccessControlService().removeToolPermission(id, ADMIN_ACTOR)
+  },
+  'audit-logs': {
+    entity: AuditLog,
+    idType: 'uuid',
+    dateField: 'createdAt',
+    userField: 'userId',
+    filters: ['action', 'actor'],
+    updatable: [],
+    deletable: false
+  }
+};
+
+const serialize = (row: ObjectLiteral): ObjectLiteral => {
+  const copy = { ...row };
+  HIDDEN_FIELDS.forEach(field => delete copy[field]);
+  return copy;
+};
+
+const parseDate = (value: unknown, name: string): Date => {
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new BadRequestError(`${name} must be an ISO 8601 date`);
+  }
+  return date;
+};
+
+const parsePositiveInt = (value: unknown, fallback: number, name: string): number => {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new BadRequestError(`${name} must be a positive integer`);
+  }
+  return parsed;
+};
+
+const parseId = (resource: AdminResource<any>, value: string): string | number => {
+  if (resource.idType === 'int') {
+    const id = Number(value);
+    if (!Number.isInteger(id) || id < 1) {
+      throw new BadRequestError('Invalid id');
+    }
+    return id;
+  }
+
+  if (!UUID_PATTERN.test(value)) {
+    throw new BadRequestError('Invalid id');
+  }
+  return value;
+};
+
+const parseFilterValue = (value: string): string | boolean => {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return value;
+};
+
+const buildWhere = (resource: AdminResource<any>, query: Request['query']): FindOptionsWhere<any> => {
+  const where: Record<string, any> = {};
+
+  if (query.userId !== undefined) {
+    if (!resource.userField) {
+      throw new BadRequestError('This resource cannot be filtered by userId');
+    }
+    if (!UUID_PATTERN.test(String(query.userId))) {
+      throw new BadRequestError('userId must be a UUID');
+    }
+    where[resource.userField] = String(query.userId);
+  }
+
+  const from = query.from !== undefined ? parseDate(query.from, 'from') : undefined;
+  const to = query.to !== undefined ? parseDate(query.to, 'to') : undefined;
+  if (from && to) {
+    where[resource.dateField] = Between(from, to);
+  } else if (from) {
+    where[resource.dateField] = MoreThanOrEqual(from);
+  } else if (to) {
+    where[resource.dateField] = LessThanOrEqual(to);
+  }
+
+  for (const filter of resource.filters) {
+    const value = query[filter];
+    if (typeof value === 'string' && value !== '') {
+      where[filter] = parseFilterValue(value);
+    }
+  }
+
+  return where;
+};
+
+const pickChanges = (resource: AdminResource<any>, body: unknown): Record<string, any> => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new BadRequestError('Request body must be a JSON object');
+  }
+
+  const fields = body as Record<string, any>;
+  const changes: Record<string, any> = {};
+  const unknownFields = Object.keys(fields).filter(field => !resource.updatable.includes(field));
+
+  if (unknownFields.length > 0) {
+    throw new BadRequestError(`Fields not updatable: ${unknownFields.join(', ')}`);
+  }
+
+  for (const field of resource.updatable) {
+    if (fields[field] === undefined) {
+      continue;
+    }
+    changes[field] = resource.dateFields?.includes(field) && fields[field] !== null
+      ? parseDate(fields[field], field)
+      : fields[field];
+  }
+
+  if (Object.keys(changes).length === 0) {
+    throw new BadRequestError('No updatable fields provided');
+  }
+
+  resource.validate?.(changes);
+  return changes;
+};
+
+/**
+ * Wrap a route handler with the admin API's error handling.
+ */
+const handle = (action: string, fn: (req: Request, res: Response) => Promise<unknown>) =>
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      await fn(req, res);
+    } catch (error: any) {
+      if (error instanceof BadRequestError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      logError(`Admin API ${action} failed`, error, { path: req.path });
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+
+const getResource = (req: Request, res: Response): AdminResource<any> | null => {
+  const resource = resources[req.params.resource];
+  if (!resource) {
+    res.status(404).json({ error: 'Unknown resource' });
+    return null;
+  }
+  return resource;
+};
+
+/**
+ * Authenticated admin API mounted at `/admin/api`.
+ *
+ * Every resource supports:
+ *   GET    /:resource          paginated list (?page, pageSize, userId, from, to and per-resource filters)
+ *   GET    /:resource/:id      detail
+ *   PATCH  /:resource/:id      update whitelisted fields
+ *   DELETE /:resource/:id      delete
+ *
+ * Plus actions:
+ *   POST /invites                    allowlist a handle ({ handle, role?, expiresAt? })
+ *   POST /invites/:id/revoke         revoke a pending invite
+ *   POST /tool-permissions           add a tool override ({ toolName, role | userId, allowed })
+ *   POST /users/:id/triggers/pause   pause all active triggers for a user
+ *   POST /users/:id/triggers/resume  resume all paused triggers for a user
+ *   POST /reminders/:id/resend       deliver a reminder again now
+ *   GET  /users/:id/export           download a conversation archive (?format=json|markdown|html)
+ *   POST /import                     restore a JSON conversation archive into this database
+ *   POST /users/:id/delete-data      remove everything tied to a user and report what was removed
+ *   PUT  /conversations/:id/group-admins  set who can turn group chat mode on or off ({ handles })
+ *   POST /retention/purge            run the retention purge now
+ *   GET  /usage/report               model usage by period, user, role and model (?period=day|month, from, to, userId)
+ *   GET  /users/:id/usage            today's tokens and this month's cost against the user's budget
+ *   PUT  /users/:id/usage-budget     override a user's budget ({ dailyTokenLimit?, monthlyCostLimitUsd? }, null resets)
+ */
+export const createAdminApiRouter = (): Router => {
+  const router = Router();
+  const securityManager = getSecurityManager();
+
+  router.use(requireAdminToken);
+
+  router.post('/invites', handle('create invite', async (req, res) => {
+    const { handle: inviteHandle, role = 'member', expiresAt } = req.body || {};
+
+    if (typeof inviteHandle !== 'string' || !inviteHandle.trim()) {
+      throw new BadRequestError('handle is required');
+    }
+    if (typeof role !== 'string' || !isValidUserRole(role)) {
+      throw new BadRequestError('role must be one of owner, admin, member, guest, blocked');
+    }
+
+    const result = await getAccessControlService().createInvite(
+      inviteHandle,
+      role,
+      ADMIN_ACTOR,
+      expiresAt ? parseDate(expiresAt, 'expiresAt') : undefined
+    );
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    return res.status(201).json({ data: result.data });
+  }));
+
+  router.post('/invites/:id/revoke', handle('revoke invite', async (req, res) => {
+    const inviteId = parseId(resources.invites, req.params.id) as string;
+    const result = await getAccessControlService().revokeInvite(inviteId, ADMIN_ACTOR);
+
+    if (!result.success) {
+      return res.status(404).json({ error: result.error });
+    }
+    return res.json({ success: true });
+  }));
+
+  router.post('/tool-permissions', handle('create tool permission', async (req, res) => {
+    const { toolName, role, userId, allowed } = req.body || {};
+
+    if (typeof toolName !== 'string' || !toolName.trim()) {
+      throw new BadRequestError('toolName is required');
+    }
+    if (typeof allowed !== 'boolean') {
+      throw new BadRequestError('allowed must be a boolean');
+    }
+    if (role !== undefined && (typeof role !== 'string' || !isValidUserRole(role))) {
+      throw new BadRequestError('role must be one of owner, admin, member, guest, blocked');
+    }
+    if (userId !== undefined && !UUID_PATTERN.test(String(userId))) {
+      throw new BadRequestError('userId must be a UUID');
+    }
+
+    const result = await getAccessControlService().setToolPermission(
+      { toolName: toolName.trim(), role, userId, allowed },
+      ADMIN_ACTOR
+    );
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    return res.status(201).json({ data: result.data });
+  }));
+
+  router.post('/users/:id/triggers/pause', handle('pause triggers', async (req, res) => {
+    const userId = parseId(resources.users, req.params.id) as string;
+    const result = await getTriggerService().pauseUserTriggers(userId);
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    securityManager.logAudit(AUDIT_HANDLE, 'PAUSE_USER_TRIGGERS', { userId, paused: result.data });
+    return res.json({ success: true, paused: result.data });
+  }));
+
+  router.post('/users/:id/triggers/resume', handle('resume triggers', async (req, res) => {
+    const userId = parseId(resources.users, req.params.id) as string;
+    const result = await getTriggerService().resumeUserTriggers(userId);
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    securityManager.logAudit(AUDIT_HANDLE, 'RESUME_USER_TRIGGERS', { userId, resumed: result.data });
+    return res.json({ success: true, resumed: result.data });
+  }));
+
+  router.post('/reminders/:id/resend', handle('resend reminder', async (req, res) => {
+    const reminderId = parseId(resources.reminders, req.params.id) as string;
+    const result = await getReminderService().resendReminder(reminderId);
+
+    if (!result.success) {
+      const status = result.error === 'Reminder not found' ? 404 : 409;
+      return res.status(status).json({ error: result.error });
+    }
+
+    securityManager.logAudit(AUDIT_HANDLE, 'RESEND_REMINDER', { reminderId });
+    return res.json({ success: true, data: result.data });
+  }));
+
+  router.get('/users/:id/export', handle('export archive', async (req, res) => {
+    const userId = parseId(resources.users, req.params.id) as string;
+    const format = String(req.query.format || 'json');
+    if (!ARCHIVE_CONTENT_TYPES[format as ArchiveRenderFormat]) {
+      throw new BadRequestError('format must be one of json, markdown, html');
+    }
+
+    const archiveService = getConversationArchiveService();
+    const result = await archiveService.exportUser(userId);
+    if (!result.success || !result.data) {
+      const status = result.error === 'User not found' ? 404 : 500;
+      return res.status(status).json({ error: result.error });
+    }
+
+    securityManager.logAudit(AUDIT_HANDLE, 'EXPORT_ARCHIVE', { userId, format });
+
+    const { contentType, extension } = ARCHIVE_CONTENT_TYPES[format as ArchiveRenderFormat];
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="grace-archive-${userId}.${extension}"`);
+    return res.send(archiveService.render(result.data, format as ArchiveRenderFormat));
+  }));
+
+  router.post('/import', express.json({ limit: ARCHIVE_MAX_SIZE }), handle('import archive', async (req, res) => {
+    const result = await getConversationArchiveService().importArchive(req.body);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    securityManager.logAudit(AUDIT_HANDLE, 'IMPORT_ARCHIVE', { ...result.data });
+    return res.status(201).json({ data: result.data });
+  }));
+
+  router.post('/users/:id/delete-data', handle('delete user data', async (req, res) => {
+    const userId = parseId(resources.users, req.params.id) as string;
+    const result = await getDataRetentionService().deleteUserData(userId);
+
+    if (!result.success) {
+      const status = result.error === 'User not found' ? 404 : 500;
+      return res.status(status).json({ error: result.error });
+    }
+
+    securityManager.logAudit(AUDIT_HANDLE, 'DATA_DELETED', { userId, removed: result.data });
+    return res.json({ success: true, removed: result.data });
+  }));
+
+  router.put('/conversations/:id/group-admins', handle('set group admins', async (req, res) => {
+    const conversationId = parseId(resources.conversations, req.params.id) as string;
+    const { handles } = req.body || {};
+
+    if (!Array.isArray(handles) || handles.some(value => typeof value !== 'string' || !value.trim())) {
+      throw new BadRequestError('handles must be an array of phone numbers or emails');
+    }
+
+    const conversationRepo = AppDataSource.getRepository(Conversation);
+    const conversation = await conversationRepo.findOne({ where: { id: conversationId } });
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    if (!conversation.metadata?.isGroupChat) {
+      return res.status(409).json({ error: 'Conversation is not a group chat' });
+    }
+
+    const adminHandles = [...new Set(handles.map((value: string) => normalizeHandle(value)))];
+    conversation.metadata = {
+      ...conversation.metadata,
+      groupChat: { ...conversation.metadata.groupChat, adminHandles }
+    };
+    await conversationRepo.save(conversation);
+
+    securityManager.logAudit(AUDIT_HANDLE, 'SET_GROUP_ADMINS', { conversationId, adminCount: adminHandles.length });
+    return res.json({ success: true, data: conversation.metadata.groupChat });
+  }));
+
+  router.post('/retention/purge', handle('retention purge', async (_req, res) => {
+    const removed = await getDataRetentionService().purgeExpired();
+
+    securityManager.logAudit(AUDIT_HANDLE, 'RETENTION_PURGE', { removed });
+    return res.json({ success: true, removed });
+  }));
+
+  router.get('/usage/report', handle('usage report', async (req, res) => {
+    const period = String(req.query.period || 'day');
+    if (period !== 'day' && period !== 'month') {
+      throw new BadRequestError('period must be day or month');
+    }
+
+    const to = req.query.to ? parseDate(req.query.to, 'to') : new Date();
+    const from = req.query.from
+      ? parseDate(req.query.from, 'from')
+      : new Date(to.getTime() - DEFAULT_USAGE_REPORT_DAYS * 24 * 60 * 60 * 1000);
+    const userId = req.query.userId ? parseId(resources.users, String(req.query.userId)) as string : undefined;
+
+    const rows = await getUsageService().getReport({ period: period as UsageReportPeriod, from, to, userId });
+    return res.json({
+      data: rows,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      totals: {
+        requests: rows.reduce((sum, row) => sum + row.requests, 0),
+        inputTokens: rows.reduce((sum, row) => sum + row.inputTokens, 0),
+        outputTokens: rows.reduce((sum, row) => sum + row.outputTokens, 0),
+        costUsd: Number(rows.reduce((sum, row) => sum + row.costUsd, 0).toFixed(6))
+      }
+    });
+  }));
+
+  router.get('/users/:id/usage', handle('get usage', async (req, res) => {
+    const userId = parseId(resources.users, req.params.id) as string;
+    if (!(await AppDataSource.getRepository(User).findOne({ where: { id: userId } }))) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    return res.json({ data: await getUsageService().getBudgetStatus(userId) });
+  }));
+
+  router.put('/users/:id/usage-budget', handle('set usage budget', async (req, res) => {
+    const userId = parseId(resources.users, req.params.id) as string;
+    const { dailyTokenLimit, monthlyCostLimitUsd } = req.body || {};
+
+    if (dailyTokenLimit !== undefined && dailyTokenLimit !== null
+      && !(Number.isInteger(dailyTokenLimit) && dailyTokenLimit >= 0)) {
+      throw new BadRequestError('dailyTokenLimit must be a non-negative integer or null');
+    }
+    if (monthlyCostLimitUsd !== undefined && monthlyCostLimitUsd !== null
+      && !(typeof monthlyCostLimitUsd === 'number' && Number.isFinite(monthlyCostLimitUsd) && monthlyCostLimitUsd >= 0)) {
+      throw new BadRequestError('monthlyCostLimitUsd must be a non-negative number or null');
+    }
+    if (!(await AppDataSource.getRepository(User).findOne({ where: { id: userId } }))) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const result = await getUsageService().setBudget(userId, { dailyTokenLimit, monthlyCostLimitUsd });
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    securityManager.logAudit(AUDIT_HANDLE, 'SET_USAGE_BUDGET', { userId, dailyTokenLimit, monthlyCostLimitUsd });
+    return res.json({ success: true, data: result.data });
+  }));
+
+  router.get('/:resource', handle('list', async (req, res) => {
+    const resource = getResource(req, res);
+    if (!resource) return;
+
+    const page = parsePositiveInt(req.query.page, 1, 'page');
+    const pageSize = Math.min(parsePositiveInt(req.query.pageSize, DEFAULT_PAGE_SIZE, 'pageSize'), MAX_PAGE_SIZE);
+
+    const [rows, total] = await AppDataSource.getRepository(resource.entity).findAndCount({
+      where: buildWhere(resource, req.query),
+      order: { [resource.dateField]: 'DESC' },
+      skip: (page - 1) * pageSize,
+      take: pageSize
+    });
+
+    const response: PaginatedResponse<ObjectLiteral> = {
+      items: rows.map(serialize),
+      total,
+      page,
+      pageSize,
+      hasMore: page * pageSize < total
+    };
+
+    res.json(response);
+  }));
+
+  router.get('/:resource/:id', handle('get', async (req, res) => {
+    const resource = getResource(req, res);
+    if (!resource) return;
+
+    const row = await AppDataSource.getRepository(resource.entity).findOne({
+      where: { id: parseId(resource, req.params.id) }
+    });
+
+    if (!row) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    return res.json({ data: serialize(row) });
+  }));
+
+  router.patch('/:resource/:id', handle('update', async (req, res) => {
+    const resource = getResource(req, res);
+    if (!resource) return;
+
+    if (resource.updatable.length === 0) {
+      return res.status(405).json({ error: 'Resource is read-only' });
+    }
+
+    const repo = AppDataSource.getRepository(resource.entity);
+    const id = parseId(resource, req.params.id);
+    const changes = pickChanges(resource, req.body);
+
+    const row = await repo.findOne({ where: { id } });
+    if (!row) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    let updated: ObjectLiteral;
+    if (resource.update) {
+      const result = await resource.update(row, changes);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error });
+      }
+      updated = (await repo.findOne({ where: { id } })) || row;
+    } else {
+      updated = await repo.save(repo.merge(row, changes));
+    }
+
+    securityManager.logAudit(AUDIT_HANDLE, 'ADMIN_UPDATE', {
+      resource: req.params.resource,
+      id,
+      fields: Object.keys(changes)
+    });
+
+    return res.json({ data: serialize(updated) });
+  }));
+
+  router.delete('/:resource/:id', handle('delete', async (req, res) => {
+    const resource = getResource(req, res);
+    if (!resource) return;
+
+    if (resource.deletable === false) {
+      return res.status(405).json({ error: 'Resource cannot be deleted' });
+    }
+
+    const id = parseId(resource, req.params.id);
+
+    if (resource.remove) {
+      const result = await resource.remove(String(id));
+      if (!result.success) {
+        return res.status(404).json({ error: result.error });
+      }
+    } else {
+      const result = await AppDataSource.getRepository(resource.entity).delete({ id });
+      if (!result.affected) {
+        return res.status(404).json({ error: 'Not found' });
+      }
+    }
+
+    securityManager.logAudit(AUDIT_HANDLE, 'ADMIN_DELETE', { resource: req.params.resource, id });
+    return res.json({ success: true });
+  }));
+
+  return router;
+};
@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import { AppDataSource, initializeDatabase } from '../database/connection';
+import { User } from '../database/entities/User';
+import { ArchiveRenderFormat, getConversationArchiveService } from '../services/ConversationArchiveService';
+
+/**
+ * Export or import conversation archives from the command line.
+ *
+ *   npm run archive -- export <userId|phone|email> [--format json|markdown|html] [--out file]
+ *   npm run archive -- import <file>
+ *
+ * Exports are written to stdout unless --out is given. Imports expect a JSON
+ * archive and a database where the user doesn't exist yet.
+ */
+
+const USAGE = [
+  'Usage:',
+  '  npm run archive -- export <userId|phone|email> [--format json|markdown|html] [--out file]',
+  '  npm run archive -- import <file>'
+].join('\n');
+
+const FORMATS: ArchiveRenderFormat[] = ['json', 'markdown', 'html'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const readOption = (args: string[], name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const findUser = async (identifier: string): Promise<User | null> => {
+  const repo = AppDataSource.getRepository(User);
+  if (UUID_PATTERN.test(identifier)) {
+    return repo.findOne({ where: { id: identifier } });
+  }
+  return repo.findOne({
+    where: identifier.includes('@') ? { email: identifier } : { phoneNumber: identifier }
+  });
+};
+
+async function exportArchive(args: string[]): Promise<void> {
+  const [identifier] = args;
+  const format = (readOption(args, 'format') || 'json') as ArchiveRenderFormat;
+  const out = readOption(args, 'out');
+
+  if (!identifier || !FORMATS.includes(format)) {
+    throw new Error(USAGE);
+  }
+
+  const user = await findUser(identifier);
+  if (!user) {
+    throw new Error(`No user found for "${identifier}"`);
+  }
+
+  const archiveService = getConversationArchiveService();
+  const result = await archiveService.exportUser(user.id);
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Export failed');
+  }
+
+  const rendered = archiveService.render(result.data, format);
+  if (out) {
+    await fs.writeFile(out, rendered, 'utf8');
+    process.stderr.write(`Wrote ${format} archive for ${user.id} to ${out}\n`);
+  } else {
+    process.stdout.write(`${rendered}\n`);
+  }
+}
+
+async function importArchive(args: string[]): Promise<void> {
+  const [file] = args;
+  if (!file) {
+    throw new Error(USAGE);
+  }
+
+  const result = await getConversationArchiveService().importArchive(await fs.readFile(file, 'utf8'));
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Import failed');
+  }
+
+  process.stderr.write(`Imported archive: ${JSON.stringify(result.data)}\n`);
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+  if (command !== 'export' && command !== 'import') {
+    throw new Error(USAGE);
+  }
+
+  await initializeDatabase();
+  try {
+    await (command === 'export' ? exportArchive(args) : importArchive(args));
+  } finally {
+    await AppDataSource.destroy();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    process.exit(1);
+  });
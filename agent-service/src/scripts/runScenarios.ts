@@ -0,0 +1,60 @@
+import '../eval/offlineEnv';
+import { promises as fs } from 'fs';
+import logger from '../utils/logger';
+import {
+  DEFAULT_SCENARIO_DIR,
+  ScenarioResult,
+  ScenarioRunner,
+  formatScenarioReport,
+  loadScenarios
+} from '../eval/ScenarioRunner';
+
+/**
+ * Replay scripted conversations through the agent runtimes without network
+ * access and report which scenarios pass.
+ *
+ *   npm run eval -- [scenario.json|dir ...] [--report results.json] [--verbose]
+ *
+ * Runs every scenario in src/eval/scenarios by default. Exits non-zero when
+ * any scenario fails.
+ */
+
+const readOption = (args: string[], name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+async function main(): Promise<boolean> {
+  const args = process.argv.slice(2);
+  const reportFile = readOption(args, 'report');
+  const verbose = args.includes('--verbose');
+  const targets = args.filter((arg, index) => !arg.startsWith('--') && args[index - 1] !== '--report');
+
+  if (!verbose) {
+    logger.transports.forEach(transport => {
+      transport.silent = true;
+    });
+  }
+
+  const scenarios = await loadScenarios(targets.length > 0 ? targets : [DEFAULT_SCENARIO_DIR]);
+  const runner = new ScenarioRunner();
+  const results: ScenarioResult[] = [];
+
+  for (const { file, scenario } of scenarios) {
+    results.push({ ...(await runner.run(scenario)), file });
+  }
+
+  process.stdout.write(`${formatScenarioReport(results)}\n`);
+  if (reportFile) {
+    await fs.writeFile(reportFile, JSON.stringify(results, null, 2), 'utf8');
+  }
+
+  return results.every(result => result.passed);
+}
+
+main()
+  .then(passed => process.exit(passed ? 0 : 1))
+  .catch(error => {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    process.exit(1);
+  });
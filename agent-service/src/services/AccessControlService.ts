@@ -0,0 +1,333 @@
+import { Repository, In } from 'typeorm';
+import { AppDataSource } from '../database/connection';
+import { User, UserRole } from '../database/entities/User';
+import { AccessInvite, AccessInviteStatus } from '../database/entities/AccessInvite';
+import { ToolPermission } from '../database/entities/ToolPermission';
+import { getSecurityManager, isAdminRole, normalizeHandle, PermissionLevel } from '../middleware/security';
+import { logInfo, logError, logDebug } from '../utils/logger';
+import { ServiceResponse } from '../types';
+import { config } from '../config';
+
+export interface ToolAccessSubject {
+  userId: string;
+  userHandle?: string;
+  userRole?: UserRole;
+}
+
+export interface ToolPermissionInput {
+  toolName: string;
+  role?: UserRole;
+  userId?: string;
+  allowed: boolean;
+}
+
+/**
+ * The actor behind a role or invite change. The admin API acts as an owner.
+ */
+export interface AccessActor {
+  handle: string;
+  role: UserRole;
+}
+
+/**
+ * AccessControlService owns the persisted role model: which handles may talk to
+ * Grace (open mode or invite allowlist), each user's role, and per-tool
+ * permission overrides layered on top of each tool's default permission level.
+ */
+export class AccessControlService {
+  private userRepo: Repository<User>;
+  private inviteRepo: Repository<AccessInvite>;
+  private toolPermissionRepo: Repository<ToolPermission>;
+  private securityManager = getSecurityManager();
+  private overrideCache: { rows: ToolPermission[]; loadedAt: number } | null = null;
+  private readonly overrideCacheTtlMs = 60_000;
+
+  constructor() {
+    this.userRepo = AppDataSource.getRepository(User);
+    this.inviteRepo = AppDataSource.getRepository(AccessInvite);
+    this.toolPermissionRepo = AppDataSource.getRepository(ToolPermission);
+  }
+
+  /**
+   * Decide the role for a handle messaging in for the first time, accepting
+   * its pending invite if there is one. Returns null if the handle isn't admitted.
+   */
+  async admitNewHandle(handle: string): Promise<UserRole | null> {
+    if (this.securityManager.isAdmin(handle)) {
+      return 'owner';
+    }
+
+    const invite = await this.inviteRepo.findOne({
+      where: { handle: normalizeHandle(handle), status: 'pending' }
+    });
+
+    if (invite && (!invite.expiresAt || invite.expiresAt > new Date())) {
+      invite.status = 'accepted';
+      invite.acceptedAt = new Date();
+      await this.inviteRepo.save(invite);
+
+      this.securityManager.logAudit(handle, 'INVITE_ACCEPTED', { inviteId: invite.id, role: invite.role });
+      return invite.role;
+    }
+
+    if (config.security.accessMode === 'open') {
+      return config.security.defaultRole;
+    }
+
+    this.securityManager.logAudit(handle, 'ACCESS_DENIED', { reason: invite ? 'invite_expired' : 'not_invited' });
+    return null;
+  }
+
+  /**
+   * Configured owner handles are always owners, even if the stored role says otherwise.
+   */
+  async ensureOwnerRole(user: User, handle: string): Promise<User> {
+    if (user.role !== 'owner' && this.securityManager.isAdmin(handle)) {
+      user.role = 'owner';
+      await this.userRepo.update(user.id, { role: 'owner' });
+      logInfo('Promoted configured owner handle', { userId: user.id });
+    }
+    return user;
+  }
+
+  async findUserByHandle(handle: string): Promise<User | null> {
+    const normalized = normalizeHandle(handle);
+    const candidates = Array.from(new Set([handle.trim(), normalized]));
+
+    return this.userRepo.findOne({
+      where: normalized.includes('@')
+        ? { email: In(candidates) }
+        : { phoneNumber: In(candidates) }
+    });
+  }
+
+  async getUserRole(userId: string): Promise<UserRole | null> {
+    const user = await this.userRepo.findOne({ where: { id: userId }, select: ['id', 'role'] });
+    return user?.role ?? null;
+  }
+
+  /**
+   * Owners can assign any role. Admins can only move users between member,
+   * guest and blocked, and can't touch other admins or owners.
+   */
+  canAssignRole(actorRole: UserRole, currentRole: UserRole, newRole: UserRole): boolean {
+    if (actorRole === 'owner') {
+      return true;
+    }
+    if (actorRole === 'admin') {
+      return !isAdminRole(currentRole) && !isAdminRole(newRole);
+    }
+    return false;
+  }
+
+  async setUserRole(userId: string, role: UserRole, actor: AccessActor): Promise<ServiceResponse<User>> {
+    try {
+      const user = await this.userRepo.findOne({ where: { id: userId } });
+      if (!user) {
+        return { success: false, error: 'User not found' };
+      }
+
+      if (!this.canAssignRole(actor.role, user.role, role)) {
+        return { success: false, error: `A ${actor.role} can't change a ${user.role} to ${role}` };
+      }
+
+      if (user.role === 'owner' && role !== 'owner') {
+        const owners = await this.userRepo.count({ where: { role: 'owner' } });
+        if (owners <= 1) {
+          return { success: false, error: 'Cannot remove the last owner' };
+        }
+      }
+
+      const previousRole = user.role;
+      user.role = role;
+      await this.userRepo.save(user);
+
+      this.securityManager.logAudit(actor.handle, 'SET_USER_ROLE', { previousRole, role }, user.id);
+      logInfo('User role changed', { userId, previousRole, role });
+
+      return { success: true, data: user };
+    } catch (error: any) {
+      logError('Failed to set user role', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Allowlist a handle. If the handle already has a user record the role is
+   * applied right away and the invite is stored as accepted.
+   */
+  async createInvite(
+    handle: string,
+    role: UserRole,
+    actor: AccessActor,
+    expiresAt?: Date
+  ): Promise<ServiceResponse<AccessInvite>> {
+    try {
+      const normalized = normalizeHandle(handle);
+      if (!normalized) {
+        return { success: false, error: 'Handle is required' };
+      }
+
+      if (!this.canAssignRole(actor.role, 'guest', role)) {
+        return { success: false, error: `A ${actor.role} can't invite someone as ${role}` };
+      }
+
+      const existingUser = await this.findUserByHandle(normalized);
+      if (existingUser) {
+        const result = await this.setUserRole(existingUser.id, role, actor);
+        if (!result.success) {
+          return { success: false, error: result.error };
+        }
+      }
+
+      let invite = await this.inviteRepo.findOne({ where: { handle: normalized } });
+      invite = this.inviteRepo.merge(invite ?? this.inviteRepo.create({ handle: normalized, metadata: {} }), {
+        role,
+        invitedBy: actor.handle,
+        status: existingUser ? 'accepted' : 'pending',
+        acceptedAt: existingUser ? new Date() : undefined,
+        expiresAt: expiresAt ?? null
+      });
+      invite = await this.inviteRepo.save(invite);
+
+      this.securityManager.logAudit(actor.handle, 'CREATE_INVITE', { inviteId: invite.id, role });
+      logInfo('Access invite created', { inviteId: invite.id, role, existingUser: Boolean(existingUser) });
+
+      return { success: true, data: invite };
+    } catch (error: any) {
+      logError('Failed to create invite', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async revokeInvite(inviteId: string, actor: AccessActor): Promise<ServiceResponse<boolean>> {
+    try {
+      const result = await this.inviteRepo.update({ id: inviteId, status: 'pending' }, { status: 'revoked' });
+      if (!result.affected) {
+        return { success: false, error: 'Pending invite not found' };
+      }
+
+      this.securityManager.logAudit(actor.handle, 'REVOKE_INVITE', { inviteId });
+      return { success: true, data: true };
+    } catch (error: any) {
+      logError('Failed to revoke invite', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async listInvites(status?: AccessInviteStatus): Promise<ServiceResponse<AccessInvite[]>> {
+    try {
+      const invites = await this.inviteRepo.find({
+        where: status ? { status } : {},
+        order: { createdAt: 'DESC' }
+      });
+      return { success: true, data: invites };
+    } catch (error: any) {
+      logError('Failed to list invites', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Check whether a user may run a tool. Owners always may and blocked users
+   * never may; otherwise a user-specific override wins over a role override,
+   * which wins over the tool's default permission level.
+   */
+  async canUseTool(toolName: string, requiredLevel: PermissionLevel, subject: ToolAccessSubject): Promise<boolean> {
+    try {
+      const role = subject.userHandle && subject.userHandle !== 'unknown' && this.securityManager.isAdmin(subject.userHandle)
+        ? 'owner'
+        : subject.userRole ?? await this.getUserRole(subject.userId) ?? 'guest';
+
+      if (role === 'owner') return true;
+      if (role === 'blocked') return false;
+
+      const overrides = (await this.getToolOverrides()).filter(row => row.toolName === toolName);
+      const userOverride = overrides.find(row => row.userId === subject.userId);
+      const roleOverride = overrides.find(row => row.role === role);
+      const override = userOverride ?? roleOverride;
+
+      if (override) {
+        logDebug('Applying tool permission override', {
+          toolName,
+          role,
+          scope: userOverride ? 'user' : 'role',
+          allowed: override.allowed
+        });
+        return override.allowed;
+      }
+
+      return this.securityManager.hasPermission(role, requiredLevel);
+    } catch (error) {
+      logError('Failed to check tool permission', error, { toolName });
+      return false;
+    }
+  }
+
+  async setToolPermission(input: ToolPermissionInput, actor: AccessActor): Promise<ServiceResponse<ToolPermission>> {
+    try {
+      if (Boolean(input.role) === Boolean(input.userId)) {
+        return { success: false, error: 'Provide exactly one of role or userId' };
+      }
+
+      const where = input.userId
+        ? { toolName: input.toolName, userId: input.userId }
+        : { toolName: input.toolName, role: input.role };
+
+      const existing = await this.toolPermissionRepo.findOne({ where });
+      const row = await this.toolPermissionRepo.save(
+        this.toolPermissionRepo.merge(existing ?? this.toolPermissionRepo.create(where), { allowed: input.allowed })
+      );
+
+      this.overrideCache = null;
+      this.securityManager.logAudit(actor.handle, 'SET_TOOL_PERMISSION', {
+        toolName: input.toolName,
+        role: input.role,
+        allowed: input.allowed
+      }, input.userId);
+
+      return { success: true, data: row };
+    } catch (error: any) {
+      logError('Failed to set tool permission', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async removeToolPermission(id: string, actor: AccessActor): Promise<ServiceResponse<boolean>> {
+    try {
+      const result = await this.toolPermissionRepo.delete({ id });
+      if (!result.affected) {
+        return { success: false, error: 'Tool permission not found' };
+      }
+
+      this.overrideCache = null;
+      this.securityManager.logAudit(actor.handle, 'REMOVE_TOOL_PERMISSION', { id });
+      return { success: true, data: true };
+    } catch (error: any) {
+      logError('Failed to remove tool permission', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  private async getToolOverrides(): Promise<ToolPermission[]> {
+    if (this.overrideCache && Date.now() - this.overrideCache.loadedAt < this.overrideCacheTtlMs) {
+      return this.overrideCache.rows;
+    }
+
+    const rows = await this.toolPermissionRepo.find();
+    this.overrideCache = { rows, loadedAt: Date.now() };
+    return rows;
+  }
+}
+
+// Singleton instance
+let accessControlServiceInstance: AccessControlService | null = null;
+
+export const getAccessControlService = (): AccessControlService => {
+  if (!accessControlServiceInstance) {
+    accessControlServiceInstance = new AccessControlService();
+  }
+  return accessControlServiceInstance;
+};
+
+export default AccessControlService;
@@ -3,6 +3,7 @@ import { config } from '../config';
 import { logDebug, logWarn, logInfo, logError } from '../utils/logger';
 import { RateLimiter, ManagedPermit } from './RateLimiter';
 import { getNotificationService } from './NotificationService';
+import { getUsageService, UsageAttribution } from './UsageService';
 
 interface RequestOptions {
   priority?: number;
@@ -12,6 +13,7 @@ interface RequestOptions {
   tags?: string[];
   retryOn429?: boolean;
   chatGuid?: string; // For typing indicator events
+  usage?: UsageAttribution; // Stores the response's token usage against a user/role
 }
 
 interface QueueItem<T> {
@@ -27,6 +29,7 @@ interface QueueItem<T> {
   retryCount: number;
   retryOn429: boolean;
   chatGuid?: string;
+  usage?: UsageAttribution;
 }
 
 const DEFAULT_MAX_RETRIES = 4;
@@ -64,7 +67,8 @@ export class AnthropicRequestManager extends EventEmitter {
       tags: options.tags,
       retryCount: 0,
       retryOn429: options.retryOn429 ?? true,
-      chatGuid: options.chatGuid
+      chatGuid: options.chatGuid,
+      usage: options.usage
     } as QueueItem<T>;
 
     const promise = new Promise<T>((resolve, reject) => {
@@ -136,6 +140,15 @@ export class AnthropicRequestManager extends EventEmitter {
       permit.complete(usage?.inputTokens, usage?.outputTokens);
 
       this.logSuccess(item, usage, Date.now() - startTime);
+      if (item.usage) {
+        void getUsageService().record({
+          ...item.usage,
+          model: (result as any)?.model || 'unknown',
+          inputTokens: usage?.inputTokens ?? 0,
+          outputTokens: usage?.outputTokens ?? 0,
+          description: item.description
+        });
+      }
       item.resolve(result);
     } catch (error: any) {
       if (permit) {
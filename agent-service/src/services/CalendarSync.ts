@@ -0,0 +1,82 @@
+import { getGoogleCalendarService, GoogleCalendarService } from './GoogleCalendarService';
+import { logInfo, logError, logDebug, logWarn } from '../utils/logger';
+import { config } from '../config';
+
+/**
+ * CalendarSync periodically pulls Google Calendar changes for every linked
+ * user so calendar_events stays fresh between tool calls.
+ */
+export class CalendarSync {
+  private calendarService: GoogleCalendarService;
+  private intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  constructor(intervalMs = config.google.syncIntervalMs) {
+    this.calendarService = getGoogleCalendarService();
+    this.intervalMs = intervalMs;
+  }
+
+  start(): void {
+    if (this.timer) {
+      logWarn('CalendarSync already running');
+      return;
+    }
+
+    logInfo('CalendarSync started', { intervalMs: this.intervalMs });
+
+    // Run immediately, then on an interval
+    this.runOnce();
+    this.timer = setInterval(() => this.runOnce(), this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logInfo('CalendarSync stopped');
+    }
+  }
+
+  async runOnce(): Promise<void> {
+    if (this.isProcessing) {
+      logDebug('CalendarSync skipping run - already processing');
+      return;
+    }
+
+    this.isProcessing = true;
+
+    try {
+      const synced = await this.calendarService.syncAllUsers();
+      logDebug('CalendarSync run complete', { synced });
+    } catch (error) {
+      logError('CalendarSync run failed', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
+
+// Singleton instance
+let calendarSyncInstance: CalendarSync | null = null;
+
+export function getCalendarSync(): CalendarSync {
+  if (!calendarSyncInstance) {
+    calendarSyncInstance = new CalendarSync();
+  }
+  return calendarSyncInstance;
+}
+
+export function startCalendarSync(): void {
+  if (!getGoogleCalendarService().isConfigured()) {
+    logInfo('CalendarSync disabled');
+    return;
+  }
+  getCalendarSync().start();
+}
+
+export function stopCalendarSync(): void {
+  if (calendarSyncInstance) {
+    calendarSyncInstance.stop();
+  }
+}
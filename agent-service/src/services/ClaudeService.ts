@@ -2,6 +2,7 @@ import Anthropic from '@anthropic-ai/sdk';
 import { logInfo, logError, logDebug } from '../utils/logger';
 import { ClaudeMessage, ClaudeContext, ClaudeResponse, ServiceResponse } from '../types';
 import { config } from '../config';
+import { getEmbeddingService } from './EmbeddingService';
 
 export class ClaudeService {
   private anthropic: Anthropic;
@@ -168,26 +169,9 @@ export class ClaudeService {
   }
 
   async generateEmbedding(text: string): Promise<ServiceResponse<number[]>> {
-    try {
-      // Note: Claude doesn't provide embeddings directly
-      // We'll implement this with an alternative service or return a placeholder
-      logDebug('Generating embedding for text', { textLength: text.length });
-      
-      // For now, return a placeholder embedding
-      // In production, integrate with an embedding service like OpenAI or Cohere
-      const embedding = new Array(1536).fill(0).map(() => Math.random());
-      
-      return {
-        success: true,
-        data: embedding
-      };
-    } catch (error: any) {
-      logError('Failed to generate embedding', error);
-      return {
-        success: false,
-        error: error.message || 'Failed to generate embedding'
-      };
-    }
+    // Claude doesn't provide embeddings directly - delegate to the configured EmbeddingProvider
+    logDebug('Generating embedding for text', { textLength: text.length });
+    return getEmbeddingService().embed(text);
   }
 
   private buildSystemPrompt(): string {
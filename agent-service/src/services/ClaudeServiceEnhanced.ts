@@ -1,4 +1,3 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 import { logInfo, logError, logDebug, logWarn } from '../utils/logger';
@@ -8,6 +7,8 @@ import { ProcessedMessage } from '../handlers/MessageHandler';
 import { getToolRegistry } from '../tools/ToolRegistry';
 import { ToolExecutionContext } from '../tools/Tool';
 import { getAnthropicRequestManager } from './AnthropicRequestManager';
+import { getLLMRoute, LLMRoute } from './LLMService';
+import { getUsageService, OVER_BUDGET_PROMPT_NOTE, UsageAttribution } from './UsageService';
 
 // Load Grace system prompt from markdown file
 const GRACE_PROMPT_PATH = join(__dirname, '../agents/prompts/grace_system_prompt.md');
@@ -40,7 +41,8 @@ export interface EnhancedClaudeResponse {
  * Enhanced Claude Service with tool calling and vision support
  */
 export class ClaudeServiceEnhanced {
-  private anthropic: Anthropic;
+  private route: LLMRoute;
+  private requestHeaders?: Record<string, string>;
   private model: string;
   private configuredModel: string;
   private responseMaxTokens: number;
@@ -53,18 +55,17 @@ export class ClaudeServiceEnhanced {
   private loggedWebFetchUnsupported = false;
   
   constructor() {
-    this.configuredModel = config.anthropic.model || DEFAULT_MODEL;
-    this.model = this.resolveModelAlias(this.configuredModel);
-
-    const defaultHeaders: Record<string, string> = {};
-    if (config.anthropic.enableWebFetch && this.supportsWebFetch()) {
-      defaultHeaders['anthropic-beta'] = config.anthropic.webFetchBetaHeader || 'web-fetch-2025-09-10';
+    this.route = getLLMRoute('interaction');
+    this.configuredModel = this.route.model || config.anthropic.model || DEFAULT_MODEL;
+    // Aliases and beta headers only mean something to Anthropic
+    this.model = this.isAnthropic() ? this.resolveModelAlias(this.configuredModel) : this.configuredModel;
+
+    if (this.isAnthropic() && config.anthropic.enableWebFetch && this.supportsWebFetch()) {
+      this.requestHeaders = {
+        'anthropic-beta': config.anthropic.webFetchBetaHeader || 'web-fetch-2025-09-10'
+      };
     }
 
-    this.anthropic = new Anthropic({
-      apiKey: config.anthropic.apiKey,
-      defaultHeaders: Object.keys(defaultHeaders).length > 0 ? defaultHeaders : undefined
-    });
     this.responseMaxTokens = config.anthropic.responseMaxTokens
       || config.anthropic.maxTokens
       || 600;
@@ -106,6 +107,20 @@ export class ClaudeServiceEnhanced {
   ): Promise<ServiceResponse<EnhancedClaudeResponse>> {
     try {
       const activeModel = this.model;
+
+      // Over budget: shorter answers and no web search
+      const budget = await getUsageService().getBudgetStatus(toolContext.userId);
+      const maxTokens = budget.exceeded
+        ? Math.min(config.usage.degradedMaxTokens, this.responseMaxTokens)
+        : this.responseMaxTokens;
+      const budgetNote = budget.exceeded ? `\n\n${OVER_BUDGET_PROMPT_NOTE}` : '';
+      const usage: UsageAttribution = {
+        role: 'interaction',
+        provider: this.route.provider.name,
+        userId: toolContext.userId,
+        conversationId: toolContext.conversationId
+      };
+
       logDebug('Sending enhanced message to Claude', { 
         messageCount: processedMessages.length,
         model: activeModel,
@@ -117,12 +132,12 @@ export class ClaudeServiceEnhanced {
       
       // Get tool definitions (client tools)
       const toolDefinitions = this.toolRegistry.getToolDefinitions();
-      const serverTools = this.buildServerToolDefinitions();
+      const serverTools = budget.exceeded ? [] : this.buildServerToolDefinitions();
       const combinedTools = [...toolDefinitions, ...serverTools];
       const toolsPayload = combinedTools.length > 0 ? (combinedTools as any) : undefined;
 
       const basePrompt = systemPrompt || this.buildAgentGracePrompt();
-      const finalSystemPrompt = this.buildDynamicSystemPrompt(basePrompt, toolContext.runtimeContext);
+      const finalSystemPrompt = this.buildDynamicSystemPrompt(basePrompt, toolContext.runtimeContext) + budgetNote;
       
       logInfo('Tools available for Claude', {
         toolCount: combinedTools.length,
@@ -134,19 +149,21 @@ export class ClaudeServiceEnhanced {
       });
 
       // Create Claude API request
-      let response = await this.performAnthropicRequest(() => this.anthropic.messages.create({
+      let response = await this.performAnthropicRequest(() => this.route.provider.createMessage({
         model: activeModel,
-        max_tokens: this.responseMaxTokens,
+        max_tokens: maxTokens,
         temperature: this.temperature,
         system: finalSystemPrompt,
         messages,
         tools: toolsPayload
-      }), {
+      }, { headers: this.requestHeaders }), {
         description: 'claude-sendMessage',
         estimatedInputTokens: this.estimateInputTokens(messages),
-        estimatedOutputTokens: this.responseMaxTokens,
-        chatGuid: toolContext.chatGuid
+        estimatedOutputTokens: maxTokens,
+        chatGuid: toolContext.chatGuid,
+        usage
       });
+      let tokensUsed = (response.usage?.input_tokens ?? 0) + (response.usage?.output_tokens ?? 0);
 
       const toolsUsed: string[] = [];
 
@@ -183,19 +200,21 @@ export class ClaudeServiceEnhanced {
           content: toolResults
         });
 
-        response = await this.performAnthropicRequest(() => this.anthropic.messages.create({
+        response = await this.performAnthropicRequest(() => this.route.provider.createMessage({
           model: activeModel,
-          max_tokens: this.responseMaxTokens,
+          max_tokens: maxTokens,
           temperature: this.temperature,
-          system: systemPrompt || this.buildAgentGracePrompt(),
+          system: (systemPrompt || this.buildAgentGracePrompt()) + budgetNote,
           messages,
           tools: toolsPayload
-        }), {
+        }, { headers: this.requestHeaders }), {
           description: 'claude-tool-followup',
           estimatedInputTokens: this.estimateInputTokens(messages),
-          estimatedOutputTokens: this.responseMaxTokens,
-          chatGuid: toolContext.chatGuid
+          estimatedOutputTokens: maxTokens,
+          chatGuid: toolContext.chatGuid,
+          usage
         });
+        tokensUsed += (response.usage?.input_tokens ?? 0) + (response.usage?.output_tokens ?? 0);
       }
 
       // Extract final text response
@@ -206,7 +225,7 @@ export class ClaudeServiceEnhanced {
 
       const result: EnhancedClaudeResponse = {
         content: textContent,
-        tokensUsed: response.usage?.output_tokens || 0,
+        tokensUsed,
         finishReason: response.stop_reason || 'stop',
         toolsUsed: toolsUsed.length > 0 ? toolsUsed : undefined,
         metadata: {
@@ -358,6 +377,7 @@ export class ClaudeServiceEnhanced {
       priority?: number;
       tags?: string[];
       chatGuid?: string;
+      usage?: UsageAttribution;
     }
   ): Promise<T> {
     let attempt = 0;
@@ -373,7 +393,8 @@ export class ClaudeServiceEnhanced {
             estimatedOutputTokens: options.estimatedOutputTokens,
             description: options.description,
             tags: options.tags,
-            chatGuid: options.chatGuid
+            chatGuid: options.chatGuid,
+            usage: options.usage
           }
         );
       } catch (error: any) {
@@ -423,6 +444,10 @@ export class ClaudeServiceEnhanced {
   private buildServerToolDefinitions(): Array<{ type: string; name: string; max_uses?: number }> {
     const tools: Array<{ type: string; name: string; max_uses?: number }> = [];
 
+    if (!this.isAnthropic()) {
+      return tools;
+    }
+
     if (config.anthropic.enableWebSearch) {
       if (this.supportsWebSearch()) {
         tools.push({
@@ -457,7 +482,7 @@ export class ClaudeServiceEnhanced {
   }
 
   private shouldFallbackModel(error: any): boolean {
-    if (!error) {
+    if (!error || !this.isAnthropic()) {
       return false;
     }
 
@@ -470,6 +495,10 @@ export class ClaudeServiceEnhanced {
     ) || type === 'NotFoundError';
   }
 
+  private isAnthropic(): boolean {
+    return this.route.provider.name === 'anthropic';
+  }
+
   private supportsWebSearch(): boolean {
     const patterns = [
       'claude-3-5-haiku',
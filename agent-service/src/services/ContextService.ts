@@ -1,20 +1,39 @@
-import { Repository } from 'typeorm';
+import { Brackets, In, Repository } from 'typeorm';
 import { AppDataSource } from '../database/connection';
 import { ContextMemory } from '../database/entities/ContextMemory';
 import { Message } from '../database/entities/Message';
 import { logInfo, logError, logDebug } from '../utils/logger';
 import { ServiceResponse, ContextMemory as IContextMemory } from '../types';
-import { getClaudeService } from './ClaudeService';
+import { getEmbeddingService, cosineSimilarity } from './EmbeddingService';
+import { config } from '../config';
+
+type MemoryType = 'working' | 'session' | 'long_term';
+
+export interface RelevantMemoryOptions {
+  limit?: number;
+  memoryTypes?: MemoryType[];
+  /** Restrict working/session memories to this conversation; long-term memories are always included. */
+  conversationId?: string;
+  minScore?: number;
+}
+
+export interface ScoredMemory {
+  memory: IContextMemory;
+  score: number;
+}
+
+// Upper bound on memories scored in-process per query
+const MAX_SEMANTIC_CANDIDATES = 500;
 
 export class ContextService {
   private contextRepo: Repository<ContextMemory>;
   private messageRepo: Repository<Message>;
-  private claudeService: ReturnType<typeof getClaudeService>;
+  private embeddingService: ReturnType<typeof getEmbeddingService>;
   
   constructor() {
     this.contextRepo = AppDataSource.getRepository(ContextMemory);
     this.messageRepo = AppDataSource.getRepository(Message);
-    this.claudeService = getClaudeService();
+    this.embeddingService = getEmbeddingService();
   }
 
   async saveMemory(
@@ -23,7 +42,8 @@ export class ContextService {
     value: string,
     memoryType: 'working' | 'session' | 'long_term' = 'session',
     conversationId?: string,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    expiresAt?: Date
   ): Promise<ServiceResponse<IContextMemory>> {
     try {
       logDebug('Saving memory', { userId, key, memoryType });
@@ -38,9 +58,10 @@ export class ContextService {
         }
       });
 
-      // Generate embedding for semantic search
-      const embeddingResponse = await this.claudeService.generateEmbedding(value);
+      // Generate embedding for semantic search (the backfill job retries failures)
+      const embeddingResponse = await this.embeddingService.embed(`${key}: ${value}`);
       const embedding = embeddingResponse.success ? embeddingResponse.data : undefined;
+      const embeddingModel = embedding ? this.embeddingService.modelId : undefined;
 
       let memory: ContextMemory;
       
@@ -49,6 +70,7 @@ export class ContextService {
         existingMemory.value = value;
         existingMemory.metadata = { ...existingMemory.metadata, ...metadata };
         existingMemory.embedding = embedding;
+        existingMemory.embeddingModel = embeddingModel;
         existingMemory.updatedAt = new Date();
         
         if (memoryType === 'working') {
@@ -58,6 +80,10 @@ export class ContextService {
           // Session memory expires in 24 hours
           existingMemory.expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
         }
+
+        if (expiresAt) {
+          existingMemory.expiresAt = expiresAt;
+        }
         
         memory = await this.contextRepo.save(existingMemory);
       } else {
@@ -70,7 +96,10 @@ export class ContextService {
           value,
           metadata: metadata || {},
           embedding,
-          expiresAt: memoryType === 'working' 
+          embeddingModel,
+          expiresAt: expiresAt
+            ? expiresAt
+            : memoryType === 'working'
             ? new Date(Date.now() + 60 * 60 * 1000)  // 1 hour
             : memoryType === 'session'
             ? new Date(Date.now() + 24 * 60 * 60 * 1000)  // 24 hours
@@ -193,22 +222,37 @@ export class ContextService {
   ): Promise<ServiceResponse<IContextMemory[]>> {
     try {
       logDebug('Searching memories', { userId, query, limit });
-      
-      // For now, do a simple text search
-      // In production, use vector similarity search with embeddings
-      const memories = await this.contextRepo
-        .createQueryBuilder('memory')
-        .where('memory.userId = :userId', { userId })
-        .andWhere('(memory.key ILIKE :query OR memory.value ILIKE :query)', {
-          query: `%${query}%`
-        })
-        .orderBy('memory.updatedAt', 'DESC')
-        .limit(limit)
-        .getMany();
+
+      const semantic = await this.findRelevantMemories(userId, query, { limit });
+      const results = semantic.success && semantic.data
+        ? semantic.data.map(result => result.memory)
+        : [];
+
+      // Top up with keyword matches (exact names, numbers) the embeddings may rank low
+      if (results.length < limit) {
+        const keywordMatches = await this.contextRepo
+          .createQueryBuilder('memory')
+          .where('memory.userId = :userId', { userId })
+          .andWhere('(memory.key ILIKE :query OR memory.value ILIKE :query)', {
+            query: `%${query}%`
+          })
+          .andWhere('(memory.expiresAt IS NULL OR memory.expiresAt > :now)', { now: new Date() })
+          .orderBy('memory.updatedAt', 'DESC')
+          .limit(limit)
+          .getMany();
+
+        const seen = new Set(results.map(memory => memory.id));
+        for (const memory of keywordMatches) {
+          if (results.length >= limit) break;
+          if (!seen.has(memory.id)) {
+            results.push(this.mapToInterface(memory));
+          }
+        }
+      }
 
       return {
         success: true,
-        data: memories.map(m => this.mapToInterface(m))
+        data: results
       };
     } catch (error: any) {
       logError('Failed to search memories', error);
@@ -219,6 +263,95 @@ export class ContextService {
     }
   }
 
+  /**
+   * Rank a user's memories by cosine similarity to `query`.
+   * Memories without an embedding from the current provider are embedded on the fly.
+   */
+  async findRelevantMemories(
+    userId: string,
+    query: string,
+    options: RelevantMemoryOptions = {}
+  ): Promise<ServiceResponse<ScoredMemory[]>> {
+    try {
+      const {
+        limit = 5,
+        memoryTypes = ['working', 'session', 'long_term'],
+        conversationId,
+        minScore = config.embeddings.minSimilarity
+      } = options;
+
+      if (!query.trim() || memoryTypes.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      const queryEmbedding = await this.embeddingService.embed(query);
+      if (!queryEmbedding.success || !queryEmbedding.data) {
+        return { success: false, error: queryEmbedding.error || 'Failed to embed query' };
+      }
+      const queryVector = queryEmbedding.data;
+
+      const qb = this.contextRepo
+        .createQueryBuilder('memory')
+        .where('memory.userId = :userId', { userId })
+        .andWhere('memory.memoryType IN (:...memoryTypes)', { memoryTypes })
+        .andWhere('(memory.expiresAt IS NULL OR memory.expiresAt > :now)', { now: new Date() });
+
+      if (conversationId) {
+        qb.andWhere(new Brackets(scope => {
+          scope.where('memory.memoryType = :longTerm', { longTerm: 'long_term' })
+            .orWhere('memory.conversationId = :conversationId', { conversationId });
+        }));
+      }
+
+      const candidates = await qb
+        .orderBy('memory.updatedAt', 'DESC')
+        .limit(MAX_SEMANTIC_CANDIDATES)
+        .getMany();
+
+      if (candidates.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      const modelId = this.embeddingService.modelId;
+      const stale = candidates.filter(memory => memory.embeddingModel !== modelId || !Array.isArray(memory.embedding));
+      if (stale.length > 0) {
+        const fresh = await this.embeddingService.embedBatch(stale.map(memory => `${memory.key}: ${memory.value}`));
+        const vectors = fresh.data;
+        if (fresh.success && vectors) {
+          stale.forEach((memory, index) => {
+            memory.embedding = vectors[index];
+            memory.embeddingModel = modelId;
+          });
+        }
+      }
+
+      const scored = candidates
+        .filter(memory => memory.embeddingModel === modelId && Array.isArray(memory.embedding))
+        .map(memory => ({
+          memory: this.mapToInterface(memory),
+          score: cosineSimilarity(queryVector, memory.embedding)
+        }))
+        .filter(result => result.score >= minScore)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+
+      logDebug('Ranked memories by similarity', {
+        userId,
+        candidates: candidates.length,
+        matches: scored.length,
+        topScore: scored[0]?.score
+      });
+
+      return { success: true, data: scored };
+    } catch (error: any) {
+      logError('Failed to find relevant memories', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to find relevant memories'
+      };
+    }
+  }
+
   async buildConversationContext(
     userId: string,
     conversationId: string,
@@ -293,7 +426,7 @@ export class ContextService {
       const result = await this.contextRepo
         .createQueryBuilder()
         .delete()
-        .where('expiresAt < :now', { now: new Date() })
+        .where('expires_at < :now', { now: new Date() })
         .execute();
       
       if (result.affected && result.affected > 0) {
@@ -304,6 +437,107 @@ export class ContextService {
     }
   }
 
+  /**
+   * Fetch a single memory, scoped to its owner.
+   */
+  async getMemoryById(userId: string, memoryId: string): Promise<ServiceResponse<IContextMemory | null>> {
+    try {
+      const memory = await this.contextRepo.findOne({ where: { id: memoryId, userId } });
+
+      if (!memory || (memory.expiresAt && memory.expiresAt < new Date())) {
+        return {
+          success: true,
+          data: null
+        };
+      }
+
+      return {
+        success: true,
+        data: this.mapToInterface(memory)
+      };
+    } catch (error: any) {
+      logError('Failed to get memory by id', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to get memory'
+      };
+    }
+  }
+
+  /**
+   * Correct an existing memory's key/value/expiry in place.
+   * Pass `expiresAt: null` to make the memory permanent.
+   */
+  async updateMemory(
+    userId: string,
+    memoryId: string,
+    updates: { key?: string; value?: string; expiresAt?: Date | null; metadata?: Record<string, any> }
+  ): Promise<ServiceResponse<IContextMemory>> {
+    try {
+      const memory = await this.contextRepo.findOne({ where: { id: memoryId, userId } });
+
+      if (!memory) {
+        return {
+          success: false,
+          error: 'Memory not found'
+        };
+      }
+
+      const contentChanged =
+        (updates.key !== undefined && updates.key !== memory.key) ||
+        (updates.value !== undefined && updates.value !== memory.value);
+
+      if (updates.key !== undefined) memory.key = updates.key;
+      if (updates.value !== undefined) memory.value = updates.value;
+      if (updates.expiresAt !== undefined) memory.expiresAt = updates.expiresAt;
+      if (updates.metadata) memory.metadata = { ...memory.metadata, ...updates.metadata };
+
+      if (contentChanged) {
+        const embeddingResponse = await this.embeddingService.embed(`${memory.key}: ${memory.value}`);
+        memory.embedding = embeddingResponse.success ? embeddingResponse.data : null;
+        memory.embeddingModel = embeddingResponse.success ? this.embeddingService.modelId : undefined;
+      }
+
+      const updatedMemory = await this.contextRepo.save(memory);
+
+      logInfo('Memory updated', { id: memoryId, key: updatedMemory.key });
+
+      return {
+        success: true,
+        data: this.mapToInterface(updatedMemory)
+      };
+    } catch (error: any) {
+      logError('Failed to update memory', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to update memory'
+      };
+    }
+  }
+
+  async deleteMemories(userId: string, memoryIds: string[]): Promise<ServiceResponse<number>> {
+    try {
+      if (memoryIds.length === 0) {
+        return { success: true, data: 0 };
+      }
+
+      const result = await this.contextRepo.delete({ userId, id: In(memoryIds) });
+
+      logInfo('Memories deleted', { userId, count: result.affected || 0 });
+
+      return {
+        success: true,
+        data: result.affected || 0
+      };
+    } catch (error: any) {
+      logError('Failed to delete memories', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to delete memories'
+      };
+    }
+  }
+
   async promoteMemory(
     memoryId: string,
     newType: 'session' | 'long_term'
@@ -326,7 +560,7 @@ export class ContextService {
       if (newType === 'session') {
         memory.expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
       } else if (newType === 'long_term') {
-        memory.expiresAt = undefined; // No expiration
+        memory.expiresAt = null; // No expiration
       }
 
       const updatedMemory = await this.contextRepo.save(memory);
@@ -357,7 +591,7 @@ export class ContextService {
       metadata: memory.metadata,
       createdAt: memory.createdAt,
       updatedAt: memory.updatedAt,
-      expiresAt: memory.expiresAt,
+      expiresAt: memory.expiresAt ?? undefined,
       embedding: memory.embedding
     };
   }
@@ -0,0 +1,382 @@
+import { EntityManager, In } from 'typeorm';
+import { AppDataSource } from '../database/connection';
+import { User } from '../database/entities/User';
+import { Conversation } from '../database/entities/Conversation';
+import { Message } from '../database/entities/Message';
+import { ContextMemory } from '../database/entities/ContextMemory';
+import { Reminder } from '../database/entities/Reminder';
+import { Trigger } from '../database/entities/Trigger';
+import { getReminderService } from './ReminderService';
+import { logInfo, logError } from '../utils/logger';
+import { ServiceResponse } from '../types';
+
+export const ARCHIVE_FORMAT = 'grace-conversation-archive';
+export const ARCHIVE_VERSION = 1;
+
+export type ArchiveRenderFormat = 'json' | 'markdown' | 'html';
+
+type ArchivedRow = Record<string, any>;
+
+export interface ArchivedConversation extends ArchivedRow {
+  messages: ArchivedRow[];
+}
+
+/**
+ * Everything we hold for one user. Embeddings are left out - they are
+ * regenerated by the embedding backfill after an import.
+ */
+export interface ConversationArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  user: ArchivedRow;
+  conversations: ArchivedConversation[];
+  memories: ArchivedRow[];
+  reminders: ArchivedRow[];
+  triggers: ArchivedRow[];
+}
+
+export interface ArchiveImportSummary {
+  userId: string;
+  conversations: number;
+  messages: number;
+  memories: number;
+  reminders: number;
+  triggers: number;
+  /** Group chat messages from participants who don't exist in this database */
+  skippedMessages: number;
+}
+
+const OMITTED_FIELDS = ['embedding', 'embeddingModel'];
+
+// Columns restored as Date objects on import
+const DATE_FIELDS = [
+  'createdAt',
+  'updatedAt',
+  'startedAt',
+  'lastMessageAt',
+  'expiresAt',
+  'remindAt',
+  'completedAt',
+  'startTime',
+  'nextTrigger'
+];
+
+const toRow = (entity: object): ArchivedRow => {
+  const row: ArchivedRow = { ...entity };
+  OMITTED_FIELDS.forEach(field => delete row[field]);
+  return row;
+};
+
+const reviveDates = (row: ArchivedRow): ArchivedRow => {
+  const revived: ArchivedRow = { ...row };
+  for (const field of DATE_FIELDS) {
+    if (typeof revived[field] === 'string') {
+      revived[field] = new Date(revived[field]);
+    }
+  }
+  return revived;
+};
+
+const formatDate = (value: unknown): string => {
+  if (!value) return '';
+  const date = new Date(value as string);
+  return Number.isNaN(date.getTime()) ? String(value) : date.toISOString().replace('T', ' ').substring(0, 16);
+};
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const speakerName = (message: ArchivedRow, archive: ConversationArchive): string => {
+  if (message.role === 'assistant') return 'Grace';
+  if (message.userId === archive.user.id) return 'You';
+  return message.metadata?.senderHandle || 'Participant';
+};
+
+const conversationTitle = (conversation: ArchivedConversation): string =>
+  `${conversation.channel === 'email' ? 'Email' : 'iMessage'}${conversation.metadata?.subject ? ` - ${conversation.metadata.subject}` : ''} (started ${formatDate(conversation.startedAt)})`;
+
+/**
+ * Validate an uploaded archive before touching the database.
+ */
+export function parseConversationArchive(input: unknown): ConversationArchive {
+  const archive = (typeof input === 'string' ? JSON.parse(input) : input) as ConversationArchive;
+
+  if (!archive || typeof archive !== 'object' || archive.format !== ARCHIVE_FORMAT) {
+    throw new Error('Not a conversation archive');
+  }
+  if (archive.version !== ARCHIVE_VERSION) {
+    throw new Error(`Unsupported archive version ${archive.version}`);
+  }
+  if (!archive.user?.id) {
+    throw new Error('Archive is missing its user');
+  }
+  for (const key of ['conversations', 'memories', 'reminders', 'triggers'] as const) {
+    if (!Array.isArray(archive[key])) {
+      throw new Error(`Archive field "${key}" must be an array`);
+    }
+  }
+
+  return archive;
+}
+
+/**
+ * ConversationArchiveService exports a user's history (conversations,
+ * messages, memories, reminders and triggers) as a portable archive and
+ * restores archives into another database, keeping the original IDs.
+ */
+export class ConversationArchiveService {
+  async exportUser(userId: string): Promise<ServiceResponse<ConversationArchive>> {
+    try {
+      const user = await AppDataSource.getRepository(User).findOne({ where: { id: userId } });
+      if (!user) {
+        return { success: false, error: 'User not found' };
+      }
+
+      const conversations = await AppDataSource.getRepository(Conversation).find({
+        where: { userId },
+        order: { startedAt: 'ASC' }
+      });
+
+      const messages = conversations.length > 0
+        ? await AppDataSource.getRepository(Message).find({
+          where: { conversationId: In(conversations.map(c => c.id)) },
+          order: { createdAt: 'ASC' }
+        })
+        : [];
+
+      const [memories, reminders, triggers] = await Promise.all([
+        AppDataSource.getRepository(ContextMemory).find({ where: { userId }, order: { createdAt: 'ASC' } }),
+        AppDataSource.getRepository(Reminder).find({ where: { userId }, order: { createdAt: 'ASC' } }),
+        AppDataSource.getRepository(Trigger).find({ where: { userId }, order: { createdAt: 'ASC' } })
+      ]);
+
+      const archive: ConversationArchive = {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exportedAt: new Date().toISOString(),
+        user: toRow(user),
+        conversations: conversations.map(conversation => ({
+          ...toRow(conversation),
+          messages: messages
+            .filter(message => message.conversationId === conversation.id)
+            .map(toRow)
+        })),
+        memories: memories.map(toRow),
+        reminders: reminders.map(toRow),
+        triggers: triggers.map(toRow)
+      };
+
+      logInfo('Exported conversation archive', {
+        userId,
+        conversations: conversations.length,
+        messages: messages.length
+      });
+
+      return { success: true, data: archive };
+    } catch (error: any) {
+      logError('Failed to export conversation archive', error, { userId });
+      return { success: false, error: error.message || 'Failed to export archive' };
+    }
+  }
+
+  /**
+   * Restore an archive in one transaction. Refuses to overwrite: the user
+   * must not already exist, so this is meant for a fresh database.
+   */
+  async importArchive(input: unknown): Promise<ServiceResponse<ArchiveImportSummary>> {
+    let archive: ConversationArchive;
+    try {
+      archive = parseConversationArchive(input);
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+
+    try {
+      const summary = await AppDataSource.transaction(manager => this.restore(manager, archive));
+
+      // Pending reminders need their queue jobs back
+      await getReminderService().restorePendingJobs(summary.userId);
+
+      logInfo('Imported conversation archive', { ...summary });
+      return { success: true, data: summary };
+    } catch (error: any) {
+      logError('Failed to import conversation archive', error, { userId: archive.user.id });
+      return { success: false, error: error.message || 'Failed to import archive' };
+    }
+  }
+
+  render(archive: ConversationArchive, format: ArchiveRenderFormat): string {
+    switch (format) {
+      case 'markdown':
+        return this.renderMarkdown(archive);
+      case 'html':
+        return this.renderHtml(archive);
+      default:
+        return JSON.stringify(archive, null, 2);
+    }
+  }
+
+  private async restore(manager: EntityManager, archive: ConversationArchive): Promise<ArchiveImportSummary> {
+    const { user } = archive;
+
+    const existing = await manager.getRepository(User).findOne({ where: { id: user.id } });
+    if (existing) {
+      throw new Error(`User ${user.id} already exists in this database`);
+    }
+    if (user.phoneNumber && await manager.getRepository(User).findOne({ where: { phoneNumber: user.phoneNumber } })) {
+      throw new Error(`Another user already has phone number ${user.phoneNumber}`);
+    }
+
+    await manager.getRepository(User).insert(reviveDates(user));
+
+    const messages = archive.conversations.flatMap(conversation => conversation.messages ?? []);
+    const participantIds = [...new Set(messages.map(message => message.userId).filter(id => id !== user.id))];
+    const knownParticipants = participantIds.length > 0
+      ? new Set((await manager.getRepository(User).find({ where: { id: In(participantIds) }, select: ['id'] })).map(u => u.id))
+      : new Set<string>();
+    const restorable = messages.filter(message => message.userId === user.id || knownParticipants.has(message.userId));
+
+    for (const { messages: _messages, ...conversation } of archive.conversations) {
+      await manager.getRepository(Conversation).insert(reviveDates(conversation));
+    }
+    for (const message of restorable) {
+      await manager.getRepository(Message).insert(reviveDates(message));
+    }
+    const conversationIds = new Set(archive.conversations.map(conversation => conversation.id));
+    for (const memory of archive.memories) {
+      // Memories can point at a group chat owned by someone else; keep them, unlinked
+      const conversationId = memory.conversationId && conversationIds.has(memory.conversationId) ? memory.conversationId : null;
+      await manager.getRepository(ContextMemory).insert(reviveDates({ ...memory, conversationId }));
+    }
+    for (const reminder of archive.reminders) {
+      await manager.getRepository(Reminder).insert(reviveDates(reminder));
+    }
+    for (const { id: _id, ...trigger } of archive.triggers) {
+      // Trigger IDs are serial, so let this database assign new ones
+      await manager.getRepository(Trigger).insert(reviveDates(trigger));
+    }
+
+    return {
+      userId: user.id,
+      conversations: archive.conversations.length,
+      messages: restorable.length,
+      memories: archive.memories.length,
+      reminders: archive.reminders.length,
+      triggers: archive.triggers.length,
+      skippedMessages: messages.length - restorable.length
+    };
+  }
+
+  private renderMarkdown(archive: ConversationArchive): string {
+    const { user } = archive;
+    const lines: string[] = [
+      '# Conversation archive',
+      '',
+      `- User: ${user.phoneNumber || user.email || user.id}`,
+      `- Exported: ${formatDate(archive.exportedAt)} UTC`,
+      ''
+    ];
+
+    lines.push('## Conversations', '');
+    for (const conversation of archive.conversations) {
+      lines.push(`### ${conversationTitle(conversation)}`, '');
+      for (const message of conversation.messages) {
+        const body = String(message.content ?? '').split('\n').join('\n> ');
+        lines.push(`**${speakerName(message, archive)}** · ${formatDate(message.createdAt)}`, `> ${body}`, '');
+      }
+    }
+
+    if (archive.memories.length > 0) {
+      lines.push('## Memories', '');
+      archive.memories.forEach(memory => lines.push(`- **${memory.key}** (${memory.memoryType}): ${memory.value}`));
+      lines.push('');
+    }
+
+    if (archive.reminders.length > 0) {
+      lines.push('## Reminders', '');
+      archive.reminders.forEach(reminder => lines.push(
+        `- [${reminder.status}] ${formatDate(reminder.remindAt)} - ${reminder.content}${reminder.metadata?.recurring ? ` (repeats: ${reminder.metadata.recurringPattern})` : ''}`
+      ));
+      lines.push('');
+    }
+
+    if (archive.triggers.length > 0) {
+      lines.push('## Triggers', '');
+      archive.triggers.forEach(trigger => lines.push(
+        `- [${trigger.status}] ${trigger.agentName}: ${trigger.payload}${trigger.recurrenceRule ? ` (${trigger.recurrenceRule}, ${trigger.timezone})` : ''}`
+      ));
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  private renderHtml(archive: ConversationArchive): string {
+    const { user } = archive;
+    const sections: string[] = [];
+
+    sections.push('<h2>Conversations</h2>');
+    for (const conversation of archive.conversations) {
+      sections.push(`<section><h3>${escapeHtml(conversationTitle(conversation))}</h3>`);
+      for (const message of conversation.messages) {
+        sections.push(
+          `<div class="message ${message.role === 'assistant' ? 'assistant' : 'user'}">` +
+          `<div class="meta">${escapeHtml(speakerName(message, archive))} · ${escapeHtml(formatDate(message.createdAt))}</div>` +
+          `<div class="body">${escapeHtml(message.content).replace(/\n/g, '<br>')}</div></div>`
+        );
+      }
+      sections.push('</section>');
+    }
+
+    if (archive.memories.length > 0) {
+      sections.push('<h2>Memories</h2><ul>');
+      archive.memories.forEach(memory => sections.push(
+        `<li><strong>${escapeHtml(memory.key)}</strong> (${escapeHtml(memory.memoryType)}): ${escapeHtml(memory.value)}</li>`
+      ));
+      sections.push('</ul>');
+    }
+
+    if (archive.reminders.length > 0) {
+      sections.push('<h2>Reminders</h2><ul>');
+      archive.reminders.forEach(reminder => sections.push(
+        `<li>[${escapeHtml(reminder.status)}] ${escapeHtml(formatDate(reminder.remindAt))} - ${escapeHtml(reminder.content)}</li>`
+      ));
+      sections.push('</ul>');
+    }
+
+    if (archive.triggers.length > 0) {
+      sections.push('<h2>Triggers</h2><ul>');
+      archive.triggers.forEach(trigger => sections.push(
+        `<li>[${escapeHtml(trigger.status)}] ${escapeHtml(trigger.agentName)}: ${escapeHtml(trigger.payload)}</li>`
+      ));
+      sections.push('</ul>');
+    }
+
+    return [
+      '<!DOCTYPE html>',
+      '<html><head><meta charset="utf-8"><title>Conversation archive</title>',
+      '<style>body{font-family:-apple-system,sans-serif;max-width:760px;margin:2em auto;color:#222}',
+      '.message{margin:.6em 0;padding:.5em .8em;border-radius:12px;background:#e9e9eb}',
+      '.message.assistant{background:#d7e8ff}.meta{font-size:.8em;color:#666}</style></head><body>',
+      '<h1>Conversation archive</h1>',
+      `<p>User: ${escapeHtml(user.phoneNumber || user.email || user.id)}<br>Exported: ${escapeHtml(formatDate(archive.exportedAt))} UTC</p>`,
+      ...sections,
+      '</body></html>'
+    ].join('\n');
+  }
+}
+
+// Singleton instance
+let conversationArchiveServiceInstance: ConversationArchiveService | null = null;
+
+export const getConversationArchiveService = (): ConversationArchiveService => {
+  if (!conversationArchiveServiceInstance) {
+    conversationArchiveServiceInstance = new ConversationArchiveService();
+  }
+  return conversationArchiveServiceInstance;
+};
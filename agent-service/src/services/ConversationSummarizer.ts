@@ -1,8 +1,9 @@
-import Anthropic from '@anthropic-ai/sdk';
 import type { Message } from '@anthropic-ai/sdk/resources/messages/messages';
 import { config } from '../config';
 import { logDebug } from '../utils/logger';
 import { getAnthropicRequestManager } from './AnthropicRequestManager';
+import { getLLMRoute, LLMRoute } from './LLMService';
+import { UsageAttribution } from './UsageService';
 
 export type ConversationTurn = {
   role: 'user' | 'assistant';
@@ -10,19 +11,21 @@ export type ConversationTurn = {
 };
 
 class ConversationSummarizer {
-  private readonly anthropic: Anthropic;
+  private readonly route: LLMRoute;
   private readonly requestManager = getAnthropicRequestManager();
   private readonly maxSummaryTokens = Math.min(512, config.anthropic.maxTokens || 1024);
   private readonly summarySystemPrompt = 'You are an expert note taker. Summarize the conversation succinctly, capturing key topics, decisions, and action items.';
-  private readonly model = config.anthropic.model || 'claude-3-5-haiku-latest';
+  private readonly model: string;
 
   constructor() {
-    this.anthropic = new Anthropic({
-      apiKey: config.anthropic.apiKey
-    });
+    this.route = getLLMRoute('summarization');
+    this.model = this.route.model || config.anthropic.model || 'claude-3-5-haiku-latest';
   }
 
-  async summarize(turns: ConversationTurn[]): Promise<string> {
+  async summarize(
+    turns: ConversationTurn[],
+    owner: Pick<UsageAttribution, 'userId' | 'conversationId'> = {}
+  ): Promise<string> {
     if (turns.length === 0) {
       return '';
     }
@@ -35,7 +38,7 @@ class ConversationSummarizer {
     });
 
     const response = await this.requestManager.execute<Message>(
-      () => this.anthropic.messages.create({
+      () => this.route.provider.createMessage({
         model: this.model,
         max_tokens: this.maxSummaryTokens,
         temperature: 0.2,
@@ -49,7 +52,8 @@ class ConversationSummarizer {
         description: 'conversation-summary',
         estimatedInputTokens: estimatedTokens,
         estimatedOutputTokens: this.maxSummaryTokens,
-        tags: ['summary']
+        tags: ['summary'],
+        usage: { role: 'summarization', provider: this.route.provider.name, ...owner }
       }
     );
 
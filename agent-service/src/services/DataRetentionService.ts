@@ -0,0 +1,245 @@
+import { EntityManager, EntityTarget, In, Not, ObjectLiteral } from 'typeorm';
+import { AppDataSource } from '../database/connection';
+import { User } from '../database/entities/User';
+import { Conversation } from '../database/entities/Conversation';
+import { Message } from '../database/entities/Message';
+import { ContextMemory } from '../database/entities/ContextMemory';
+import { Reminder } from '../database/entities/Reminder';
+import { CalendarEvent } from '../database/entities/CalendarEvent';
+import { OAuthToken } from '../database/entities/OAuthToken';
+import { Trigger } from '../database/entities/Trigger';
+import { TriggerRun } from '../database/entities/TriggerRun';
+import { ExecutionAgentLog } from '../database/entities/ExecutionAgentLog';
+import { ExecutionBatch } from '../database/entities/ExecutionBatch';
+import { ExecutionTask } from '../database/entities/ExecutionTask';
+import { WorkingMemoryState } from '../database/entities/WorkingMemoryState';
+import { AgentMailInbox } from '../database/entities/AgentMailInbox';
+import { AccessInvite } from '../database/entities/AccessInvite';
+import { ToolPermission } from '../database/entities/ToolPermission';
+import { AuditLog } from '../database/entities/AuditLog';
+import { LLMUsage } from '../database/entities/LLMUsage';
+import { UsageBudget } from '../database/entities/UsageBudget';
+import { normalizeHandle } from '../middleware/security';
+import { logInfo, logError, logDebug } from '../utils/logger';
+import { ServiceResponse } from '../types';
+import { config } from '../config';
+
+/** Rows removed (or anonymized) per table */
+export type DataRemovalReport = Record<string, number>;
+
+interface RetentionRule {
+  table: string;
+  entity: EntityTarget<ObjectLiteral>;
+  /** Column compared against the cutoff */
+  column: string;
+  days: number;
+  /** Extra SQL condition, e.g. to keep rows still in use */
+  condition?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const retentionRules = (): RetentionRule[] => [
+  { table: 'messages', entity: Message, column: 'created_at', days: config.retention.messagesDays },
+  { table: 'execution_agent_logs', entity: ExecutionAgentLog, column: 'created_at', days: config.retention.executionLogsDays },
+  { table: 'working_memory_state', entity: WorkingMemoryState, column: 'updated_at', days: config.retention.workingMemoryDays },
+  {
+    table: 'trigger_runs',
+    entity: TriggerRun,
+    column: 'created_at',
+    days: config.retention.triggerRunsDays,
+    condition: "status NOT IN ('pending', 'running')"
+  },
+  {
+    table: 'execution_batches',
+    entity: ExecutionBatch,
+    column: 'created_at',
+    days: config.retention.executionBatchesDays,
+    condition: "status <> 'running'"
+  }
+];
+
+/**
+ * DataRetentionService enforces per-table retention windows and carries out
+ * "forget me" requests by removing every row tied to a user.
+ */
+export class DataRetentionService {
+  /**
+   * Delete rows older than their table's retention window.
+   */
+  async purgeExpired(): Promise<DataRemovalReport> {
+    const report: DataRemovalReport = {};
+
+    for (const rule of retentionRules()) {
+      if (!(rule.days > 0)) {
+        continue;
+      }
+
+      try {
+        const cutoff = new Date(Date.now() - rule.days * DAY_MS);
+        const query = AppDataSource.createQueryBuilder()
+          .delete()
+          .from(rule.entity)
+          .where(`${rule.column} < :cutoff`, { cutoff });
+
+        if (rule.condition) {
+          query.andWhere(rule.condition);
+        }
+
+        const result = await query.execute();
+        report[rule.table] = result.affected ?? 0;
+      } catch (error) {
+        logError('Retention purge failed', error, { table: rule.table });
+      }
+    }
+
+    const purged = Object.values(report).reduce((sum, count) => sum + count, 0);
+    if (purged > 0) {
+      logInfo('Retention purge removed expired rows', report);
+    } else {
+      logDebug('Retention purge found nothing to remove');
+    }
+
+    return report;
+  }
+
+  /**
+   * Remove everything stored about a user in one transaction. Audit log
+   * entries are kept for accountability but detached from the user.
+   */
+  async deleteUserData(userId: string): Promise<ServiceResponse<DataRemovalReport>> {
+    try {
+      const user = await AppDataSource.getRepository(User).findOne({ where: { id: userId } });
+      if (!user) {
+        return { success: false, error: 'User not found' };
+      }
+
+      const report = await AppDataSource.transaction(manager => this.removeUserRows(manager, user));
+
+      logInfo('Deleted user data', { userId, ...report });
+      return { success: true, data: report };
+    } catch (error: any) {
+      logError('Failed to delete user data', error, { userId });
+      return { success: false, error: error.message || 'Failed to delete user data' };
+    }
+  }
+
+  private async removeUserRows(manager: EntityManager, user: User): Promise<DataRemovalReport> {
+    const report: DataRemovalReport = {};
+    const remove = async (table: string, entity: EntityTarget<ObjectLiteral>, where: ObjectLiteral): Promise<void> => {
+      const result = await manager.delete(entity, where);
+      report[table] = (report[table] ?? 0) + (result.affected ?? 0);
+    };
+
+    // Children first so the counts reflect what was actually stored
+    const batchIds = (await manager.find(ExecutionBatch, { where: { userId: user.id }, select: ['id'] })).map(b => b.id);
+    if (batchIds.length > 0) {
+      await remove('execution_tasks', ExecutionTask, { batchId: In(batchIds) });
+    }
+    await remove('execution_batches', ExecutionBatch, { userId: user.id });
+    await remove('working_memory_state', WorkingMemoryState, { userId: user.id });
+    await remove('llm_usage', LLMUsage, { userId: user.id });
+    await remove('usage_budgets', UsageBudget, { userId: user.id });
+    await remove('trigger_runs', TriggerRun, { userId: user.id });
+    await remove('triggers', Trigger, { userId: user.id });
+    await remove('reminders', Reminder, { userId: user.id });
+    await remove('calendar_events', CalendarEvent, { userId: user.id });
+    await remove('oauth_tokens', OAuthToken, { userId: user.id });
+    await remove('context_memory', ContextMemory, { userId: user.id });
+    await remove('messages', Message, { userId: user.id });
+
+    const handles = [user.phoneNumber, user.email].filter((handle): handle is string => !!handle);
+
+    // Group chats belong to everyone in them: hand the ones this user started to
+    // another participant instead of deleting the others' history with them
+    const conversations = await manager.find(Conversation, { where: { userId: user.id } });
+    const conversationIds: string[] = [];
+    for (const conversation of conversations) {
+      if (conversation.metadata?.isGroupChat && await this.reassignGroupConversation(manager, conversation, user, handles)) {
+        report.conversations_reassigned = (report.conversations_reassigned ?? 0) + 1;
+      } else {
+        conversationIds.push(conversation.id);
+      }
+    }
+
+    // Remaining conversations the user started, including other participants' messages in them
+    if (conversationIds.length > 0) {
+      await remove('messages', Message, { conversationId: In(conversationIds) });
+      await remove('conversations', Conversation, { id: In(conversationIds) });
+    }
+
+    await remove('tool_permissions', ToolPermission, { userId: user.id });
+    await remove('agentmail_inboxes', AgentMailInbox, { userId: user.id });
+
+    if (handles.length > 0) {
+      // Invites are stored under the normalized handle
+      await remove('access_invites', AccessInvite, { handle: In(handles.map(normalizeHandle)) });
+    }
+
+    const anonymized = await manager.update(AuditLog, { userId: user.id }, { userId: null as any, actor: 'deleted-user' });
+    report.audit_logs_anonymized = anonymized.affected ?? 0;
+
+    await remove('users', User, { id: user.id });
+
+    return report;
+  }
+
+  /**
+   * Move a group conversation to the next participant who has messages in it,
+   * dropping the leaving user from its participants and admins. Returns false
+   * when nobody else has spoken there, so the conversation can simply go.
+   */
+  private async reassignGroupConversation(
+    manager: EntityManager,
+    conversation: Conversation,
+    user: User,
+    handles: string[]
+  ): Promise<boolean> {
+    const nextMessage = await manager.findOne(Message, {
+      where: { conversationId: conversation.id, userId: Not(user.id) },
+      order: { createdAt: 'ASC' }
+    });
+    if (!nextMessage) {
+      return false;
+    }
+
+    const leaving = new Set(handles.map(normalizeHandle));
+    const keep = (handle: string) => !leaving.has(normalizeHandle(handle));
+    const { participants, groupChat } = conversation.metadata ?? {};
+
+    await manager.update(Conversation, { id: conversation.id }, {
+      userId: nextMessage.userId,
+      metadata: {
+        ...conversation.metadata,
+        participants: Array.isArray(participants) ? participants.filter(keep) : participants,
+        groupChat: groupChat && {
+          ...groupChat,
+          adminHandles: Array.isArray(groupChat.adminHandles) ? groupChat.adminHandles.filter(keep) : groupChat.adminHandles
+        }
+      }
+    });
+
+    logDebug('Reassigned group conversation', { conversationId: conversation.id, ownerId: nextMessage.userId });
+    return true;
+  }
+}
+
+/**
+ * One-line summary of a removal report for chat replies and audit entries.
+ */
+export function describeRemovalReport(report: DataRemovalReport): string {
+  const parts = Object.entries(report)
+    .filter(([, count]) => count > 0)
+    .map(([table, count]) => `${count} ${table.replace(/_/g, ' ')}`);
+  return parts.length > 0 ? parts.join(', ') : 'nothing stored';
+}
+
+// Singleton instance
+let dataRetentionServiceInstance: DataRetentionService | null = null;
+
+export const getDataRetentionService = (): DataRetentionService => {
+  if (!dataRetentionServiceInstance) {
+    dataRetentionServiceInstance = new DataRetentionService();
+  }
+  return dataRetentionServiceInstance;
+};
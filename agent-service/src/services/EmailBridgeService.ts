@@ -0,0 +1,479 @@
+import { Repository } from 'typeorm';
+import { AppDataSource } from '../database/connection';
+import { User } from '../database/entities/User';
+import { Conversation } from '../database/entities/Conversation';
+import { Message } from '../database/entities/Message';
+import { AgentMailInbox } from '../database/entities/AgentMailInbox';
+import { getAccessControlService } from './AccessControlService';
+import { getConversationSummarizer } from './ConversationSummarizer';
+import { getSecurityManager, isAdminRole } from '../middleware/security';
+import { logInfo, logError, logDebug, logWarn } from '../utils/logger';
+import { MessageMetadata, ServiceResponse } from '../types';
+import { config } from '../config';
+
+const MAX_STORED_BODY_LENGTH = 20_000;
+const MAX_SUMMARY_INPUT_LENGTH = 6_000;
+
+/**
+ * Normalized inbound email from an AgentMail `message.received` webhook.
+ */
+export interface InboundEmail {
+  messageId: string;
+  threadId?: string;
+  inboxId?: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  subject: string;
+  text: string;
+  receivedAt: Date;
+  /** The receiving server vouched for the From: domain (DKIM, SPF or DMARC pass) */
+  senderAuthenticated: boolean;
+}
+
+export interface EmailBridgeResult {
+  userId: string;
+  conversationId: string;
+  messageId: string;
+  summary: string;
+  duplicate: boolean;
+}
+
+const toAddressList = (value: unknown): string[] => {
+  if (!value) return [];
+  if (Array.isArray(value)) return value.map(String);
+  return String(value).split(',').map(address => address.trim()).filter(Boolean);
+};
+
+/**
+ * Pull the bare address out of `"Name" <name@example.com>`.
+ */
+export const extractEmailAddress = (value: string): string => {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim().toLowerCase();
+};
+
+/**
+ * First value of a header from either a `{ name: value }` map or a
+ * `[{ name, value }]` list, matched case-insensitively.
+ */
+const getHeader = (headers: unknown, name: string): string | undefined => {
+  const wanted = name.toLowerCase();
+  const entries: Array<[string, unknown]> = Array.isArray(headers)
+    ? headers.map(header => [String(header?.name ?? ''), header?.value])
+    : Object.entries(headers && typeof headers === 'object' ? headers : {});
+
+  const value = entries.find(([key]) => key.toLowerCase() === wanted)?.[1];
+  return Array.isArray(value) ? value[0] : value === undefined ? undefined : String(value);
+};
+
+/**
+ * Whether the receiving server authenticated the sender: its (topmost)
+ * Authentication-Results header must show a DKIM, SPF or DMARC pass for the
+ * From: domain itself. Without that, the From: address is just a claim.
+ */
+export const isSenderAuthenticated = (from: string, headers: unknown): boolean => {
+  const domain = extractEmailAddress(from).split('@')[1];
+  const results = getHeader(headers, 'authentication-results');
+  if (!domain || !results) {
+    return false;
+  }
+
+  const passedDomains = [
+    /\bdkim=pass\b[^;]*?\bheader\.[di]=(?:[^\s;@]*@)?([^\s;]+)/gi,
+    /\bspf=pass\b[^;]*?\bsmtp\.mailfrom=(?:[^\s;@]*@)?([^\s;]+)/gi,
+    /\bdmarc=pass\b[^;]*?\bheader\.from=([^\s;]+)/gi
+  ].flatMap(pattern => Array.from(results.matchAll(pattern), match => match[1].toLowerCase()));
+
+  return passedDomains.includes(domain);
+};
+
+/**
+ * Accepts both the legacy `{ event, data }` webhook shape and AgentMail's
+ * `{ event_type, message }` shape. Returns null for anything that isn't a
+ * received message.
+ */
+export const parseInboundEmail = (body: any): InboundEmail | null => {
+  const event = body?.event ?? body?.event_type ?? body?.type;
+  const data = body?.data ?? body?.message;
+
+  if (event !== 'message.received' || !data) {
+    return null;
+  }
+
+  const messageId = data.messageId ?? data.message_id;
+  const from = Array.isArray(data.from) ? data.from[0] : data.from;
+  if (!messageId || !from) {
+    return null;
+  }
+
+  return {
+    messageId: String(messageId),
+    threadId: data.threadId ?? data.thread_id,
+    inboxId: data.inboxId ?? data.inbox_id,
+    from: String(from),
+    to: toAddressList(data.to),
+    cc: toAddressList(data.cc),
+    subject: data.subject || '(no subject)',
+    text: data.text ?? data.extractedText ?? data.extracted_text ?? data.preview ?? '',
+    receivedAt: new Date(data.createdAt ?? data.created_at ?? data.timestamp ?? Date.now()),
+    senderAuthenticated: isSenderAuthenticated(String(from), data.headers)
+  };
+};
+
+/**
+ * EmailBridgeService routes inbound AgentMail messages into Grace: each email
+ * is tied to its owner, stored on an `email` conversation per thread,
+ * summarized, and either texted to the user or handed to the interaction
+ * agent for triage. It also resolves which email a "reply to that" refers to.
+ */
+export class EmailBridgeService {
+  private userRepo: Repository<User>;
+  private conversationRepo: Repository<Conversation>;
+  private messageRepo: Repository<Message>;
+  private inboxRepo: Repository<AgentMailInbox>;
+
+  constructor() {
+    this.userRepo = AppDataSource.getRepository(User);
+    this.conversationRepo = AppDataSource.getRepository(Conversation);
+    this.messageRepo = AppDataSource.getRepository(Message);
+    this.inboxRepo = AppDataSource.getRepository(AgentMailInbox);
+  }
+
+  async handleInboundEmail(email: InboundEmail): Promise<ServiceResponse<EmailBridgeResult>> {
+    try {
+      const existing = await this.findEmailMessage(email.messageId);
+      if (existing) {
+        logDebug('Ignoring duplicate inbound email', { emailMessageId: email.messageId });
+        return {
+          success: true,
+          data: {
+            userId: existing.userId,
+            conversationId: existing.conversationId,
+            messageId: existing.id,
+            summary: existing.metadata?.summary || '',
+            duplicate: true
+          }
+        };
+      }
+
+      const user = await this.resolveUser(email);
+      if (!user) {
+        logWarn('Could not resolve owner for inbound email', { inboxId: email.inboxId });
+        return { success: false, error: 'No user found for this inbox' };
+      }
+
+      const conversation = await this.getOrCreateThreadConversation(user.id, email);
+      const summary = await this.summarize(email, { userId: user.id, conversationId: conversation.id });
+
+      const message = await this.messageRepo.save(this.messageRepo.create({
+        userId: user.id,
+        conversationId: conversation.id,
+        role: 'user',
+        content: this.formatEmail(email),
+        metadata: {
+          source: 'agentmail',
+          emailMessageId: email.messageId,
+          threadId: email.threadId,
+          inboxId: email.inboxId,
+          from: email.from,
+          fromAddress: extractEmailAddress(email.from),
+          senderAuthenticated: email.senderAuthenticated,
+          subject: email.subject,
+          summary,
+          receivedAt: email.receivedAt.toISOString()
+        } as MessageMetadata
+      }));
+
+      conversation.lastMessageAt = email.receivedAt;
+      await this.conversationRepo.save(conversation);
+
+      logInfo('Inbound email stored', {
+        userId: user.id,
+        conversationId: conversation.id,
+        threadId: email.threadId
+      });
+
+      // Notify in the background so the webhook isn't held open by a model call
+      this.notifyUser(user, email, summary)
+        .catch(error => logError('Failed to notify user about inbound email', error, { userId: user.id }));
+
+      return {
+        success: true,
+        data: {
+          userId: user.id,
+          conversationId: conversation.id,
+          messageId: message.id,
+          summary,
+          duplicate: false
+        }
+      };
+    } catch (error: any) {
+      logError('Failed to bridge inbound email', error, { emailMessageId: email.messageId });
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * The stored inbound email a reply refers to: an explicit AgentMail message
+   * ID, otherwise the user's most recent email (optionally from a sender).
+   */
+  async findInboundEmail(userId: string, options: { messageId?: string; from?: string } = {}): Promise<Message | null> {
+    const query = this.messageRepo
+      .createQueryBuilder('message')
+      .where('message.userId = :userId', { userId })
+      .andWhere('message.role = :role', { role: 'user' })
+      .andWhere(`message.metadata->>'source' = 'agentmail'`);
+
+    if (options.messageId) {
+      query.andWhere(`message.metadata->>'emailMessageId' = :messageId`, { messageId: options.messageId });
+    }
+
+    if (options.from) {
+      query.andWhere(`message.metadata->>'from' ILIKE :from`, { from: `%${options.from}%` });
+    }
+
+    return query.orderBy('message.createdAt', 'DESC').getOne();
+  }
+
+  /**
+   * Store a sent reply on the same thread conversation as the email it answers.
+   */
+  async recordReply(original: Message, body: string, replyMessageId?: string): Promise<void> {
+    try {
+      await this.messageRepo.save(this.messageRepo.create({
+        userId: original.userId,
+        conversationId: original.conversationId,
+        role: 'assistant',
+        content: body,
+        metadata: {
+          source: 'agentmail',
+          emailMessageId: replyMessageId,
+          inReplyTo: original.metadata?.emailMessageId,
+          threadId: original.metadata?.threadId
+        } as MessageMetadata
+      }));
+
+      await this.conversationRepo.update(original.conversationId, { lastMessageAt: new Date() });
+    } catch (error) {
+      logError('Failed to record email reply', error, { conversationId: original.conversationId });
+    }
+  }
+
+  /**
+   * Owner lookup order: a per-user inbox row, then a user whose email matches
+   * an authenticated sender (forwarding to Grace), then the first configured
+   * owner for the shared inbox. Unauthenticated senders are never matched,
+   * since anyone can put someone else's address in From:.
+   */
+  private async resolveUser(email: InboundEmail): Promise<User | null> {
+    if (email.inboxId) {
+      const inbox = await this.inboxRepo.findOne({ where: { inboxId: email.inboxId, isActive: true } });
+      if (inbox) {
+        return this.userRepo.findOne({ where: { id: inbox.userId } });
+      }
+    }
+
+    const accessControl = getAccessControlService();
+    if (email.senderAuthenticated) {
+      const sender = await accessControl.findUserByHandle(extractEmailAddress(email.from));
+      if (sender && sender.role !== 'blocked') {
+        return sender;
+      }
+    }
+
+    for (const handle of getSecurityManager().getAdminHandles()) {
+      const owner = await accessControl.findUserByHandle(handle);
+      if (owner) {
+        return owner;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether the email provably came from the user themselves, as opposed to
+   * someone writing to their inbox (or claiming to be them).
+   */
+  private isFromOwner(user: User, email: InboundEmail): boolean {
+    return email.senderAuthenticated
+      && !!user.email
+      && user.email.toLowerCase() === extractEmailAddress(email.from);
+  }
+
+  private async getOrCreateThreadConversation(userId: string, email: InboundEmail): Promise<Conversation> {
+    const threadKey = email.threadId || email.messageId;
+    const existing = await this.conversationRepo.findOne({
+      where: { userId, channel: 'email', channelConversationId: threadKey }
+    });
+
+    const participants = Array.from(new Set([
+      ...(existing?.metadata?.participants ?? []),
+      extractEmailAddress(email.from),
+      ...email.cc.map(extractEmailAddress)
+    ])).slice(0, 50);
+
+    if (existing) {
+      existing.metadata = { ...existing.metadata, participants };
+      return existing;
+    }
+
+    return this.conversationRepo.save(this.conversationRepo.create({
+      userId,
+      channel: 'email',
+      channelConversationId: threadKey,
+      metadata: {
+        subject: email.subject,
+        inboxId: email.inboxId,
+        participants
+      }
+    }));
+  }
+
+  private async findEmailMessage(emailMessageId: string): Promise<Message | null> {
+    return this.messageRepo
+      .createQueryBuilder('message')
+      .where(`message.metadata->>'emailMessageId' = :emailMessageId`, { emailMessageId })
+      .getOne();
+  }
+
+  private async summarize(
+    email: InboundEmail,
+    owner: { userId: string; conversationId: string }
+  ): Promise<string> {
+    const fallback = email.text.replace(/\s+/g, ' ').trim().substring(0, 200);
+
+    if (!config.agentmail.summarizeInbound || !email.text.trim()) {
+      return fallback;
+    }
+
+    try {
+      const summary = await getConversationSummarizer().summarize([{
+        role: 'user',
+        content: `Summarize this email in one or two short sentences for a text message. Mention any request, deadline or question for the recipient.\n\n${this.formatEmail(email).substring(0, MAX_SUMMARY_INPUT_LENGTH)}`
+      }], owner);
+      return summary || fallback;
+    } catch (error) {
+      logWarn('Email summarization failed - using snippet', { error });
+      return fallback;
+    }
+  }
+
+  /**
+   * Tell the user about the email over iMessage. With triage enabled the
+   * interaction agent decides what to say (and can act on it); otherwise a
+   * short notification is sent.
+   */
+  private async notifyUser(user: User, email: InboundEmail, summary: string): Promise<void> {
+    if (config.agentmail.triageEnabled && config.agents.enableDualAgent) {
+      const triaged = await this.triageWithAgent(user, email, summary);
+      if (triaged) {
+        return;
+      }
+    }
+
+    const { getMessageRouter } = await import('./MessageRouter');
+    const messageRouter = await getMessageRouter();
+
+    const notification = `📧 New email from ${email.from}\nSubject: ${email.subject}${summary ? `\n\n${summary}` : ''}`;
+    const result = await messageRouter.sendProactiveMessage(user.id, notification);
+    if (!result.success) {
+      logWarn('Could not notify user about inbound email', { userId: user.id, error: result.error });
+    }
+  }
+
+  private async triageWithAgent(user: User, email: InboundEmail, summary: string): Promise<boolean> {
+    const conversation = await this.conversationRepo.findOne({
+      where: { userId: user.id, channel: 'imessage' },
+      order: { lastMessageAt: 'DESC' }
+    });
+
+    if (!conversation?.channelConversationId) {
+      return false;
+    }
+
+    try {
+      const { InteractionAgentRuntime } = await import('../agents/InteractionAgentRuntime');
+
+      // Anyone can write to the inbox, so triage only gets the user's own tools for
+      // mail authenticated as theirs; everything else is handled with guest access
+      const fromOwner = this.isFromOwner(user, email);
+
+      const history = await this.messageRepo.find({
+        where: { conversationId: conversation.id },
+        order: { createdAt: 'DESC' },
+        take: 10
+      });
+
+      const runtime = new InteractionAgentRuntime(
+        conversation.id,
+        user.id,
+        conversation.channelConversationId,
+        {
+          userId: user.id,
+          userHandle: fromOwner ? user.phoneNumber || user.email || 'unknown' : 'unknown',
+          conversationId: conversation.id,
+          isAdmin: fromOwner && isAdminRole(user.role),
+          userRole: fromOwner ? user.role : 'guest',
+          chatGuid: conversation.channelConversationId
+        },
+        history.reverse().map(message => ({ role: message.role, content: message.content }))
+      );
+
+      const payload = [
+        '[EMAIL RECEIVED] A new email arrived in the user\'s Grace inbox.',
+        `message_id: ${email.messageId}`,
+        `From: ${email.from}`,
+        `Subject: ${email.subject}`,
+        `Summary: ${summary}`,
+        '',
+        email.text.substring(0, 3000),
+        '',
+        'Let the user know briefly if it matters to them. Don\'t reply to the sender unless the user asks.'
+      ].join('\n');
+
+      const result = await runtime.handleAgentMessage(payload);
+
+      // Keep what Grace said in the iMessage history so follow-ups like "reply saying I'll be late" have context
+      for (const sent of result.messagesSent) {
+        await this.messageRepo.save(this.messageRepo.create({
+          userId: user.id,
+          conversationId: conversation.id,
+          role: 'assistant',
+          content: sent.replace(/\s*\|\|\s*/g, '\n').trim(),
+          metadata: { source: 'dual-agent', emailMessageId: email.messageId, type: 'email_triage' } as MessageMetadata
+        }));
+      }
+
+      // The agent may decide the email isn't worth a text; that still counts as handled
+      return result.success;
+    } catch (error) {
+      logError('Email triage via interaction agent failed', error, { userId: user.id });
+      return false;
+    }
+  }
+
+  private formatEmail(email: InboundEmail): string {
+    const header = [
+      `From: ${email.from}`,
+      email.to.length > 0 ? `To: ${email.to.join(', ')}` : null,
+      email.cc.length > 0 ? `Cc: ${email.cc.join(', ')}` : null,
+      `Subject: ${email.subject}`
+    ].filter(Boolean).join('\n');
+
+    return `${header}\n\n${email.text}`.substring(0, MAX_STORED_BODY_LENGTH);
+  }
+}
+
+// Singleton instance
+let emailBridgeServiceInstance: EmailBridgeService | null = null;
+
+export const getEmailBridgeService = (): EmailBridgeService => {
+  if (!emailBridgeServiceInstance) {
+    emailBridgeServiceInstance = new EmailBridgeService();
+  }
+  return emailBridgeServiceInstance;
+};
+
+export default EmailBridgeService;
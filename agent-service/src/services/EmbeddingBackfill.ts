@@ -0,0 +1,144 @@
+import { Brackets, Repository, ObjectLiteral } from 'typeorm';
+import { AppDataSource } from '../database/connection';
+import { ContextMemory } from '../database/entities/ContextMemory';
+import { Message } from '../database/entities/Message';
+import { getEmbeddingService, EmbeddingService } from './EmbeddingService';
+import { logInfo, logError, logDebug, logWarn } from '../utils/logger';
+import { config } from '../config';
+
+/**
+ * EmbeddingBackfill periodically embeds memories and messages that have no
+ * embedding yet, or whose embedding came from a different provider.
+ */
+export class EmbeddingBackfill {
+  private embeddingService: EmbeddingService;
+  private intervalMs: number;
+  private batchSize: number;
+  private timer: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  constructor(intervalMs = config.embeddings.backfillIntervalMs, batchSize = config.embeddings.backfillBatchSize) {
+    this.embeddingService = getEmbeddingService();
+    this.intervalMs = intervalMs;
+    this.batchSize = batchSize;
+  }
+
+  start(): void {
+    if (this.timer) {
+      logWarn('EmbeddingBackfill already running');
+      return;
+    }
+
+    logInfo('EmbeddingBackfill started', {
+      intervalMs: this.intervalMs,
+      batchSize: this.batchSize,
+      model: this.embeddingService.modelId
+    });
+
+    // Run immediately, then on an interval
+    this.runOnce();
+    this.timer = setInterval(() => this.runOnce(), this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logInfo('EmbeddingBackfill stopped');
+    }
+  }
+
+  /**
+   * Embed one batch of memories and one batch of messages.
+   */
+  async runOnce(): Promise<void> {
+    if (this.isProcessing) {
+      logDebug('EmbeddingBackfill skipping run - already processing');
+      return;
+    }
+
+    this.isProcessing = true;
+
+    try {
+      const memories = await this.backfill(
+        AppDataSource.getRepository(ContextMemory),
+        memory => `${memory.key}: ${memory.value}`
+      );
+      const messages = await this.backfill(
+        AppDataSource.getRepository(Message),
+        message => message.content
+      );
+
+      if (memories > 0 || messages > 0) {
+        logInfo('EmbeddingBackfill embedded rows', { memories, messages });
+      }
+    } catch (error) {
+      logError('EmbeddingBackfill run failed', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async backfill<T extends ObjectLiteral & { id: string; embedding?: any; embeddingModel?: string }>(
+    repo: Repository<T>,
+    toText: (row: T) => string
+  ): Promise<number> {
+    const model = this.embeddingService.modelId;
+
+    const rows = await repo
+      .createQueryBuilder('record')
+      .where(new Brackets(qb => {
+        qb.where('record.embedding IS NULL')
+          .orWhere('record.embeddingModel IS NULL')
+          .orWhere('record.embeddingModel != :model', { model });
+      }))
+      .orderBy('record.createdAt', 'DESC')
+      .limit(this.batchSize)
+      .getMany();
+
+    if (rows.length === 0) {
+      return 0;
+    }
+
+    const result = await this.embeddingService.embedBatch(rows.map(toText));
+    if (!result.success || !result.data) {
+      return 0;
+    }
+
+    const vectors = result.data;
+    // Carry updated_at over explicitly so embedding a memory doesn't change its recency
+    await Promise.all(rows.map((row, index) =>
+      repo.update(row.id, {
+        embedding: vectors[index],
+        embeddingModel: model,
+        ...(row.updatedAt ? { updatedAt: row.updatedAt } : {})
+      } as any)
+    ));
+
+    return rows.length;
+  }
+}
+
+// Singleton instance
+let backfillInstance: EmbeddingBackfill | null = null;
+
+export function getEmbeddingBackfill(): EmbeddingBackfill {
+  if (!backfillInstance) {
+    backfillInstance = new EmbeddingBackfill();
+  }
+  return backfillInstance;
+}
+
+export function startEmbeddingBackfill(): void {
+  if (!config.embeddings.backfillEnabled) {
+    logInfo('EmbeddingBackfill disabled');
+    return;
+  }
+  getEmbeddingBackfill().start();
+}
+
+export function stopEmbeddingBackfill(): void {
+  if (backfillInstance) {
+    backfillInstance.stop();
+  }
+}
@@ -0,0 +1,196 @@
+import axios from 'axios';
+import { createHash } from 'crypto';
+import { EmbeddingsConfig, ServiceResponse } from '../types';
+import { logDebug, logError } from '../utils/logger';
+import { config } from '../config';
+
+/**
+ * Interface implemented by all embedding backends.
+ */
+export interface EmbeddingProvider {
+  /**
+   * Stable identifier stored alongside each vector (embedding_model column).
+   * Vectors from different providers are not comparable, so a change here
+   * makes the backfill job re-embed existing rows.
+   */
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const MAX_INPUT_CHARS = 8000;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'i', 'if', 'in',
+  'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'was', 'we', 'with', 'you'
+]);
+
+const normalizeVector = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+};
+
+/**
+ * Cosine similarity between two vectors. Returns 0 for mismatched or empty vectors.
+ */
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (!Array.isArray(a) || !Array.isArray(b) || a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+/**
+ * Offline provider using signed feature hashing over words, word bigrams and
+ * character trigrams. Deterministic, dependency-free and good enough to rank
+ * memories by lexical overlap; also used for tests and local development.
+ */
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private readonly dimensions: number) {
+    this.id = `local-hash:${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const words = text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter(word => word && !STOP_WORDS.has(word));
+
+    const addFeature = (feature: string, weight: number) => {
+      const digest = createHash('md5').update(feature).digest();
+      const index = digest.readUInt32BE(0) % this.dimensions;
+      const sign = digest[4] & 1 ? 1 : -1;
+      vector[index] += sign * weight;
+    };
+
+    words.forEach((word, i) => {
+      addFeature(`w:${word}`, 1);
+
+      if (i > 0) {
+        addFeature(`b:${words[i - 1]} ${word}`, 0.5);
+      }
+
+      const padded = `<${word}>`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        addFeature(`c:${padded.slice(j, j + 3)}`, 0.25);
+      }
+    });
+
+    return normalizeVector(vector);
+  }
+}
+
+/**
+ * Provider for OpenAI-compatible `/embeddings` endpoints (OpenAI, Ollama, llama.cpp server, ...).
+ */
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private readonly settings: EmbeddingsConfig) {
+    this.id = `http:${settings.httpModel}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await axios.post(
+      this.settings.httpUrl,
+      { model: this.settings.httpModel, input: texts },
+      {
+        timeout: this.settings.timeoutMs,
+        headers: this.settings.httpApiKey
+          ? { Authorization: `Bearer ${this.settings.httpApiKey}` }
+          : undefined
+      }
+    );
+
+    const data: Array<{ embedding: number[]; index?: number }> = response.data?.data || [];
+    if (data.length !== texts.length) {
+      throw new Error(`Embedding endpoint returned ${data.length} vectors for ${texts.length} inputs`);
+    }
+
+    return [...data]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map(item => item.embedding);
+  }
+}
+
+/**
+ * EmbeddingService wraps the configured EmbeddingProvider.
+ */
+export class EmbeddingService {
+  private provider: EmbeddingProvider;
+
+  constructor(settings: EmbeddingsConfig = config.embeddings) {
+    this.provider = settings.provider === 'http'
+      ? new HttpEmbeddingProvider(settings)
+      : new LocalHashEmbeddingProvider(settings.dimensions);
+  }
+
+  get modelId(): string {
+    return this.provider.id;
+  }
+
+  /**
+   * Swap the active provider (e.g. the local provider in tests).
+   */
+  setProvider(provider: EmbeddingProvider): void {
+    this.provider = provider;
+  }
+
+  async embed(text: string): Promise<ServiceResponse<number[]>> {
+    const result = await this.embedBatch([text]);
+    return result.success && result.data
+      ? { success: true, data: result.data[0] }
+      : { success: false, error: result.error };
+  }
+
+  async embedBatch(texts: string[]): Promise<ServiceResponse<number[][]>> {
+    try {
+      if (texts.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      logDebug('Generating embeddings', { provider: this.provider.id, count: texts.length });
+
+      const vectors = await this.provider.embed(texts.map(text => (text || '').slice(0, MAX_INPUT_CHARS)));
+
+      return { success: true, data: vectors };
+    } catch (error: any) {
+      logError('Failed to generate embeddings', error, { provider: this.provider.id });
+      return { success: false, error: error.message || 'Failed to generate embeddings' };
+    }
+  }
+}
+
+// Singleton instance
+let embeddingServiceInstance: EmbeddingService | null = null;
+
+export const getEmbeddingService = (): EmbeddingService => {
+  if (!embeddingServiceInstance) {
+    embeddingServiceInstance = new EmbeddingService();
+  }
+  return embeddingServiceInstance;
+};
+
+export default EmbeddingService;
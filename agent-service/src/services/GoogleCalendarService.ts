@@ -0,0 +1,564 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { google, calendar_v3 } from 'googleapis';
+import { OAuth2Client, Credentials } from 'google-auth-library';
+import { DateTime } from 'luxon';
+import { Repository, LessThan, MoreThan, MoreThanOrEqual, Not, In } from 'typeorm';
+import { AppDataSource } from '../database/connection';
+import { OAuthToken } from '../database/entities/OAuthToken';
+import { CalendarEvent } from '../database/entities/CalendarEvent';
+import { User } from '../database/entities/User';
+import { encryptSecret, decryptSecret } from '../utils/encryption';
+import { DEFAULT_TIMEZONE } from '../utils/recurrence';
+import { logInfo, logError, logDebug, logWarn } from '../utils/logger';
+import { GoogleConfig, ServiceResponse } from '../types';
+import { config } from '../config';
+
+export const CALENDAR_SCOPES = [
+  'https://www.googleapis.com/auth/calendar.events',
+  'https://www.googleapis.com/auth/calendar.readonly'
+];
+
+const PROVIDER = 'google';
+const LINK_TTL_MS = 30 * 60 * 1000;
+const NOT_LINKED_ERROR = 'Google Calendar is not connected';
+
+export interface CalendarEventInput {
+  title: string;
+  start: Date;
+  end: Date;
+  description?: string;
+  location?: string;
+  timezone?: string;
+}
+
+export interface FreeSlot {
+  start: Date;
+  end: Date;
+}
+
+export interface FreeTimeQuery {
+  from: Date;
+  to: Date;
+  durationMinutes: number;
+  timezone: string;
+  workdayStartHour?: number;
+  workdayEndHour?: number;
+  includeWeekends?: boolean;
+  limit?: number;
+}
+
+export interface CalendarSyncResult {
+  upserted: number;
+  deleted: number;
+  fullSync: boolean;
+}
+
+interface AuthorizedCalendar {
+  token: OAuthToken;
+  calendar: calendar_v3.Calendar;
+}
+
+/**
+ * Find gaps of at least `durationMinutes` between busy intervals, limited to
+ * working hours in the given timezone.
+ */
+export function computeFreeSlots(busy: FreeSlot[], query: FreeTimeQuery): FreeSlot[] {
+  const {
+    from,
+    to,
+    durationMinutes,
+    timezone,
+    workdayStartHour = 9,
+    workdayEndHour = 17,
+    includeWeekends = false,
+    limit = 5
+  } = query;
+  const durationMs = durationMinutes * 60_000;
+
+  // Merge overlapping busy intervals
+  const merged: Array<{ start: number; end: number }> = [];
+  [...busy]
+    .map(interval => ({ start: interval.start.getTime(), end: interval.end.getTime() }))
+    .sort((a, b) => a.start - b.start)
+    .forEach(interval => {
+      const previous = merged[merged.length - 1];
+      if (previous && interval.start <= previous.end) {
+        previous.end = Math.max(previous.end, interval.end);
+      } else {
+        merged.push({ ...interval });
+      }
+    });
+
+  const slots: FreeSlot[] = [];
+  const lastDay = DateTime.fromJSDate(to, { zone: timezone }).startOf('day');
+  let day = DateTime.fromJSDate(from, { zone: timezone }).startOf('day');
+
+  while (day <= lastDay && slots.length < limit) {
+    if (includeWeekends || day.weekday <= 5) {
+      const windowStart = Math.max(day.set({ hour: workdayStartHour }).toMillis(), from.getTime());
+      const windowEnd = Math.min(day.set({ hour: workdayEndHour }).toMillis(), to.getTime());
+      let cursor = windowStart;
+
+      for (const interval of merged) {
+        if (interval.end <= cursor) continue;
+        if (interval.start >= windowEnd) break;
+        if (interval.start - cursor >= durationMs) {
+          slots.push({ start: new Date(cursor), end: new Date(interval.start) });
+        }
+        cursor = Math.max(cursor, interval.end);
+      }
+
+      if (windowEnd - cursor >= durationMs) {
+        slots.push({ start: new Date(cursor), end: new Date(windowEnd) });
+      }
+    }
+
+    day = day.plus({ days: 1 });
+  }
+
+  return slots.slice(0, limit);
+}
+
+/**
+ * GoogleCalendarService links a user's Google account via OAuth, keeps
+ * `calendar_events` in sync using Calendar API sync tokens, and exposes the
+ * calendar operations used by the calendar tools.
+ */
+export class GoogleCalendarService {
+  private tokenRepo: Repository<OAuthToken>;
+  private eventRepo: Repository<CalendarEvent>;
+  private userRepo: Repository<User>;
+
+  constructor(private readonly settings: GoogleConfig = config.google) {
+    this.tokenRepo = AppDataSource.getRepository(OAuthToken);
+    this.eventRepo = AppDataSource.getRepository(CalendarEvent);
+    this.userRepo = AppDataSource.getRepository(User);
+  }
+
+  isConfigured(): boolean {
+    return this.settings.calendarEnabled && Boolean(this.settings.clientId && this.settings.clientSecret);
+  }
+
+  async isLinked(userId: string): Promise<boolean> {
+    return (await this.tokenRepo.count({ where: { userId, provider: PROVIDER } })) > 0;
+  }
+
+  /**
+   * Build the consent URL the user opens to link their calendar.
+   */
+  getAuthUrl(userId: string): ServiceResponse<string> {
+    if (!this.isConfigured()) {
+      return { success: false, error: 'Google Calendar is not configured' };
+    }
+
+    const url = this.createOAuthClient().generateAuthUrl({
+      access_type: 'offline',
+      prompt: 'consent',
+      scope: CALENDAR_SCOPES,
+      state: this.signState(userId)
+    });
+
+    return { success: true, data: url };
+  }
+
+  /**
+   * Exchange the OAuth code from the callback for tokens and store them encrypted.
+   */
+  async handleOAuthCallback(code: string, state: string): Promise<ServiceResponse<{ userId: string }>> {
+    try {
+      const userId = this.verifyState(state);
+      if (!userId) {
+        return { success: false, error: 'This link is invalid or has expired' };
+      }
+
+      const { tokens } = await this.createOAuthClient().getToken(code);
+      if (!tokens.access_token) {
+        return { success: false, error: 'Google did not return an access token' };
+      }
+
+      await this.saveTokens(userId, tokens);
+      logInfo('Google Calendar linked', { userId });
+
+      // Initial sync in the background so the callback responds quickly
+      void this.syncEvents(userId);
+
+      return { success: true, data: { userId } };
+    } catch (error: any) {
+      logError('Failed to complete Google OAuth callback', error);
+      return { success: false, error: error.message || 'Failed to link Google Calendar' };
+    }
+  }
+
+  /**
+   * Pull changes since the last sync (or the last `initialSyncDays` on first
+   * sync) into calendar_events.
+   */
+  async syncEvents(userId: string): Promise<ServiceResponse<CalendarSyncResult>> {
+    try {
+      const authorized = await this.getAuthorizedCalendar(userId);
+      if (!authorized) {
+        return { success: false, error: NOT_LINKED_ERROR, metadata: { notLinked: true } };
+      }
+
+      const { token, calendar } = authorized;
+      const syncToken: string | undefined = token.metadata?.calendarSyncToken;
+
+      let outcome: CalendarSyncResult & { nextSyncToken?: string };
+      try {
+        outcome = await this.runSync(calendar, userId, syncToken);
+      } catch (error: any) {
+        // 410 Gone: the sync token expired, start over with a full sync
+        if (syncToken && this.getStatus(error) === 410) {
+          logInfo('Calendar sync token expired - running full sync', { userId });
+          outcome = await this.runSync(calendar, userId, undefined);
+        } else {
+          throw error;
+        }
+      }
+
+      await this.tokenRepo.update(token.id, {
+        metadata: {
+          ...token.metadata,
+          calendarSyncToken: outcome.nextSyncToken ?? syncToken,
+          lastSyncedAt: new Date().toISOString()
+        }
+      } as any);
+
+      const result: CalendarSyncResult = {
+        upserted: outcome.upserted,
+        deleted: outcome.deleted,
+        fullSync: outcome.fullSync
+      };
+      logDebug('Calendar sync complete', { userId, ...result });
+
+      return { success: true, data: result };
+    } catch (error: any) {
+      return this.failure('Failed to sync calendar', error, userId);
+    }
+  }
+
+  /**
+   * Sync every linked account. Used by the periodic CalendarSync job.
+   */
+  async syncAllUsers(): Promise<number> {
+    const tokens = await this.tokenRepo.find({ where: { provider: PROVIDER }, select: ['id', 'userId'] });
+    let synced = 0;
+
+    for (const token of tokens) {
+      const result = await this.syncEvents(token.userId);
+      if (result.success) {
+        synced += 1;
+      }
+    }
+
+    return synced;
+  }
+
+  async listEvents(userId: string, from: Date, to: Date, limit = 25): Promise<ServiceResponse<CalendarEvent[]>> {
+    try {
+      const sync = await this.syncEvents(userId);
+      if (!sync.success) {
+        if (sync.metadata?.notLinked) {
+          return { success: false, error: sync.error, metadata: sync.metadata };
+        }
+        logWarn('Calendar sync failed - listing cached events', { userId, error: sync.error });
+      }
+
+      const events = await this.eventRepo.find({
+        where: {
+          userId,
+          startTime: LessThan(to),
+          endTime: MoreThan(from)
+        },
+        order: { startTime: 'ASC' },
+        take: limit
+      });
+
+      return { success: true, data: events };
+    } catch (error: any) {
+      return this.failure('Failed to list calendar events', error, userId);
+    }
+  }
+
+  async createEvent(userId: string, input: CalendarEventInput): Promise<ServiceResponse<CalendarEvent>> {
+    try {
+      const authorized = await this.getAuthorizedCalendar(userId);
+      if (!authorized) {
+        return { success: false, error: NOT_LINKED_ERROR, metadata: { notLinked: true } };
+      }
+
+      const timeZone = input.timezone || await this.getUserTimezone(userId);
+      const response = await authorized.calendar.events.insert({
+        calendarId: this.settings.calendarId,
+        requestBody: {
+          summary: input.title,
+          description: input.description,
+          location: input.location,
+          start: { dateTime: input.start.toISOString(), timeZone },
+          end: { dateTime: input.end.toISOString(), timeZone }
+        }
+      });
+
+      const event = await this.upsertEvent(userId, response.data);
+      if (!event) {
+        return { success: false, error: 'Google returned an incomplete event' };
+      }
+
+      logInfo('Calendar event created', { userId, googleEventId: event.googleEventId });
+      return { success: true, data: event };
+    } catch (error: any) {
+      return this.failure('Failed to create calendar event', error, userId);
+    }
+  }
+
+  async findFreeTime(userId: string, query: FreeTimeQuery): Promise<ServiceResponse<FreeSlot[]>> {
+    try {
+      const authorized = await this.getAuthorizedCalendar(userId);
+      if (!authorized) {
+        return { success: false, error: NOT_LINKED_ERROR, metadata: { notLinked: true } };
+      }
+
+      const response = await authorized.calendar.freebusy.query({
+        requestBody: {
+          timeMin: query.from.toISOString(),
+          timeMax: query.to.toISOString(),
+          timeZone: query.timezone,
+          items: [{ id: this.settings.calendarId }]
+        }
+      });
+
+      const calendars = response.data.calendars ?? {};
+      const entry = calendars[this.settings.calendarId] ?? Object.values(calendars)[0];
+      const busy = (entry?.busy ?? [])
+        .filter(interval => interval.start && interval.end)
+        .map(interval => ({ start: new Date(interval.start!), end: new Date(interval.end!) }));
+
+      return { success: true, data: computeFreeSlots(busy, query) };
+    } catch (error: any) {
+      return this.failure('Failed to find free time', error, userId);
+    }
+  }
+
+  async getUserTimezone(userId: string): Promise<string> {
+    const user = await this.userRepo.findOne({ where: { id: userId } });
+    return user?.preferences?.timezone || DEFAULT_TIMEZONE;
+  }
+
+  private async runSync(
+    calendar: calendar_v3.Calendar,
+    userId: string,
+    syncToken: string | undefined
+  ): Promise<CalendarSyncResult & { nextSyncToken?: string }> {
+    const fullSync = !syncToken;
+    const timeMin = new Date(Date.now() - this.settings.initialSyncDays * 24 * 60 * 60 * 1000);
+    const seenIds: string[] = [];
+    let pageToken: string | undefined;
+    let nextSyncToken: string | undefined;
+    let upserted = 0;
+    let deleted = 0;
+
+    do {
+      const response = await calendar.events.list({
+        calendarId: this.settings.calendarId,
+        singleEvents: true,
+        maxResults: 250,
+        pageToken,
+        ...(syncToken ? { syncToken } : { timeMin: timeMin.toISOString() })
+      });
+
+      for (const item of response.data.items ?? []) {
+        if (!item.id) continue;
+
+        if (item.status === 'cancelled') {
+          const result = await this.eventRepo.delete({ userId, googleEventId: item.id });
+          deleted += result.affected ?? 0;
+          continue;
+        }
+
+        if (await this.upsertEvent(userId, item)) {
+          seenIds.push(item.id);
+          upserted += 1;
+        }
+      }
+
+      pageToken = response.data.nextPageToken ?? undefined;
+      nextSyncToken = response.data.nextSyncToken ?? nextSyncToken;
+    } while (pageToken);
+
+    // A full sync sees every live event in the window, so anything else there is stale
+    if (fullSync) {
+      const result = await this.eventRepo.delete({
+        userId,
+        startTime: MoreThanOrEqual(timeMin),
+        ...(seenIds.length > 0 && { googleEventId: Not(In(seenIds)) })
+      });
+      deleted += result.affected ?? 0;
+    }
+
+    return { upserted, deleted, fullSync, nextSyncToken };
+  }
+
+  private async upsertEvent(userId: string, item: calendar_v3.Schema$Event): Promise<CalendarEvent | null> {
+    const startTime = this.parseEventTime(item.start);
+    const endTime = this.parseEventTime(item.end);
+    if (!item.id || !startTime || !endTime) {
+      return null;
+    }
+
+    const existing = await this.eventRepo.findOne({ where: { googleEventId: item.id } });
+    const event = this.eventRepo.merge(existing ?? this.eventRepo.create({ userId, googleEventId: item.id }), {
+      title: item.summary?.slice(0, 500) ?? undefined,
+      description: item.description ?? undefined,
+      location: item.location?.slice(0, 500) ?? undefined,
+      startTime,
+      endTime,
+      metadata: {
+        ...existing?.metadata,
+        calendarId: this.settings.calendarId,
+        status: item.status,
+        htmlLink: item.htmlLink,
+        allDay: Boolean(item.start?.date),
+        timezone: item.start?.timeZone,
+        attendees: item.attendees?.map(attendee => attendee.email).filter(Boolean),
+        transparency: item.transparency,
+        updated: item.updated,
+        lastSyncedAt: new Date().toISOString()
+      }
+    });
+
+    return this.eventRepo.save(event);
+  }
+
+  private parseEventTime(time?: calendar_v3.Schema$EventDateTime): Date | null {
+    if (time?.dateTime) {
+      return new Date(time.dateTime);
+    }
+    if (time?.date) {
+      // All-day events carry a bare date; anchor it in the event's timezone
+      return DateTime.fromISO(time.date, { zone: time.timeZone || DEFAULT_TIMEZONE }).toJSDate();
+    }
+    return null;
+  }
+
+  private async getAuthorizedCalendar(userId: string): Promise<AuthorizedCalendar | null> {
+    const token = await this.tokenRepo.findOne({ where: { userId, provider: PROVIDER } });
+    if (!token) {
+      return null;
+    }
+
+    const client = this.createOAuthClient();
+    client.setCredentials({
+      access_token: decryptSecret(token.accessToken),
+      refresh_token: token.refreshToken ? decryptSecret(token.refreshToken) : undefined,
+      expiry_date: token.expiresAt?.getTime()
+    });
+
+    // google-auth-library refreshes expired access tokens itself; persist the new ones
+    client.on('tokens', tokens => {
+      this.saveTokens(userId, tokens).catch(error => logError('Failed to persist refreshed Google tokens', error, { userId }));
+    });
+
+    const calendar = google.calendar({
+      version: 'v3',
+      auth: client,
+      ...(this.settings.apiBaseUrl && { rootUrl: this.settings.apiBaseUrl.replace(/\/?$/, '/') })
+    });
+
+    return { token, calendar };
+  }
+
+  private async saveTokens(userId: string, tokens: Credentials): Promise<OAuthToken> {
+    const existing = await this.tokenRepo.findOne({ where: { userId, provider: PROVIDER } });
+    const token = this.tokenRepo.merge(existing ?? this.tokenRepo.create({ userId, provider: PROVIDER, metadata: {} }), {
+      ...(tokens.access_token && { accessToken: encryptSecret(tokens.access_token) }),
+      // Google only returns a refresh token on first consent; keep the stored one otherwise
+      ...(tokens.refresh_token && { refreshToken: encryptSecret(tokens.refresh_token) }),
+      ...(tokens.expiry_date && { expiresAt: new Date(tokens.expiry_date) }),
+      ...(tokens.scope && { scopes: tokens.scope.split(' ') })
+    });
+
+    return this.tokenRepo.save(token);
+  }
+
+  private createOAuthClient(): OAuth2Client {
+    const oauthBase = this.settings.oauthBaseUrl?.replace(/\/$/, '');
+
+    return new OAuth2Client({
+      clientId: this.settings.clientId,
+      clientSecret: this.settings.clientSecret,
+      redirectUri: this.settings.redirectUri,
+      ...(oauthBase && {
+        endpoints: {
+          oauth2AuthBaseUrl: `${oauthBase}/o/oauth2/v2/auth`,
+          oauth2TokenUrl: `${oauthBase}/token`,
+          oauth2RevokeUrl: `${oauthBase}/revoke`
+        }
+      })
+    });
+  }
+
+  /**
+   * OAuth state is `<payload>.<hmac>` so the callback can trust the user id
+   * without storing pending link requests.
+   */
+  private signState(userId: string): string {
+    const payload = Buffer.from(JSON.stringify({
+      u: userId,
+      e: Date.now() + LINK_TTL_MS,
+      n: randomBytes(8).toString('hex')
+    })).toString('base64url');
+
+    return `${payload}.${this.hmac(payload)}`;
+  }
+
+  private verifyState(state: string): string | null {
+    const [payload, signature] = (state || '').split('.');
+    if (!payload || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.hmac(payload));
+    const provided = Buffer.from(signature);
+    if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+      return null;
+    }
+
+    try {
+      const { u, e } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      return typeof u === 'string' && typeof e === 'number' && e > Date.now() ? u : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private hmac(value: string): string {
+    return createHmac('sha256', config.security.sessionSecret).update(value).digest('base64url');
+  }
+
+  private getStatus(error: any): number | undefined {
+    return error?.code ?? error?.response?.status;
+  }
+
+  private failure<T>(message: string, error: any, userId: string): ServiceResponse<T> {
+    // invalid_grant means the user revoked access or the refresh token expired
+    if (error?.response?.data?.error === 'invalid_grant' || /invalid_grant/.test(error?.message || '')) {
+      logWarn('Google Calendar access revoked', { userId });
+      return { success: false, error: 'Google Calendar access was revoked - reconnect to continue', metadata: { notLinked: true } };
+    }
+
+    logError(message, error, { userId });
+    return { success: false, error: error?.message || message };
+  }
+}
+
+// Singleton instance
+let googleCalendarServiceInstance: GoogleCalendarService | null = null;
+
+export const getGoogleCalendarService = (): GoogleCalendarService => {
+  if (!googleCalendarServiceInstance) {
+    googleCalendarServiceInstance = new GoogleCalendarService();
+  }
+  return googleCalendarServiceInstance;
+};
+
+export default GoogleCalendarService;
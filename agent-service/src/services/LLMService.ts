@@ -0,0 +1,305 @@
+import Anthropic from '@anthropic-ai/sdk';
+import axios from 'axios';
+import { LLMEndpointConfig, LLMProviderName, LLMRole } from '../types';
+import { logDebug, logInfo } from '../utils/logger';
+import { config } from '../config';
+
+/**
+ * Input of a client tool call while the model is still writing it.
+ */
+export interface ToolInputUpdate {
+  /** Content block index of the tool call in the final message */
+  index: number;
+  name: string;
+  /** Raw JSON received so far; usually incomplete */
+  partialJson: string;
+}
+
+export interface LLMRequestOptions {
+  /** Extra HTTP headers, e.g. Anthropic beta flags */
+  headers?: Record<string, string>;
+  /**
+   * Called as tool call input streams in. Providers that can't stream ignore
+   * it and return the complete message as usual.
+   */
+  onToolInput?: (update: ToolInputUpdate) => void;
+}
+
+/**
+ * Interface implemented by all chat model backends. Requests and responses
+ * use the Anthropic Messages shape so the agent loops don't care which
+ * backend answers; other providers translate at the edge.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  createMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    options?: LLMRequestOptions
+  ): Promise<Anthropic.Message>;
+}
+
+/**
+ * Provider and model a role's requests go to. The model is unset when the
+ * route leaves it to the caller's Anthropic default.
+ */
+export interface LLMRoute {
+  role: LLMRole;
+  provider: LLMProvider;
+  model?: string;
+}
+
+/**
+ * Anthropic Messages API.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  private client: Anthropic;
+
+  constructor(client?: Anthropic) {
+    this.client = client ?? new Anthropic({ apiKey: config.anthropic.apiKey });
+  }
+
+  createMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    options: LLMRequestOptions = {}
+  ): Promise<Anthropic.Message> {
+    const requestOptions = options.headers ? { headers: options.headers } : undefined;
+    const onToolInput = options.onToolInput;
+    if (!onToolInput) {
+      return this.client.messages.create(params, requestOptions);
+    }
+
+    // The SDK's parsed input snapshot leaves out unfinished strings, so keep the raw JSON
+    const partialJson = new Map<number, string>();
+    const stream = this.client.messages.stream(params, requestOptions);
+    stream.on('streamEvent', (event, snapshot) => {
+      if (event.type !== 'content_block_delta' || event.delta.type !== 'input_json_delta') {
+        return;
+      }
+      const block = snapshot.content[event.index];
+      if (block?.type === 'tool_use') {
+        const json = (partialJson.get(event.index) ?? '') + event.delta.partial_json;
+        partialJson.set(event.index, json);
+        onToolInput({ index: event.index, name: block.name, partialJson: json });
+      }
+    });
+    return stream.finalMessage();
+  }
+}
+
+/**
+ * Provider for OpenAI-compatible `/chat/completions` endpoints (OpenAI,
+ * Ollama, llama.cpp server, vLLM, ...). Client tools map to function calls;
+ * Anthropic server tools such as web_search are dropped.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  constructor(
+    readonly name: 'openai' | 'local',
+    private readonly endpoint: LLMEndpointConfig,
+    private readonly timeoutMs: number
+  ) {}
+
+  async createMessage(params: Anthropic.MessageCreateParamsNonStreaming): Promise<Anthropic.Message> {
+    const tools = (params.tools ?? [])
+      .filter((tool): tool is Anthropic.Tool => 'input_schema' in tool)
+      .map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.input_schema }
+      }));
+
+    const body: Record<string, any> = {
+      model: params.model,
+      max_tokens: params.max_tokens,
+      messages: toChatMessages(params)
+    };
+    if (params.temperature !== undefined) {
+      body.temperature = params.temperature;
+    }
+    if (tools.length > 0) {
+      body.tools = tools;
+    }
+
+    logDebug('Sending chat completion request', {
+      provider: this.name,
+      model: params.model,
+      messageCount: body.messages.length,
+      toolCount: tools.length
+    });
+
+    const response = await axios.post(`${this.endpoint.baseUrl.replace(/\/$/, '')}/chat/completions`, body, {
+      timeout: this.timeoutMs,
+      headers: this.endpoint.apiKey ? { Authorization: `Bearer ${this.endpoint.apiKey}` } : undefined
+    });
+
+    return fromChatCompletion(response.data, params.model);
+  }
+}
+
+const textOf = (content: string | Array<{ type: string; text?: string }>): string =>
+  typeof content === 'string'
+    ? content
+    : content.filter(block => block.type === 'text').map(block => block.text ?? '').join('\n');
+
+/**
+ * Translate Anthropic system + messages into chat completion messages.
+ * Tool results become `tool` messages and images become data URLs.
+ */
+const toChatMessages = (params: Anthropic.MessageCreateParamsNonStreaming): Array<Record<string, any>> => {
+  const messages: Array<Record<string, any>> = [];
+
+  if (params.system) {
+    messages.push({ role: 'system', content: textOf(params.system) });
+  }
+
+  for (const message of params.messages) {
+    if (typeof message.content === 'string') {
+      messages.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    if (message.role === 'assistant') {
+      const toolCalls = message.content
+        .filter((block): block is Anthropic.ToolUseBlockParam => block.type === 'tool_use')
+        .map(block => ({
+          id: block.id,
+          type: 'function',
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) }
+        }));
+      messages.push({
+        role: 'assistant',
+        content: textOf(message.content as Array<{ type: string; text?: string }>) || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+      });
+      continue;
+    }
+
+    const parts: Array<Record<string, any>> = [];
+    for (const block of message.content) {
+      if (block.type === 'tool_result') {
+        messages.push({
+          role: 'tool',
+          tool_call_id: block.tool_use_id,
+          content: typeof block.content === 'string'
+            ? block.content
+            : textOf((block.content ?? []) as Array<{ type: string; text?: string }>)
+        });
+      } else if (block.type === 'text') {
+        parts.push({ type: 'text', text: block.text });
+      } else if (block.type === 'image' && block.source.type === 'base64') {
+        parts.push({
+          type: 'image_url',
+          image_url: { url: `data:${block.source.media_type};base64,${block.source.data}` }
+        });
+      }
+    }
+
+    if (parts.length > 0) {
+      const textOnly = parts.every(part => part.type === 'text');
+      messages.push({
+        role: 'user',
+        content: textOnly ? parts.map(part => part.text).join('\n') : parts
+      });
+    }
+  }
+
+  return messages;
+};
+
+const STOP_REASONS: Record<string, Anthropic.Message['stop_reason']> = {
+  tool_calls: 'tool_use',
+  function_call: 'tool_use',
+  length: 'max_tokens',
+  stop: 'end_turn'
+};
+
+/**
+ * Translate a chat completion response into an Anthropic message.
+ */
+const fromChatCompletion = (data: any, requestedModel: string): Anthropic.Message => {
+  const choice = data?.choices?.[0];
+  if (!choice?.message) {
+    throw new Error('Chat completion response had no choices');
+  }
+
+  const content: any[] = [];
+  if (typeof choice.message.content === 'string' && choice.message.content.trim()) {
+    content.push({ type: 'text', text: choice.message.content, citations: null });
+  }
+
+  for (const call of choice.message.tool_calls ?? []) {
+    let input: Record<string, any> = {};
+    try {
+      input = call.function?.arguments ? JSON.parse(call.function.arguments) : {};
+    } catch {
+      // Small local models sometimes emit invalid JSON; let the tool report missing input
+    }
+    content.push({ type: 'tool_use', id: call.id || `call_${content.length}`, name: call.function?.name, input });
+  }
+
+  const hasToolUse = content.some(block => block.type === 'tool_use');
+
+  return {
+    id: data.id || `chatcmpl_${Date.now()}`,
+    type: 'message',
+    role: 'assistant',
+    model: data.model || requestedModel,
+    content,
+    stop_reason: hasToolUse ? 'tool_use' : STOP_REASONS[choice.finish_reason] ?? 'end_turn',
+    stop_sequence: null,
+    usage: {
+      input_tokens: data.usage?.prompt_tokens ?? 0,
+      output_tokens: data.usage?.completion_tokens ?? 0
+    }
+  } as unknown as Anthropic.Message;
+};
+
+const providers = new Map<LLMProviderName, LLMProvider>();
+let providerOverride: LLMProvider | null = null;
+
+const getProvider = (name: LLMProviderName): LLMProvider => {
+  const existing = providers.get(name);
+  if (existing) {
+    return existing;
+  }
+
+  let provider: LLMProvider;
+  switch (name) {
+    case 'anthropic':
+      provider = new AnthropicProvider();
+      break;
+    case 'openai':
+    case 'local':
+      provider = new OpenAICompatibleProvider(name, config.llm[name], config.llm.timeoutMs);
+      break;
+    default:
+      throw new Error(`Unknown LLM provider "${name}"`);
+  }
+
+  providers.set(name, provider);
+  logInfo('LLM provider initialized', { provider: name });
+  return provider;
+};
+
+/**
+ * Resolve where a role's model calls should go.
+ */
+export const getLLMRoute = (role: LLMRole): LLMRoute => {
+  if (providerOverride) {
+    return { role, provider: providerOverride };
+  }
+
+  const route = config.llm.routes[role];
+  if (route.provider !== 'anthropic' && !route.model) {
+    throw new Error(`LLM_${role.toUpperCase()}_MODEL is required when using the ${route.provider} provider`);
+  }
+
+  return { role, provider: getProvider(route.provider), model: route.model };
+};
+
+/**
+ * Send every role to one provider, e.g. a recorded client in offline evals.
+ * Pass null to go back to the configured routes.
+ */
+export const setLLMProviderOverride = (provider: LLMProvider | null): void => {
+  providerOverride = provider;
+};
@@ -10,7 +10,8 @@ import { ReminderService } from './ReminderService';
 import { logInfo, logError, logDebug, logWarn } from '../utils/logger';
 import { ServiceResponse, BlueBubblesMessage, MessageMetadata, ContextMemory } from '../types';
 import { getMessageHandlerFactory } from '../handlers/MessageHandlerFactory';
-import { getSecurityManager } from '../middleware/security';
+import { getSecurityManager, isAdminRole, normalizeHandle } from '../middleware/security';
+import { getAccessControlService } from './AccessControlService';
 import { ToolExecutionContext } from '../tools/Tool';
 // PromptRuntimeContext defined inline (SystemPromptBuilder module planned for Phase 4)
 interface PromptRuntimeContext {
@@ -33,6 +34,10 @@ import { createWorkingMemoryLog, WorkingMemoryLog } from './WorkingMemoryLog';
 import { getSummarizationService } from './SummarizationService';
 import { getTypingManager } from './TypingManager';
 import { getAnthropicRequestManager } from './AnthropicRequestManager';
+import { isAssistantMentioned, isGroupChatGuid, parseGroupModeCommand } from '../utils/groupChat';
+import { parseReminderReply } from '../utils/reminderReplies';
+import { DATA_DELETION_CONFIRM_PHRASE, parseDataDeletionCommand } from '../utils/dataDeletion';
+import { describeRemovalReport, getDataRetentionService } from './DataRetentionService';
 
 export class MessageRouter {
   private userRepo: Repository<User>;
@@ -44,6 +49,7 @@ export class MessageRouter {
   private reminderService: ReminderService;
   private messageHandlerFactory = getMessageHandlerFactory();
   private securityManager = getSecurityManager();
+  private accessControl = getAccessControlService();
   private conversationSummarizer = getConversationSummarizer();
   private readonly summaryTailLength = 6;
   private readonly duplicateWindowMs = 60_000;
@@ -104,7 +110,8 @@ export class MessageRouter {
   private async buildPromptRuntimeContext(
     user: User,
     conversation: Conversation,
-    conversationHistory: Array<{ role: string; content: string }>
+    conversationHistory: Array<{ role: string; content: string }>,
+    latestMessage?: string
   ): Promise<PromptRuntimeContext> {
     const userProfile: Record<string, string | undefined> = {
       phoneNumber: user.phoneNumber,
@@ -145,23 +152,23 @@ export class MessageRouter {
       ? conversation.metadata.activeReminders.map((reminder: any) => this.formatListItem(reminder, 180)).slice(0, 5)
       : undefined;
 
-    const [sessionMemories, longTermMemories] = await Promise.all([
-      this.contextService.getUserMemories(user.id, 'session', conversation.id),
-      this.contextService.getUserMemories(user.id, 'long_term')
-    ]);
-
-    const sessionHighlights = this.extractMemoryHighlights(sessionMemories, 5);
-    const remainingBudget = Math.max(0, 5 - sessionHighlights.length);
-    const longTermHighlights = remainingBudget > 0
-      ? this.extractMemoryHighlights(longTermMemories, remainingBudget)
-      : [];
+    const memoryHighlights = await this.selectMemoryHighlights(user.id, conversation.id, latestMessage, 5);
 
-    const memoryHighlights = [...sessionHighlights, ...longTermHighlights];
-
-    const additionalNotes = Array.isArray(conversation.metadata?.notes)
+    let additionalNotes = Array.isArray(conversation.metadata?.notes)
       ? conversation.metadata.notes.map((note: any) => this.formatListItem(note, 200)).slice(0, 3)
       : undefined;
 
+    if (conversation.metadata?.isGroupChat) {
+      const participants = Array.isArray(conversation.metadata.participants)
+        ? conversation.metadata.participants.join(', ')
+        : 'several people';
+      const sender = user.phoneNumber || user.email || 'unknown';
+      additionalNotes = [
+        `This is a group chat with ${participants}. The latest message is from ${sender}; earlier user turns are prefixed with their sender. Reply only to what was addressed to you and don't share one participant's personal details with the group.`,
+        ...(additionalNotes ?? [])
+      ];
+    }
+
     const conversationGoals = Array.isArray(conversation.metadata?.goals)
       ? conversation.metadata.goals.map((goal: any) => this.formatListItem(goal, 180)).slice(0, 3)
       : undefined;
@@ -193,6 +200,45 @@ export class MessageRouter {
     };
   }
 
+  /**
+   * Pick memory highlights for the prompt: the memories most similar to the
+   * incoming message, falling back to the most recent session/long-term memories.
+   */
+  private async selectMemoryHighlights(
+    userId: string,
+    conversationId: string,
+    latestMessage: string | undefined,
+    limit: number
+  ): Promise<string[]> {
+    if (latestMessage?.trim()) {
+      const relevant = await this.contextService.findRelevantMemories(userId, latestMessage, {
+        limit,
+        memoryTypes: ['session', 'long_term'],
+        conversationId
+      });
+
+      if (relevant.success && relevant.data && relevant.data.length > 0) {
+        return this.extractMemoryHighlights(
+          { success: true, data: relevant.data.map(result => result.memory) },
+          limit
+        );
+      }
+    }
+
+    const [sessionMemories, longTermMemories] = await Promise.all([
+      this.contextService.getUserMemories(userId, 'session', conversationId),
+      this.contextService.getUserMemories(userId, 'long_term')
+    ]);
+
+    const sessionHighlights = this.extractMemoryHighlights(sessionMemories, limit);
+    const remainingBudget = Math.max(0, limit - sessionHighlights.length);
+    const longTermHighlights = remainingBudget > 0
+      ? this.extractMemoryHighlights(longTermMemories, remainingBudget)
+      : [];
+
+    return [...sessionHighlights, ...longTermHighlights];
+  }
+
   private extractMemoryHighlights(
     response: ServiceResponse<ContextMemory[]>,
     limit: number
@@ -565,7 +611,10 @@ export class MessageRouter {
       return;
     }
     
-    const chatId = bbMessage.chat_id || bbMessage.handle?.address || 'unknown';
+    // Buffer group chats per sender so rapid messages from different people aren't merged
+    const chatId = isGroupChatGuid(bbMessage.chat_id)
+      ? `${bbMessage.chat_id}:${bbMessage.handle?.address || 'unknown'}`
+      : bbMessage.chat_id || bbMessage.handle?.address || 'unknown';
     
     let buffer = this.messageDebounceBuffers.get(chatId);
     if (!buffer) {
@@ -812,7 +861,13 @@ export class MessageRouter {
       // Get or create user based on chat identifier
       user = await this.getOrCreateUserFromMessage(bbMessage);
       if (!user) {
-        logError('Failed to identify user from message');
+        // Either the handle isn't admitted or lookup failed (logged in getOrCreateUserFromMessage)
+        logDebug('No user resolved for message - skipping', { guid: bbMessage.guid });
+        return;
+      }
+
+      if (user.role === 'blocked') {
+        logInfo('Ignoring message from blocked user', { userId: user.id, guid: bbMessage.guid });
         return;
       }
 
@@ -829,12 +884,15 @@ export class MessageRouter {
         originalChatId: bbMessage.metadata?.originalChatId ?? bbMessage.chat_id
       };
 
-      // Get or create conversation
-      conversation = await this.getOrCreateConversation(
-        user.id,
-        'imessage',
-        bbMessage.chat_id ?? undefined
-      );
+      // Group chats share one conversation across participants; each sender keeps their own user record
+      const isGroupChat = isGroupChatGuid(bbMessage.chat_id);
+      conversation = isGroupChat
+        ? await this.getOrCreateGroupConversation(user.id, bbMessage.chat_id!, userHandle)
+        : await this.getOrCreateConversation(
+          user.id,
+          'imessage',
+          bbMessage.chat_id ?? undefined
+        );
 
       // NOTE: Typing indicators now managed by TypingManager - starts automatically when Claude API is called
 
@@ -857,10 +915,36 @@ export class MessageRouter {
           source: 'bluebubbles',
           originalMessageId: bbMessage.guid,
           attachments: bbMessage.attachments,
-          messageType: processedMessage.metadata.originalType
+          messageType: processedMessage.metadata.originalType,
+          ...(processedMessage.audio && {
+            transcription: {
+              text: processedMessage.audio.transcription,
+              language: processedMessage.audio.language,
+              durationSeconds: processedMessage.audio.duration,
+              provider: processedMessage.audio.provider
+            }
+          }),
+          ...(isGroupChat && {
+            isGroupChat: true,
+            senderHandle: userHandle,
+            chatParticipants: conversation.metadata?.participants
+          })
         }
       );
 
+      if (isGroupChat && !(await this.shouldRespondInGroupChat(conversation, bbMessage, user, userHandle, messageText))) {
+        return;
+      }
+
+      if (!isGroupChat && !bbMessage.is_from_me) {
+        if (await this.handleDataDeletionCommand(user, conversation, bbMessage, userHandle, messageText)) {
+          return;
+        }
+        if (await this.handleReminderReply(user, conversation, bbMessage, messageText)) {
+          return;
+        }
+      }
+
       // Get conversation history and trim with summarization if needed
       // Reduced from 35 to 15 to avoid including old corrupted data
       const rawConversationHistory = await this.getConversationHistory(conversation.id, 15);
@@ -893,13 +977,19 @@ export class MessageRouter {
       }
 
       // Create tool execution context
-      const runtimeContext = await this.buildPromptRuntimeContext(user, conversation, conversationHistory);
+      const runtimeContext = await this.buildPromptRuntimeContext(
+        user,
+        conversation,
+        conversationHistory,
+        processedMessage.text
+      );
 
       const toolContext: ToolExecutionContext = {
         userHandle,
         userId: user.id,
         conversationId: conversation.id,
-        isAdmin: userHandle !== 'unknown' && this.securityManager.isAdmin(userHandle),
+        isAdmin: isAdminRole(user.role),
+        userRole: user.role,
         runtimeContext,
         chatGuid: chatGuid || bbMessage.chat_id || undefined
       };
@@ -950,6 +1040,11 @@ export class MessageRouter {
             safeMessageText   // Pass message text for debugging reaction targets
           );
 
+          // Record each bubble for echo detection before it is sent; with streaming
+          // the first ones go out well before processUserMessage returns
+          const conversationId = conversation.id;
+          interactionRuntime.setOnOutboundBubble(bubble => this.recordOutboundMessage(conversationId, bubble));
+
           const result = await interactionRuntime.processUserMessage(processedMessage.text || '');
           
           logInfo('Dual-agent processing completed', {
@@ -961,17 +1056,13 @@ export class MessageRouter {
 
           // Save assistant messages to database
           // Strip || separators and replace with newlines for cleaner history
-          for (const msg of result.messagesSent) {
+          for (const [i, msg] of result.messagesSent.entries()) {
             const cleanedMsg = msg.replace(/\s*\|\|\s*/g, '\n').trim();
             await this.saveMessage(user.id, conversation.id, 'assistant', cleanedMsg, {
               source: 'dual-agent',
-              agentsSpawned: result.agentsSpawned
+              agentsSpawned: result.agentsSpawned,
+              tokensUsed: i === 0 ? result.tokensUsed : undefined
             } as MessageMetadata);
-            // Record EACH bubble separately for echo detection (iMessageAdapter splits on ||)
-            const bubbles = msg.split(/\s*\|\|\s*/).map(b => b.trim()).filter(b => b.length > 0);
-            for (const bubble of bubbles) {
-              this.recordOutboundMessage(conversation.id, bubble);
-            }
           }
         }
 
@@ -1133,7 +1224,9 @@ export class MessageRouter {
         return { conversation: null, user: null };
       }
 
-      const conversation = await this.getOrCreateConversation(user.id, 'imessage', bbMessage.chat_id ?? undefined);
+      const conversation = isGroupChatGuid(bbMessage.chat_id)
+        ? await this.getOrCreateGroupConversation(user.id, bbMessage.chat_id!, bbMessage.handle?.address || 'unknown')
+        : await this.getOrCreateConversation(user.id, 'imessage', bbMessage.chat_id ?? undefined);
       return { conversation, user };
     } catch (error) {
       logWarn('Failed to ensure conversation context after error', {
@@ -1305,7 +1398,10 @@ export class MessageRouter {
     }
 
     try {
-      const summary = await this.conversationSummarizer.summarize(summarySource);
+      const summary = await this.conversationSummarizer.summarize(summarySource, {
+        userId,
+        conversationId: conversation.id
+      });
       if (!summary) {
         return history;
       }
@@ -1420,32 +1516,42 @@ export class MessageRouter {
         });
       }
 
-      // Create user if doesn't exist
-      if (!user) {
-        const userData: Partial<User> = {
-          preferences: {
-            aiPersonality: 'friendly',
-            enableReminders: true,
-            reminderChannelPreference: 'imessage'
-          } as any
-        };
-        
-        if (isEmail) {
-          userData.email = handleAddress;
-        } else {
-          userData.phoneNumber = handleAddress;
-        }
-        
-        user = this.userRepo.create(userData);
-        user = await this.userRepo.save(user);
-        
-        logInfo('Created new user', { 
-          id: user.id, 
-          email: isEmail ? handleAddress : undefined,
-          phoneNumber: isEmail ? undefined : handleAddress 
-        });
+      if (user) {
+        return this.accessControl.ensureOwnerRole(user, handleAddress);
       }
 
+      // New handles are admitted by access mode or a pending invite
+      const role = await this.accessControl.admitNewHandle(handleAddress);
+      if (!role) {
+        logInfo('Ignoring message from handle that is not on the allowlist', { isEmail });
+        return null;
+      }
+
+      // Create the user with the admitted role
+      const userData: Partial<User> = {
+        role,
+        preferences: {
+          aiPersonality: 'friendly',
+          enableReminders: true,
+          reminderChannelPreference: 'imessage'
+        } as any
+      };
+      
+      if (isEmail) {
+        userData.email = handleAddress;
+      } else {
+        userData.phoneNumber = handleAddress;
+      }
+      
+      user = this.userRepo.create(userData);
+      user = await this.userRepo.save(user);
+      
+      logInfo('Created new user', { 
+        id: user.id, 
+        email: isEmail ? handleAddress : undefined,
+        phoneNumber: isEmail ? undefined : handleAddress 
+      });
+
       return user;
     } catch (error) {
       logError('Failed to get or create user from message', { error });
@@ -1513,6 +1619,275 @@ export class MessageRouter {
     return conversation;
   }
 
+  /**
+   * Group chats map to a single conversation keyed by the chat GUID, owned by
+   * whoever spoke first, who also becomes the chat's first admin. Participant
+   * handles are tracked in the metadata.
+   */
+  private async getOrCreateGroupConversation(
+    userId: string,
+    chatGuid: string,
+    senderHandle: string
+  ): Promise<Conversation> {
+    let conversation = await this.conversationRepo.findOne({
+      where: {
+        channel: 'imessage',
+        channelConversationId: chatGuid
+      },
+      order: { startedAt: 'ASC' }
+    });
+
+    if (!conversation) {
+      conversation = this.conversationRepo.create({
+        userId,
+        channel: 'imessage',
+        channelConversationId: chatGuid,
+        metadata: {
+          groupChat: {
+            adminHandles: senderHandle !== 'unknown' ? [normalizeHandle(senderHandle)] : []
+          }
+        }
+      });
+      logInfo('Created new group conversation', { chatGuid, ownerId: userId });
+    }
+
+    const participants: string[] = Array.isArray(conversation.metadata?.participants)
+      ? conversation.metadata.participants
+      : [];
+
+    conversation.metadata = {
+      ...conversation.metadata,
+      isGroupChat: true,
+      groupChat: {
+        enabled: config.messaging.groupChatEnabledByDefault,
+        adminHandles: [],
+        ...conversation.metadata?.groupChat
+      },
+      participants: senderHandle !== 'unknown' && !participants.includes(senderHandle)
+        ? [...participants, senderHandle].slice(-50)
+        : participants
+    };
+    conversation.lastMessageAt = new Date();
+
+    return this.conversationRepo.save(conversation);
+  }
+
+  /**
+   * Decide whether to answer a group chat message: handle on/off commands from
+   * chat admins, then only respond when Grace is enabled and mentioned by name.
+   */
+  private async shouldRespondInGroupChat(
+    conversation: Conversation,
+    bbMessage: BlueBubblesMessage,
+    user: User,
+    senderHandle: string,
+    text: string
+  ): Promise<boolean> {
+    const names = config.messaging.assistantNames;
+    const settings = conversation.metadata?.groupChat ?? {};
+    const command = parseGroupModeCommand(text, names);
+
+    if (command) {
+      const adminHandles: string[] = Array.isArray(settings.adminHandles) ? settings.adminHandles : [];
+      const isChatAdmin = isAdminRole(user.role)
+        || (senderHandle !== 'unknown' && this.securityManager.isChatAdmin(senderHandle, adminHandles));
+
+      let reply: string;
+      if (!isChatAdmin) {
+        logInfo('Ignoring group chat mode command from non-admin', {
+          conversationId: conversation.id,
+          command
+        });
+        reply = 'Only a chat admin can turn me on or off here.';
+      } else {
+        const enabled = command === 'enable';
+        conversation.metadata = {
+          ...conversation.metadata,
+          groupChat: {
+            ...settings,
+            enabled,
+            updatedBy: senderHandle,
+            updatedAt: new Date().toISOString()
+          }
+        };
+        await this.conversationRepo.save(conversation);
+
+        this.securityManager.logAudit(senderHandle, enabled ? 'GROUP_CHAT_ENABLE' : 'GROUP_CHAT_DISABLE', {
+          conversationId: conversation.id
+        });
+        logInfo('Group chat mode changed', { conversationId: conversation.id, enabled });
+        reply = enabled
+          ? `I'm on for this chat. Mention ${names[0] || 'me'} when you need me.`
+          : `Okay, I'll stay quiet here until a chat admin turns me back on.`;
+      }
+
+      if (bbMessage.chat_id && config.bluebubbles.sendEnabled && (isChatAdmin || settings.enabled !== false)) {
+        await this.sendBlueBubblesMessage(bbMessage.chat_id, reply, 'group-mode-command', conversation.id);
+      }
+      return false;
+    }
+
+    if (settings.enabled === false) {
+      logDebug('Group chat disabled - not responding', { conversationId: conversation.id });
+      return false;
+    }
+
+    if (!isAssistantMentioned(text, names)) {
+      logDebug('Group chat message does not mention assistant - not responding', {
+        conversationId: conversation.id,
+        guid: bbMessage.guid
+      });
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Handle the "delete my data" flow in one-on-one chats: a request arms a
+   * short confirmation window, "CONFIRM DELETE" wipes everything tied to the
+   * user and "cancel" backs out. Returns false when the message isn't part of it.
+   */
+  private async handleDataDeletionCommand(
+    user: User,
+    conversation: Conversation,
+    bbMessage: BlueBubblesMessage,
+    userHandle: string,
+    text: string
+  ): Promise<boolean> {
+    const command = parseDataDeletionCommand(text);
+    if (!command) {
+      return false;
+    }
+
+    const requestedAt = conversation.metadata?.dataDeletionRequestedAt
+      ? new Date(conversation.metadata.dataDeletionRequestedAt).getTime()
+      : 0;
+    const confirmWindowMs = config.retention.deletionConfirmMinutes * 60 * 1000;
+    const isPending = requestedAt > 0 && Date.now() - requestedAt <= confirmWindowMs;
+
+    if (command === 'cancel' && !isPending) {
+      return false;
+    }
+
+    const chatGuid = bbMessage.chat_id || conversation.channelConversationId;
+    const reply = async (message: string, save = true) => {
+      if (!chatGuid) return;
+      await this.sendBlueBubblesMessage(chatGuid, message, 'data-deletion', conversation.id);
+      if (save) {
+        await this.saveMessage(user.id, conversation.id, 'assistant', message, { source: 'system' });
+      }
+    };
+    const setPending = async (value: string | undefined) => {
+      conversation.metadata = { ...conversation.metadata, dataDeletionRequestedAt: value };
+      await this.conversationRepo.save(conversation);
+    };
+
+    if (command === 'request') {
+      await setPending(new Date().toISOString());
+      this.securityManager.logAudit(userHandle, 'DATA_DELETION_REQUESTED', { conversationId: conversation.id }, user.id);
+      await reply(
+        `this permanently deletes everything I have stored about you: our conversations, memories, reminders, triggers and any linked calendar. ` +
+        `reply ${DATA_DELETION_CONFIRM_PHRASE} within ${config.retention.deletionConfirmMinutes} minutes to go ahead, or "cancel" to keep it`
+      );
+      return true;
+    }
+
+    if (command === 'cancel') {
+      await setPending(undefined);
+      await reply('okay, nothing was deleted');
+      return true;
+    }
+
+    if (!isPending) {
+      await reply(`there's no deletion request waiting. text "delete my data" first if you want me to forget you`);
+      return true;
+    }
+
+    const result = await getDataRetentionService().deleteUserData(user.id);
+    if (!result.success || !result.data) {
+      logError('Data deletion requested over iMessage failed', result.error, { userId: user.id });
+      await reply('something went wrong deleting your data - nothing was removed. try again in a bit');
+      return true;
+    }
+
+    this.securityManager.logAudit(userHandle, 'DATA_DELETED', { removed: result.data });
+    // Nothing is saved after this point - the conversation no longer exists
+    await reply(`done. I deleted ${describeRemovalReport(result.data)}. if you text me again I'll start fresh`, false);
+    return true;
+  }
+
+  /**
+   * Apply short replies to a just-delivered reminder ("done", "snooze 10m",
+   * a 👍 tapback on the reminder bubble) directly, without calling the model.
+   * Returns false when the message isn't a reminder reply.
+   */
+  private async handleReminderReply(
+    user: User,
+    conversation: Conversation,
+    bbMessage: BlueBubblesMessage,
+    text: string
+  ): Promise<boolean> {
+    const reply = parseReminderReply(text);
+    if (!reply) {
+      return false;
+    }
+
+    const reminder = await this.reminderService.findRecentlySentReminder(user.id, reply.quotedText);
+    if (!reminder) {
+      return false;
+    }
+
+    const result = reply.action === 'complete'
+      ? await this.reminderService.completeReminder(reminder.id)
+      : await this.reminderService.snoozeReminder(reminder.id, reply.until ?? reply.durationMs);
+
+    if (!result.success || !result.data) {
+      logWarn('Failed to apply reminder reply', {
+        reminderId: reminder.id,
+        action: reply.action,
+        error: result.error
+      });
+      return false;
+    }
+
+    logInfo('Applied reminder reply', {
+      reminderId: reminder.id,
+      action: reply.action,
+      conversationId: conversation.id
+    });
+
+    // A tapback already says it all - only confirm typed replies
+    if (reply.quotedText) {
+      return true;
+    }
+
+    const timezone = user.preferences?.timezone || 'America/Chicago';
+    const formatTime = (date: Date) => date.toLocaleString('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+
+    const confirmation = reply.action === 'snooze'
+      ? `snoozed, I'll remind you again ${formatTime(result.data.remindAt)}`
+      : result.data.status === 'pending'
+        ? `nice, marked done. next one ${formatTime(result.data.remindAt)}`
+        : 'nice, marked done';
+
+    const chatGuid = bbMessage.chat_id || conversation.channelConversationId;
+    if (chatGuid) {
+      await this.sendBlueBubblesMessage(chatGuid, confirmation, 'reminder-reply', conversation.id);
+      await this.saveMessage(user.id, conversation.id, 'assistant', confirmation, {
+        source: 'system',
+        reminderId: reminder.id
+      });
+    }
+
+    return true;
+  }
+
   private async determineChatGuid(bbMessage: BlueBubblesMessage, user: User | null): Promise<string | null> {
     const directGuid = bbMessage.chat_id?.trim();
     if (directGuid) {
@@ -1525,15 +1900,21 @@ export class MessageRouter {
     }
 
     if (user) {
-      const priorConversation = await this.conversationRepo.findOne({
+      const priorConversations = await this.conversationRepo.find({
         where: {
           userId: user.id,
           channel: 'imessage',
           channelConversationId: Not(IsNull())
         },
-        order: { lastMessageAt: 'DESC' }
+        order: { lastMessageAt: 'DESC' },
+        take: 5
       });
 
+      // Never fall back to a group chat for a direct reply
+      const priorConversation = priorConversations.find(
+        candidate => !isGroupChatGuid(candidate.channelConversationId)
+      );
+
       if (priorConversation?.channelConversationId) {
         return priorConversation.channelConversationId;
       }
@@ -1637,9 +2018,12 @@ export class MessageRouter {
     // Take only what we need and restore chronological order
     const limited = deduplicated.slice(0, limit).reverse();
 
+    // In group chats, attribute each user turn to the participant who sent it
     return limited.map(msg => ({
       role: msg.role,
-      content: msg.content
+      content: msg.role === 'user' && msg.metadata?.senderHandle
+        ? `[${msg.metadata.senderHandle}]: ${msg.content}`
+        : msg.content
     }));
   }
   
@@ -0,0 +1,172 @@
+import { Reminder } from '../database/entities/Reminder';
+import { User } from '../database/entities/User';
+import { getAgentMailClient } from '../integrations/AgentMailClient';
+import { logInfo, logWarn, logDebug } from '../utils/logger';
+import { REMINDER_PREFIX } from '../utils/reminderReplies';
+import {
+  ReminderChannelStatus,
+  ReminderDeliveryChannel,
+  ReminderDeliveryRecord,
+  UserPreferences
+} from '../types';
+import { config } from '../config';
+
+export interface ReminderDeliveryOutcome {
+  delivered: boolean;
+  record: ReminderDeliveryRecord;
+  error?: string;
+}
+
+type ChannelSendResult = { success: true } | { success: false; error: string; skip?: boolean };
+
+/**
+ * Channels a reminder should go out on. An explicit reminder channel wins;
+ * the user's reminderChannelPreference fills in when none was given.
+ */
+export function resolveReminderChannels(
+  channel: Reminder['channel'] | undefined,
+  preferences?: UserPreferences
+): ReminderDeliveryChannel[] {
+  const effective = channel ?? preferences?.reminderChannelPreference ?? 'imessage';
+  return effective === 'both' ? ['imessage', 'email'] : [effective];
+}
+
+/**
+ * ReminderDeliveryService fans a reminder out to iMessage and/or AgentMail
+ * email, retrying each channel and escalating to the other channel when
+ * everything requested failed. Per-channel results are returned for the
+ * caller to store in reminder metadata.
+ */
+export class ReminderDeliveryService {
+  async deliver(reminder: Reminder, user: User): Promise<ReminderDeliveryOutcome> {
+    // A defaulted channel tracks the user's current preference until someone picks one explicitly
+    const followsPreference = reminder.metadata?.channelFromPreference === reminder.channel;
+    const requested = resolveReminderChannels(followsPreference ? undefined : reminder.channel, user?.preferences);
+    const record: ReminderDeliveryRecord = { channels: {} };
+
+    for (const channel of requested) {
+      record.channels[channel] = await this.deliverWithRetry(channel, reminder, user);
+    }
+
+    let delivered = requested.some(channel => record.channels[channel]?.status === 'sent');
+
+    if (!delivered && config.reminders.escalationEnabled) {
+      const fallback: ReminderDeliveryChannel = requested[0] === 'imessage' ? 'email' : 'imessage';
+
+      if (!requested.includes(fallback)) {
+        logWarn('Reminder delivery failed, escalating to fallback channel', {
+          reminderId: reminder.id,
+          requested,
+          fallback
+        });
+
+        record.channels[fallback] = {
+          ...(await this.deliverWithRetry(fallback, reminder, user)),
+          escalation: true
+        };
+        record.escalatedTo = fallback;
+        delivered = record.channels[fallback]?.status === 'sent';
+      }
+    }
+
+    if (delivered) {
+      record.deliveredAt = new Date().toISOString();
+    }
+
+    const errors = Object.entries(record.channels)
+      .filter(([, status]) => status?.status !== 'sent' && status?.lastError)
+      .map(([channel, status]) => `${channel}: ${status!.lastError}`);
+
+    return {
+      delivered,
+      record,
+      error: delivered ? undefined : errors.join('; ') || 'No delivery channel available'
+    };
+  }
+
+  private async deliverWithRetry(
+    channel: ReminderDeliveryChannel,
+    reminder: Reminder,
+    user: User
+  ): Promise<ReminderChannelStatus> {
+    const maxAttempts = Math.max(1, config.reminders.deliveryMaxAttempts);
+    let lastError = '';
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const result = await this.sendOnChannel(channel, reminder, user);
+      const now = new Date().toISOString();
+
+      if (result.success) {
+        logInfo('Reminder delivered', { reminderId: reminder.id, channel, attempt });
+        return { status: 'sent', attempts: attempt, lastAttemptAt: now, sentAt: now };
+      }
+
+      lastError = result.error;
+
+      // Missing configuration won't fix itself between attempts
+      if (result.skip) {
+        logDebug('Reminder channel unavailable', { reminderId: reminder.id, channel, reason: lastError });
+        return { status: 'skipped', attempts: attempt, lastAttemptAt: now, lastError };
+      }
+
+      logWarn('Reminder delivery attempt failed', {
+        reminderId: reminder.id,
+        channel,
+        attempt,
+        maxAttempts,
+        error: lastError
+      });
+
+      if (attempt < maxAttempts) {
+        await new Promise(resolve => setTimeout(resolve, config.reminders.deliveryRetryDelayMs * attempt));
+      }
+    }
+
+    return {
+      status: 'failed',
+      attempts: maxAttempts,
+      lastAttemptAt: new Date().toISOString(),
+      lastError
+    };
+  }
+
+  private async sendOnChannel(
+    channel: ReminderDeliveryChannel,
+    reminder: Reminder,
+    user: User
+  ): Promise<ChannelSendResult> {
+    try {
+      if (channel === 'imessage') {
+        // Import MessageRouter here to avoid circular dependency
+        const { getMessageRouter } = await import('./MessageRouter');
+        const messageRouter = await getMessageRouter();
+        const result = await messageRouter.sendProactiveMessage(user.id, `${REMINDER_PREFIX}${reminder.content}`, 'imessage');
+        return result.success ? { success: true } : { success: false, error: result.error || 'Failed to send iMessage' };
+      }
+
+      const agentMail = getAgentMailClient();
+      if (!agentMail.isEnabled()) {
+        return { success: false, error: 'AgentMail is not configured', skip: true };
+      }
+      if (!user.email) {
+        return { success: false, error: 'User has no email address', skip: true };
+      }
+
+      const subject = `Reminder: ${reminder.content.length > 60 ? `${reminder.content.substring(0, 57)}...` : reminder.content}`;
+      const result = await agentMail.sendEmail(user.id, user.email, subject, `${REMINDER_PREFIX}${reminder.content}`);
+      return result.success ? { success: true } : { success: false, error: result.error || 'Failed to send email' };
+    } catch (error: any) {
+      return { success: false, error: error.message || `Failed to send via ${channel}` };
+    }
+  }
+}
+
+// Singleton instance
+let reminderDeliveryServiceInstance: ReminderDeliveryService | null = null;
+
+export const getReminderDeliveryService = (): ReminderDeliveryService => {
+  if (!reminderDeliveryServiceInstance) {
+    reminderDeliveryServiceInstance = new ReminderDeliveryService();
+  }
+  return reminderDeliveryServiceInstance;
+};
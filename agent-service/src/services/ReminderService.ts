@@ -1,12 +1,30 @@
-import { Repository } from 'typeorm';
+import { In, MoreThan, Repository } from 'typeorm';
 import Bull from 'bull';
 import * as chrono from 'chrono-node';
 import { AppDataSource } from '../database/connection';
 import { Reminder } from '../database/entities/Reminder';
 import { User } from '../database/entities/User';
 import { logInfo, logError, logDebug } from '../utils/logger';
-import { ServiceResponse, Reminder as IReminder, ReminderMetadata } from '../types';
+import { ServiceResponse, Reminder as IReminder, ReminderMetadata, ReminderStatus } from '../types';
 import { config } from '../config';
+import { DEFAULT_TIMEZONE, getNextOccurrence, normalizeRecurrenceRule } from '../utils/recurrence';
+import { DEFAULT_SNOOZE_MS, quoteMatchesReminder } from '../utils/reminderReplies';
+import { getReminderDeliveryService, resolveReminderChannels } from './ReminderDeliveryService';
+
+// How long after delivery a bare "done" / "snooze" reply is tied to a reminder
+const REPLY_WINDOW_MS = 2 * 60 * 60 * 1000;
+
+const REMINDER_STATUSES: ReminderStatus[] = ['pending', 'sent', 'snoozed', 'completed', 'cancelled'];
+
+export const isValidReminderStatus = (value: string): value is ReminderStatus =>
+  REMINDER_STATUSES.includes(value as ReminderStatus);
+
+export interface ReminderUpdate {
+  content?: string;
+  remindAt?: Date;
+  /** RRULE, cron or shorthand ("daily at 9am"); null stops the series. */
+  recurrence?: string | null;
+}
 
 export class ReminderService {
   private reminderRepo: Repository<Reminder>;
@@ -32,8 +50,8 @@ export class ReminderService {
   private setupQueueProcessors(): void {
     // Process reminder jobs
     this.reminderQueue.process(async (job) => {
-      const { reminderId } = job.data;
-      await this.sendReminder(reminderId);
+      const { reminderId, remindAt } = job.data;
+      await this.sendReminder(reminderId, remindAt);
     });
 
     // Queue event handlers
@@ -49,7 +67,7 @@ export class ReminderService {
   async createReminderFromText(
     userId: string,
     text: string,
-    channel: 'imessage' | 'email' | 'both' = 'imessage'
+    channel?: 'imessage' | 'email' | 'both'
   ): Promise<ServiceResponse<IReminder>> {
     try {
       logDebug('Parsing reminder from text', { userId, text });
@@ -100,8 +118,9 @@ export class ReminderService {
     userId: string,
     content: string,
     remindAt: Date,
-    channel: 'imessage' | 'email' | 'both' = 'imessage',
-    metadata?: ReminderMetadata
+    channel?: 'imessage' | 'email' | 'both',
+    metadata?: ReminderMetadata,
+    recurrence?: string
   ): Promise<ServiceResponse<IReminder>> {
     try {
       // Validate remind time is in the future
@@ -112,6 +131,17 @@ export class ReminderService {
         };
       }
 
+      const recurrenceMetadata = recurrence ? this.buildRecurrenceMetadata(recurrence, remindAt) : {};
+
+      // Fall back to the user's preferred reminder channel when none was requested
+      let channelFromPreference: ReminderMetadata['channelFromPreference'];
+      if (!channel) {
+        const user = await this.userRepo.findOne({ where: { id: userId } });
+        const channels = resolveReminderChannels(undefined, user?.preferences);
+        channel = channels.length > 1 ? 'both' : channels[0];
+        channelFromPreference = channel;
+      }
+
       // Create reminder in database
       const reminder = this.reminderRepo.create({
         userId,
@@ -119,17 +149,17 @@ export class ReminderService {
         remindAt,
         channel,
         status: 'pending',
-        metadata: metadata || {}
+        metadata: {
+          ...(metadata || {}),
+          ...recurrenceMetadata,
+          ...(channelFromPreference && { channelFromPreference })
+        }
       });
 
       const savedReminder = await this.reminderRepo.save(reminder);
       
       // Schedule the reminder job
-      const delay = remindAt.getTime() - Date.now();
-      await this.reminderQueue.add(
-        { reminderId: savedReminder.id },
-        { delay }
-      );
+      await this.scheduleJob(savedReminder);
 
       logInfo('Reminder created', {
         id: savedReminder.id,
@@ -149,7 +179,12 @@ export class ReminderService {
     }
   }
 
-  async sendReminder(reminderId: string): Promise<void> {
+  /**
+   * Deliver a reminder. Queue jobs carry the time they were scheduled for so
+   * jobs left behind by a snooze or reschedule are ignored. Recurring
+   * reminders are moved to their next occurrence and re-queued once sent.
+   */
+  async sendReminder(reminderId: string, scheduledFor?: string): Promise<boolean> {
     try {
       const reminder = await this.reminderRepo.findOne({
         where: { id: reminderId },
@@ -158,46 +193,70 @@ export class ReminderService {
 
       if (!reminder) {
         logError('Reminder not found', { reminderId });
-        return;
+        return false;
       }
 
-      if (reminder.status !== 'pending') {
+      if (reminder.status !== 'pending' && reminder.status !== 'snoozed') {
         logDebug('Reminder already processed', { 
           reminderId, 
           status: reminder.status 
         });
-        return;
+        return false;
       }
 
-      // Import MessageRouter here to avoid circular dependency
-      const { getMessageRouter } = await import('./MessageRouter');
-      const messageRouter = await getMessageRouter();
+      if (scheduledFor && new Date(scheduledFor).getTime() !== reminder.remindAt.getTime()) {
+        logDebug('Skipping stale reminder job', {
+          reminderId,
+          scheduledFor,
+          remindAt: reminder.remindAt.toISOString()
+        });
+        return false;
+      }
 
-      // Send the reminder message
-      const messageText = `🔔 Reminder: ${reminder.content}`;
-      
-      if (reminder.channel === 'imessage' || reminder.channel === 'both') {
-        const result = await messageRouter.sendProactiveMessage(
-          reminder.userId,
-          messageText,
-          'imessage'
-        );
-
-        if (result.success) {
-          reminder.status = 'sent';
-          reminder.completedAt = new Date();
-          await this.reminderRepo.save(reminder);
-          
-          logInfo('Reminder sent successfully', { reminderId });
-        } else {
-          throw new Error(result.error || 'Failed to send reminder');
-        }
+      const delivery = await getReminderDeliveryService().deliver(reminder, reminder.user);
+
+      if (!delivery.delivered) {
+        reminder.metadata = {
+          ...reminder.metadata,
+          delivery: delivery.record,
+          lastError: delivery.error || 'Failed to deliver reminder',
+          failedAt: new Date().toISOString()
+        };
+        await this.reminderRepo.save(reminder);
+
+        logError('Reminder delivery failed on all channels', { reminderId, error: delivery.error });
+        return false;
       }
 
-      // Email reminders would be handled here when email is implemented
-      if (reminder.channel === 'email' || reminder.channel === 'both') {
-        logDebug('Email reminders not yet implemented');
+      reminder.metadata = {
+        ...reminder.metadata,
+        delivery: delivery.record,
+        lastSentAt: new Date().toISOString(),
+        sentCount: (reminder.metadata.sentCount || 0) + 1
+      };
+
+      const nextOccurrence = reminder.metadata.recurring
+        ? this.computeNextOccurrence(reminder, new Date())
+        : undefined;
+
+      if (nextOccurrence) {
+        reminder.remindAt = nextOccurrence;
+        reminder.status = 'pending';
+        await this.reminderRepo.save(reminder);
+        await this.scheduleJob(reminder);
+
+        logInfo('Recurring reminder sent and rescheduled', {
+          reminderId,
+          nextRemindAt: nextOccurrence.toISOString()
+        });
+      } else {
+        reminder.status = 'sent';
+        await this.reminderRepo.save(reminder);
+
+        logInfo('Reminder sent successfully', { reminderId });
       }
+
+      return true;
     } catch (error: unknown) {
       logError('Failed to send reminder', error);
       
@@ -214,12 +273,13 @@ export class ReminderService {
         };
         await this.reminderRepo.save(reminder);
       }
+      return false;
     }
   }
 
   async getUserReminders(
     userId: string,
-    status?: 'pending' | 'sent' | 'snoozed' | 'cancelled'
+    status?: ReminderStatus
   ): Promise<ServiceResponse<IReminder[]>> {
     try {
       const where: any = { userId };
@@ -246,9 +306,13 @@ export class ReminderService {
     }
   }
 
+  /**
+   * Push a reminder back by a duration or to a specific time. Snoozing a
+   * recurring reminder only delays the current occurrence.
+   */
   async snoozeReminder(
     reminderId: string,
-    snoozeDuration: number = 15 * 60 * 1000 // Default 15 minutes
+    snooze: number | Date = DEFAULT_SNOOZE_MS
   ): Promise<ServiceResponse<IReminder>> {
     try {
       const reminder = await this.reminderRepo.findOne({
@@ -262,8 +326,22 @@ export class ReminderService {
         };
       }
 
+      if (reminder.status === 'cancelled' || reminder.status === 'completed') {
+        return {
+          success: false,
+          error: `Cannot snooze a ${reminder.status} reminder`
+        };
+      }
+
+      const newRemindAt = snooze instanceof Date ? snooze : new Date(Date.now() + snooze);
+      if (newRemindAt <= new Date()) {
+        return {
+          success: false,
+          error: 'Snooze time must be in the future'
+        };
+      }
+
       // Update reminder
-      const newRemindAt = new Date(Date.now() + snoozeDuration);
       reminder.remindAt = newRemindAt;
       reminder.status = 'snoozed';
       reminder.metadata = {
@@ -275,10 +353,7 @@ export class ReminderService {
       const updatedReminder = await this.reminderRepo.save(reminder);
 
       // Reschedule the job
-      await this.reminderQueue.add(
-        { reminderId },
-        { delay: snoozeDuration }
-      );
+      await this.scheduleJob(updatedReminder);
 
       logInfo('Reminder snoozed', { reminderId, newRemindAt });
 
@@ -295,6 +370,190 @@ export class ReminderService {
     }
   }
 
+  /**
+   * Mark a reminder as done. For recurring reminders this acknowledges the
+   * latest occurrence and leaves the series running; cancel ends the series.
+   */
+  async completeReminder(reminderId: string): Promise<ServiceResponse<IReminder>> {
+    try {
+      const reminder = await this.reminderRepo.findOne({
+        where: { id: reminderId }
+      });
+
+      if (!reminder) {
+        return {
+          success: false,
+          error: 'Reminder not found'
+        };
+      }
+
+      if (reminder.status === 'cancelled') {
+        return {
+          success: false,
+          error: 'Cancelled reminders cannot be completed'
+        };
+      }
+
+      reminder.metadata = {
+        ...reminder.metadata,
+        lastCompletedAt: new Date().toISOString()
+      };
+
+      if (!reminder.metadata.recurring) {
+        reminder.status = 'completed';
+        reminder.completedAt = new Date();
+        await this.removeQueuedJobs(reminderId);
+      } else if (reminder.status === 'snoozed') {
+        // A snoozed occurrence is done - go back to the series schedule
+        const nextOccurrence = this.computeNextOccurrence(reminder, new Date(), await this.getUserTimezone(reminder.userId));
+        if (nextOccurrence) {
+          reminder.remindAt = nextOccurrence;
+          reminder.status = 'pending';
+        } else {
+          reminder.status = 'completed';
+          reminder.completedAt = new Date();
+        }
+      }
+
+      const updated = await this.reminderRepo.save(reminder);
+      if (updated.status === 'pending') {
+        await this.scheduleJob(updated);
+      } else if (updated.status === 'completed') {
+        await this.removeQueuedJobs(reminderId);
+      }
+
+      logInfo('Reminder completed', { reminderId, recurring: !!reminder.metadata.recurring });
+
+      return {
+        success: true,
+        data: this.mapToInterface(updated)
+      };
+    } catch (error: any) {
+      logError('Failed to complete reminder', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to complete reminder'
+      };
+    }
+  }
+
+  /**
+   * Change a reminder's text, time or recurrence. Setting a new time
+   * reactivates a reminder that was already sent or completed.
+   */
+  async updateReminder(reminderId: string, update: ReminderUpdate): Promise<ServiceResponse<IReminder>> {
+    try {
+      const reminder = await this.reminderRepo.findOne({
+        where: { id: reminderId }
+      });
+
+      if (!reminder) {
+        return {
+          success: false,
+          error: 'Reminder not found'
+        };
+      }
+
+      if (reminder.status === 'cancelled') {
+        return {
+          success: false,
+          error: 'Cancelled reminders cannot be updated'
+        };
+      }
+
+      if (update.remindAt && update.remindAt <= new Date()) {
+        return {
+          success: false,
+          error: 'Reminder time must be in the future'
+        };
+      }
+
+      if (update.content !== undefined) {
+        const content = update.content.trim();
+        if (!content) {
+          return {
+            success: false,
+            error: 'Reminder content cannot be empty'
+          };
+        }
+        reminder.content = content;
+      }
+
+      let reschedule = false;
+
+      if (update.recurrence === null) {
+        reminder.metadata = {
+          ...reminder.metadata,
+          recurring: false,
+          recurringPattern: undefined,
+          recurrenceAnchor: undefined
+        };
+      } else if (update.recurrence !== undefined) {
+        const anchor = update.remindAt ?? reminder.remindAt;
+        reminder.metadata = {
+          ...reminder.metadata,
+          ...this.buildRecurrenceMetadata(update.recurrence, anchor)
+        };
+
+        if (!update.remindAt) {
+          // Keep the current time if it still lands on the new schedule, otherwise move to the next match
+          const timezone = await this.getUserTimezone(reminder.userId);
+          const after = reminder.remindAt > new Date() ? reminder.remindAt : new Date();
+          const next = getNextOccurrence(reminder.metadata.recurringPattern!, {
+            timezone,
+            anchor,
+            after,
+            inclusive: true
+          });
+          if (!next) {
+            return {
+              success: false,
+              error: 'Recurrence rule has no upcoming occurrences'
+            };
+          }
+          reminder.remindAt = next;
+          reminder.metadata.recurrenceAnchor = next.toISOString();
+          reschedule = true;
+        }
+      }
+
+      if (update.remindAt) {
+        reminder.remindAt = update.remindAt;
+        if (reminder.metadata.recurring) {
+          reminder.metadata.recurrenceAnchor = update.remindAt.toISOString();
+        }
+        reschedule = true;
+      }
+
+      if (reschedule) {
+        reminder.status = 'pending';
+        reminder.completedAt = undefined;
+      }
+
+      const updated = await this.reminderRepo.save(reminder);
+      if (reschedule) {
+        await this.scheduleJob(updated);
+      }
+
+      logInfo('Reminder updated', {
+        reminderId,
+        remindAt: updated.remindAt.toISOString(),
+        recurring: !!updated.metadata.recurring
+      });
+
+      return {
+        success: true,
+        data: this.mapToInterface(updated)
+      };
+    } catch (error: any) {
+      logError('Failed to update reminder', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to update reminder'
+      };
+    }
+  }
+
   async cancelReminder(reminderId: string): Promise<ServiceResponse<boolean>> {
     try {
       const reminder = await this.reminderRepo.findOne({
@@ -313,13 +572,7 @@ export class ReminderService {
       await this.reminderRepo.save(reminder);
 
       // Remove from queue if pending
-      const jobs = await this.reminderQueue.getJobs(['delayed', 'waiting']);
-      for (const job of jobs) {
-        if (job.data.reminderId === reminderId) {
-          await job.remove();
-          break;
-        }
-      }
+      await this.removeQueuedJobs(reminderId);
 
       logInfo('Reminder cancelled', { reminderId });
 
@@ -336,6 +589,119 @@ export class ReminderService {
     }
   }
 
+  /**
+   * Deliver a reminder again right away, regardless of whether it was already sent.
+   */
+  async resendReminder(reminderId: string): Promise<ServiceResponse<IReminder>> {
+    try {
+      const reminder = await this.reminderRepo.findOne({
+        where: { id: reminderId }
+      });
+
+      if (!reminder) {
+        return {
+          success: false,
+          error: 'Reminder not found'
+        };
+      }
+
+      if (reminder.status === 'cancelled') {
+        return {
+          success: false,
+          error: 'Cancelled reminders cannot be resent'
+        };
+      }
+
+      // sendReminder only delivers pending reminders
+      const previousStatus = reminder.status;
+      reminder.status = 'pending';
+      reminder.metadata = {
+        ...reminder.metadata,
+        resentAt: new Date().toISOString()
+      };
+      await this.reminderRepo.save(reminder);
+
+      const sent = await this.sendReminder(reminderId);
+
+      const updated = await this.reminderRepo.findOneOrFail({ where: { id: reminderId } });
+      if (!sent) {
+        updated.status = previousStatus;
+        await this.reminderRepo.save(updated);
+
+        return {
+          success: false,
+          error: updated.metadata?.lastError || 'Failed to resend reminder'
+        };
+      }
+
+      logInfo('Reminder resent', { reminderId });
+
+      return {
+        success: true,
+        data: this.mapToInterface(updated)
+      };
+    } catch (error: any) {
+      logError('Failed to resend reminder', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to resend reminder'
+      };
+    }
+  }
+
+  /**
+   * Re-queue delivery jobs for upcoming reminders, e.g. after restoring them
+   * from an archive into a database whose queue has never seen them.
+   */
+  async restorePendingJobs(userId?: string): Promise<number> {
+    const reminders = await this.reminderRepo.find({
+      where: {
+        ...(userId && { userId }),
+        status: In(['pending', 'snoozed']),
+        remindAt: MoreThan(new Date())
+      }
+    });
+
+    for (const reminder of reminders) {
+      await this.scheduleJob(reminder);
+    }
+
+    logInfo('Restored reminder jobs', { userId, count: reminders.length });
+    return reminders.length;
+  }
+
+  /**
+   * Find the reminder a short reply ("done", "snooze 10m", a tapback) refers
+   * to: the most recently delivered one that hasn't been acted on since, or
+   * the one whose bubble a tapback quotes.
+   */
+  async findRecentlySentReminder(userId: string, quotedText?: string): Promise<IReminder | null> {
+    try {
+      const since = Date.now() - REPLY_WINDOW_MS;
+      const timeOf = (value?: string | Date): number => (value ? new Date(value).getTime() : 0);
+      const candidates = await this.reminderRepo.find({
+        where: { userId },
+        order: { updatedAt: 'DESC' },
+        take: 25
+      });
+
+      const match = candidates
+        .filter(reminder => reminder.status !== 'cancelled' && reminder.status !== 'completed')
+        .filter(reminder => {
+          const sentAt = timeOf(reminder.metadata?.lastSentAt);
+          const handledAt = Math.max(timeOf(reminder.metadata?.lastCompletedAt), timeOf(reminder.metadata?.lastSnoozeAt));
+          return sentAt >= since && sentAt > handledAt;
+        })
+        .filter(reminder => !quotedText || quoteMatchesReminder(quotedText, reminder.content))
+        .sort((a, b) => timeOf(b.metadata.lastSentAt) - timeOf(a.metadata.lastSentAt))[0];
+
+      return match ? this.mapToInterface(match) : null;
+    } catch (error) {
+      logError('Failed to find recently sent reminder', error, { userId });
+      return null;
+    }
+  }
+
   async getUpcomingReminders(
     userId: string,
     hours: number = 24
@@ -365,6 +731,64 @@ export class ReminderService {
     }
   }
 
+  /**
+   * Queue delivery for a reminder's current time, dropping any jobs queued
+   * for an earlier schedule.
+   */
+  private async scheduleJob(reminder: Reminder): Promise<void> {
+    await this.removeQueuedJobs(reminder.id);
+
+    const delay = Math.max(0, reminder.remindAt.getTime() - Date.now());
+    await this.reminderQueue.add(
+      { reminderId: reminder.id, remindAt: reminder.remindAt.toISOString() },
+      { delay }
+    );
+  }
+
+  private async removeQueuedJobs(reminderId: string): Promise<void> {
+    const jobs = await this.reminderQueue.getJobs(['delayed', 'waiting']);
+    for (const job of jobs) {
+      if (job?.data?.reminderId === reminderId) {
+        await job.remove();
+      }
+    }
+  }
+
+  /**
+   * Validate a recurrence rule and build the metadata that drives the series.
+   * Throws with a user-facing message when the rule is invalid.
+   */
+  private buildRecurrenceMetadata(recurrence: string, anchor: Date): ReminderMetadata {
+    return {
+      recurring: true,
+      recurringPattern: normalizeRecurrenceRule(recurrence).rule,
+      recurrenceAnchor: anchor.toISOString()
+    };
+  }
+
+  private computeNextOccurrence(reminder: Reminder, after: Date, timezone?: string): Date | undefined {
+    const rule = reminder.metadata.recurringPattern;
+    if (!rule) {
+      return undefined;
+    }
+
+    try {
+      return getNextOccurrence(rule, {
+        timezone: timezone || reminder.user?.preferences?.timezone || DEFAULT_TIMEZONE,
+        anchor: reminder.metadata.recurrenceAnchor ? new Date(reminder.metadata.recurrenceAnchor) : reminder.createdAt,
+        after
+      });
+    } catch (error) {
+      logError('Failed to compute next reminder occurrence', error, { reminderId: reminder.id, rule });
+      return undefined;
+    }
+  }
+
+  private async getUserTimezone(userId: string): Promise<string> {
+    const user = await this.userRepo.findOne({ where: { id: userId } });
+    return user?.preferences?.timezone || DEFAULT_TIMEZONE;
+  }
+
   private mapToInterface(reminder: Reminder): IReminder {
     return {
       id: reminder.id,
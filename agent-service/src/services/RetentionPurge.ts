@@ -0,0 +1,77 @@
+import { getDataRetentionService, DataRetentionService } from './DataRetentionService';
+import { logInfo, logError, logDebug, logWarn } from '../utils/logger';
+import { config } from '../config';
+
+/**
+ * RetentionPurge periodically deletes rows that have outlived their
+ * configured retention window.
+ */
+export class RetentionPurge {
+  private retentionService: DataRetentionService;
+  private intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  constructor(intervalMs = config.retention.purgeIntervalMs) {
+    this.retentionService = getDataRetentionService();
+    this.intervalMs = intervalMs;
+  }
+
+  start(): void {
+    if (this.timer) {
+      logWarn('RetentionPurge already running');
+      return;
+    }
+
+    logInfo('RetentionPurge started', { intervalMs: this.intervalMs });
+
+    // Run immediately, then on an interval
+    this.runOnce();
+    this.timer = setInterval(() => this.runOnce(), this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logInfo('RetentionPurge stopped');
+    }
+  }
+
+  async runOnce(): Promise<void> {
+    if (this.isProcessing) {
+      logDebug('RetentionPurge skipping run - already processing');
+      return;
+    }
+
+    this.isProcessing = true;
+
+    try {
+      await this.retentionService.purgeExpired();
+    } catch (error) {
+      logError('RetentionPurge run failed', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
+
+// Singleton instance
+let retentionPurgeInstance: RetentionPurge | null = null;
+
+export function getRetentionPurge(): RetentionPurge {
+  if (!retentionPurgeInstance) {
+    retentionPurgeInstance = new RetentionPurge();
+  }
+  return retentionPurgeInstance;
+}
+
+export function startRetentionPurge(): void {
+  getRetentionPurge().start();
+}
+
+export function stopRetentionPurge(): void {
+  if (retentionPurgeInstance) {
+    retentionPurgeInstance.stop();
+  }
+}
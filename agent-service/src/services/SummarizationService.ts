@@ -2,6 +2,9 @@ import Anthropic from '@anthropic-ai/sdk';
 import { WorkingMemoryLog, WorkingMemoryEntry } from './WorkingMemoryLog';
 import { logInfo, logError, logDebug } from '../utils/logger';
 import { config } from '../config';
+import { getLLMRoute, LLMRoute } from './LLMService';
+import { getAnthropicRequestManager } from './AnthropicRequestManager';
+import { UsageAttribution } from './UsageService';
 
 const SUMMARIZATION_PROMPT = `You are the assistant's memory curator. Your job is to produce a concise working-memory briefing from the conversation entries provided.
 
@@ -25,20 +28,22 @@ Keep the summary concise but comprehensive. Focus on actionable information and
  * SummarizationService handles threshold-based summarization of working memory.
  */
 export class SummarizationService {
-  private anthropic: Anthropic;
+  private route: LLMRoute;
   private model: string;
+  private requestManager = getAnthropicRequestManager();
 
   constructor() {
-    this.anthropic = new Anthropic({
-      apiKey: config.anthropic.apiKey
-    });
-    this.model = config.anthropic.model || 'claude-3-5-haiku-20241022';
+    this.route = getLLMRoute('summarization');
+    this.model = this.route.model || config.anthropic.model || 'claude-3-5-haiku-20241022';
   }
 
   /**
    * Summarize entries from a working memory log.
    */
-  async summarizeEntries(entries: WorkingMemoryEntry[]): Promise<string | null> {
+  async summarizeEntries(
+    entries: WorkingMemoryEntry[],
+    owner: Pick<UsageAttribution, 'userId' | 'conversationId'> = {}
+  ): Promise<string | null> {
     if (entries.length === 0) {
       return null;
     }
@@ -54,17 +59,26 @@ export class SummarizationService {
         entryCount: entries.length
       });
 
-      const response = await this.anthropic.messages.create({
-        model: this.model,
-        max_tokens: 1024,
-        system: SUMMARIZATION_PROMPT,
-        messages: [
-          {
-            role: 'user',
-            content: `Please summarize the following conversation entries:\n\n${formattedEntries}`
-          }
-        ]
-      });
+      const response = await this.requestManager.execute(
+        () => this.route.provider.createMessage({
+          model: this.model,
+          max_tokens: 1024,
+          system: SUMMARIZATION_PROMPT,
+          messages: [
+            {
+              role: 'user',
+              content: `Please summarize the following conversation entries:\n\n${formattedEntries}`
+            }
+          ]
+        }),
+        {
+          description: 'working-memory-summary',
+          estimatedInputTokens: Math.ceil(formattedEntries.length / 4),
+          estimatedOutputTokens: 1024,
+          tags: ['summary'],
+          usage: { role: 'summarization', provider: this.route.provider.name, ...owner }
+        }
+      );
 
       // Extract text from response
       const textBlocks = response.content.filter(
@@ -120,7 +134,7 @@ export class SummarizationService {
       entriesToProcess = [summaryEntry, ...entriesToSummarize];
     }
 
-    const summary = await this.summarizeEntries(entriesToProcess);
+    const summary = await this.summarizeEntries(entriesToProcess, log.getOwner());
 
     if (summary) {
       log.applySummary(summary, keepRecent);
@@ -0,0 +1,271 @@
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import axios from 'axios';
+import { BlueBubblesClient } from '../integrations/BlueBubblesClient';
+import { BlueBubblesAttachment, TranscriptionConfig } from '../types';
+import { logInfo, logWarn, logDebug } from '../utils/logger';
+import { config } from '../config';
+
+/**
+ * Normalized audio handed to a transcription provider.
+ * Always 16kHz mono 16-bit PCM WAV so every provider sees the same input.
+ */
+export interface NormalizedAudio {
+  filePath: string;
+  durationSeconds?: number;
+}
+
+/**
+ * Result of transcribing a single audio attachment.
+ */
+export interface TranscriptionResult {
+  text: string;
+  language?: string;
+  durationSeconds?: number;
+  provider: string;
+}
+
+/**
+ * Interface implemented by all transcription backends.
+ */
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribe(audio: NormalizedAudio, options: { language?: string }): Promise<TranscriptionResult>;
+}
+
+/**
+ * Run an external binary and collect its output.
+ */
+const runCommand = (
+  binary: string,
+  args: string[],
+  timeoutMs: number
+): Promise<{ stdout: string; stderr: string }> => {
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      reject(new Error(`${path.basename(binary)} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    child.stdout.on('data', chunk => { stdout += chunk.toString(); });
+    child.stderr.on('data', chunk => { stderr += chunk.toString(); });
+
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+
+    child.on('close', code => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve({ stdout, stderr });
+      } else {
+        reject(new Error(`${path.basename(binary)} exited with code ${code}: ${stderr.trim().slice(-300)}`));
+      }
+    });
+  });
+};
+
+/**
+ * Parse the "Duration: HH:MM:SS.xx" line ffmpeg prints to stderr.
+ */
+const parseFfmpegDuration = (stderr: string): number | undefined => {
+  const match = stderr.match(/Duration:\s*(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, hours, minutes, seconds] = match;
+  return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseFloat(seconds);
+};
+
+/**
+ * Local provider that shells out to a whisper.cpp binary.
+ */
+export class LocalWhisperProvider implements TranscriptionProvider {
+  readonly name = 'whisper.cpp';
+
+  constructor(private readonly settings: TranscriptionConfig) {}
+
+  async transcribe(audio: NormalizedAudio, options: { language?: string }): Promise<TranscriptionResult> {
+    if (!this.settings.whisperModelPath) {
+      throw new Error('WHISPER_CPP_MODEL must be set to use the local transcription provider');
+    }
+
+    const outputBase = audio.filePath.replace(/\.wav$/, '');
+    const args = [
+      '-m', this.settings.whisperModelPath,
+      '-f', audio.filePath,
+      '-l', options.language || 'auto',
+      '-oj',
+      '-of', outputBase,
+      '-np'
+    ];
+
+    await runCommand(this.settings.whisperBinaryPath, args, this.settings.timeoutMs);
+
+    const raw = await fs.readFile(`${outputBase}.json`, 'utf-8');
+    const parsed = JSON.parse(raw);
+    const segments: Array<{ text?: string }> = Array.isArray(parsed?.transcription) ? parsed.transcription : [];
+    const text = segments.map(segment => (segment.text || '').trim()).filter(Boolean).join(' ');
+
+    return {
+      text,
+      language: parsed?.result?.language,
+      durationSeconds: audio.durationSeconds,
+      provider: this.name
+    };
+  }
+}
+
+/**
+ * HTTP provider for OpenAI-compatible `/audio/transcriptions` endpoints.
+ */
+export class HttpTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'http';
+
+  constructor(private readonly settings: TranscriptionConfig) {}
+
+  async transcribe(audio: NormalizedAudio, options: { language?: string }): Promise<TranscriptionResult> {
+    const data = await fs.readFile(audio.filePath);
+
+    const form = new FormData();
+    form.append('file', new Blob([data], { type: 'audio/wav' }), path.basename(audio.filePath));
+    form.append('model', this.settings.httpModel);
+    form.append('response_format', 'verbose_json');
+    if (options.language) {
+      form.append('language', options.language);
+    }
+
+    const response = await axios.post(this.settings.httpUrl, form, {
+      timeout: this.settings.timeoutMs,
+      headers: this.settings.httpApiKey
+        ? { Authorization: `Bearer ${this.settings.httpApiKey}` }
+        : undefined
+    });
+
+    const body = response.data || {};
+
+    return {
+      text: typeof body.text === 'string' ? body.text.trim() : '',
+      language: body.language,
+      durationSeconds: typeof body.duration === 'number' ? body.duration : audio.durationSeconds,
+      provider: this.name
+    };
+  }
+}
+
+/**
+ * TranscriptionService downloads audio attachments from BlueBubbles, normalizes
+ * them with ffmpeg and hands them to the configured TranscriptionProvider.
+ */
+export class TranscriptionService {
+  private readonly settings: TranscriptionConfig;
+  private readonly blueBubblesClient: BlueBubblesClient;
+  private provider: TranscriptionProvider | null;
+
+  constructor(blueBubblesClient = new BlueBubblesClient(), settings: TranscriptionConfig = config.transcription) {
+    this.settings = settings;
+    this.blueBubblesClient = blueBubblesClient;
+    this.provider = settings.enabled ? this.createProvider(settings) : null;
+  }
+
+  isEnabled(): boolean {
+    return this.provider !== null;
+  }
+
+  /**
+   * Swap the active provider (e.g. a fake in local testing).
+   */
+  setProvider(provider: TranscriptionProvider | null): void {
+    this.provider = provider;
+  }
+
+  async transcribeAttachment(attachment: BlueBubblesAttachment): Promise<TranscriptionResult | null> {
+    if (!this.provider) {
+      logDebug('Transcription disabled - skipping audio attachment', { guid: attachment.guid });
+      return null;
+    }
+
+    if (attachment.total_bytes && attachment.total_bytes > this.settings.maxBytes) {
+      logWarn('Audio attachment exceeds transcription size limit', {
+        guid: attachment.guid,
+        totalBytes: attachment.total_bytes,
+        maxBytes: this.settings.maxBytes
+      });
+      return null;
+    }
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'grace-audio-'));
+
+    try {
+      const sourceData = await this.blueBubblesClient.downloadAttachment(attachment.guid);
+      const sourcePath = path.join(workDir, `source${this.getExtension(attachment)}`);
+      await fs.writeFile(sourcePath, sourceData);
+
+      const normalized = await this.normalizeAudio(sourcePath, path.join(workDir, 'normalized.wav'));
+      const result = await this.provider.transcribe(normalized, { language: this.settings.language });
+
+      logInfo('Audio attachment transcribed', {
+        guid: attachment.guid,
+        provider: result.provider,
+        language: result.language,
+        durationSeconds: result.durationSeconds,
+        transcriptLength: result.text.length
+      });
+
+      return result.text ? result : null;
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Convert CAF/M4A/etc. into 16kHz mono WAV, which whisper expects.
+   */
+  private async normalizeAudio(inputPath: string, outputPath: string): Promise<NormalizedAudio> {
+    const { stderr } = await runCommand(
+      this.settings.ffmpegPath,
+      ['-hide_banner', '-y', '-i', inputPath, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', outputPath],
+      this.settings.timeoutMs
+    );
+
+    return {
+      filePath: outputPath,
+      durationSeconds: parseFfmpegDuration(stderr)
+    };
+  }
+
+  private getExtension(attachment: BlueBubblesAttachment): string {
+    const extension = path.extname(attachment.transfer_name || '');
+    return extension || '.caf';
+  }
+
+  private createProvider(settings: TranscriptionConfig): TranscriptionProvider {
+    switch (settings.provider) {
+      case 'local':
+        return new LocalWhisperProvider(settings);
+      case 'http':
+      default:
+        return new HttpTranscriptionProvider(settings);
+    }
+  }
+}
+
+// Singleton instance
+let transcriptionServiceInstance: TranscriptionService | null = null;
+
+export const getTranscriptionService = (): TranscriptionService => {
+  if (!transcriptionServiceInstance) {
+    transcriptionServiceInstance = new TranscriptionService();
+  }
+  return transcriptionServiceInstance;
+};
+
+export default TranscriptionService;
@@ -1,13 +1,21 @@
+import os from 'os';
+import { randomUUID } from 'crypto';
 import { getTriggerService, TriggerService } from './TriggerService';
-import { Trigger } from '../database/entities/Trigger';
+import { TriggerRun } from '../database/entities/TriggerRun';
 import { createExecutionAgentRuntime } from '../agents';
 import { ToolExecutionContext } from '../tools/Tool';
 import { logInfo, logError, logDebug, logWarn } from '../utils/logger';
+import { config } from '../config';
 
-const DEFAULT_POLL_INTERVAL_MS = 30_000; // 30 seconds
+const MAX_OUTPUT_LENGTH = 10_000;
 
 /**
  * TriggerScheduler polls for due triggers and dispatches them to execution agents.
+ *
+ * Every due occurrence is recorded in trigger_runs. Triggers are claimed with
+ * row-level locks, so several agent-service instances can poll the same database
+ * without double-firing. Missed occurrences are handled by each trigger's
+ * misfire policy on the first poll after startup.
  */
 export class TriggerScheduler {
   private triggerService: TriggerService;
@@ -15,10 +23,12 @@ export class TriggerScheduler {
   private pollTimer: NodeJS.Timeout | null = null;
   private isRunning = false;
   private isProcessing = false;
+  private readonly instanceId: string;
 
-  constructor(pollIntervalMs = DEFAULT_POLL_INTERVAL_MS) {
+  constructor(pollIntervalMs = config.triggers.pollIntervalMs) {
     this.triggerService = getTriggerService();
     this.pollIntervalMs = pollIntervalMs;
+    this.instanceId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
   }
 
   /**
@@ -31,7 +41,7 @@ export class TriggerScheduler {
     }
 
     this.isRunning = true;
-    logInfo('TriggerScheduler started', { pollIntervalMs: this.pollIntervalMs });
+    logInfo('TriggerScheduler started', { pollIntervalMs: this.pollIntervalMs, instanceId: this.instanceId });
 
     // Run immediately, then poll
     this.poll();
@@ -67,17 +77,20 @@ export class TriggerScheduler {
     this.isProcessing = true;
 
     try {
-      const result = await this.triggerService.getDueTriggers();
+      const recovered = await this.triggerService.recoverStaleRuns(this.instanceId);
+      const claimed = await this.triggerService.claimDueRuns(this.instanceId);
 
-      if (!result.success || !result.data || result.data.length === 0) {
+      const runs = [...(recovered.data || []), ...(claimed.data || [])];
+
+      if (runs.length === 0) {
         return;
       }
 
-      logInfo('TriggerScheduler processing due triggers', { count: result.data.length });
+      logInfo('TriggerScheduler processing trigger runs', { count: runs.length });
 
-      // Process triggers sequentially to avoid overwhelming the system
-      for (const trigger of result.data) {
-        await this.processTrigger(trigger);
+      // Process runs sequentially to avoid overwhelming the system
+      for (const run of runs) {
+        await this.executeRun(run);
       }
 
     } catch (error) {
@@ -88,13 +101,23 @@ export class TriggerScheduler {
   }
 
   /**
-   * Process a single trigger by dispatching to an execution agent.
+   * Execute a claimed run by dispatching its trigger to an execution agent.
    */
-  private async processTrigger(trigger: Trigger): Promise<void> {
+  private async executeRun(run: TriggerRun): Promise<void> {
+    const trigger = run.trigger;
+
+    const started = await this.triggerService.startRun(run.id);
+    if (!started.success || !started.data) {
+      logWarn('Trigger run no longer pending - skipping', { runId: run.id, triggerId: run.triggerId });
+      return;
+    }
+
     logInfo('Dispatching trigger', {
       id: trigger.id,
+      runId: run.id,
       agentName: trigger.agentName,
-      userId: trigger.userId
+      userId: trigger.userId,
+      scheduledFor: run.scheduledFor.toISOString()
     });
 
     try {
@@ -112,12 +135,19 @@ export class TriggerScheduler {
 
       logInfo('Trigger execution completed', {
         triggerId: trigger.id,
+        runId: run.id,
         agentName: trigger.agentName,
         success: result.success,
         toolsUsed: result.toolsUsed
       });
 
-      // Mark trigger as executed (calculates next trigger time for recurring)
+      await this.triggerService.completeRun(run.id, {
+        status: result.success ? 'succeeded' : 'failed',
+        output: result.response?.substring(0, MAX_OUTPUT_LENGTH),
+        error: result.success ? undefined : result.error,
+        metadata: { toolsUsed: result.toolsUsed }
+      });
+
       await this.triggerService.markTriggerExecuted(
         trigger.id,
         result.success ? undefined : result.error
@@ -136,9 +166,12 @@ export class TriggerScheduler {
     } catch (error: any) {
       logError('Trigger execution failed', error, {
         triggerId: trigger.id,
+        runId: run.id,
         agentName: trigger.agentName
       });
 
+      await this.triggerService.completeRun(run.id, { status: 'failed', error: error.message });
+
       // Mark trigger with error
       await this.triggerService.markTriggerExecuted(trigger.id, error.message);
     }
@@ -148,9 +181,9 @@ export class TriggerScheduler {
    * Manually trigger a specific trigger (for testing).
    */
   async triggerNow(triggerId: number): Promise<void> {
-    const result = await this.triggerService.getTrigger(triggerId);
+    const result = await this.triggerService.createManualRun(triggerId, this.instanceId);
     if (result.success && result.data) {
-      await this.processTrigger(result.data);
+      await this.executeRun(result.data);
     }
   }
 }
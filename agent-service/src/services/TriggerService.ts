@@ -1,9 +1,19 @@
-import { Repository, LessThanOrEqual, MoreThan } from 'typeorm';
+import { Repository, LessThanOrEqual, MoreThan, EntityManager, In } from 'typeorm';
 import { AppDataSource } from '../database/connection';
-import { Trigger, TriggerMetadata } from '../database/entities/Trigger';
+import { Trigger, TriggerMetadata, TriggerMisfirePolicy } from '../database/entities/Trigger';
+import { TriggerRun, TriggerRunMetadata, TriggerRunStatus } from '../database/entities/TriggerRun';
 import { logInfo, logError, logDebug, logWarn } from '../utils/logger';
 import { ServiceResponse } from '../types';
+import { config } from '../config';
 import * as chrono from 'chrono-node';
+import {
+  DEFAULT_TIMEZONE,
+  getNextOccurrence,
+  getRecentOccurrences,
+  getUpcomingOccurrences,
+  isValidTimezone,
+  normalizeRecurrenceRule
+} from '../utils/recurrence';
 
 export interface TriggerCreateInput {
   userId: string;
@@ -12,6 +22,7 @@ export interface TriggerCreateInput {
   startTime?: Date;
   recurrenceRule?: string;
   timezone?: string;
+  misfirePolicy?: TriggerMisfirePolicy;
 }
 
 export interface TriggerUpdateInput {
@@ -20,25 +31,80 @@ export interface TriggerUpdateInput {
   recurrenceRule?: string;
   status?: 'active' | 'paused' | 'completed';
   timezone?: string;
+  misfirePolicy?: TriggerMisfirePolicy;
+}
+
+export interface TriggerRunQuery {
+  triggerId?: number;
+  status?: TriggerRunStatus;
+  since?: Date;
+  limit?: number;
+}
+
+export interface TriggerRunResult {
+  status: 'succeeded' | 'failed';
+  output?: string;
+  error?: string;
+  metadata?: TriggerRunMetadata;
+}
+
+interface PlannedRun {
+  scheduledFor: Date;
+  status: 'pending' | 'skipped';
+  misfire: boolean;
+}
+
+const MISFIRE_POLICIES: TriggerMisfirePolicy[] = ['fire_once', 'fire_all', 'skip'];
+
+export const isValidMisfirePolicy = (value: string): value is TriggerMisfirePolicy =>
+  MISFIRE_POLICIES.includes(value as TriggerMisfirePolicy);
+
+const TRIGGER_STATUSES: Array<Trigger['status']> = ['active', 'paused', 'completed'];
+
+export const isValidTriggerStatus = (value: string): value is Trigger['status'] =>
+  TRIGGER_STATUSES.includes(value as Trigger['status']);
+
+export interface TriggerSchedulePreview {
+  recurrenceRule?: string;
+  timezone: string;
+  nextFireTimes: Date[];
 }
 
 export class TriggerService {
   private triggerRepo: Repository<Trigger>;
+  private triggerRunRepo: Repository<TriggerRun>;
 
   constructor() {
     this.triggerRepo = AppDataSource.getRepository(Trigger);
+    this.triggerRunRepo = AppDataSource.getRepository(TriggerRun);
   }
 
   async createTrigger(input: TriggerCreateInput): Promise<ServiceResponse<Trigger>> {
     try {
-      const { userId, agentName, payload, startTime, recurrenceRule, timezone = 'America/Chicago' } = input;
-
-      // Calculate next trigger time
-      let nextTrigger: Date | undefined;
-      if (startTime) {
-        nextTrigger = startTime;
-      } else if (recurrenceRule) {
-        nextTrigger = this.calculateNextTrigger(recurrenceRule, timezone);
+      const { userId, agentName, payload, timezone = DEFAULT_TIMEZONE } = input;
+
+      if (!isValidTimezone(timezone)) {
+        return { success: false, error: `Unknown timezone "${timezone}"` };
+      }
+
+      const recurrenceRule = input.recurrenceRule
+        ? normalizeRecurrenceRule(input.recurrenceRule).rule
+        : undefined;
+
+      // Recurring triggers are anchored to their start time so the series
+      // doesn't drift with execution time.
+      const startTime = input.startTime ?? (recurrenceRule ? new Date() : undefined);
+
+      let nextTrigger: Date | undefined = startTime;
+      if (recurrenceRule && startTime) {
+        nextTrigger = this.calculateNextTrigger(recurrenceRule, timezone, startTime, {
+          after: input.startTime && input.startTime > new Date() ? input.startTime : new Date(),
+          inclusive: Boolean(input.startTime)
+        });
+
+        if (!nextTrigger) {
+          return { success: false, error: 'Recurrence rule does not produce any future occurrences' };
+        }
       }
 
       const trigger = this.triggerRepo.create({
@@ -49,6 +115,7 @@ export class TriggerService {
         nextTrigger,
         recurrenceRule,
         timezone,
+        misfirePolicy: input.misfirePolicy ?? 'fire_once',
         status: 'active',
         metadata: {}
       });
@@ -76,11 +143,40 @@ export class TriggerService {
         return { success: false, error: 'Trigger not found' };
       }
 
+      if (input.timezone !== undefined && !isValidTimezone(input.timezone)) {
+        return { success: false, error: `Unknown timezone "${input.timezone}"` };
+      }
+
+      const scheduleChanged =
+        (input.recurrenceRule !== undefined && input.recurrenceRule !== trigger.recurrenceRule) ||
+        (input.timezone !== undefined && input.timezone !== trigger.timezone);
+
       if (input.payload !== undefined) trigger.payload = input.payload;
       if (input.nextTrigger !== undefined) trigger.nextTrigger = input.nextTrigger;
-      if (input.recurrenceRule !== undefined) trigger.recurrenceRule = input.recurrenceRule;
+      if (input.recurrenceRule !== undefined) {
+        trigger.recurrenceRule = input.recurrenceRule
+          ? normalizeRecurrenceRule(input.recurrenceRule).rule
+          : undefined;
+      }
       if (input.status !== undefined) trigger.status = input.status;
       if (input.timezone !== undefined) trigger.timezone = input.timezone;
+      if (input.misfirePolicy !== undefined) trigger.misfirePolicy = input.misfirePolicy;
+
+      // Recompute the schedule when the rule or timezone changes, unless the caller pinned it
+      if (scheduleChanged && input.nextTrigger === undefined && trigger.recurrenceRule) {
+        const nextTrigger = this.calculateNextTrigger(
+          trigger.recurrenceRule,
+          trigger.timezone,
+          trigger.startTime ?? trigger.createdAt,
+          { after: new Date() }
+        );
+
+        if (!nextTrigger) {
+          return { success: false, error: 'Recurrence rule does not produce any future occurrences' };
+        }
+
+        trigger.nextTrigger = nextTrigger;
+      }
 
       const saved = await this.triggerRepo.save(trigger);
 
@@ -143,6 +239,21 @@ export class TriggerService {
     }
   }
 
+  /**
+   * Pause every active trigger for a user. Returns the number of triggers paused.
+   */
+  async pauseUserTriggers(userId: string): Promise<ServiceResponse<number>> {
+    return this.setUserTriggerStatus(userId, 'active', 'paused');
+  }
+
+  /**
+   * Resume every paused trigger for a user. Occurrences missed while paused are
+   * handled by each trigger's misfire policy on the next scheduler poll.
+   */
+  async resumeUserTriggers(userId: string): Promise<ServiceResponse<number>> {
+    return this.setUserTriggerStatus(userId, 'paused', 'active');
+  }
+
   async getDueTriggers(): Promise<ServiceResponse<Trigger[]>> {
     try {
       const now = new Date();
@@ -164,6 +275,10 @@ export class TriggerService {
     }
   }
 
+  /**
+   * Record the outcome of a run on the trigger itself. Scheduling of the next
+   * occurrence happens when runs are claimed (see claimDueRuns).
+   */
   async markTriggerExecuted(triggerId: number, error?: string): Promise<ServiceResponse<Trigger>> {
     try {
       const trigger = await this.triggerRepo.findOne({ where: { id: triggerId } });
@@ -186,25 +301,12 @@ export class TriggerService {
         trigger.lastError = undefined;
       }
 
-      // Calculate next trigger time for recurring triggers
-      if (trigger.recurrenceRule) {
-        trigger.nextTrigger = this.calculateNextTrigger(trigger.recurrenceRule, trigger.timezone);
-        logDebug('Scheduled next trigger', {
-          id: triggerId,
-          nextTrigger: trigger.nextTrigger?.toISOString()
-        });
-      } else {
-        // One-time trigger - mark as completed
-        trigger.status = 'completed';
-        trigger.nextTrigger = undefined;
-      }
-
       const saved = await this.triggerRepo.save(trigger);
 
       logInfo('Trigger executed', {
         id: triggerId,
         status: saved.status,
-        nextTrigger: saved.nextTrigger?.toISOString()
+        executionCount: saved.metadata.executionCount
       });
 
       return { success: true, data: saved };
@@ -215,53 +317,402 @@ export class TriggerService {
   }
 
   /**
-   * Calculate next trigger time based on recurrence rule.
-   * Supports: daily, weekly, hourly, or cron-like patterns.
+   * Claim due triggers for this instance and turn them into trigger_runs rows.
+   *
+   * Due triggers are locked with FOR UPDATE SKIP LOCKED so concurrent instances
+   * never claim the same trigger, and the unique (trigger_id, scheduled_for)
+   * index guarantees an occurrence is only recorded once. Occurrences older
+   * than the misfire grace period are handled per the trigger's misfire policy.
+   * The trigger's next_trigger is advanced in the same transaction.
    */
-  private calculateNextTrigger(recurrenceRule: string, timezone: string): Date | undefined {
-    const now = new Date();
-    const rule = recurrenceRule.toLowerCase().trim();
+  async claimDueRuns(instanceId: string, limit = 10): Promise<ServiceResponse<TriggerRun[]>> {
+    try {
+      const claimed = await AppDataSource.transaction(async manager => {
+        const now = new Date();
+
+        const triggers = await manager
+          .getRepository(Trigger)
+          .createQueryBuilder('trigger')
+          .where('trigger.status = :status', { status: 'active' })
+          .andWhere('trigger.next_trigger <= :now', { now })
+          .orderBy('trigger.next_trigger', 'ASC')
+          .limit(limit)
+          .setLock('pessimistic_write')
+          .setOnLocked('skip_locked')
+          .getMany();
+
+        const runs: TriggerRun[] = [];
+
+        for (const trigger of triggers) {
+          runs.push(...await this.claimTrigger(manager, trigger, instanceId, now));
+        }
+
+        return runs;
+      });
+
+      if (claimed.length > 0) {
+        logInfo('Claimed trigger runs', { instanceId, count: claimed.length });
+      }
 
-    // Simple interval patterns
-    if (rule === 'hourly') {
-      return new Date(now.getTime() + 60 * 60 * 1000);
+      return { success: true, data: claimed };
+    } catch (error: any) {
+      logError('Failed to claim due trigger runs', error);
+      return { success: false, error: error.message };
     }
-    if (rule === 'daily') {
-      return new Date(now.getTime() + 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Recover runs left behind by an instance that stopped mid-flight.
+   * Pending runs past their lease are re-claimed for this instance; runs that
+   * were already executing are marked failed since the agent may have had side effects.
+   * A run's lease is counted from its claim, and renewed when it starts.
+   */
+  async recoverStaleRuns(instanceId: string): Promise<ServiceResponse<TriggerRun[]>> {
+    try {
+      const now = new Date();
+      const leaseExpiry = new Date(now.getTime() - config.triggers.runLeaseMs);
+
+      const interrupted = await this.triggerRunRepo
+        .createQueryBuilder()
+        .update(TriggerRun)
+        .set({ status: 'failed', error: 'Run was interrupted before it finished', finishedAt: now })
+        .where('status = :status', { status: 'running' })
+        .andWhere('claimed_at < :leaseExpiry', { leaseExpiry })
+        .execute();
+
+      const reclaimed = await this.triggerRunRepo
+        .createQueryBuilder()
+        .update(TriggerRun)
+        .set({ claimedBy: instanceId, claimedAt: now })
+        .where('status = :status', { status: 'pending' })
+        .andWhere('claimed_at < :leaseExpiry', { leaseExpiry })
+        .returning(['id'])
+        .execute();
+
+      const ids: string[] = (reclaimed.raw || []).map((row: { id: string }) => row.id);
+      const runs = ids.length > 0
+        ? await this.triggerRunRepo.find({ where: { id: In(ids) }, relations: ['trigger'], order: { scheduledFor: 'ASC' } })
+        : [];
+
+      if (interrupted.affected || runs.length > 0) {
+        logWarn('Recovered stale trigger runs', {
+          instanceId,
+          interrupted: interrupted.affected || 0,
+          reclaimed: runs.length
+        });
+      }
+
+      return { success: true, data: runs };
+    } catch (error: any) {
+      logError('Failed to recover stale trigger runs', error);
+      return { success: false, error: error.message };
     }
-    if (rule === 'weekly') {
-      return new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Create an ad-hoc run outside the schedule (e.g. "run it now").
+   */
+  async createManualRun(triggerId: number, instanceId: string): Promise<ServiceResponse<TriggerRun>> {
+    try {
+      const trigger = await this.triggerRepo.findOne({ where: { id: triggerId } });
+
+      if (!trigger) {
+        return { success: false, error: 'Trigger not found' };
+      }
+
+      const now = new Date();
+      const run = await this.triggerRunRepo.save(this.triggerRunRepo.create({
+        triggerId: trigger.id,
+        userId: trigger.userId,
+        agentName: trigger.agentName,
+        scheduledFor: now,
+        status: 'pending',
+        claimedBy: instanceId,
+        claimedAt: now,
+        metadata: { manual: true }
+      }));
+
+      run.trigger = trigger;
+      return { success: true, data: run };
+    } catch (error: any) {
+      logError('Failed to create manual trigger run', error);
+      return { success: false, error: error.message };
     }
+  }
 
-    // Interval patterns like "every 2 hours", "every 30 minutes"
-    const intervalMatch = rule.match(/every\s+(\d+)\s+(minute|hour|day|week)s?/i);
-    if (intervalMatch) {
-      const amount = parseInt(intervalMatch[1], 10);
-      const unit = intervalMatch[2].toLowerCase();
-      let ms = 0;
-      switch (unit) {
-        case 'minute': ms = amount * 60 * 1000; break;
-        case 'hour': ms = amount * 60 * 60 * 1000; break;
-        case 'day': ms = amount * 24 * 60 * 60 * 1000; break;
-        case 'week': ms = amount * 7 * 24 * 60 * 60 * 1000; break;
+  async startRun(runId: string): Promise<ServiceResponse<boolean>> {
+    try {
+      // Renew the lease too, so time spent queued doesn't count against the run
+      const now = new Date();
+      const result = await this.triggerRunRepo.update(
+        { id: runId, status: 'pending' },
+        { status: 'running', startedAt: now, claimedAt: now }
+      );
+
+      // Another instance may have recovered this run in the meantime
+      return { success: true, data: (result.affected || 0) > 0 };
+    } catch (error: any) {
+      logError('Failed to start trigger run', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async completeRun(runId: string, result: TriggerRunResult): Promise<ServiceResponse<TriggerRun>> {
+    try {
+      const run = await this.triggerRunRepo.findOne({ where: { id: runId } });
+
+      if (!run) {
+        return { success: false, error: 'Trigger run not found' };
+      }
+
+      run.status = result.status;
+      run.output = result.output;
+      run.error = result.error;
+      run.finishedAt = new Date();
+      run.metadata = { ...run.metadata, ...result.metadata };
+
+      const saved = await this.triggerRunRepo.save(run);
+
+      logInfo('Trigger run finished', {
+        runId,
+        triggerId: run.triggerId,
+        status: saved.status
+      });
+
+      return { success: true, data: saved };
+    } catch (error: any) {
+      logError('Failed to complete trigger run', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getUserTriggerRuns(userId: string, query: TriggerRunQuery = {}): Promise<ServiceResponse<TriggerRun[]>> {
+    try {
+      const where: any = { userId };
+      if (query.triggerId !== undefined) {
+        where.triggerId = query.triggerId;
       }
-      if (ms > 0) {
-        return new Date(now.getTime() + ms);
+      if (query.status) {
+        where.status = query.status;
       }
+      if (query.since) {
+        where.scheduledFor = MoreThan(query.since);
+      }
+
+      const runs = await this.triggerRunRepo.find({
+        where,
+        relations: ['trigger'],
+        order: { scheduledFor: 'DESC' },
+        take: query.limit ?? 20
+      });
+
+      return { success: true, data: runs };
+    } catch (error: any) {
+      logError('Failed to get trigger runs', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  private async claimTrigger(
+    manager: EntityManager,
+    trigger: Trigger,
+    instanceId: string,
+    now: Date
+  ): Promise<TriggerRun[]> {
+    const { planned, nextTrigger } = this.planDueRuns(trigger, now);
+
+    const insertResult = planned.length > 0
+      ? await manager
+        .createQueryBuilder()
+        .insert()
+        .into(TriggerRun)
+        .values(planned.map(run => manager.getRepository(TriggerRun).create({
+          triggerId: trigger.id,
+          userId: trigger.userId,
+          agentName: trigger.agentName,
+          scheduledFor: run.scheduledFor,
+          status: run.status,
+          claimedBy: instanceId,
+          claimedAt: now,
+          finishedAt: run.status === 'skipped' ? now : undefined,
+          error: run.status === 'skipped' ? `Missed while scheduler was offline (misfire policy: ${trigger.misfirePolicy})` : undefined,
+          metadata: { misfire: run.misfire }
+        })))
+        .orIgnore()
+        .returning(['id'])
+        .execute()
+      : undefined;
+
+    if (nextTrigger) {
+      trigger.nextTrigger = nextTrigger;
+    } else {
+      // One-time trigger, or the recurrence series has ended - mark as completed
+      trigger.status = 'completed';
+      trigger.nextTrigger = undefined;
     }
 
-    // Try natural language parsing for time-of-day patterns
-    // e.g., "daily at 9am", "every day at 3pm"
-    const timeMatch = rule.match(/at\s+(\d{1,2}(?::\d{2})?\s*(?:am|pm)?)/i);
-    if (timeMatch) {
-      const parsed = chrono.parseDate(`tomorrow at ${timeMatch[1]}`);
-      if (parsed) {
-        return parsed;
+    await manager.getRepository(Trigger).save(trigger);
+
+    const insertedIds: string[] = (insertResult?.raw || []).map((row: { id: string }) => row.id);
+    const runs = insertedIds.length > 0
+      ? await manager.getRepository(TriggerRun).find({
+        where: { id: In(insertedIds), status: 'pending' },
+        order: { scheduledFor: 'ASC' }
+      })
+      : [];
+
+    runs.forEach(run => { run.trigger = trigger; });
+
+    logDebug('Claimed trigger', {
+      id: trigger.id,
+      instanceId,
+      planned: planned.length,
+      pending: runs.length,
+      nextTrigger: trigger.nextTrigger?.toISOString()
+    });
+
+    return runs;
+  }
+
+  /**
+   * Work out which occurrences of a due trigger should run now, which were
+   * missed and should be skipped, and when the trigger fires next.
+   */
+  private planDueRuns(trigger: Trigger, now: Date): { planned: PlannedRun[]; nextTrigger?: Date } {
+    const firstDue = trigger.nextTrigger ?? now;
+    const anchor = trigger.startTime ?? trigger.createdAt;
+    const { misfireGraceMs, maxCatchUpRuns } = config.triggers;
+
+    const dueTimes: Date[] = [firstDue];
+    let nextTrigger: Date | undefined;
+
+    if (trigger.recurrenceRule) {
+      try {
+        const query = { timezone: trigger.timezone, anchor, after: firstDue };
+        dueTimes.push(...getRecentOccurrences(trigger.recurrenceRule, query, now, maxCatchUpRuns));
+      } catch (error: any) {
+        logWarn('Could not expand recurrence rule for due trigger', { id: trigger.id, error: error.message });
       }
+
+      nextTrigger = this.calculateNextTrigger(trigger.recurrenceRule, trigger.timezone, anchor, { after: now });
     }
 
-    logWarn('Could not parse recurrence rule', { recurrenceRule });
-    return undefined;
+    // Keep the most recent occurrences if more were missed than we're willing to replay
+    const occurrences = dueTimes.slice(-maxCatchUpRuns);
+    const missedBefore = now.getTime() - misfireGraceMs;
+    const isMissed = (date: Date) => date.getTime() < missedBefore;
+    const hasOnTimeRun = occurrences.some(date => !isMissed(date));
+    const latestMissed = [...occurrences].reverse().find(isMissed);
+
+    const planned = occurrences.map<PlannedRun>(scheduledFor => {
+      if (!isMissed(scheduledFor)) {
+        return { scheduledFor, status: 'pending', misfire: false };
+      }
+
+      switch (trigger.misfirePolicy) {
+        case 'fire_all':
+          return { scheduledFor, status: 'pending', misfire: true };
+        case 'skip':
+          return { scheduledFor, status: 'skipped', misfire: true };
+        case 'fire_once':
+        default:
+          return {
+            scheduledFor,
+            status: !hasOnTimeRun && scheduledFor === latestMissed ? 'pending' : 'skipped',
+            misfire: true
+          };
+      }
+    });
+
+    if (planned.some(run => run.misfire)) {
+      logInfo('Applying trigger misfire policy', {
+        id: trigger.id,
+        policy: trigger.misfirePolicy,
+        missed: planned.filter(run => run.misfire).length,
+        firing: planned.filter(run => run.status === 'pending').length
+      });
+    }
+
+    return { planned, nextTrigger };
+  }
+
+  /**
+   * Validate a recurrence rule and return its next fire times without saving anything.
+   */
+  previewSchedule(
+    recurrenceRule: string | undefined,
+    timezone: string = DEFAULT_TIMEZONE,
+    startTime?: Date,
+    count = 5
+  ): ServiceResponse<TriggerSchedulePreview> {
+    try {
+      if (!isValidTimezone(timezone)) {
+        return { success: false, error: `Unknown timezone "${timezone}"` };
+      }
+
+      if (!recurrenceRule) {
+        return {
+          success: true,
+          data: { timezone, nextFireTimes: startTime ? [startTime] : [] }
+        };
+      }
+
+      const normalized = normalizeRecurrenceRule(recurrenceRule).rule;
+      const now = new Date();
+      const anchor = startTime ?? now;
+      const nextFireTimes = getUpcomingOccurrences(
+        normalized,
+        { timezone, anchor, after: anchor > now ? anchor : now, inclusive: Boolean(startTime) },
+        count
+      );
+
+      return {
+        success: true,
+        data: { recurrenceRule: normalized, timezone, nextFireTimes }
+      };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  private async setUserTriggerStatus(
+    userId: string,
+    from: 'active' | 'paused',
+    to: 'active' | 'paused'
+  ): Promise<ServiceResponse<number>> {
+    try {
+      const result = await this.triggerRepo.update({ userId, status: from }, { status: to });
+      const affected = result.affected ?? 0;
+
+      logInfo('User triggers status changed', { userId, from, to, affected });
+      return { success: true, data: affected };
+    } catch (error: any) {
+      logError('Failed to change user trigger status', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Calculate the next fire time for a recurrence rule (RRULE, cron or legacy
+   * shorthand) in the trigger's timezone, anchored to the series start.
+   */
+  private calculateNextTrigger(
+    recurrenceRule: string,
+    timezone: string,
+    anchor: Date,
+    options: { after: Date; inclusive?: boolean }
+  ): Date | undefined {
+    try {
+      return getNextOccurrence(recurrenceRule, {
+        timezone,
+        anchor,
+        after: options.after,
+        inclusive: options.inclusive
+      });
+    } catch (error: any) {
+      logWarn('Could not parse recurrence rule', { recurrenceRule, error: error.message });
+      return undefined;
+    }
   }
 
   /**
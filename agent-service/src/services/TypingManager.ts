@@ -178,6 +178,40 @@ export class TypingManager extends EventEmitter {
     this.emit('typing:stopped', { chatGuid, owner: session.owner });
   }
 
+  /**
+   * Show the indicator again for an active session, e.g. after a bubble was
+   * sent mid-response (iMessage hides it when a message arrives). Restarts
+   * the auto-stop timer. No-op without an active session.
+   */
+  async refreshTyping(chatGuid: string): Promise<void> {
+    const session = this.sessions.get(chatGuid);
+    if (!this.enabled || !session || !this.blueBubblesClient) {
+      return;
+    }
+
+    if (session.autoStopTimer) {
+      clearTimeout(session.autoStopTimer);
+    }
+    session.autoStopTimer = setTimeout(() => {
+      logWarn('TypingManager: Auto-stopping typing (max duration reached)', {
+        chatGuid,
+        owner: session.owner,
+        durationMs: this.maxTypingDurationMs
+      });
+      this.stopTyping(chatGuid, session.owner, true);
+    }, this.maxTypingDurationMs);
+
+    try {
+      await this.blueBubblesClient.startTypingIndicator(chatGuid);
+      logDebug('TypingManager: Refreshed typing', { chatGuid, owner: session.owner });
+    } catch (error) {
+      logWarn('TypingManager: Failed to refresh typing', {
+        chatGuid,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
   /**
    * Check if currently typing in a chat.
    */
@@ -0,0 +1,289 @@
+import { AppDataSource } from '../database/connection';
+import { LLMUsage } from '../database/entities/LLMUsage';
+import { UsageBudget } from '../database/entities/UsageBudget';
+import { logDebug, logError, logInfo } from '../utils/logger';
+import { LLMProviderName, LLMRole, ServiceResponse } from '../types';
+import { config } from '../config';
+
+/**
+ * Who a model request was made for. Passed to AnthropicRequestManager so the
+ * usage reported by the response can be stored against it.
+ */
+export interface UsageAttribution {
+  role: LLMRole;
+  provider: LLMProviderName;
+  userId?: string;
+  conversationId?: string;
+}
+
+export interface UsageRecordInput extends UsageAttribution {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  description?: string;
+}
+
+export interface UsageBudgetStatus {
+  dailyTokens: number;
+  dailyTokenLimit: number;
+  monthlyCostUsd: number;
+  monthlyCostLimitUsd: number;
+  exceeded: boolean;
+}
+
+/** Appended to the system prompt while a user is over budget */
+export const OVER_BUDGET_PROMPT_NOTE = 'The user is over their usage budget right now. Keep every reply to one or two short sentences and do not offer to search the web.';
+
+export type UsageReportPeriod = 'day' | 'month';
+
+export interface UsageReportRow {
+  period: string;
+  userId: string | null;
+  role: string;
+  model: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+// USD per million tokens, matched by model name prefix (most specific first)
+const MODEL_PRICING: Array<{ prefix: string; input: number; output: number }> = [
+  { prefix: 'claude-3-5-haiku', input: 0.8, output: 4 },
+  { prefix: 'claude-haiku-4-5', input: 1, output: 5 },
+  { prefix: 'claude-3-haiku', input: 0.25, output: 1.25 },
+  { prefix: 'claude-opus-4', input: 15, output: 75 },
+  { prefix: 'claude-3-opus', input: 15, output: 75 },
+  { prefix: 'claude-sonnet-4', input: 3, output: 15 },
+  { prefix: 'claude-3-7-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-5-sonnet', input: 3, output: 15 },
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+  { prefix: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+  { prefix: 'gpt-4.1', input: 2, output: 8 }
+];
+
+/**
+ * Estimated cost of a request in USD. Local models are free and unknown
+ * models are counted as free rather than guessed at.
+ */
+export function estimateCostUsd(
+  provider: LLMProviderName,
+  model: string,
+  inputTokens: number,
+  outputTokens: number
+): number {
+  if (provider === 'local') {
+    return 0;
+  }
+
+  const pricing = MODEL_PRICING.find(entry => model.toLowerCase().startsWith(entry.prefix));
+  if (!pricing) {
+    return 0;
+  }
+
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
+const startOfUtcDay = (now: Date): Date =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+const startOfUtcMonth = (now: Date): Date =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+/**
+ * UsageService persists per-request token usage, enforces per-user budgets
+ * and aggregates usage for the admin report.
+ */
+export class UsageService {
+  private budgetCache = new Map<string, { status: UsageBudgetStatus; cachedAt: number }>();
+
+  /**
+   * Store one request's usage. Never throws; accounting must not break a reply.
+   */
+  async record(input: UsageRecordInput): Promise<void> {
+    if (!config.usage.trackingEnabled || !AppDataSource.isInitialized) {
+      return;
+    }
+
+    try {
+      const repo = AppDataSource.getRepository(LLMUsage);
+      await repo.save(repo.create({
+        userId: input.userId ?? null,
+        conversationId: input.conversationId ?? null,
+        role: input.role,
+        provider: input.provider,
+        model: input.model,
+        description: input.description?.substring(0, 100) ?? null,
+        inputTokens: input.inputTokens,
+        outputTokens: input.outputTokens,
+        costUsd: estimateCostUsd(input.provider, input.model, input.inputTokens, input.outputTokens)
+      }));
+    } catch (error) {
+      logError('Failed to record model usage', error, { role: input.role, model: input.model });
+    }
+  }
+
+  /**
+   * Today's tokens and this month's cost against the user's limits, cached
+   * for budgetCacheMs. Fails open: if usage can't be read, the user is
+   * treated as within budget.
+   */
+  async getBudgetStatus(userId: string): Promise<UsageBudgetStatus> {
+    const cached = this.budgetCache.get(userId);
+    if (cached && Date.now() - cached.cachedAt < config.usage.budgetCacheMs) {
+      return cached.status;
+    }
+
+    const unlimited: UsageBudgetStatus = {
+      dailyTokens: 0,
+      dailyTokenLimit: 0,
+      monthlyCostUsd: 0,
+      monthlyCostLimitUsd: 0,
+      exceeded: false
+    };
+
+    if (!config.usage.trackingEnabled || !AppDataSource.isInitialized) {
+      return unlimited;
+    }
+
+    try {
+      const override = await AppDataSource.getRepository(UsageBudget).findOne({ where: { userId } });
+      const dailyTokenLimit = override?.dailyTokenLimit ?? config.usage.dailyTokenBudget;
+      const monthlyCostLimitUsd = override?.monthlyCostLimitUsd ?? config.usage.monthlyCostBudgetUsd;
+
+      const now = new Date();
+      const [daily, monthly] = await Promise.all([
+        this.getTotals(userId, startOfUtcDay(now)),
+        this.getTotals(userId, startOfUtcMonth(now))
+      ]);
+      const dailyTokens = daily.inputTokens + daily.outputTokens;
+
+      const status: UsageBudgetStatus = {
+        dailyTokens,
+        dailyTokenLimit,
+        monthlyCostUsd: monthly.costUsd,
+        monthlyCostLimitUsd,
+        exceeded: (dailyTokenLimit > 0 && dailyTokens >= dailyTokenLimit)
+          || (monthlyCostLimitUsd > 0 && monthly.costUsd >= monthlyCostLimitUsd)
+      };
+
+      if (status.exceeded && !cached?.status.exceeded) {
+        logInfo('User is over their usage budget', { userId, ...status });
+      }
+
+      this.budgetCache.set(userId, { status, cachedAt: Date.now() });
+      return status;
+    } catch (error) {
+      logError('Failed to check usage budget', error, { userId });
+      return unlimited;
+    }
+  }
+
+  /**
+   * Set or clear a user's budget override. Null resets a limit to the default.
+   */
+  async setBudget(
+    userId: string,
+    limits: { dailyTokenLimit?: number | null; monthlyCostLimitUsd?: number | null }
+  ): Promise<ServiceResponse<UsageBudget>> {
+    try {
+      const repo = AppDataSource.getRepository(UsageBudget);
+      const budget = (await repo.findOne({ where: { userId } })) ?? repo.create({ userId });
+
+      if (limits.dailyTokenLimit !== undefined) {
+        budget.dailyTokenLimit = limits.dailyTokenLimit;
+      }
+      if (limits.monthlyCostLimitUsd !== undefined) {
+        budget.monthlyCostLimitUsd = limits.monthlyCostLimitUsd;
+      }
+
+      const saved = await repo.save(budget);
+      this.budgetCache.delete(userId);
+
+      logInfo('Usage budget updated', { userId, dailyTokenLimit: saved.dailyTokenLimit, monthlyCostLimitUsd: saved.monthlyCostLimitUsd });
+      return { success: true, data: saved };
+    } catch (error: any) {
+      logError('Failed to update usage budget', error, { userId });
+      return { success: false, error: error.message || 'Failed to update usage budget' };
+    }
+  }
+
+  /**
+   * Usage grouped by day or month, user, role and model.
+   */
+  async getReport(options: {
+    period: UsageReportPeriod;
+    from: Date;
+    to: Date;
+    userId?: string;
+  }): Promise<UsageReportRow[]> {
+    // period comes from a fixed set, so it's safe to inline
+    const bucket = `date_trunc('${options.period === 'month' ? 'month' : 'day'}', usage.created_at)`;
+
+    const query = AppDataSource.getRepository(LLMUsage)
+      .createQueryBuilder('usage')
+      .select(`to_char(${bucket}, '${options.period === 'month' ? 'YYYY-MM' : 'YYYY-MM-DD'}')`, 'period')
+      .addSelect('usage.user_id', 'userId')
+      .addSelect('usage.role', 'role')
+      .addSelect('usage.model', 'model')
+      .addSelect('COUNT(*)', 'requests')
+      .addSelect('COALESCE(SUM(usage.input_tokens), 0)', 'inputTokens')
+      .addSelect('COALESCE(SUM(usage.output_tokens), 0)', 'outputTokens')
+      .addSelect('COALESCE(SUM(usage.cost_usd), 0)', 'costUsd')
+      .where('usage.created_at >= :from AND usage.created_at < :to', { from: options.from, to: options.to })
+      .groupBy(bucket)
+      .addGroupBy('usage.user_id')
+      .addGroupBy('usage.role')
+      .addGroupBy('usage.model')
+      .orderBy(bucket, 'ASC')
+      .addOrderBy('"costUsd"', 'DESC');
+
+    if (options.userId) {
+      query.andWhere('usage.user_id = :userId', { userId: options.userId });
+    }
+
+    const rows = await query.getRawMany();
+    logDebug('Built usage report', { period: options.period, rows: rows.length });
+
+    return rows.map(row => ({
+      period: row.period,
+      userId: row.userId,
+      role: row.role,
+      model: row.model,
+      requests: Number(row.requests),
+      inputTokens: Number(row.inputTokens),
+      outputTokens: Number(row.outputTokens),
+      costUsd: Number(Number(row.costUsd).toFixed(6))
+    }));
+  }
+
+  private async getTotals(
+    userId: string,
+    since: Date
+  ): Promise<{ inputTokens: number; outputTokens: number; costUsd: number }> {
+    const row = await AppDataSource.getRepository(LLMUsage)
+      .createQueryBuilder('usage')
+      .select('COALESCE(SUM(usage.input_tokens), 0)', 'inputTokens')
+      .addSelect('COALESCE(SUM(usage.output_tokens), 0)', 'outputTokens')
+      .addSelect('COALESCE(SUM(usage.cost_usd), 0)', 'costUsd')
+      .where('usage.user_id = :userId AND usage.created_at >= :since', { userId, since })
+      .getRawOne();
+
+    return {
+      inputTokens: Number(row?.inputTokens ?? 0),
+      outputTokens: Number(row?.outputTokens ?? 0),
+      costUsd: Number(row?.costUsd ?? 0)
+    };
+  }
+}
+
+// Singleton instance
+let usageServiceInstance: UsageService | null = null;
+
+export const getUsageService = (): UsageService => {
+  if (!usageServiceInstance) {
+    usageServiceInstance = new UsageService();
+  }
+  return usageServiceInstance;
+};
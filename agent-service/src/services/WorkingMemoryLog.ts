@@ -176,6 +176,13 @@ export class WorkingMemoryLog {
     return this.summaryText;
   }
 
+  /**
+   * Owner of this log, for attributing summarization usage.
+   */
+  getOwner(): { userId: string; conversationId?: string } {
+    return { userId: this.userId, conversationId: this.conversationId };
+  }
+
   /**
    * Get current entry count.
    */
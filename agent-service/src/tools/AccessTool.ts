@@ -0,0 +1,145 @@
+import { BaseTool, ToolDefinition, ToolExecutionContext, ToolResult } from './Tool';
+import { PermissionLevel, USER_ROLES, isValidUserRole } from '../middleware/security';
+import { getAccessControlService, AccessActor } from '../services/AccessControlService';
+import { logError } from '../utils/logger';
+
+const resolveActor = async (context: ToolExecutionContext): Promise<AccessActor> => {
+  const role = context.userRole ?? await getAccessControlService().getUserRole(context.userId) ?? 'guest';
+  return { handle: context.userHandle, role };
+};
+
+/**
+ * Tool for allowlisting a new phone number or email so they can text Grace.
+ */
+export class InviteUserTool extends BaseTool {
+  getDefinition(): ToolDefinition {
+    return {
+      name: 'invite_user',
+      description: 'Allow a new phone number or email address to use Grace, with a role. Use when an admin asks to invite, add, or allow someone. If the person already exists their role is updated instead.',
+      input_schema: {
+        type: 'object',
+        properties: {
+          handle: {
+            type: 'string',
+            description: 'Phone number (E.164, e.g. "+15551234567") or email address to invite.'
+          },
+          role: {
+            type: 'string',
+            enum: ['admin', 'member', 'guest'],
+            description: 'Role to grant. Members can use tools; guests can only chat. Defaults to member.'
+          },
+          expires_in_days: {
+            type: 'number',
+            description: 'Optional number of days before an unused invite expires.'
+          }
+        },
+        required: ['handle']
+      }
+    };
+  }
+
+  getRequiredPermission(): PermissionLevel {
+    return PermissionLevel.ADMIN;
+  }
+
+  async execute(
+    input: { handle: string; role?: string; expires_in_days?: number },
+    context: ToolExecutionContext
+  ): Promise<ToolResult> {
+    try {
+      const role = input.role || 'member';
+      if (!isValidUserRole(role) || role === 'owner' || role === 'blocked') {
+        return this.error('Role must be admin, member or guest.');
+      }
+
+      const expiresAt = input.expires_in_days && input.expires_in_days > 0
+        ? new Date(Date.now() + input.expires_in_days * 24 * 60 * 60 * 1000)
+        : undefined;
+
+      const actor = await resolveActor(context);
+      const result = await getAccessControlService().createInvite(input.handle, role, actor, expiresAt);
+
+      if (!result.success || !result.data) {
+        return this.error(result.error || 'Failed to create invite');
+      }
+
+      return this.success({
+        invite_id: result.data.id,
+        handle: result.data.handle,
+        role: result.data.role,
+        status: result.data.status,
+        expires_at: result.data.expiresAt?.toISOString() ?? null
+      });
+    } catch (error: any) {
+      logError('InviteUserTool execution failed', error);
+      return this.error(error.message || 'Failed to create invite');
+    }
+  }
+}
+
+/**
+ * Tool for changing an existing user's role (including blocking them).
+ */
+export class SetUserRoleTool extends BaseTool {
+  getDefinition(): ToolDefinition {
+    return {
+      name: 'set_user_role',
+      description: `Change the role of someone who has already texted Grace. Roles: ${USER_ROLES.join(', ')}. Use "blocked" to stop responding to a person entirely. Only owners can grant or remove admin or owner.`,
+      input_schema: {
+        type: 'object',
+        properties: {
+          handle: {
+            type: 'string',
+            description: 'Phone number or email address of the user.'
+          },
+          role: {
+            type: 'string',
+            enum: USER_ROLES,
+            description: 'New role for the user.'
+          }
+        },
+        required: ['handle', 'role']
+      }
+    };
+  }
+
+  getRequiredPermission(): PermissionLevel {
+    return PermissionLevel.ADMIN;
+  }
+
+  async execute(input: { handle: string; role: string }, context: ToolExecutionContext): Promise<ToolResult> {
+    try {
+      if (!isValidUserRole(input.role)) {
+        return this.error(`Role must be one of: ${USER_ROLES.join(', ')}.`);
+      }
+
+      const accessControl = getAccessControlService();
+      const user = await accessControl.findUserByHandle(input.handle);
+      if (!user) {
+        return this.error('No user with that handle has messaged yet. Use invite_user instead.');
+      }
+
+      if (user.id === context.userId) {
+        return this.error('You cannot change your own role.');
+      }
+
+      const actor = await resolveActor(context);
+      const result = await accessControl.setUserRole(user.id, input.role, actor);
+
+      if (!result.success || !result.data) {
+        return this.error(result.error || 'Failed to change role');
+      }
+
+      return this.success({
+        user_id: result.data.id,
+        role: result.data.role
+      });
+    } catch (error: any) {
+      logError('SetUserRoleTool execution failed', error);
+      return this.error(error.message || 'Failed to change role');
+    }
+  }
+}
+
+export const inviteUserTool = new InviteUserTool();
+export const setUserRoleTool = new SetUserRoleTool();
@@ -0,0 +1,368 @@
+import { BaseTool, ToolDefinition, ToolExecutionContext, ToolResult } from './Tool';
+import { getGoogleCalendarService } from '../services/GoogleCalendarService';
+import { CalendarEvent } from '../database/entities/CalendarEvent';
+import {
+  formatOccurrence,
+  getTimezoneOffsetMinutes,
+  isValidTimezone,
+  parseIsoInTimezone
+} from '../utils/recurrence';
+import { logInfo, logError } from '../utils/logger';
+import * as chrono from 'chrono-node';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse an ISO 8601 or natural-language time relative to the user's timezone.
+ */
+const parseTime = (value: string, timezone: string, reference: Date = new Date()): Date | null => {
+  const iso = parseIsoInTimezone(value, timezone);
+  if (iso) {
+    return iso;
+  }
+
+  return chrono.parseDate(value, { instant: reference, timezone: getTimezoneOffsetMinutes(timezone, reference) });
+};
+
+const resolveTimezone = async (userId: string, requested?: string): Promise<string> =>
+  requested && isValidTimezone(requested) ? requested : getGoogleCalendarService().getUserTimezone(userId);
+
+/**
+ * When the calendar isn't linked yet, hand back a fresh link instead of a bare error.
+ */
+const notLinkedError = (userId: string, error?: string): ToolResult => {
+  const link = getGoogleCalendarService().getAuthUrl(userId);
+  return link.success && link.data
+    ? { success: false, error: `${error || 'Google Calendar is not connected'}. Send the user this link to connect it: ${link.data}` }
+    : { success: false, error: link.error || error || 'Google Calendar is not available' };
+};
+
+const formatEvent = (event: CalendarEvent, timezone: string) => ({
+  id: event.googleEventId,
+  title: event.title || '(no title)',
+  start: formatOccurrence(event.startTime, timezone),
+  end: formatOccurrence(event.endTime, timezone),
+  all_day: Boolean(event.metadata?.allDay),
+  location: event.location || undefined,
+  description: event.description ? event.description.slice(0, 300) : undefined
+});
+
+/**
+ * Tool for sending the user a Google OAuth link to connect their calendar.
+ */
+export class ConnectCalendarTool extends BaseTool {
+  getDefinition(): ToolDefinition {
+    return {
+      name: 'connect_calendar',
+      description: 'Get a link the user can open to connect their Google Calendar. Use when the user asks to connect or link their calendar, or when a calendar tool reports the calendar is not connected. Send the returned link to the user as-is.',
+      input_schema: {
+        type: 'object',
+        properties: {},
+        required: []
+      }
+    };
+  }
+
+  async execute(_input: Record<string, never>, context: ToolExecutionContext): Promise<ToolResult> {
+    try {
+      const calendarService = getGoogleCalendarService();
+      const link = calendarService.getAuthUrl(context.userId);
+
+      if (!link.success || !link.data) {
+        return this.error(link.error || 'Google Calendar is not available');
+      }
+
+      return this.success({
+        already_connected: await calendarService.isLinked(context.userId),
+        link: link.data,
+        message: 'Send this link to the user. It expires in 30 minutes.'
+      });
+    } catch (error: any) {
+      logError('ConnectCalendarTool execution failed', error);
+      return this.error(error.message || 'Failed to create calendar link');
+    }
+  }
+}
+
+/**
+ * Tool for listing upcoming events from the user's Google Calendar.
+ */
+export class ListEventsTool extends BaseTool {
+  getDefinition(): ToolDefinition {
+    return {
+      name: 'list_events',
+      description: 'List events on the user\'s Google Calendar in a time range. Use when the user asks what\'s on their calendar, what meetings they have, or whether they\'re busy at a certain time.',
+      input_schema: {
+        type: 'object',
+        properties: {
+          from: {
+            type: 'string',
+            description: 'Start of the range as ISO 8601 or natural language (e.g. "today", "tomorrow at 8am"). Defaults to now.'
+          },
+          to: {
+            type: 'string',
+            description: 'End of the range as ISO 8601 or natural language (e.g. "end of friday", "in 3 days"). Defaults to 7 days after from.'
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of events to return (default 25).'
+          }
+        },
+        required: []
+      }
+    };
+  }
+
+  async execute(input: { from?: string; to?: string; limit?: number }, context: ToolExecutionContext): Promise<ToolResult> {
+    try {
+      const timezone = await resolveTimezone(context.userId);
+      const from = input.from ? parseTime(input.from, timezone) : new Date();
+      if (!from) {
+        return this.error(`Could not parse start time: "${input.from}".`);
+      }
+
+      const to = input.to ? parseTime(input.to, timezone, from) : new Date(from.getTime() + 7 * DAY_MS);
+      if (!to || to <= from) {
+        return this.error(`Could not parse end time: "${input.to}". It must be after the start time.`);
+      }
+
+      const limit = Math.min(Math.max(input.limit || 25, 1), 100);
+      const result = await getGoogleCalendarService().listEvents(context.userId, from, to, limit);
+
+      if (!result.success || !result.data) {
+        return result.metadata?.notLinked
+          ? notLinkedError(context.userId, result.error)
+          : this.error(result.error || 'Failed to list events');
+      }
+
+      return this.success({
+        timezone,
+        from: formatOccurrence(from, timezone),
+        to: formatOccurrence(to, timezone),
+        count: result.data.length,
+        events: result.data.map(event => formatEvent(event, timezone))
+      });
+    } catch (error: any) {
+      logError('ListEventsTool execution failed', error);
+      return this.error(error.message || 'Failed to list events');
+    }
+  }
+}
+
+/**
+ * Tool for adding an event to the user's Google Calendar.
+ */
+export class CreateEventTool extends BaseTool {
+  getDefinition(): ToolDefinition {
+    return {
+      name: 'create_event',
+      description: 'Create an event on the user\'s Google Calendar. Use when the user asks to schedule, book, or add something to their calendar. Confirm the time with the user if it is ambiguous.',
+      input_schema: {
+        type: 'object',
+        properties: {
+          title: {
+            type: 'string',
+            description: 'Event title.'
+          },
+          start: {
+            type: 'string',
+            description: 'Start time as ISO 8601 or natural language (e.g. "tomorrow at 3pm"). Interpreted in the user\'s timezone.'
+          },
+          end: {
+            type: 'string',
+            description: 'End time as ISO 8601 or natural language. Use either end or duration_minutes.'
+          },
+          duration_minutes: {
+            type: 'number',
+            description: 'Event length in minutes when no end time is given (default 30).'
+          },
+          description: {
+            type: 'string',
+            description: 'Optional event notes.'
+          },
+          location: {
+            type: 'string',
+            description: 'Optional location or meeting link.'
+          },
+          timezone: {
+            type: 'string',
+            description: 'IANA timezone for the event. Defaults to the user\'s timezone.'
+          }
+        },
+        required: ['title', 'start']
+      }
+    };
+  }
+
+  async execute(
+    input: {
+      title: string;
+      start: string;
+      end?: string;
+      duration_minutes?: number;
+      description?: string;
+      location?: string;
+      timezone?: string;
+    },
+    context: ToolExecutionContext
+  ): Promise<ToolResult> {
+    try {
+      const timezone = await resolveTimezone(context.userId, input.timezone);
+      const start = parseTime(input.start, timezone);
+      if (!start) {
+        return this.error(`Could not parse start time: "${input.start}". Please use a format like "tomorrow at 3pm".`);
+      }
+
+      const end = input.end
+        ? parseTime(input.end, timezone, start)
+        : new Date(start.getTime() + (input.duration_minutes || 30) * 60_000);
+      if (!end || end <= start) {
+        return this.error('End time must be after the start time.');
+      }
+
+      const result = await getGoogleCalendarService().createEvent(context.userId, {
+        title: input.title,
+        start,
+        end,
+        description: input.description,
+        location: input.location,
+        timezone
+      });
+
+      if (!result.success || !result.data) {
+        return result.metadata?.notLinked
+          ? notLinkedError(context.userId, result.error)
+          : this.error(result.error || 'Failed to create event');
+      }
+
+      logInfo('Calendar event created via tool', {
+        userId: context.userId,
+        googleEventId: result.data.googleEventId
+      });
+
+      return this.success({
+        event: formatEvent(result.data, timezone),
+        link: result.data.metadata?.htmlLink,
+        message: `Added "${input.title}" on ${formatOccurrence(start, timezone)}`
+      });
+    } catch (error: any) {
+      logError('CreateEventTool execution failed', error);
+      return this.error(error.message || 'Failed to create event');
+    }
+  }
+}
+
+/**
+ * Tool for finding open slots on the user's Google Calendar.
+ */
+export class FindFreeTimeTool extends BaseTool {
+  getDefinition(): ToolDefinition {
+    return {
+      name: 'find_free_time',
+      description: 'Find open time slots on the user\'s Google Calendar. Use when the user asks when they are free, wants to find time for something, or asks for meeting time suggestions.',
+      input_schema: {
+        type: 'object',
+        properties: {
+          duration_minutes: {
+            type: 'number',
+            description: 'How long the free slot needs to be, in minutes (default 30).'
+          },
+          from: {
+            type: 'string',
+            description: 'Start of the search window as ISO 8601 or natural language. Defaults to now.'
+          },
+          to: {
+            type: 'string',
+            description: 'End of the search window as ISO 8601 or natural language. Defaults to 7 days after from.'
+          },
+          workday_start_hour: {
+            type: 'number',
+            description: 'Earliest hour (0-23) to suggest, in the user\'s timezone. Defaults to 9.'
+          },
+          workday_end_hour: {
+            type: 'number',
+            description: 'Latest hour (1-24) a slot may end, in the user\'s timezone. Defaults to 17.'
+          },
+          include_weekends: {
+            type: 'boolean',
+            description: 'Whether to suggest weekend slots. Defaults to false.'
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of slots to return (default 5).'
+          }
+        },
+        required: []
+      }
+    };
+  }
+
+  async execute(
+    input: {
+      duration_minutes?: number;
+      from?: string;
+      to?: string;
+      workday_start_hour?: number;
+      workday_end_hour?: number;
+      include_weekends?: boolean;
+      limit?: number;
+    },
+    context: ToolExecutionContext
+  ): Promise<ToolResult> {
+    try {
+      const timezone = await resolveTimezone(context.userId);
+      const from = input.from ? parseTime(input.from, timezone) : new Date();
+      if (!from) {
+        return this.error(`Could not parse start time: "${input.from}".`);
+      }
+
+      const to = input.to ? parseTime(input.to, timezone, from) : new Date(from.getTime() + 7 * DAY_MS);
+      if (!to || to <= from) {
+        return this.error(`Could not parse end time: "${input.to}". It must be after the start time.`);
+      }
+
+      const workdayStartHour = input.workday_start_hour ?? 9;
+      const workdayEndHour = input.workday_end_hour ?? 17;
+      if (workdayStartHour < 0 || workdayEndHour > 24 || workdayStartHour >= workdayEndHour) {
+        return this.error('Working hours must be between 0 and 24, with the start before the end.');
+      }
+
+      const durationMinutes = input.duration_minutes || 30;
+      const result = await getGoogleCalendarService().findFreeTime(context.userId, {
+        from,
+        to,
+        durationMinutes,
+        timezone,
+        workdayStartHour,
+        workdayEndHour,
+        includeWeekends: input.include_weekends ?? false,
+        limit: Math.min(Math.max(input.limit || 5, 1), 20)
+      });
+
+      if (!result.success || !result.data) {
+        return result.metadata?.notLinked
+          ? notLinkedError(context.userId, result.error)
+          : this.error(result.error || 'Failed to find free time');
+      }
+
+      return this.success({
+        timezone,
+        duration_minutes: durationMinutes,
+        count: result.data.length,
+        slots: result.data.map(slot => ({
+          start: formatOccurrence(slot.start, timezone),
+          end: formatOccurrence(slot.end, timezone)
+        })),
+        message: result.data.length > 0 ? undefined : 'No free slots found in that window'
+      });
+    } catch (error: any) {
+      logError('FindFreeTimeTool execution failed', error);
+      return this.error(error.message || 'Failed to find free time');
+    }
+  }
+}
+
+export const connectCalendarTool = new ConnectCalendarTool();
+export const listEventsTool = new ListEventsTool();
+export const createEventTool = new CreateEventTool();
+export const findFreeTimeTool = new FindFreeTimeTool();
@@ -1,5 +1,6 @@
 import { BaseTool, ToolDefinition, ToolExecutionContext, ToolResult } from './Tool';
 import { getAgentMailClient } from '../integrations/AgentMailClient';
+import { getEmailBridgeService } from '../services/EmailBridgeService';
 import { logInfo, logError } from '../utils/logger';
 
 /**
@@ -186,47 +187,74 @@ export class ReplyEmailTool extends BaseTool {
   getDefinition(): ToolDefinition {
     return {
       name: 'reply_email',
-      description: 'Reply to an existing email. Use this when the user wants to respond to an email they received.',
+      description: 'Reply to an existing email, in the same thread. Use this when the user wants to respond to an email they received (e.g. "reply saying I\'ll be late"). Without a message_id this replies to the most recent email, optionally the most recent one from a given sender.',
       input_schema: {
         type: 'object',
         properties: {
           message_id: {
             type: 'string',
-            description: 'The message ID of the email to reply to'
+            description: 'The message ID of the email to reply to. Omit to reply to the latest email.'
+          },
+          from: {
+            type: 'string',
+            description: 'Optional sender name or address to pick the latest email from that sender when no message_id is given'
           },
           body: {
             type: 'string',
             description: 'The reply message content in plain text'
           }
         },
-        required: ['message_id', 'body']
+        required: ['body']
       }
     };
   }
 
   async execute(
-    input: { message_id: string; body: string },
+    input: { message_id?: string; from?: string; body: string },
     context: ToolExecutionContext
   ): Promise<ToolResult> {
     try {
-      const { message_id, body } = input;
+      const { body } = input;
 
       const client = getAgentMailClient();
       if (!client.isEnabled()) {
         return this.error('Email functionality is not configured. Please set up AgentMail.');
       }
 
+      // Resolve the stored email so the reply is threaded and recorded on its conversation
+      const bridge = getEmailBridgeService();
+      const original = await bridge.findInboundEmail(context.userId, {
+        messageId: input.message_id,
+        from: input.message_id ? undefined : input.from
+      });
+      const messageId = input.message_id || original?.metadata?.emailMessageId;
+
+      if (!messageId) {
+        return this.error(input.from
+          ? `No email from "${input.from}" found. Use list_emails to find the message ID.`
+          : 'No recent email found to reply to. Use list_emails to find the message ID.');
+      }
+
       logInfo('ReplyEmailTool executing', {
         userId: context.userId,
-        messageId: message_id
+        messageId
       });
 
-      const result = await client.replyToEmail(context.userId, message_id, body);
+      const result = await client.replyToEmail(context.userId, messageId, body);
 
       if (result.success) {
+        if (original) {
+          await bridge.recordReply(original, body, result.messageId);
+        }
+
         return this.success({
           message: 'Reply sent successfully',
-          messageId: result.messageId
+          messageId: result.messageId,
+          inReplyTo: {
+            messageId,
+            from: original?.metadata?.from,
+            subject: original?.metadata?.subject
+          }
         });
       } else {
         return this.error(result.error || 'Failed to reply to email');
@@ -238,6 +266,81 @@ export class ReplyEmailTool extends BaseTool {
   }
 }
 
+/**
+ * Tool for forwarding a received email to someone else.
+ */
+export class ForwardEmailTool extends BaseTool {
+  getDefinition(): ToolDefinition {
+    return {
+      name: 'forward_email',
+      description: 'Forward a received email to another address, optionally with a note. Use this when the user asks to forward or pass along an email (e.g. "forward this to my assistant"). Without a message_id this forwards the most recent email, optionally the most recent one from a given sender.',
+      input_schema: {
+        type: 'object',
+        properties: {
+          to: {
+            type: 'string',
+            description: 'The recipient email address'
+          },
+          message_id: {
+            type: 'string',
+            description: 'The message ID of the email to forward. Omit to forward the latest email.'
+          },
+          from: {
+            type: 'string',
+            description: 'Optional sender name or address to pick the latest email from that sender when no message_id is given'
+          },
+          note: {
+            type: 'string',
+            description: 'Optional note to put above the forwarded message'
+          }
+        },
+        required: ['to']
+      }
+    };
+  }
+
+  async execute(
+    input: { to: string; message_id?: string; from?: string; note?: string },
+    context: ToolExecutionContext
+  ): Promise<ToolResult> {
+    try {
+      const client = getAgentMailClient();
+      if (!client.isEnabled()) {
+        return this.error('Email functionality is not configured. Please set up AgentMail.');
+      }
+
+      const original = input.message_id
+        ? null
+        : await getEmailBridgeService().findInboundEmail(context.userId, { from: input.from });
+      const messageId = input.message_id || original?.metadata?.emailMessageId;
+
+      if (!messageId) {
+        return this.error('No recent email found to forward. Use list_emails to find the message ID.');
+      }
+
+      logInfo('ForwardEmailTool executing', {
+        userId: context.userId,
+        messageId,
+        to: input.to
+      });
+
+      const result = await client.forwardEmail(context.userId, messageId, input.to, input.note);
+
+      if (result.success) {
+        return this.success({
+          message: `Email forwarded to ${input.to}`,
+          messageId: result.messageId
+        });
+      } else {
+        return this.error(result.error || 'Failed to forward email');
+      }
+    } catch (error: any) {
+      logError('ForwardEmailTool failed', error);
+      return this.error(`Failed to forward email: ${error.message}`);
+    }
+  }
+}
+
 /**
  * Tool for getting the agent's email address.
  */
@@ -290,4 +393,5 @@ export const sendEmailTool = new SendEmailTool();
 export const listEmailsTool = new ListEmailsTool();
 export const readEmailTool = new ReadEmailTool();
 export const replyEmailTool = new ReplyEmailTool();
+export const forwardEmailTool = new ForwardEmailTool();
 export const getAgentEmailTool = new GetAgentEmailTool();
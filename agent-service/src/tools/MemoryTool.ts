@@ -0,0 +1,442 @@
+import { randomUUID } from 'crypto';
+import { BaseTool, ToolDefinition, ToolExecutionContext, ToolResult } from './Tool';
+import { getContextService } from '../services/ContextService';
+import { ContextMemory } from '../types';
+import { logInfo, logError } from '../utils/logger';
+import * as chrono from 'chrono-node';
+
+type MemoryType = 'working' | 'session' | 'long_term';
+
+const MEMORY_TYPES: MemoryType[] = ['working', 'session', 'long_term'];
+
+// How long a proposed deletion stays confirmable
+const DELETE_CONFIRMATION_TTL_MS = 10 * 60 * 1000;
+
+interface PendingDeletion {
+  userId: string;
+  memoryIds: string[];
+  expiresAt: number;
+}
+
+const pendingDeletions = new Map<string, PendingDeletion>();
+
+const prunePendingDeletions = (): void => {
+  const now = Date.now();
+  for (const [token, pending] of pendingDeletions) {
+    if (pending.expiresAt <= now) {
+      pendingDeletions.delete(token);
+    }
+  }
+};
+
+/**
+ * Parse an expiry as ISO 8601 or natural language ("in 2 weeks", "next Friday").
+ */
+const parseExpiry = (value: string): Date | null => {
+  const isoDate = new Date(value);
+  if (!isNaN(isoDate.getTime())) {
+    return isoDate;
+  }
+  return chrono.parseDate(value, new Date(), { forwardDate: true });
+};
+
+const formatMemory = (memory: ContextMemory, score?: number) => ({
+  memory_id: memory.id,
+  key: memory.key,
+  value: memory.value,
+  memory_type: memory.memoryType,
+  expires_at: memory.expiresAt ? new Date(memory.expiresAt).toISOString() : undefined,
+  updated_at: new Date(memory.updatedAt).toISOString(),
+  ...(score !== undefined && { relevance: Number(score.toFixed(3)) })
+});
+
+/**
+ * Tool for saving a fact the user wants Grace to remember.
+ */
+export class SaveMemoryTool extends BaseTool {
+  getDefinition(): ToolDefinition {
+    return {
+      name: 'save_memory',
+      description: 'Remember a fact about the user (e.g. "remember my wife\'s birthday is June 3", "my new address is ..."). Saving with an existing key overwrites the old value. Use long_term for durable facts; session or working for short-lived context.',
+      input_schema: {
+        type: 'object',
+        properties: {
+          key: {
+            type: 'string',
+            description: 'Short snake_case label for the fact (e.g., "wife_birthday", "home_address").'
+          },
+          value: {
+            type: 'string',
+            description: 'The fact to remember, written so it makes sense on its own (e.g., "Wife Sarah\'s birthday is June 3").'
+          },
+          memory_type: {
+            type: 'string',
+            enum: MEMORY_TYPES,
+            description: 'long_term (default, never expires), session (24 hours, this conversation) or working (1 hour, this conversation).'
+          },
+          expires_at: {
+            type: 'string',
+            description: 'Optional explicit expiry. Accepts ISO 8601 or natural language (e.g., "in 2 weeks", "after Christmas").'
+          }
+        },
+        required: ['key', 'value']
+      }
+    };
+  }
+
+  async execute(
+    input: { key: string; value: string; memory_type?: string; expires_at?: string },
+    context: ToolExecutionContext
+  ): Promise<ToolResult> {
+    try {
+      const { key, value, memory_type = 'long_term', expires_at } = input;
+
+      if (!MEMORY_TYPES.includes(memory_type as MemoryType)) {
+        return this.error(`Unknown memory type "${memory_type}". Use long_term, session or working.`);
+      }
+
+      let expiresAt: Date | undefined;
+      if (expires_at) {
+        const parsed = parseExpiry(expires_at);
+        if (!parsed) {
+          return this.error(`Could not parse expiry: "${expires_at}"`);
+        }
+        if (parsed <= new Date()) {
+          return this.error('Expiry must be in the future.');
+        }
+        expiresAt = parsed;
+      }
+
+      const memoryType = memory_type as MemoryType;
+      const contextService = getContextService();
+      const result = await contextService.saveMemory(
+        context.userId,
+        key.trim(),
+        value.trim(),
+        memoryType,
+        memoryType === 'long_term' ? undefined : context.conversationId,
+        { source: 'save_memory_tool' },
+        expiresAt
+      );
+
+      if (result.success && result.data) {
+        logInfo('Memory saved via tool', {
+          memoryId: result.data.id,
+          userId: context.userId,
+          memoryType
+        });
+
+        return this.success({
+          ...formatMemory(result.data),
+          message: `Remembered "${result.data.key}"`
+        });
+      }
+
+      return this.error(result.error || 'Failed to save memory');
+    } catch (error: any) {
+      logError('SaveMemoryTool execution failed', error);
+      return this.error(error.message || 'Failed to save memory');
+    }
+  }
+}
+
+/**
+ * Tool for looking up what Grace remembers about the user.
+ */
+export class SearchMemoryTool extends BaseTool {
+  getDefinition(): ToolDefinition {
+    return {
+      name: 'search_memory',
+      description: 'Search what you remember about the user. Use before answering questions about the user\'s personal details, and to find the memory_id needed by update_memory or delete_memory. Omit query to list all memories.',
+      input_schema: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'What to look for (e.g., "wife\'s birthday", "address"). Omit to list memories.'
+          },
+          memory_type: {
+            type: 'string',
+            enum: MEMORY_TYPES,
+            description: 'Only return memories of this type.'
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of memories to return (default 10, max 50).'
+          }
+        },
+        required: []
+      }
+    };
+  }
+
+  async execute(
+    input: { query?: string; memory_type?: string; limit?: number },
+    context: ToolExecutionContext
+  ): Promise<ToolResult> {
+    try {
+      const { query, memory_type, limit = 10 } = input;
+      const cappedLimit = Math.min(Math.max(limit, 1), 50);
+      const memoryType = MEMORY_TYPES.includes(memory_type as MemoryType) ? memory_type as MemoryType : undefined;
+      const contextService = getContextService();
+
+      let memories: Array<ReturnType<typeof formatMemory>>;
+
+      if (query?.trim()) {
+        const result = await contextService.findRelevantMemories(context.userId, query, {
+          limit: cappedLimit,
+          memoryTypes: memoryType ? [memoryType] : undefined
+        });
+
+        if (!result.success || !result.data) {
+          return this.error(result.error || 'Failed to search memories');
+        }
+
+        memories = result.data.map(({ memory, score }) => formatMemory(memory, score));
+
+        // Fall back to keyword matching when nothing scores as similar
+        if (memories.length === 0) {
+          const keyword = await contextService.searchMemories(context.userId, query, cappedLimit);
+          memories = (keyword.data || [])
+            .filter(memory => !memoryType || memory.memoryType === memoryType)
+            .map(memory => formatMemory(memory));
+        }
+      } else {
+        const result = await contextService.getUserMemories(context.userId, memoryType);
+        if (!result.success || !result.data) {
+          return this.error(result.error || 'Failed to list memories');
+        }
+        memories = result.data.slice(0, cappedLimit).map(memory => formatMemory(memory));
+      }
+
+      return this.success({
+        count: memories.length,
+        memories,
+        message: memories.length > 0 ? `Found ${memories.length} memory(ies)` : 'No matching memories found'
+      });
+    } catch (error: any) {
+      logError('SearchMemoryTool execution failed', error);
+      return this.error(error.message || 'Failed to search memories');
+    }
+  }
+}
+
+/**
+ * Tool for correcting an existing memory.
+ */
+export class UpdateMemoryTool extends BaseTool {
+  getDefinition(): ToolDefinition {
+    return {
+      name: 'update_memory',
+      description: 'Correct or change an existing memory (e.g. "actually my anniversary is the 14th"). Use search_memory first to find the memory_id.',
+      input_schema: {
+        type: 'object',
+        properties: {
+          memory_id: {
+            type: 'string',
+            description: 'The ID of the memory to update.'
+          },
+          key: {
+            type: 'string',
+            description: 'New label for the memory.'
+          },
+          value: {
+            type: 'string',
+            description: 'Corrected fact.'
+          },
+          memory_type: {
+            type: 'string',
+            enum: ['session', 'long_term'],
+            description: 'Change how long the memory is kept. long_term removes any expiry.'
+          },
+          expires_at: {
+            type: 'string',
+            description: 'New expiry (ISO 8601 or natural language), or "never" to keep it indefinitely.'
+          }
+        },
+        required: ['memory_id']
+      }
+    };
+  }
+
+  async execute(
+    input: { memory_id: string; key?: string; value?: string; memory_type?: string; expires_at?: string },
+    context: ToolExecutionContext
+  ): Promise<ToolResult> {
+    try {
+      const { memory_id, key, value, memory_type, expires_at } = input;
+      const contextService = getContextService();
+
+      const existing = await contextService.getMemoryById(context.userId, memory_id);
+      if (!existing.success) {
+        return this.error(existing.error || 'Failed to load memory');
+      }
+      if (!existing.data) {
+        return this.error('Memory not found');
+      }
+
+      if (memory_type !== undefined && memory_type !== 'session' && memory_type !== 'long_term') {
+        return this.error(`Unknown memory type "${memory_type}". Use long_term or session.`);
+      }
+
+      if (memory_type && memory_type !== existing.data.memoryType) {
+        const promoted = await contextService.promoteMemory(memory_id, memory_type);
+        if (!promoted.success) {
+          return this.error(promoted.error || 'Failed to change memory type');
+        }
+      }
+
+      let expiresAt: Date | null | undefined;
+      if (expires_at) {
+        if (/^(never|none)$/i.test(expires_at.trim())) {
+          expiresAt = null;
+        } else {
+          const parsed = parseExpiry(expires_at);
+          if (!parsed) {
+            return this.error(`Could not parse expiry: "${expires_at}"`);
+          }
+          if (parsed <= new Date()) {
+            return this.error('Expiry must be in the future.');
+          }
+          expiresAt = parsed;
+        }
+      }
+
+      const result = await contextService.updateMemory(context.userId, memory_id, {
+        key: key?.trim(),
+        value: value?.trim(),
+        expiresAt
+      });
+
+      if (result.success && result.data) {
+        logInfo('Memory updated via tool', { memoryId: memory_id, userId: context.userId });
+
+        return this.success({
+          ...formatMemory(result.data),
+          message: `Updated "${result.data.key}"`
+        });
+      }
+
+      return this.error(result.error || 'Failed to update memory');
+    } catch (error: any) {
+      logError('UpdateMemoryTool execution failed', error);
+      return this.error(error.message || 'Failed to update memory');
+    }
+  }
+}
+
+/**
+ * Tool for forgetting memories. Deletion is two-step: the first call returns
+ * the matching memories and a confirmation token; the memories are only
+ * deleted when called again with that token after the user confirms.
+ */
+export class DeleteMemoryTool extends BaseTool {
+  getDefinition(): ToolDefinition {
+    return {
+      name: 'delete_memory',
+      description: 'Forget memories (e.g. "forget my old address"). Step 1: call with memory_id or query to get the matching memories and a confirmation_token - show the user what will be forgotten and ask them to confirm. Step 2: only after the user explicitly confirms, call again with confirmation_token to delete.',
+      input_schema: {
+        type: 'object',
+        properties: {
+          memory_id: {
+            type: 'string',
+            description: 'ID of a specific memory to forget.'
+          },
+          query: {
+            type: 'string',
+            description: 'Describe what to forget when the memory_id is unknown (e.g., "old address").'
+          },
+          confirmation_token: {
+            type: 'string',
+            description: 'Token returned by the first call. Only pass this after the user has confirmed the deletion.'
+          }
+        },
+        required: []
+      }
+    };
+  }
+
+  async execute(
+    input: { memory_id?: string; query?: string; confirmation_token?: string },
+    context: ToolExecutionContext
+  ): Promise<ToolResult> {
+    try {
+      const { memory_id, query, confirmation_token } = input;
+      const contextService = getContextService();
+
+      prunePendingDeletions();
+
+      // Step 2: perform a confirmed deletion
+      if (confirmation_token) {
+        const pending = pendingDeletions.get(confirmation_token);
+        if (!pending || pending.userId !== context.userId) {
+          return this.error('Confirmation token is invalid or has expired. Look the memory up again.');
+        }
+
+        pendingDeletions.delete(confirmation_token);
+
+        const result = await contextService.deleteMemories(context.userId, pending.memoryIds);
+        if (!result.success) {
+          return this.error(result.error || 'Failed to delete memories');
+        }
+
+        logInfo('Memories deleted via tool', { userId: context.userId, count: result.data });
+
+        return this.success({
+          deleted: result.data,
+          message: `Forgot ${result.data} memory(ies)`
+        });
+      }
+
+      // Step 1: find candidates and ask for confirmation
+      let candidates: ContextMemory[] = [];
+
+      if (memory_id) {
+        const result = await contextService.getMemoryById(context.userId, memory_id);
+        if (!result.success) {
+          return this.error(result.error || 'Failed to load memory');
+        }
+        candidates = result.data ? [result.data] : [];
+      } else if (query?.trim()) {
+        const result = await contextService.searchMemories(context.userId, query, 5);
+        if (!result.success) {
+          return this.error(result.error || 'Failed to search memories');
+        }
+        candidates = result.data || [];
+      } else {
+        return this.error('Provide a memory_id or query to choose what to forget.');
+      }
+
+      if (candidates.length === 0) {
+        return this.success({
+          requires_confirmation: false,
+          memories: [],
+          message: 'No matching memories found'
+        });
+      }
+
+      const token = randomUUID();
+      pendingDeletions.set(token, {
+        userId: context.userId,
+        memoryIds: candidates.map(memory => memory.id),
+        expiresAt: Date.now() + DELETE_CONFIRMATION_TTL_MS
+      });
+
+      return this.success({
+        requires_confirmation: true,
+        confirmation_token: token,
+        memories: candidates.map(memory => formatMemory(memory)),
+        message: 'Ask the user to confirm before forgetting these. If they only want some of them removed, call delete_memory again with the specific memory_id.'
+      });
+    } catch (error: any) {
+      logError('DeleteMemoryTool execution failed', error);
+      return this.error(error.message || 'Failed to delete memory');
+    }
+  }
+}
+
+// Export tool instances
+export const saveMemoryTool = new SaveMemoryTool();
+export const searchMemoryTool = new SearchMemoryTool();
+export const updateMemoryTool = new UpdateMemoryTool();
+export const deleteMemoryTool = new DeleteMemoryTool();
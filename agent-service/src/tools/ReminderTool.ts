@@ -2,6 +2,18 @@ import { BaseTool, ToolDefinition, ToolExecutionContext, ToolResult } from './To
 import { getReminderService } from '../services/ReminderService';
 import { logInfo, logError } from '../utils/logger';
 import * as chrono from 'chrono-node';
+import { ReminderStatus } from '../types';
+
+/**
+ * Parse an ISO 8601 or natural-language time ("tomorrow at 3pm").
+ */
+function parseReminderTime(value: string): Date | null {
+  const isoDate = new Date(value);
+  if (!isNaN(isoDate.getTime())) {
+    return isoDate;
+  }
+  return chrono.parseDate(value);
+}
 
 /**
  * Tool for creating reminders via Claude.
@@ -25,8 +37,12 @@ export class CreateReminderTool extends BaseTool {
           },
           channel: {
             type: 'string',
-            enum: ['imessage', 'email'],
-            description: 'Delivery channel for the reminder. Defaults to imessage. Use email only if user explicitly requests it.'
+            enum: ['imessage', 'email', 'both'],
+            description: 'Delivery channel for the reminder. Omit to use the user\'s reminder channel preference (iMessage by default). Only set this if the user explicitly asks for a channel.'
+          },
+          recurrence: {
+            type: 'string',
+            description: 'Optional repeat schedule for recurring reminders, e.g. "FREQ=WEEKLY;BYDAY=MO;BYHOUR=9;BYMINUTE=0", "0 9 * * 1-5" or "daily at 9am". remind_at is the first occurrence.'
           }
         },
         required: ['content', 'remind_at']
@@ -34,21 +50,15 @@ export class CreateReminderTool extends BaseTool {
     };
   }
 
-  async execute(input: { content: string; remind_at: string; channel?: string }, context: ToolExecutionContext): Promise<ToolResult> {
+  async execute(
+    input: { content: string; remind_at: string; channel?: string; recurrence?: string },
+    context: ToolExecutionContext
+  ): Promise<ToolResult> {
     try {
-      const { content, remind_at, channel = 'imessage' } = input;
+      const { content, remind_at, channel, recurrence } = input;
 
-      // Parse the remind_at time
-      let remindAtDate: Date | null = null;
-
-      // Try ISO 8601 first
-      const isoDate = new Date(remind_at);
-      if (!isNaN(isoDate.getTime())) {
-        remindAtDate = isoDate;
-      } else {
-        // Try natural language parsing
-        remindAtDate = chrono.parseDate(remind_at);
-      }
+      // Parse the remind_at time (ISO 8601 first, then natural language)
+      const remindAtDate = parseReminderTime(remind_at);
 
       if (!remindAtDate) {
         return this.error(`Could not parse time: "${remind_at}". Please use a format like "tomorrow at 3pm" or "2024-12-21T15:00:00".`);
@@ -64,7 +74,9 @@ export class CreateReminderTool extends BaseTool {
         context.userId,
         content,
         remindAtDate,
-        channel as 'imessage' | 'email' | 'both'
+        channel as 'imessage' | 'email' | 'both' | undefined,
+        undefined,
+        recurrence
       );
 
       if (result.success && result.data) {
@@ -79,7 +91,8 @@ export class CreateReminderTool extends BaseTool {
           content: result.data.content,
           remind_at: result.data.remindAt.toISOString(),
           channel: result.data.channel,
-          message: `Reminder set for ${remindAtDate.toLocaleString()}`
+          recurrence: result.data.metadata.recurringPattern,
+          message: `Reminder set for ${remindAtDate.toLocaleString()}${recurrence ? ' (repeating)' : ''}`
         });
       }
 
@@ -104,7 +117,7 @@ export class ListRemindersTool extends BaseTool {
         properties: {
           status: {
             type: 'string',
-            enum: ['pending', 'sent', 'snoozed', 'cancelled', 'all'],
+            enum: ['pending', 'sent', 'snoozed', 'completed', 'cancelled', 'all'],
             description: 'Filter reminders by status. Defaults to "pending" to show only upcoming reminders.'
           }
         },
@@ -118,7 +131,7 @@ export class ListRemindersTool extends BaseTool {
       const { status = 'pending' } = input;
       const reminderService = getReminderService();
 
-      const statusFilter = status === 'all' ? undefined : status as 'pending' | 'sent' | 'snoozed' | 'cancelled';
+      const statusFilter = status === 'all' ? undefined : status as ReminderStatus;
       const result = await reminderService.getUserReminders(context.userId, statusFilter);
 
       if (result.success && result.data) {
@@ -127,7 +140,8 @@ export class ListRemindersTool extends BaseTool {
           content: r.content,
           remind_at: r.remindAt.toISOString(),
           status: r.status,
-          channel: r.channel
+          channel: r.channel,
+          recurrence: r.metadata?.recurringPattern
         }));
 
         return this.success({
@@ -196,7 +210,215 @@ export class CancelReminderTool extends BaseTool {
   }
 }
 
+/**
+ * Tool for snoozing a reminder.
+ */
+export class SnoozeReminderTool extends BaseTool {
+  getDefinition(): ToolDefinition {
+    return {
+      name: 'snooze_reminder',
+      description: 'Snooze a reminder so it is delivered again later. Use this when the user asks to be reminded again in a bit, or to push a reminder back. For recurring reminders only the current occurrence is delayed.',
+      input_schema: {
+        type: 'object',
+        properties: {
+          reminder_id: {
+            type: 'string',
+            description: 'The ID of the reminder to snooze. Get this from list_reminders.'
+          },
+          minutes: {
+            type: 'number',
+            description: 'How many minutes to snooze for. Defaults to 15.'
+          },
+          until: {
+            type: 'string',
+            description: 'Snooze until a specific time instead, as ISO 8601 or natural language (e.g., "3pm", "tomorrow morning"). Overrides minutes.'
+          }
+        },
+        required: ['reminder_id']
+      }
+    };
+  }
+
+  async execute(input: { reminder_id: string; minutes?: number; until?: string }, context: ToolExecutionContext): Promise<ToolResult> {
+    try {
+      const { reminder_id, minutes, until } = input;
+
+      let snooze: number | Date | undefined;
+      if (until) {
+        const untilDate = parseReminderTime(until);
+        if (!untilDate) {
+          return this.error(`Could not parse time: "${until}".`);
+        }
+        snooze = untilDate;
+      } else if (minutes !== undefined) {
+        if (!(minutes > 0)) {
+          return this.error('Snooze minutes must be greater than zero.');
+        }
+        snooze = minutes * 60 * 1000;
+      }
+
+      const result = await getReminderService().snoozeReminder(reminder_id, snooze);
+
+      if (result.success && result.data) {
+        logInfo('Reminder snoozed via tool', {
+          reminderId: reminder_id,
+          userId: context.userId,
+          remindAt: result.data.remindAt.toISOString()
+        });
+
+        return this.success({
+          reminder_id,
+          remind_at: result.data.remindAt.toISOString(),
+          message: `Reminder snoozed until ${result.data.remindAt.toLocaleString()}`
+        });
+      }
+
+      return this.error(result.error || 'Failed to snooze reminder');
+    } catch (error: any) {
+      logError('SnoozeReminderTool execution failed', error);
+      return this.error(error.message || 'Failed to snooze reminder');
+    }
+  }
+}
+
+/**
+ * Tool for marking a reminder as done.
+ */
+export class CompleteReminderTool extends BaseTool {
+  getDefinition(): ToolDefinition {
+    return {
+      name: 'complete_reminder',
+      description: 'Mark a reminder as done. Use this when the user says they finished the thing they were reminded about. For recurring reminders this acknowledges the latest occurrence and the series keeps going - use cancel_reminder to stop it entirely.',
+      input_schema: {
+        type: 'object',
+        properties: {
+          reminder_id: {
+            type: 'string',
+            description: 'The ID of the reminder to complete. Get this from list_reminders.'
+          }
+        },
+        required: ['reminder_id']
+      }
+    };
+  }
+
+  async execute(input: { reminder_id: string }, context: ToolExecutionContext): Promise<ToolResult> {
+    try {
+      const { reminder_id } = input;
+      const result = await getReminderService().completeReminder(reminder_id);
+
+      if (result.success && result.data) {
+        logInfo('Reminder completed via tool', {
+          reminderId: reminder_id,
+          userId: context.userId
+        });
+
+        const recurring = !!result.data.metadata?.recurring && result.data.status === 'pending';
+        return this.success({
+          reminder_id,
+          status: result.data.status,
+          next_remind_at: recurring ? result.data.remindAt.toISOString() : undefined,
+          message: recurring
+            ? `Marked done. Next reminder at ${result.data.remindAt.toLocaleString()}`
+            : 'Reminder marked as done'
+        });
+      }
+
+      return this.error(result.error || 'Failed to complete reminder');
+    } catch (error: any) {
+      logError('CompleteReminderTool execution failed', error);
+      return this.error(error.message || 'Failed to complete reminder');
+    }
+  }
+}
+
+/**
+ * Tool for editing an existing reminder.
+ */
+export class UpdateReminderTool extends BaseTool {
+  getDefinition(): ToolDefinition {
+    return {
+      name: 'update_reminder',
+      description: 'Change an existing reminder\'s text, time or repeat schedule. Use this instead of cancelling and recreating when the user wants to move or reword a reminder. Setting a new time reactivates a reminder that was already sent or completed.',
+      input_schema: {
+        type: 'object',
+        properties: {
+          reminder_id: {
+            type: 'string',
+            description: 'The ID of the reminder to update. Get this from list_reminders.'
+          },
+          content: {
+            type: 'string',
+            description: 'New reminder text.'
+          },
+          remind_at: {
+            type: 'string',
+            description: 'New time, as ISO 8601 or natural language (e.g., "tomorrow at 3pm").'
+          },
+          recurrence: {
+            type: 'string',
+            description: 'New repeat schedule (RRULE, cron or e.g. "daily at 9am"). Pass "none" to make the reminder one-off.'
+          }
+        },
+        required: ['reminder_id']
+      }
+    };
+  }
+
+  async execute(
+    input: { reminder_id: string; content?: string; remind_at?: string; recurrence?: string },
+    context: ToolExecutionContext
+  ): Promise<ToolResult> {
+    try {
+      const { reminder_id, content, remind_at, recurrence } = input;
+
+      if (content === undefined && remind_at === undefined && recurrence === undefined) {
+        return this.error('Nothing to update. Provide content, remind_at or recurrence.');
+      }
+
+      let remindAt: Date | undefined;
+      if (remind_at) {
+        const parsed = parseReminderTime(remind_at);
+        if (!parsed) {
+          return this.error(`Could not parse time: "${remind_at}". Please use a format like "tomorrow at 3pm" or "2024-12-21T15:00:00".`);
+        }
+        remindAt = parsed;
+      }
+
+      const result = await getReminderService().updateReminder(reminder_id, {
+        content,
+        remindAt,
+        recurrence: recurrence === undefined ? undefined : (/^(none|never|off)$/i.test(recurrence.trim()) ? null : recurrence)
+      });
+
+      if (result.success && result.data) {
+        logInfo('Reminder updated via tool', {
+          reminderId: reminder_id,
+          userId: context.userId
+        });
+
+        return this.success({
+          reminder_id,
+          content: result.data.content,
+          remind_at: result.data.remindAt.toISOString(),
+          status: result.data.status,
+          recurrence: result.data.metadata?.recurring ? result.data.metadata.recurringPattern : undefined,
+          message: `Reminder updated for ${result.data.remindAt.toLocaleString()}`
+        });
+      }
+
+      return this.error(result.error || 'Failed to update reminder');
+    } catch (error: any) {
+      logError('UpdateReminderTool execution failed', error);
+      return this.error(error.message || 'Failed to update reminder');
+    }
+  }
+}
+
 // Export tool instances for registration
 export const createReminderTool = new CreateReminderTool();
 export const listRemindersTool = new ListRemindersTool();
 export const cancelReminderTool = new CancelReminderTool();
+export const snoozeReminderTool = new SnoozeReminderTool();
+export const completeReminderTool = new CompleteReminderTool();
+export const updateReminderTool = new UpdateReminderTool();
@@ -1,4 +1,6 @@
-import { PermissionLevel, getSecurityManager } from '../middleware/security';
+import { PermissionLevel } from '../middleware/security';
+import { UserRole } from '../database/entities/User';
+import { getAccessControlService } from '../services/AccessControlService';
 
 /**
  * Definition describing a tool for Claude's tool calling API.
@@ -30,6 +32,7 @@ export interface ToolExecutionContext {
   userId: string;
   conversationId: string;
   isAdmin: boolean;
+  userRole?: UserRole; // Looked up from the users table when omitted
   runtimeContext?: any; // Prompt runtime context for enhanced tool execution
   chatGuid?: string; // BlueBubbles chat GUID for typing indicators
 }
@@ -60,8 +63,7 @@ export abstract class BaseTool implements ITool {
   }
 }
 
-export const ensureToolPermissions = (tool: ITool, context: ToolExecutionContext): boolean => {
-  const securityManager = getSecurityManager();
+export const ensureToolPermissions = (tool: ITool, context: ToolExecutionContext): Promise<boolean> => {
   const required = tool.getRequiredPermission();
-  return securityManager.hasPermission(context.userHandle, required);
+  return getAccessControlService().canUseTool(tool.getDefinition().name, required, context);
 };
@@ -1,8 +1,31 @@
 import { logInfo, logWarn, logError } from '../utils/logger';
 import { ensureToolPermissions, ITool, ToolDefinition, ToolExecutionContext, ToolResult } from './Tool';
-import { createReminderTool, listRemindersTool, cancelReminderTool } from './ReminderTool';
-import { createTriggerTool, listTriggersTool, updateTriggerTool, deleteTriggerTool } from './TriggerTool';
-import { sendEmailTool, listEmailsTool, readEmailTool, replyEmailTool, getAgentEmailTool } from './EmailTool';
+import {
+  createReminderTool,
+  listRemindersTool,
+  cancelReminderTool,
+  snoozeReminderTool,
+  completeReminderTool,
+  updateReminderTool
+} from './ReminderTool';
+import {
+  createTriggerTool,
+  listTriggersTool,
+  updateTriggerTool,
+  deleteTriggerTool,
+  listTriggerRunsTool
+} from './TriggerTool';
+import { saveMemoryTool, searchMemoryTool, updateMemoryTool, deleteMemoryTool } from './MemoryTool';
+import { inviteUserTool, setUserRoleTool } from './AccessTool';
+import { connectCalendarTool, listEventsTool, createEventTool, findFreeTimeTool } from './CalendarTool';
+import {
+  sendEmailTool,
+  listEmailsTool,
+  readEmailTool,
+  replyEmailTool,
+  forwardEmailTool,
+  getAgentEmailTool
+} from './EmailTool';
 import { config } from '../config';
 
 /**
@@ -27,12 +50,34 @@ export class ToolRegistry {
     this.tools.set(createReminderTool.getDefinition().name, createReminderTool);
     this.tools.set(listRemindersTool.getDefinition().name, listRemindersTool);
     this.tools.set(cancelReminderTool.getDefinition().name, cancelReminderTool);
+    this.tools.set(snoozeReminderTool.getDefinition().name, snoozeReminderTool);
+    this.tools.set(completeReminderTool.getDefinition().name, completeReminderTool);
+    this.tools.set(updateReminderTool.getDefinition().name, updateReminderTool);
 
     // Trigger tools
     this.tools.set(createTriggerTool.getDefinition().name, createTriggerTool);
     this.tools.set(listTriggersTool.getDefinition().name, listTriggersTool);
     this.tools.set(updateTriggerTool.getDefinition().name, updateTriggerTool);
     this.tools.set(deleteTriggerTool.getDefinition().name, deleteTriggerTool);
+    this.tools.set(listTriggerRunsTool.getDefinition().name, listTriggerRunsTool);
+
+    // Memory tools
+    this.tools.set(saveMemoryTool.getDefinition().name, saveMemoryTool);
+    this.tools.set(searchMemoryTool.getDefinition().name, searchMemoryTool);
+    this.tools.set(updateMemoryTool.getDefinition().name, updateMemoryTool);
+    this.tools.set(deleteMemoryTool.getDefinition().name, deleteMemoryTool);
+
+    // Access tools (admin only)
+    this.tools.set(inviteUserTool.getDefinition().name, inviteUserTool);
+    this.tools.set(setUserRoleTool.getDefinition().name, setUserRoleTool);
+
+    // Calendar tools (only if Google Calendar is enabled)
+    if (config.google.calendarEnabled) {
+      this.tools.set(connectCalendarTool.getDefinition().name, connectCalendarTool);
+      this.tools.set(listEventsTool.getDefinition().name, listEventsTool);
+      this.tools.set(createEventTool.getDefinition().name, createEventTool);
+      this.tools.set(findFreeTimeTool.getDefinition().name, findFreeTimeTool);
+    }
 
     // Email tools (only if AgentMail is enabled)
     if (config.agentmail.enabled) {
@@ -40,6 +85,7 @@ export class ToolRegistry {
       this.tools.set(listEmailsTool.getDefinition().name, listEmailsTool);
       this.tools.set(readEmailTool.getDefinition().name, readEmailTool);
       this.tools.set(replyEmailTool.getDefinition().name, replyEmailTool);
+      this.tools.set(forwardEmailTool.getDefinition().name, forwardEmailTool);
       this.tools.set(getAgentEmailTool.getDefinition().name, getAgentEmailTool);
     }
   }
@@ -65,7 +111,7 @@ export class ToolRegistry {
       };
     }
 
-    if (!ensureToolPermissions(tool, context)) {
+    if (!(await ensureToolPermissions(tool, context))) {
       logWarn('Tool execution denied - insufficient permissions', {
         toolName,
         userHandle: context.userHandle
@@ -1,8 +1,45 @@
 import { BaseTool, ToolDefinition, ToolExecutionContext, ToolResult } from './Tool';
-import { getTriggerService } from '../services/TriggerService';
+import { getTriggerService, isValidMisfirePolicy } from '../services/TriggerService';
+import { TriggerRunStatus } from '../database/entities/TriggerRun';
 import { logInfo, logError } from '../utils/logger';
+import {
+  DEFAULT_TIMEZONE,
+  formatOccurrence,
+  getTimezoneOffsetMinutes,
+  isValidTimezone,
+  parseIsoInTimezone
+} from '../utils/recurrence';
 import * as chrono from 'chrono-node';
 
+const DEFAULT_PREVIEW_COUNT = 5;
+const MAX_PREVIEW_COUNT = 20;
+
+const RECURRENCE_RULE_DESCRIPTION =
+  'Recurrence pattern. Prefer an RFC 5545 RRULE (e.g. "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;BYHOUR=9;BYMINUTE=0" for weekdays at 9am, "FREQ=MONTHLY;BYDAY=1MO;BYHOUR=8;BYMINUTE=0" for the first Monday of the month) or a 5-field cron expression (e.g. "0 9 * * 1-5"). Simple forms like "daily at 9am" or "every 2 hours" are also accepted. Times are evaluated in the trigger timezone.';
+
+const MISFIRE_POLICY_DESCRIPTION =
+  'What to do with runs missed while the service was offline: "fire_once" (default) runs the latest missed occurrence once, "fire_all" replays every missed occurrence, "skip" waits for the next scheduled time.';
+
+const clampPreviewCount = (count?: number): number => {
+  if (!count || count < 1) {
+    return DEFAULT_PREVIEW_COUNT;
+  }
+  return Math.min(Math.floor(count), MAX_PREVIEW_COUNT);
+};
+
+/**
+ * Parse a trigger start time as ISO 8601 or natural language, relative to the trigger timezone.
+ */
+const parseStartTime = (value: string, timezone: string): Date | null => {
+  const iso = parseIsoInTimezone(value, timezone);
+  if (iso) {
+    return iso;
+  }
+
+  const now = new Date();
+  return chrono.parseDate(value, { instant: now, timezone: getTimezoneOffsetMinutes(timezone, now) });
+};
+
 /**
  * Tool for creating triggers that spawn execution agents at scheduled times.
  */
@@ -28,11 +65,20 @@ export class CreateTriggerTool extends BaseTool {
           },
           recurrence_rule: {
             type: 'string',
-            description: 'Optional recurrence pattern. Supports: "hourly", "daily", "weekly", or "every N minutes/hours/days" (e.g., "every 2 hours", "daily at 9am").'
+            description: `Optional. ${RECURRENCE_RULE_DESCRIPTION} The series is anchored to start_time.`
           },
           timezone: {
             type: 'string',
             description: 'Timezone for the trigger (default: America/Chicago). Use IANA timezone names.'
+          },
+          misfire_policy: {
+            type: 'string',
+            enum: ['fire_once', 'fire_all', 'skip'],
+            description: MISFIRE_POLICY_DESCRIPTION
+          },
+          preview_count: {
+            type: 'number',
+            description: `How many upcoming fire times to include in the response (default ${DEFAULT_PREVIEW_COUNT}, max ${MAX_PREVIEW_COUNT}).`
           }
         },
         required: ['agent_name', 'payload', 'start_time']
@@ -41,21 +87,39 @@ export class CreateTriggerTool extends BaseTool {
   }
 
   async execute(
-    input: { agent_name: string; payload: string; start_time: string; recurrence_rule?: string; timezone?: string },
+    input: {
+      agent_name: string;
+      payload: string;
+      start_time: string;
+      recurrence_rule?: string;
+      timezone?: string;
+      misfire_policy?: string;
+      preview_count?: number;
+    },
     context: ToolExecutionContext
   ): Promise<ToolResult> {
     try {
-      const { agent_name, payload, start_time, recurrence_rule, timezone } = input;
+      const {
+        agent_name,
+        payload,
+        start_time,
+        recurrence_rule,
+        timezone = DEFAULT_TIMEZONE,
+        misfire_policy,
+        preview_count
+      } = input;
 
-      // Parse start time
-      let startTime: Date | null = null;
-      const isoDate = new Date(start_time);
-      if (!isNaN(isoDate.getTime())) {
-        startTime = isoDate;
-      } else {
-        startTime = chrono.parseDate(start_time);
+      if (!isValidTimezone(timezone)) {
+        return this.error(`Unknown timezone "${timezone}". Use an IANA timezone name like "America/New_York".`);
       }
 
+      if (misfire_policy !== undefined && !isValidMisfirePolicy(misfire_policy)) {
+        return this.error(`Unknown misfire policy "${misfire_policy}". Use fire_once, fire_all or skip.`);
+      }
+
+      // Parse start time
+      const startTime = parseStartTime(start_time, timezone);
+
       if (!startTime) {
         return this.error(`Could not parse start time: "${start_time}"`);
       }
@@ -65,13 +129,25 @@ export class CreateTriggerTool extends BaseTool {
       }
 
       const triggerService = getTriggerService();
+
+      // Validate the rule before saving anything
+      const preview = triggerService.previewSchedule(recurrence_rule, timezone, startTime, clampPreviewCount(preview_count));
+      if (!preview.success || !preview.data) {
+        return this.error(preview.error || 'Invalid recurrence rule');
+      }
+
+      if (recurrence_rule && preview.data.nextFireTimes.length === 0) {
+        return this.error('Recurrence rule does not produce any future occurrences.');
+      }
+
       const result = await triggerService.createTrigger({
         userId: context.userId,
         agentName: agent_name,
         payload,
         startTime,
         recurrenceRule: recurrence_rule,
-        timezone
+        timezone,
+        misfirePolicy: misfire_policy
       });
 
       if (result.success && result.data) {
@@ -81,12 +157,19 @@ export class CreateTriggerTool extends BaseTool {
           userId: context.userId
         });
 
+        const nextTrigger = result.data.nextTrigger;
+
         return this.success({
           trigger_id: result.data.id,
           agent_name: result.data.agentName,
-          next_trigger: result.data.nextTrigger?.toISOString(),
+          next_trigger: nextTrigger?.toISOString(),
           recurrence_rule: result.data.recurrenceRule,
-          message: `Trigger created. Will fire at ${result.data.nextTrigger?.toLocaleString()}`
+          timezone: result.data.timezone,
+          misfire_policy: result.data.misfirePolicy,
+          next_fire_times: preview.data.nextFireTimes.map(date => formatOccurrence(date, timezone)),
+          message: nextTrigger
+            ? `Trigger created. Will fire at ${formatOccurrence(nextTrigger, timezone)}`
+            : 'Trigger created.'
         });
       }
 
@@ -174,7 +257,20 @@ export class UpdateTriggerTool extends BaseTool {
           },
           recurrence_rule: {
             type: 'string',
-            description: 'New recurrence pattern.'
+            description: `New recurrence pattern. ${RECURRENCE_RULE_DESCRIPTION}`
+          },
+          timezone: {
+            type: 'string',
+            description: 'New IANA timezone for the trigger schedule.'
+          },
+          misfire_policy: {
+            type: 'string',
+            enum: ['fire_once', 'fire_all', 'skip'],
+            description: MISFIRE_POLICY_DESCRIPTION
+          },
+          preview_count: {
+            type: 'number',
+            description: `How many upcoming fire times to include in the response (default ${DEFAULT_PREVIEW_COUNT}, max ${MAX_PREVIEW_COUNT}).`
           },
           status: {
             type: 'string',
@@ -188,26 +284,65 @@ export class UpdateTriggerTool extends BaseTool {
   }
 
   async execute(
-    input: { trigger_id: number; payload?: string; recurrence_rule?: string; status?: string },
+    input: {
+      trigger_id: number;
+      payload?: string;
+      recurrence_rule?: string;
+      timezone?: string;
+      misfire_policy?: string;
+      preview_count?: number;
+      status?: string;
+    },
     context: ToolExecutionContext
   ): Promise<ToolResult> {
     try {
-      const { trigger_id, payload, recurrence_rule, status } = input;
+      const { trigger_id, payload, recurrence_rule, timezone, misfire_policy, preview_count, status } = input;
       const triggerService = getTriggerService();
 
+      if (timezone !== undefined && !isValidTimezone(timezone)) {
+        return this.error(`Unknown timezone "${timezone}". Use an IANA timezone name like "America/New_York".`);
+      }
+
+      if (misfire_policy !== undefined && !isValidMisfirePolicy(misfire_policy)) {
+        return this.error(`Unknown misfire policy "${misfire_policy}". Use fire_once, fire_all or skip.`);
+      }
+
+      if (recurrence_rule !== undefined) {
+        const validation = triggerService.previewSchedule(recurrence_rule, timezone, undefined, 1);
+        if (!validation.success) {
+          return this.error(validation.error || 'Invalid recurrence rule');
+        }
+      }
+
       const result = await triggerService.updateTrigger(trigger_id, {
         payload,
         recurrenceRule: recurrence_rule,
+        timezone,
+        misfirePolicy: misfire_policy,
         status: status as 'active' | 'paused' | undefined
       });
 
       if (result.success && result.data) {
         logInfo('Trigger updated via tool', { triggerId: trigger_id });
 
+        const trigger = result.data;
+        const preview = trigger.recurrenceRule
+          ? triggerService.previewSchedule(
+            trigger.recurrenceRule,
+            trigger.timezone,
+            trigger.startTime ?? trigger.createdAt,
+            clampPreviewCount(preview_count)
+          )
+          : undefined;
+
         return this.success({
-          trigger_id: result.data.id,
-          status: result.data.status,
-          next_trigger: result.data.nextTrigger?.toISOString(),
+          trigger_id: trigger.id,
+          status: trigger.status,
+          next_trigger: trigger.nextTrigger?.toISOString(),
+          recurrence_rule: trigger.recurrenceRule,
+          timezone: trigger.timezone,
+          misfire_policy: trigger.misfirePolicy,
+          next_fire_times: preview?.data?.nextFireTimes.map(date => formatOccurrence(date, trigger.timezone)),
           message: 'Trigger updated successfully'
         });
       }
@@ -265,8 +400,102 @@ export class DeleteTriggerTool extends BaseTool {
   }
 }
 
+/**
+ * Tool for inspecting a user's trigger run history.
+ */
+export class ListTriggerRunsTool extends BaseTool {
+  getDefinition(): ToolDefinition {
+    return {
+      name: 'list_trigger_runs',
+      description: 'List recent runs of the user\'s triggers, including whether each run succeeded, failed or was skipped, when it ran, and the agent output. Use this to answer questions like "did my daily summary run this morning?".',
+      input_schema: {
+        type: 'object',
+        properties: {
+          trigger_id: {
+            type: 'number',
+            description: 'Only show runs for this trigger.'
+          },
+          status: {
+            type: 'string',
+            enum: ['pending', 'running', 'succeeded', 'failed', 'skipped'],
+            description: 'Only show runs with this status.'
+          },
+          since: {
+            type: 'string',
+            description: 'Only show runs scheduled after this time. Accepts ISO 8601 or natural language (e.g., "this morning", "yesterday").'
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of runs to return (default 10, max 50).'
+          }
+        },
+        required: []
+      }
+    };
+  }
+
+  async execute(
+    input: { trigger_id?: number; status?: string; since?: string; limit?: number },
+    context: ToolExecutionContext
+  ): Promise<ToolResult> {
+    try {
+      const { trigger_id, status, since, limit = 10 } = input;
+
+      let sinceDate: Date | undefined;
+      if (since) {
+        const parsed = parseStartTime(since, DEFAULT_TIMEZONE);
+        if (!parsed) {
+          return this.error(`Could not parse time: "${since}"`);
+        }
+        sinceDate = parsed;
+      }
+
+      const triggerService = getTriggerService();
+      const result = await triggerService.getUserTriggerRuns(context.userId, {
+        triggerId: trigger_id,
+        status: status as TriggerRunStatus | undefined,
+        since: sinceDate,
+        limit: Math.min(Math.max(limit, 1), 50)
+      });
+
+      if (result.success && result.data) {
+        const runs = result.data.map(run => {
+          const timezone = run.trigger?.timezone || DEFAULT_TIMEZONE;
+          return {
+            run_id: run.id,
+            trigger_id: run.triggerId,
+            agent_name: run.agentName,
+            status: run.status,
+            scheduled_for: formatOccurrence(run.scheduledFor, timezone),
+            started_at: run.startedAt ? formatOccurrence(run.startedAt, timezone) : undefined,
+            finished_at: run.finishedAt ? formatOccurrence(run.finishedAt, timezone) : undefined,
+            missed: run.metadata?.misfire || undefined,
+            manual: run.metadata?.manual || undefined,
+            output_preview: run.output
+              ? run.output.substring(0, 200) + (run.output.length > 200 ? '...' : '')
+              : undefined,
+            error: run.error
+          };
+        });
+
+        return this.success({
+          count: runs.length,
+          runs,
+          message: runs.length > 0 ? `Found ${runs.length} trigger run(s)` : 'No trigger runs found'
+        });
+      }
+
+      return this.error(result.error || 'Failed to list trigger runs');
+    } catch (error: any) {
+      logError('ListTriggerRunsTool execution failed', error);
+      return this.error(error.message || 'Failed to list trigger runs');
+    }
+  }
+}
+
 // Export tool instances
 export const createTriggerTool = new CreateTriggerTool();
 export const listTriggersTool = new ListTriggersTool();
 export const updateTriggerTool = new UpdateTriggerTool();
 export const deleteTriggerTool = new DeleteTriggerTool();
+export const listTriggerRunsTool = new ListTriggerRunsTool();
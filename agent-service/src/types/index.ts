@@ -43,11 +43,12 @@ export interface Message {
 }
 
 export interface MessageMetadata {
-  source?: 'bluebubbles' | 'gmail' | 'system' | 'dual-agent';
+  source?: 'bluebubbles' | 'gmail' | 'agentmail' | 'system' | 'dual-agent';
   originalMessageId?: string;
   attachments?: Attachment[] | BlueBubblesAttachment[];
   isGroupChat?: boolean;
   chatParticipants?: string[];
+  senderHandle?: string;
   [key: string]: any;
 }
 
@@ -80,23 +81,55 @@ export interface Reminder {
   content: string;
   remindAt: Date;
   channel: 'imessage' | 'email' | 'both';
-  status: 'pending' | 'sent' | 'snoozed' | 'cancelled';
+  status: ReminderStatus;
   metadata: ReminderMetadata;
   createdAt: Date;
   updatedAt: Date;
   completedAt?: Date;
 }
 
+export type ReminderStatus = 'pending' | 'sent' | 'snoozed' | 'completed' | 'cancelled';
+
 export interface ReminderMetadata {
   originalMessage?: string;
   snoozeCount?: number;
   lastSnoozeAt?: Date;
   priority?: 'low' | 'medium' | 'high';
   recurring?: boolean;
+  /** Normalized RRULE body or cron expression */
   recurringPattern?: string;
+  /** ISO start of the recurring series */
+  recurrenceAnchor?: string;
+  lastSentAt?: string;
+  sentCount?: number;
+  lastCompletedAt?: string;
+  delivery?: ReminderDeliveryRecord;
+  /**
+   * Channel filled in from the user's preference when none was requested.
+   * While `channel` still matches it, delivery follows their current preference.
+   */
+  channelFromPreference?: 'imessage' | 'email' | 'both';
   [key: string]: any;
 }
 
+export type ReminderDeliveryChannel = 'imessage' | 'email';
+
+export interface ReminderChannelStatus {
+  status: 'sent' | 'failed' | 'skipped';
+  attempts: number;
+  lastAttemptAt: string;
+  sentAt?: string;
+  lastError?: string;
+  /** True when this channel was only tried because the requested ones failed */
+  escalation?: boolean;
+}
+
+export interface ReminderDeliveryRecord {
+  channels: Partial<Record<ReminderDeliveryChannel, ReminderChannelStatus>>;
+  escalatedTo?: ReminderDeliveryChannel;
+  deliveredAt?: string;
+}
+
 // BlueBubbles specific types
 export interface BlueBubblesMessage {
   guid: string;
@@ -217,6 +250,98 @@ export interface AppConfig {
   messaging: MessagingConfig;
   agents: AgentsConfig;
   agentmail: AgentMailConfig;
+  transcription: TranscriptionConfig;
+  triggers: TriggersConfig;
+  reminders: RemindersConfig;
+  retention: RetentionConfig;
+  embeddings: EmbeddingsConfig;
+  llm: LLMConfig;
+  usage: UsageConfig;
+  google: GoogleConfig;
+}
+
+/** Default budgets apply to every user without an override; 0 is unlimited */
+export interface UsageConfig {
+  trackingEnabled: boolean;
+  dailyTokenBudget: number;
+  monthlyCostBudgetUsd: number;
+  /** Response token cap while a user is over budget */
+  degradedMaxTokens: number;
+  budgetCacheMs: number;
+}
+
+export type LLMProviderName = 'anthropic' | 'openai' | 'local';
+
+/** Which part of the system a model call is made for */
+export type LLMRole = 'interaction' | 'execution' | 'summarization';
+
+export interface LLMRouteConfig {
+  provider: LLMProviderName;
+  /** Falls back to ANTHROPIC_MODEL for the anthropic provider */
+  model?: string;
+}
+
+export interface LLMEndpointConfig {
+  baseUrl: string;
+  apiKey?: string;
+}
+
+export interface LLMConfig {
+  openai: LLMEndpointConfig;
+  local: LLMEndpointConfig;
+  timeoutMs: number;
+  routes: Record<LLMRole, LLMRouteConfig>;
+}
+
+export interface EmbeddingsConfig {
+  provider: 'local' | 'http';
+  dimensions: number;
+  httpUrl: string;
+  httpApiKey?: string;
+  httpModel: string;
+  timeoutMs: number;
+  backfillEnabled: boolean;
+  backfillIntervalMs: number;
+  backfillBatchSize: number;
+  minSimilarity: number;
+}
+
+export interface TriggersConfig {
+  pollIntervalMs: number;
+  misfireGraceMs: number;
+  maxCatchUpRuns: number;
+  runLeaseMs: number;
+}
+
+/** Retention windows in days; 0 keeps rows forever */
+export interface RetentionConfig {
+  purgeIntervalMs: number;
+  messagesDays: number;
+  executionLogsDays: number;
+  workingMemoryDays: number;
+  triggerRunsDays: number;
+  executionBatchesDays: number;
+  deletionConfirmMinutes: number;
+}
+
+export interface RemindersConfig {
+  deliveryMaxAttempts: number;
+  deliveryRetryDelayMs: number;
+  escalationEnabled: boolean;
+}
+
+export interface TranscriptionConfig {
+  enabled: boolean;
+  provider: 'local' | 'http';
+  ffmpegPath: string;
+  whisperBinaryPath: string;
+  whisperModelPath?: string;
+  httpUrl: string;
+  httpApiKey?: string;
+  httpModel: string;
+  language?: string;
+  timeoutMs: number;
+  maxBytes: number;
 }
 
 export interface AgentMailConfig {
@@ -224,12 +349,31 @@ export interface AgentMailConfig {
   enabled: boolean;
   defaultDomain: string;
   webhookSecret?: string;
+  summarizeInbound: boolean;
+  triageEnabled: boolean;
+}
+
+export interface GoogleConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  calendarEnabled: boolean;
+  /** Override for the Calendar API root, e.g. a local fake server */
+  apiBaseUrl?: string;
+  /** Override for the OAuth authorize/token endpoints base, e.g. a local fake server */
+  oauthBaseUrl?: string;
+  calendarId: string;
+  syncIntervalMs: number;
+  initialSyncDays: number;
 }
 
 export interface AgentsConfig {
   enableDualAgent: boolean;
   executionTimeoutSeconds: number;
   maxToolIterations: number;
+  resumeInterruptedTasks: boolean;
+  recoveryMaxAgeMinutes: number;
+  maxRecoveryAttempts: number;
 }
 
 export interface DatabaseConfig {
@@ -257,6 +401,12 @@ export interface MessagingConfig {
   typingIndicatorDurationMs: number;
   maxResponseBurst: number;
   responseBurstDelayMs: number;
+  groupChatEnabledByDefault: boolean;
+  assistantNames: string[];
+  /** Send interaction agent bubbles while the model is still writing them */
+  streamBubbles: boolean;
+  /** Split an unfinished bubble at a sentence end once it is this long */
+  streamSentenceFlushChars: number;
 }
 
 export interface AnthropicConfig {
@@ -288,4 +438,10 @@ export interface SecurityConfig {
   encryptionKey: string;
   sessionSecret: string;
   rateLimitPerMinute?: number;
+  adminApiToken?: string;
+  ownerHandles: string[];
+  /** 'open' admits any new handle; 'invite' only admits handles with a pending invite */
+  accessMode: 'open' | 'invite';
+  /** Role given to new handles admitted in open mode */
+  defaultRole: 'member' | 'guest';
 }
@@ -11,6 +11,7 @@ export type ActionType =
   | 'create_reminder'
   | 'list_reminders'
   | 'create_trigger'
+  | 'check_calendar'
   | 'spawn_agent'
   | 'generic_tool';
 
@@ -45,6 +46,11 @@ const ACTION_ACKNOWLEDGMENTS: Record<ActionType, string[]> = {
     "creating that automation",
     "got it, I'll handle that",
   ],
+  check_calendar: [
+    "checking your calendar",
+    "let me look at your calendar",
+    "pulling up your schedule",
+  ],
   spawn_agent: [
     "working on that",
     "let me handle that",
@@ -76,13 +82,21 @@ export function detectActionType(toolName: string): ActionType {
     'web_search': 'web_search',
     'send_email': 'send_email',
     'reply_email': 'send_email',
+    'forward_email': 'send_email',
     'create_reminder': 'create_reminder',
     'list_reminders': 'list_reminders',
     'cancel_reminder': 'list_reminders',
+    'snooze_reminder': 'list_reminders',
+    'complete_reminder': 'list_reminders',
+    'update_reminder': 'create_reminder',
     'create_trigger': 'create_trigger',
     'list_triggers': 'create_trigger',
     'update_trigger': 'create_trigger',
     'delete_trigger': 'create_trigger',
+    'list_trigger_runs': 'create_trigger',
+    'list_events': 'check_calendar',
+    'create_event': 'check_calendar',
+    'find_free_time': 'check_calendar',
     'send_message_to_agent': 'spawn_agent',
   };
   return toolToAction[toolName] || 'generic_tool';
@@ -0,0 +1,40 @@
+/**
+ * Data Deletion Utilities
+ *
+ * Recognizes the iMessage "delete my data" flow: a request, then an explicit
+ * confirmation phrase (or a cancel) within a short window.
+ */
+
+export type DataDeletionCommand = 'request' | 'confirm' | 'cancel';
+
+export const DATA_DELETION_CONFIRM_PHRASE = 'CONFIRM DELETE';
+
+const REQUEST_PATTERNS = [
+  /^(?:please\s+)?(?:delete|erase|wipe|remove)\s+(?:all\s+(?:of\s+)?)?my\s+(?:data|info(?:rmation)?|history)(?:\s+please)?[.!\s]*$/i,
+  /^(?:please\s+)?forget\s+(?:me|everything\s+about\s+me)(?:\s+please)?[.!\s]*$/i
+];
+
+const CONFIRM_PATTERN = /^confirm\s+delete[.!\s]*$/i;
+
+const CANCEL_PATTERN = /^(?:cancel|never\s*mind|keep\s+my\s+data|don'?t\s+delete(?:\s+(?:it|anything))?)[.!\s]*$/i;
+
+/**
+ * Parse a whole message as a data deletion command. Cancel is only
+ * meaningful while a request is pending, so callers check that themselves.
+ */
+export function parseDataDeletionCommand(text: string | null | undefined): DataDeletionCommand | null {
+  const trimmed = (text || '').trim();
+  if (!trimmed) {
+    return null;
+  }
+  if (CONFIRM_PATTERN.test(trimmed)) {
+    return 'confirm';
+  }
+  if (REQUEST_PATTERNS.some(pattern => pattern.test(trimmed))) {
+    return 'request';
+  }
+  if (CANCEL_PATTERN.test(trimmed)) {
+    return 'cancel';
+  }
+  return null;
+}
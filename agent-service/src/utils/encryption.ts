@@ -0,0 +1,45 @@
+/**
+ * Encryption Utilities
+ *
+ * AES-256-GCM helpers for secrets stored in the database (OAuth tokens).
+ * The key is derived from ENCRYPTION_KEY.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { config } from '../config';
+
+const VERSION_PREFIX = 'v1';
+const IV_LENGTH = 12;
+
+function getKey(): Buffer {
+  return createHash('sha256').update(config.security.encryptionKey).digest();
+}
+
+/**
+ * Encrypt a secret into `v1:<iv>:<tag>:<ciphertext>` (base64 parts).
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [VERSION_PREFIX, iv.toString('base64'), tag.toString('base64'), encrypted.toString('base64')].join(':');
+}
+
+/**
+ * Decrypt a value produced by encryptSecret. Values without the version
+ * prefix are treated as legacy plaintext and returned unchanged.
+ */
+export function decryptSecret(value: string): string {
+  const parts = value.split(':');
+  if (parts.length !== 4 || parts[0] !== VERSION_PREFIX) {
+    return value;
+  }
+
+  const [, iv, tag, data] = parts;
+  const decipher = createDecipheriv('aes-256-gcm', getKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,63 @@
+/**
+ * Group Chat Utilities
+ *
+ * Helpers for deciding when Grace should speak up in iMessage group chats.
+ */
+
+export type GroupModeCommand = 'enable' | 'disable';
+
+const ENABLE_WORDS = ['enable', 'on', 'join', 'unmute', 'start'];
+const DISABLE_WORDS = ['disable', 'off', 'leave', 'mute', 'stop'];
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const namePattern = (names: string[]): string =>
+  names
+    .map(name => name.trim())
+    .filter(name => name.length > 0)
+    .map(escapeRegExp)
+    .join('|');
+
+/**
+ * BlueBubbles group chat GUIDs use `;+;` (e.g. `iMessage;+;chat123`),
+ * one-on-one chats use `;-;` (e.g. `iMessage;-;+15555550100`).
+ */
+export function isGroupChatGuid(chatGuid?: string | null): boolean {
+  return typeof chatGuid === 'string' && chatGuid.includes(';+;');
+}
+
+/**
+ * True when the text mentions one of the assistant's names as a whole word,
+ * with or without a leading `@` ("Grace, what's up", "hey @grace", "thanks grace!").
+ */
+export function isAssistantMentioned(text: string | null | undefined, names: string[]): boolean {
+  const pattern = namePattern(names);
+  if (!text || !pattern) {
+    return false;
+  }
+
+  return new RegExp(`(^|[^\\p{L}\\p{N}_])@?(${pattern})(?![\\p{L}\\p{N}_])`, 'iu').test(text);
+}
+
+/**
+ * Parse "Grace off" / "@Grace enable" style commands that toggle the assistant for a group chat.
+ */
+export function parseGroupModeCommand(text: string | null | undefined, names: string[]): GroupModeCommand | null {
+  const pattern = namePattern(names);
+  if (!text || !pattern) {
+    return null;
+  }
+
+  const match = text
+    .trim()
+    .match(new RegExp(`^@?(?:${pattern})[,:]?\\s+(\\w+)\\s*[.!]?$`, 'iu'));
+
+  if (!match) {
+    return null;
+  }
+
+  const word = match[1].toLowerCase();
+  if (ENABLE_WORDS.includes(word)) return 'enable';
+  if (DISABLE_WORDS.includes(word)) return 'disable';
+  return null;
+}
@@ -0,0 +1,399 @@
+import { RRule, Options as RRuleOptions } from 'rrule';
+import { DateTime, IANAZone } from 'luxon';
+import { parseExpression } from 'cron-parser';
+
+/**
+ * Recurrence engine shared by triggers (and anything else that needs schedules).
+ *
+ * Accepts RFC 5545 RRULEs ("FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;BYHOUR=9;BYMINUTE=0"),
+ * 5-field cron expressions ("0 9 * * 1-5") and the legacy shorthands the trigger
+ * tools used to accept ("daily", "every 2 hours", "daily at 9am").
+ *
+ * Occurrences are expanded in wall-clock ("floating") time for the rule's IANA
+ * timezone and converted back to real instants afterwards, so "9am" stays 9am
+ * across DST changes. Times that do not exist (spring-forward gap) are shifted
+ * forward by the length of the gap.
+ */
+
+export type RecurrenceKind = 'rrule' | 'cron';
+
+export interface NormalizedRecurrence {
+  kind: RecurrenceKind;
+  rule: string;
+}
+
+export interface OccurrenceQuery {
+  timezone: string;
+  /** Start of the series; RRULE COUNT/INTERVAL and default times are relative to this. */
+  anchor: Date;
+  /** Only return occurrences after this instant. */
+  after: Date;
+  /** Include an occurrence exactly at `after`. */
+  inclusive?: boolean;
+}
+
+export const DEFAULT_TIMEZONE = 'America/Chicago';
+
+const MAX_LOOKAHEAD_ITERATIONS = 50;
+
+const CRON_FIELD_PATTERN = /^[\d*?/,\-A-Za-z#LW]+$/;
+
+const WEEKDAYS = 'MO,TU,WE,TH,FR';
+const WEEKENDS = 'SA,SU';
+
+const DAY_NAMES: Record<string, string> = {
+  monday: 'MO',
+  tuesday: 'TU',
+  wednesday: 'WE',
+  thursday: 'TH',
+  friday: 'FR',
+  saturday: 'SA',
+  sunday: 'SU'
+};
+
+export const isValidTimezone = (timezone: string): boolean => IANAZone.isValidZone(timezone);
+
+const isCronExpression = (rule: string): boolean => {
+  const fields = rule.trim().split(/\s+/);
+  return fields.length === 5 && fields.every(field => CRON_FIELD_PATTERN.test(field));
+};
+
+/**
+ * Translate the legacy shorthand rules into RRULE bodies.
+ */
+const legacyToRRule = (input: string): string | null => {
+  const rule = input.toLowerCase().trim();
+
+  const timeMatch = rule.match(/\bat\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\b/);
+  let timeParts = '';
+  if (timeMatch) {
+    let hour = parseInt(timeMatch[1], 10);
+    const minute = timeMatch[2] ? parseInt(timeMatch[2], 10) : 0;
+    const meridiem = timeMatch[3];
+    if (meridiem === 'pm' && hour < 12) hour += 12;
+    if (meridiem === 'am' && hour === 12) hour = 0;
+    if (hour > 23 || minute > 59) {
+      return null;
+    }
+    timeParts = `;BYHOUR=${hour};BYMINUTE=${minute};BYSECOND=0`;
+  }
+
+  const base = rule.replace(/\bat\s+.*$/, '').trim();
+
+  const simple: Record<string, string> = {
+    hourly: 'FREQ=HOURLY',
+    daily: 'FREQ=DAILY',
+    'every day': 'FREQ=DAILY',
+    weekly: 'FREQ=WEEKLY',
+    monthly: 'FREQ=MONTHLY',
+    yearly: 'FREQ=YEARLY',
+    weekdays: `FREQ=WEEKLY;BYDAY=${WEEKDAYS}`,
+    'every weekday': `FREQ=WEEKLY;BYDAY=${WEEKDAYS}`,
+    weekends: `FREQ=WEEKLY;BYDAY=${WEEKENDS}`,
+    'every weekend': `FREQ=WEEKLY;BYDAY=${WEEKENDS}`
+  };
+
+  if (simple[base]) {
+    return `${simple[base]}${timeParts}`;
+  }
+
+  const intervalMatch = base.match(/^every\s+(\d+)\s+(minute|hour|day|week|month)s?$/);
+  if (intervalMatch) {
+    const amount = parseInt(intervalMatch[1], 10);
+    if (amount < 1) {
+      return null;
+    }
+    const freq = {
+      minute: 'MINUTELY',
+      hour: 'HOURLY',
+      day: 'DAILY',
+      week: 'WEEKLY',
+      month: 'MONTHLY'
+    }[intervalMatch[2]];
+    return `FREQ=${freq};INTERVAL=${amount}${timeParts}`;
+  }
+
+  const dayMatch = base.match(/^every\s+(monday|tuesday|wednesday|thursday|friday|saturday|sunday)$/);
+  if (dayMatch) {
+    return `FREQ=WEEKLY;BYDAY=${DAY_NAMES[dayMatch[1]]}${timeParts}`;
+  }
+
+  return null;
+};
+
+/**
+ * Pull the RRULE body out of an RFC 5545 snippet. DTSTART lines are ignored:
+ * the anchor always comes from the trigger's start time.
+ */
+const extractRRuleBody = (input: string): string | null => {
+  const lines = input
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean);
+
+  const ruleLine = lines.find(line => /^RRULE:/i.test(line) || /^FREQ=/i.test(line));
+  if (!ruleLine) {
+    return null;
+  }
+
+  return ruleLine.replace(/^RRULE:/i, '').toUpperCase();
+};
+
+const parseRRuleOptions = (body: string): Partial<RRuleOptions> => {
+  const options = RRule.parseString(body);
+
+  if (options.freq === undefined || options.freq === null) {
+    throw new Error('RRULE must include FREQ');
+  }
+
+  if (options.freq === RRule.SECONDLY) {
+    throw new Error('FREQ=SECONDLY is not supported');
+  }
+
+  return options;
+};
+
+/**
+ * Normalize any supported recurrence syntax into a canonical RRULE body or
+ * cron expression. Throws with a user-facing message when the rule is invalid.
+ */
+export const normalizeRecurrenceRule = (input: string): NormalizedRecurrence => {
+  const trimmed = (input || '').trim();
+  if (!trimmed) {
+    throw new Error('Recurrence rule is empty');
+  }
+
+  if (isCronExpression(trimmed)) {
+    try {
+      parseExpression(trimmed, { utc: true });
+    } catch (error: any) {
+      throw new Error(`Invalid cron expression: ${error.message}`);
+    }
+    return { kind: 'cron', rule: trimmed.split(/\s+/).join(' ') };
+  }
+
+  const body = extractRRuleBody(trimmed) ?? legacyToRRule(trimmed);
+  if (!body) {
+    throw new Error(
+      `Unrecognized recurrence rule "${trimmed}". Use an RRULE (e.g. "FREQ=WEEKLY;BYDAY=MO;BYHOUR=9;BYMINUTE=0") or a 5-field cron expression (e.g. "0 9 * * 1-5").`
+    );
+  }
+
+  try {
+    parseRRuleOptions(body);
+  } catch (error: any) {
+    throw new Error(`Invalid RRULE: ${error.message}`);
+  }
+
+  return { kind: 'rrule', rule: body };
+};
+
+/**
+ * Express an instant as the same wall-clock time in UTC ("floating" time).
+ */
+const toFloating = (date: Date, timezone: string): Date => {
+  const local = DateTime.fromJSDate(date, { zone: timezone });
+  return new Date(Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second));
+};
+
+/**
+ * Interpret a floating wall-clock time in `timezone` and return the real instant.
+ */
+const fromFloating = (floating: Date, timezone: string): Date => {
+  return DateTime.fromObject(
+    {
+      year: floating.getUTCFullYear(),
+      month: floating.getUTCMonth() + 1,
+      day: floating.getUTCDate(),
+      hour: floating.getUTCHours(),
+      minute: floating.getUTCMinutes(),
+      second: floating.getUTCSeconds()
+    },
+    { zone: timezone }
+  ).toJSDate();
+};
+
+type FloatingStep = (cursor: Date, inclusive: boolean) => Date | null;
+
+interface FloatingIterator {
+  /** The first floating occurrence after the cursor (or at it, when inclusive). */
+  next: FloatingStep;
+  /** The last floating occurrence before the cursor (or at it, when inclusive). */
+  previous: FloatingStep;
+}
+
+/**
+ * Steps through floating occurrences of a rule in either direction.
+ */
+const createFloatingIterator = (
+  recurrence: NormalizedRecurrence,
+  anchor: Date,
+  timezone: string
+): FloatingIterator => {
+  const floatingAnchor = toFloating(anchor, timezone);
+
+  if (recurrence.kind === 'cron') {
+    return {
+      next: (cursor, inclusive) => {
+        const start = cursor < floatingAnchor ? floatingAnchor : cursor;
+        const shouldInclude = inclusive || cursor < floatingAnchor;
+        const expression = parseExpression(recurrence.rule, {
+          currentDate: new Date(start.getTime() - (shouldInclude ? 1000 : 0)),
+          utc: true
+        });
+        try {
+          return expression.next().toDate();
+        } catch {
+          return null;
+        }
+      },
+      previous: (cursor, inclusive) => {
+        const expression = parseExpression(recurrence.rule, {
+          currentDate: new Date(cursor.getTime() + (inclusive ? 1000 : 0)),
+          utc: true
+        });
+        try {
+          const previous = expression.prev().toDate();
+          return previous < floatingAnchor ? null : previous;
+        } catch {
+          return null;
+        }
+      }
+    };
+  }
+
+  const options = parseRRuleOptions(recurrence.rule);
+
+  // UNTIL written in UTC ("...Z") refers to a real instant; shift it into floating time.
+  if (options.until && /UNTIL=\d{8}(T\d{6})?Z/.test(recurrence.rule)) {
+    options.until = toFloating(options.until, timezone);
+  }
+
+  const rrule = new RRule({
+    ...options,
+    tzid: null,
+    dtstart: floatingAnchor
+  });
+
+  return {
+    next: (cursor, inclusive) => rrule.after(cursor, inclusive),
+    previous: (cursor, inclusive) => rrule.before(cursor, inclusive)
+  };
+};
+
+/**
+ * Compute the next occurrence for a rule, or undefined when the series has ended.
+ */
+export const getNextOccurrence = (rule: string, query: OccurrenceQuery): Date | undefined => {
+  return getUpcomingOccurrences(rule, query, 1)[0];
+};
+
+/**
+ * Compute up to `count` upcoming occurrences for a rule.
+ */
+export const getUpcomingOccurrences = (rule: string, query: OccurrenceQuery, count: number): Date[] => {
+  const { timezone, anchor, after, inclusive = false } = query;
+
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`Unknown timezone "${timezone}"`);
+  }
+
+  const recurrence = normalizeRecurrenceRule(rule);
+  const { next: nextFloating } = createFloatingIterator(recurrence, anchor, timezone);
+
+  const results: Date[] = [];
+  let cursor = toFloating(after, timezone);
+  let includeCursor = inclusive;
+  let lastInstant = inclusive ? after.getTime() - 1 : after.getTime();
+  let iterations = 0;
+
+  while (results.length < count && iterations < count + MAX_LOOKAHEAD_ITERATIONS) {
+    iterations++;
+    const floating = nextFloating(cursor, includeCursor);
+    if (!floating) {
+      break;
+    }
+
+    const instant = fromFloating(floating, timezone);
+
+    // Wall-clock times inside a DST gap collapse onto the same instant; skip repeats.
+    if (instant.getTime() > lastInstant) {
+      results.push(instant);
+      lastInstant = instant.getTime();
+    }
+
+    cursor = floating;
+    includeCursor = false;
+  }
+
+  return results;
+};
+
+/**
+ * Compute up to `count` of the latest occurrences after `query.after` and at or
+ * before `before`, oldest first. Walks backwards from `before`, so a long gap
+ * costs no more than a short one.
+ */
+export const getRecentOccurrences = (rule: string, query: OccurrenceQuery, before: Date, count: number): Date[] => {
+  const { timezone, anchor, after, inclusive = false } = query;
+
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`Unknown timezone "${timezone}"`);
+  }
+
+  const recurrence = normalizeRecurrenceRule(rule);
+  const { previous: previousFloating } = createFloatingIterator(recurrence, anchor, timezone);
+
+  const earliest = inclusive ? after.getTime() : after.getTime() + 1;
+  const results: Date[] = [];
+  let cursor = toFloating(before, timezone);
+  let includeCursor = true;
+  let lastInstant = before.getTime() + 1;
+  let iterations = 0;
+
+  while (results.length < count && iterations < count + MAX_LOOKAHEAD_ITERATIONS) {
+    iterations++;
+    const floating = previousFloating(cursor, includeCursor);
+    if (!floating) {
+      break;
+    }
+
+    const instant = fromFloating(floating, timezone);
+    if (instant.getTime() < earliest) {
+      break;
+    }
+
+    // Wall-clock times inside a DST gap collapse onto the same instant; skip repeats.
+    if (instant.getTime() < lastInstant) {
+      results.push(instant);
+      lastInstant = instant.getTime();
+    }
+
+    cursor = floating;
+    includeCursor = false;
+  }
+
+  return results.reverse();
+};
+
+/**
+ * Format an occurrence for display in the rule's timezone.
+ */
+export const formatOccurrence = (date: Date, timezone: string): string => {
+  return DateTime.fromJSDate(date, { zone: timezone }).toISO() || date.toISOString();
+};
+
+/**
+ * UTC offset of `timezone` at the given instant, in minutes.
+ */
+export const getTimezoneOffsetMinutes = (timezone: string, at: Date = new Date()): number => {
+  return DateTime.fromJSDate(at, { zone: timezone }).offset;
+};
+
+/**
+ * Parse an ISO 8601 timestamp, treating values without an offset as local to `timezone`.
+ */
+export const parseIsoInTimezone = (value: string, timezone: string): Date | null => {
+  const parsed = DateTime.fromISO(value.trim(), { zone: timezone });
+  return parsed.isValid ? parsed.toJSDate() : null;
+};
@@ -0,0 +1,93 @@
+/**
+ * Reminder Reply Utilities
+ *
+ * Recognizes short iMessage replies to a delivered reminder ("done",
+ * "snooze 10m", a 👍 tapback on the reminder bubble) so they can be applied
+ * without a round trip through the model.
+ */
+
+import * as chrono from 'chrono-node';
+
+export const REMINDER_PREFIX = '🔔 Reminder: ';
+
+export const DEFAULT_SNOOZE_MS = 15 * 60 * 1000;
+
+export type ReminderReply =
+  | { action: 'complete'; quotedText?: string }
+  | { action: 'snooze'; durationMs?: number; until?: Date; quotedText?: string };
+
+const COMPLETE_PATTERN = /^(?:(?:it'?s |i'?m |all )?done|did it|finished|completed?|mark (?:it|that|as) (?:done|complete)|✅|✔️|☑️|👍)[.!\s]*$/iu;
+
+const SNOOZE_PATTERN = /^snooze(?:\s+(?:it|that))?(?:\s+(?:for\s+)?(\d+)\s*(s|secs?|seconds?|m|mins?|minutes?|h|hrs?|hours?|d|days?))?[.!\s]*$/i;
+
+const SNOOZE_UNTIL_PATTERN = /^snooze(?:\s+(?:it|that))?\s+(?:until|till|til|to)\s+(.+)$/i;
+
+// Tapbacks arrive as text, e.g. `Liked “🔔 Reminder: call mom”` or `Reacted 👍 to “…”`
+const TAPBACK_PATTERN = /^(Liked|Loved|Disliked|Laughed at|Emphasized|Questioned)\s+["“”](.*)["“”]\s*$/isu;
+const EMOJI_TAPBACK_PATTERN = /^Reacted\s+(.+?)\s+to\s+["“”](.*)["“”]\s*$/isu;
+
+const COMPLETING_TAPBACKS = ['liked', 'loved'];
+const COMPLETING_EMOJI = ['👍', '✅', '✔️', '☑️'];
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parse a reply into a reminder action. Only whole-message commands match,
+ * so "done with work, what's for dinner?" falls through to the model.
+ */
+export function parseReminderReply(text: string | null | undefined, now: Date = new Date()): ReminderReply | null {
+  const trimmed = (text || '').trim();
+  if (!trimmed || trimmed.length > 200) {
+    return null;
+  }
+
+  const tapback = TAPBACK_PATTERN.exec(trimmed);
+  if (tapback) {
+    return COMPLETING_TAPBACKS.includes(tapback[1].toLowerCase())
+      ? { action: 'complete', quotedText: tapback[2] }
+      : null;
+  }
+
+  const emojiTapback = EMOJI_TAPBACK_PATTERN.exec(trimmed);
+  if (emojiTapback) {
+    return COMPLETING_EMOJI.some(emoji => emojiTapback[1].startsWith(emoji))
+      ? { action: 'complete', quotedText: emojiTapback[2] }
+      : null;
+  }
+
+  if (COMPLETE_PATTERN.test(trimmed)) {
+    return { action: 'complete' };
+  }
+
+  const snooze = SNOOZE_PATTERN.exec(trimmed);
+  if (snooze) {
+    if (!snooze[1]) {
+      return { action: 'snooze' };
+    }
+    const unit = snooze[2].toLowerCase().startsWith('s') ? 's' : snooze[2][0].toLowerCase();
+    return { action: 'snooze', durationMs: parseInt(snooze[1], 10) * UNIT_MS[unit] };
+  }
+
+  const snoozeUntil = SNOOZE_UNTIL_PATTERN.exec(trimmed);
+  if (snoozeUntil) {
+    const until = chrono.parseDate(snoozeUntil[1], now, { forwardDate: true });
+    return until && until > now ? { action: 'snooze', until } : null;
+  }
+
+  return null;
+}
+
+/**
+ * True when a tapback's quoted text refers to the given reminder bubble.
+ * iMessage truncates long quotes, so compare on the shared prefix.
+ */
+export function quoteMatchesReminder(quotedText: string, content: string): boolean {
+  const quote = quotedText.replace(/…$/, '').trim();
+  const bubble = `${REMINDER_PREFIX}${content}`.trim();
+  return quote.length > 0 && (bubble.startsWith(quote) || quote.startsWith(bubble));
+}
@@ -0,0 +1,152 @@
+import { recoverInterruptedExecutions } from '../../src/agents/ExecutionRecovery';
+import { ExecutionBatchStore } from '../../src/agents/ExecutionBatchStore';
+import { ExecutionBatch } from '../../src/database/entities/ExecutionBatch';
+import { ExecutionTask } from '../../src/database/entities/ExecutionTask';
+import { InteractionAgentRuntime } from '../../src/agents/InteractionAgentRuntime';
+
+const store = {
+  findUnfinishedBatches: jest.fn(),
+  claimBatch: jest.fn(),
+  markTaskInterrupted: jest.fn()
+};
+const adapter = { sendToUser: jest.fn() };
+const resumeBatch = jest.fn();
+
+jest.mock('../../src/utils/logger');
+jest.mock('../../src/database/connection', () => ({
+  AppDataSource: { getRepository: jest.fn(() => ({ update: jest.fn() })) }
+}));
+jest.mock('../../src/agents/ExecutionBatchStore', () => ({
+  ...jest.requireActual('../../src/agents/ExecutionBatchStore'),
+  getExecutionBatchStore: () => store
+}));
+jest.mock('../../src/agents/iMessageAdapter', () => ({ getIMessageAdapter: () => adapter }));
+jest.mock('../../src/agents/InteractionAgentRuntime', () => ({
+  InteractionAgentRuntime: jest.fn().mockImplementation(() => ({ resumeBatch }))
+}));
+
+const buildTask = (overrides: Partial<ExecutionTask> = {}): ExecutionTask => Object.assign(new ExecutionTask(), {
+  id: 'task-1',
+  batchId: 'batch-1',
+  agentName: 'email',
+  instructions: 'Find the flight confirmation',
+  status: 'pending',
+  attempts: 1,
+  progress: [],
+  toolsUsed: [],
+  ...overrides
+});
+
+const buildBatch = (tasks: ExecutionTask[], overrides: Partial<ExecutionBatch> = {}): ExecutionBatch =>
+  Object.assign(new ExecutionBatch(), {
+    id: 'batch-1',
+    userId: 'user-1',
+    conversationId: 'conversation-1',
+    chatGuid: 'iMessage;-;+15555550100',
+    status: 'running',
+    state: { userHandle: '+15555550100', isAdmin: false, conversationHistory: [] },
+    recoveryAttempts: 0,
+    createdAt: new Date(),
+    tasks,
+    ...overrides
+  });
+
+describe('recoverInterruptedExecutions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store.claimBatch.mockResolvedValue(true);
+    resumeBatch.mockResolvedValue([]);
+  });
+
+  it('resumes tasks that never called a tool and keeps the batch running', async () => {
+    const task = buildTask();
+    const batch = buildBatch([task]);
+    store.findUnfinishedBatches.mockResolvedValue([batch]);
+
+    await recoverInterruptedExecutions();
+
+    expect(store.claimBatch).toHaveBeenCalledWith(batch, 'running');
+    expect(InteractionAgentRuntime).toHaveBeenCalledTimes(1);
+    expect(resumeBatch).toHaveBeenCalledWith(batch, [], [task]);
+    expect(store.markTaskInterrupted).not.toHaveBeenCalled();
+    expect(adapter.sendToUser).not.toHaveBeenCalled();
+  });
+
+  it('interrupts a batch whose task already used its recovery attempts', async () => {
+    // Crashed again while being resumed: the resume bumped attempts to 2
+    const batch = buildBatch([buildTask({ attempts: 2 })], { recoveryAttempts: 1 });
+    store.findUnfinishedBatches.mockResolvedValue([batch]);
+
+    await recoverInterruptedExecutions();
+
+    expect(store.claimBatch).toHaveBeenCalledWith(batch, 'interrupted');
+    expect(store.markTaskInterrupted).toHaveBeenCalledWith('task-1');
+    expect(resumeBatch).not.toHaveBeenCalled();
+    expect(adapter.sendToUser).toHaveBeenCalledWith(expect.stringContaining('want me to try again?'), batch.chatGuid);
+  });
+
+  it('stops resuming once the batch has been claimed too many times', async () => {
+    const batch = buildBatch([buildTask()], { recoveryAttempts: 2 });
+    store.findUnfinishedBatches.mockResolvedValue([batch]);
+
+    await recoverInterruptedExecutions();
+
+    expect(store.claimBatch).toHaveBeenCalledWith(batch, 'interrupted');
+    expect(resumeBatch).not.toHaveBeenCalled();
+  });
+
+  it('never re-runs a task that already called a tool, but carries finished results', async () => {
+    const finished = buildTask({ id: 'task-0', status: 'succeeded', response: 'Flight is at 9am' });
+    const started = buildTask({
+      progress: [{ toolName: 'send_email', success: true, summary: 'sent', at: new Date().toISOString() }]
+    });
+    const batch = buildBatch([finished, started]);
+    store.findUnfinishedBatches.mockResolvedValue([batch]);
+
+    await recoverInterruptedExecutions();
+
+    expect(store.claimBatch).toHaveBeenCalledWith(batch, 'interrupted');
+    expect(store.markTaskInterrupted).toHaveBeenCalledWith('task-1');
+    const report: string = adapter.sendToUser.mock.calls[0][0];
+    expect(report).toContain('completed steps: send_email');
+    expect(report).toContain('Flight is at 9am');
+  });
+
+  it('interrupts batches older than the recovery window', async () => {
+    const batch = buildBatch([buildTask()], { createdAt: new Date(Date.now() - 2 * 60 * 60_000) });
+    store.findUnfinishedBatches.mockResolvedValue([batch]);
+
+    await recoverInterruptedExecutions();
+
+    expect(store.claimBatch).toHaveBeenCalledWith(batch, 'interrupted');
+    expect(resumeBatch).not.toHaveBeenCalled();
+  });
+
+  it('leaves batches another recovery pass already claimed', async () => {
+    store.claimBatch.mockResolvedValue(false);
+    store.findUnfinishedBatches.mockResolvedValue([buildBatch([buildTask()])]);
+
+    await recoverInterruptedExecutions();
+
+    expect(resumeBatch).not.toHaveBeenCalled();
+    expect(store.markTaskInterrupted).not.toHaveBeenCalled();
+    expect(adapter.sendToUser).not.toHaveBeenCalled();
+  });
+});
+
+describe('ExecutionBatchStore.claimBatch', () => {
+  it('claims against the recovery count so resumed batches stay findable as running', async () => {
+    const repo = { update: jest.fn().mockResolvedValue({ affected: 1 }) };
+    const batchStore = new ExecutionBatchStore();
+    batchStore['batchRepo'] = repo as any;
+
+    await expect(batchStore.claimBatch(buildBatch([], { recoveryAttempts: 1 }), 'running')).resolves.toBe(true);
+    expect(repo.update).toHaveBeenCalledWith(
+      { id: 'batch-1', status: 'running', recoveryAttempts: 1 },
+      { status: 'running', recoveryAttempts: 2 }
+    );
+
+    repo.update.mockResolvedValue({ affected: 0 });
+    await expect(batchStore.claimBatch(buildBatch([], { recoveryAttempts: 1 }), 'running')).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,148 @@
+import { EntityTarget, FindOperator, ObjectLiteral } from 'typeorm';
+import { DataRetentionService } from '../../src/services/DataRetentionService';
+import { User } from '../../src/database/entities/User';
+import { Conversation } from '../../src/database/entities/Conversation';
+import { Message } from '../../src/database/entities/Message';
+import { AccessInvite } from '../../src/database/entities/AccessInvite';
+
+jest.mock('../../src/utils/logger');
+
+type Row = Record<string, any>;
+
+/**
+ * Just enough of an EntityManager over in-memory tables to follow the
+ * deletion cascade: equality, In() and Not() filters on find/delete/update.
+ */
+class MemoryManager {
+  tables = new Map<EntityTarget<ObjectLiteral>, Row[]>();
+
+  constructor(seed: Array<[EntityTarget<ObjectLiteral>, Row[]]>) {
+    seed.forEach(([entity, rows]) => this.tables.set(entity, rows));
+  }
+
+  rows(entity: EntityTarget<ObjectLiteral>): Row[] {
+    return this.tables.get(entity) ?? [];
+  }
+
+  private matches(row: Row, where: Row): boolean {
+    return Object.entries(where).every(([key, expected]) => {
+      if (expected instanceof FindOperator) {
+        const value = expected.value;
+        if (expected.type === 'in') return (value as any[]).includes(row[key]);
+        if (expected.type === 'not') return row[key] !== value;
+      }
+      return row[key] === expected;
+    });
+  }
+
+  async find(entity: EntityTarget<ObjectLiteral>, options: { where: Row }) {
+    return this.rows(entity).filter(row => this.matches(row, options.where));
+  }
+
+  async findOne(entity: EntityTarget<ObjectLiteral>, options: { where: Row }) {
+    return (await this.find(entity, options))[0] ?? null;
+  }
+
+  async delete(entity: EntityTarget<ObjectLiteral>, where: Row) {
+    const rows = this.rows(entity);
+    const kept = rows.filter(row => !this.matches(row, where));
+    this.tables.set(entity, kept);
+    return { affected: rows.length - kept.length };
+  }
+
+  async update(entity: EntityTarget<ObjectLiteral>, where: Row, changes: Row) {
+    const rows = this.rows(entity).filter(row => this.matches(row, where));
+    rows.forEach(row => Object.assign(row, changes));
+    return { affected: rows.length };
+  }
+}
+
+const leaving = { id: 'user-1', phoneNumber: '+15555550100', email: 'leaving@example.com' };
+
+const removeUserRows = (manager: MemoryManager, user: Partial<User> = leaving) =>
+  new DataRetentionService()['removeUserRows'](manager as any, user as User);
+
+describe('DataRetentionService.removeUserRows', () => {
+  it('removes the user and their one-on-one conversations', async () => {
+    const manager = new MemoryManager([
+      [User, [{ ...leaving }, { id: 'user-2' }]],
+      [Conversation, [{ id: 'direct', userId: 'user-1', metadata: {} }]],
+      [Message, [
+        { id: 'm1', conversationId: 'direct', userId: 'user-1' },
+        { id: 'm2', conversationId: 'direct', userId: 'user-1' }
+      ]]
+    ]);
+
+    const report = await removeUserRows(manager);
+
+    expect(manager.rows(User).map(row => row.id)).toEqual(['user-2']);
+    expect(manager.rows(Conversation)).toHaveLength(0);
+    expect(manager.rows(Message)).toHaveLength(0);
+    expect(report).toMatchObject({ users: 1, conversations: 1, messages: 2 });
+  });
+
+  it('keeps other participants\' history in a group chat the user started', async () => {
+    const manager = new MemoryManager([
+      [User, [{ ...leaving }, { id: 'user-2' }, { id: 'user-3' }]],
+      [Conversation, [{
+        id: 'group',
+        userId: 'user-1',
+        metadata: {
+          isGroupChat: true,
+          participants: ['+15555550100', '+15555550101', '+15555550102'],
+          groupChat: { enabled: true, adminHandles: ['5555550100', '+15555550101'] }
+        }
+      }]],
+      [Message, [
+        { id: 'm1', conversationId: 'group', userId: 'user-1', createdAt: new Date('2026-01-01T00:00:00Z') },
+        { id: 'm2', conversationId: 'group', userId: 'user-3', createdAt: new Date('2026-01-01T00:01:00Z') },
+        { id: 'm3', conversationId: 'group', userId: 'user-2', createdAt: new Date('2026-01-01T00:02:00Z') }
+      ]]
+    ]);
+
+    const report = await removeUserRows(manager);
+
+    expect(manager.rows(Message).map(row => row.id)).toEqual(['m2', 'm3']);
+    expect(manager.rows(Conversation)).toEqual([{
+      id: 'group',
+      userId: 'user-3',
+      metadata: {
+        isGroupChat: true,
+        participants: ['+15555550101', '+15555550102'],
+        groupChat: { enabled: true, adminHandles: ['+15555550101'] }
+      }
+    }]);
+    expect(report).toMatchObject({ messages: 1, conversations_reassigned: 1 });
+    expect(report.conversations ?? 0).toBe(0);
+  });
+
+  it('deletes a group chat nobody else has spoken in', async () => {
+    const manager = new MemoryManager([
+      [User, [{ ...leaving }]],
+      [Conversation, [{ id: 'group', userId: 'user-1', metadata: { isGroupChat: true } }]],
+      [Message, [{ id: 'm1', conversationId: 'group', userId: 'user-1' }]]
+    ]);
+
+    const report = await removeUserRows(manager);
+
+    expect(manager.rows(Conversation)).toHaveLength(0);
+    expect(report.conversations_reassigned).toBeUndefined();
+  });
+
+  it('removes invites stored under the normalized handles', async () => {
+    const user = { id: 'user-1', phoneNumber: '5555550100', email: 'Leaving@Example.com' };
+    const manager = new MemoryManager([
+      [User, [{ ...user }]],
+      [AccessInvite, [
+        { id: 'i1', handle: '+15555550100' },
+        { id: 'i2', handle: 'leaving@example.com' },
+        { id: 'i3', handle: 'staying@example.com' }
+      ]]
+    ]);
+
+    const report = await removeUserRows(manager, user);
+
+    expect(manager.rows(AccessInvite).map(row => row.id)).toEqual(['i3']);
+    expect(report).toMatchObject({ access_invites: 2 });
+  });
+});
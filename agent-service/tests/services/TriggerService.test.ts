@@ -0,0 +1,170 @@
+import { Trigger, TriggerMisfirePolicy } from '../../src/database/entities/Trigger';
+import { TriggerRun } from '../../src/database/entities/TriggerRun';
+import { TriggerService } from '../../src/services/TriggerService';
+import { config } from '../../src/config';
+
+jest.mock('../../src/utils/logger');
+jest.mock('../../src/database/connection', () => ({
+  AppDataSource: { getRepository: jest.fn(() => ({})) }
+}));
+
+const buildTrigger = (overrides: Partial<Trigger>): Trigger => Object.assign(new Trigger(), {
+  id: 1,
+  userId: 'user-1',
+  agentName: 'reminders',
+  payload: 'Check in',
+  status: 'active',
+  timezone: 'UTC',
+  misfirePolicy: 'fire_once',
+  startTime: new Date('2026-01-01T00:00:00Z'),
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides
+});
+
+const hourly = (misfirePolicy: TriggerMisfirePolicy, nextTrigger = new Date('2026-01-01T01:00:00Z')) =>
+  buildTrigger({ recurrenceRule: 'FREQ=HOURLY', misfirePolicy, nextTrigger });
+
+const plan = (trigger: Trigger, now: Date) => new TriggerService()['planDueRuns'](trigger, now);
+
+const pendingTimes = (trigger: Trigger, now: Date) => plan(trigger, now).planned
+  .filter(run => run.status === 'pending')
+  .map(run => run.scheduledFor.toISOString());
+
+describe('TriggerService.planDueRuns', () => {
+  // Down from 01:00 on Jan 1 until 00:30 on Jan 3: 48 hourly occurrences were missed
+  const afterLongOutage = new Date('2026-01-03T00:30:00Z');
+
+  it('keeps the most recent occurrences when more were missed than it replays', () => {
+    const { planned, nextTrigger } = plan(hourly('skip'), afterLongOutage);
+
+    expect(planned).toHaveLength(24);
+    expect(planned[0].scheduledFor.toISOString()).toBe('2026-01-02T01:00:00.000Z');
+    expect(planned[23].scheduledFor.toISOString()).toBe('2026-01-03T00:00:00.000Z');
+    expect(planned.every(run => run.status === 'skipped' && run.misfire)).toBe(true);
+    expect(nextTrigger?.toISOString()).toBe('2026-01-03T01:00:00.000Z');
+  });
+
+  it('fires only the latest missed occurrence with fire_once', () => {
+    expect(pendingTimes(hourly('fire_once'), afterLongOutage)).toEqual(['2026-01-03T00:00:00.000Z']);
+  });
+
+  it('replays the latest window with fire_all', () => {
+    const pending = pendingTimes(hourly('fire_all'), afterLongOutage);
+
+    expect(pending).toHaveLength(24);
+    expect(pending[0]).toBe('2026-01-02T01:00:00.000Z');
+    expect(pending[23]).toBe('2026-01-03T00:00:00.000Z');
+  });
+
+  it('prefers an on-time occurrence over missed ones with fire_once', () => {
+    const { planned } = plan(hourly('fire_once'), new Date('2026-01-01T03:00:10Z'));
+
+    expect(planned.map(run => [run.scheduledFor.toISOString(), run.status, run.misfire])).toEqual([
+      ['2026-01-01T01:00:00.000Z', 'skipped', true],
+      ['2026-01-01T02:00:00.000Z', 'skipped', true],
+      ['2026-01-01T03:00:00.000Z', 'pending', false]
+    ]);
+  });
+
+  it('runs a due one-time trigger once and leaves no next fire time', () => {
+    const trigger = buildTrigger({ nextTrigger: new Date('2026-01-01T09:00:00Z') });
+    const { planned, nextTrigger } = plan(trigger, new Date('2026-01-01T09:00:05Z'));
+
+    expect(planned).toEqual([{ scheduledFor: trigger.nextTrigger, status: 'pending', misfire: false }]);
+    expect(nextTrigger).toBeUndefined();
+  });
+});
+
+type RunRow = Partial<TriggerRun> & { id: string };
+
+const camelCase = (column: string) => column.replace(/_(\w)/g, (_, letter: string) => letter.toUpperCase());
+
+/**
+ * Just enough of the TriggerRun repository for the lease bookkeeping: equality
+ * updates plus query builder updates filtered by `column = :param` and `column < :param`.
+ */
+const runRepo = (rows: RunRow[]) => {
+  const matches = (row: RunRow, where: Record<string, unknown>) =>
+    Object.entries(where).every(([key, value]) => (row as any)[key] === value);
+
+  return {
+    async update(where: Record<string, unknown>, changes: Partial<TriggerRun>) {
+      const matched = rows.filter(row => matches(row, where));
+      matched.forEach(row => Object.assign(row, changes));
+      return { affected: matched.length };
+    },
+    async find() {
+      return [];
+    },
+    createQueryBuilder() {
+      const conditions: Array<(row: RunRow) => boolean> = [];
+      let changes: Partial<TriggerRun> = {};
+      const builder = {
+        update: () => builder,
+        set: (values: Partial<TriggerRun>) => {
+          changes = values;
+          return builder;
+        },
+        where: (condition: string, params: Record<string, any>) => {
+          const [column, operator, param] = condition.split(' ');
+          const value = params[param.slice(1)];
+          const field = camelCase(column) as keyof RunRow;
+          conditions.push(row => operator === '<' ? (row[field] as any) < value : row[field] === value);
+          return builder;
+        },
+        andWhere: (condition: string, params: Record<string, any>) => builder.where(condition, params),
+        returning: () => builder,
+        execute: async () => {
+          const matched = rows.filter(row => conditions.every(condition => condition(row)));
+          matched.forEach(row => Object.assign(row, changes));
+          return { affected: matched.length, raw: matched.map(row => ({ id: row.id })) };
+        }
+      };
+      return builder;
+    }
+  };
+};
+
+describe('TriggerService stale run recovery', () => {
+  const claimedAt = new Date('2026-01-01T00:00:00Z');
+  const at = (ms: number) => new Date(claimedAt.getTime() + ms);
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: claimedAt });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const serviceWith = (rows: RunRow[]) => {
+    const service = new TriggerService();
+    (service as any).triggerRunRepo = runRepo(rows);
+    return service;
+  };
+
+  it('does not fail a run that started late in its lease while it is still executing', async () => {
+    const run: RunRow = { id: 'run-1', status: 'pending', claimedBy: 'instance-a', claimedAt };
+    const service = serviceWith([run]);
+
+    // Waited in the queue behind other runs for most of the lease
+    jest.setSystemTime(at(config.triggers.runLeaseMs - 1000));
+    await expect(service.startRun('run-1')).resolves.toEqual({ success: true, data: true });
+
+    jest.setSystemTime(at(config.triggers.runLeaseMs + 60 * 1000));
+    await service.recoverStaleRuns('instance-a');
+
+    expect(run.status).toBe('running');
+  });
+
+  it('fails a running run once its lease has expired', async () => {
+    const run: RunRow = { id: 'run-1', status: 'pending', claimedBy: 'instance-a', claimedAt };
+    const service = serviceWith([run]);
+
+    await service.startRun('run-1');
+    jest.setSystemTime(at(config.triggers.runLeaseMs + 1000));
+    await service.recoverStaleRuns('instance-b');
+
+    expect(run).toMatchObject({ status: 'failed', error: 'Run was interrupted before it finished' });
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  getNextOccurrence,
+  getRecentOccurrences,
+  getUpcomingOccurrences,
+  normalizeRecurrenceRule
+} from '../../src/utils/recurrence';
+
+const CHICAGO = 'America/Chicago';
+
+const iso = (dates: Date[]) => dates.map(date => date.toISOString());
+
+describe('normalizeRecurrenceRule', () => {
+  it('accepts RRULE bodies with or without the RRULE: prefix', () => {
+    expect(normalizeRecurrenceRule('RRULE:freq=weekly;byday=MO')).toEqual({
+      kind: 'rrule',
+      rule: 'FREQ=WEEKLY;BYDAY=MO'
+    });
+    expect(normalizeRecurrenceRule('DTSTART:20260101T090000\nFREQ=DAILY')).toEqual({
+      kind: 'rrule',
+      rule: 'FREQ=DAILY'
+    });
+  });
+
+  it('recognises 5-field cron expressions', () => {
+    expect(normalizeRecurrenceRule(' 0  9 * * 1-5 ')).toEqual({ kind: 'cron', rule: '0 9 * * 1-5' });
+  });
+
+  it('translates the legacy shorthands', () => {
+    expect(normalizeRecurrenceRule('weekdays at 9am').rule)
+      .toBe('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;BYHOUR=9;BYMINUTE=0;BYSECOND=0');
+    expect(normalizeRecurrenceRule('every 2 hours').rule).toBe('FREQ=HOURLY;INTERVAL=2');
+    expect(normalizeRecurrenceRule('every friday at 5:30 pm').rule)
+      .toBe('FREQ=WEEKLY;BYDAY=FR;BYHOUR=17;BYMINUTE=30;BYSECOND=0');
+  });
+
+  it('rejects rules it cannot schedule', () => {
+    expect(() => normalizeRecurrenceRule('')).toThrow('Recurrence rule is empty');
+    expect(() => normalizeRecurrenceRule('whenever')).toThrow(/Unrecognized recurrence rule/);
+    expect(() => normalizeRecurrenceRule('FREQ=SECONDLY')).toThrow(/not supported/);
+    expect(() => normalizeRecurrenceRule('daily at 25')).toThrow(/Unrecognized recurrence rule/);
+  });
+});
+
+describe('getUpcomingOccurrences', () => {
+  it('keeps wall-clock time across a DST change', () => {
+    const start = new Date('2026-03-06T12:00:00Z');
+    const occurrences = getUpcomingOccurrences(
+      'FREQ=DAILY;BYHOUR=9;BYMINUTE=0;BYSECOND=0',
+      { timezone: CHICAGO, anchor: start, after: start },
+      3
+    );
+
+    expect(iso(occurrences)).toEqual([
+      '2026-03-06T15:00:00.000Z',
+      '2026-03-07T15:00:00.000Z',
+      '2026-03-08T14:00:00.000Z'
+    ]);
+  });
+
+  it('evaluates cron expressions in the rule timezone', () => {
+    // Friday 10am CST; the next weekday 9am is Monday, after DST starts
+    const after = new Date('2026-03-06T16:00:00Z');
+    const occurrences = getUpcomingOccurrences(
+      '0 9 * * 1-5',
+      { timezone: CHICAGO, anchor: new Date('2026-01-01T00:00:00Z'), after },
+      2
+    );
+
+    expect(iso(occurrences)).toEqual(['2026-03-09T14:00:00.000Z', '2026-03-10T14:00:00.000Z']);
+  });
+
+  it('shifts times in the spring-forward gap without repeating an instant', () => {
+    const start = new Date('2026-03-06T12:00:00Z');
+    const occurrences = getUpcomingOccurrences(
+      'FREQ=DAILY;BYHOUR=2;BYMINUTE=30;BYSECOND=0',
+      { timezone: CHICAGO, anchor: start, after: start },
+      3
+    );
+
+    expect(iso(occurrences)).toEqual([
+      '2026-03-07T08:30:00.000Z',
+      '2026-03-08T08:30:00.000Z',
+      '2026-03-09T07:30:00.000Z'
+    ]);
+  });
+
+  it('stops when the series ends', () => {
+    const anchor = new Date('2026-01-01T15:00:00Z');
+    const query = { timezone: 'UTC', anchor, after: anchor, inclusive: true };
+
+    expect(getUpcomingOccurrences('FREQ=DAILY;COUNT=3', query, 5)).toHaveLength(3);
+    expect(getNextOccurrence('FREQ=DAILY;COUNT=3', { ...query, after: new Date('2026-01-04T00:00:00Z') }))
+      .toBeUndefined();
+  });
+
+  it('rejects unknown timezones', () => {
+    const now = new Date();
+    expect(() => getUpcomingOccurrences('FREQ=DAILY', { timezone: 'Mars/Olympus', anchor: now, after: now }, 1))
+      .toThrow('Unknown timezone "Mars/Olympus"');
+  });
+});
+
+describe('getRecentOccurrences', () => {
+  const anchor = new Date('2026-01-01T00:00:00Z');
+
+  it('returns the latest occurrences before the cutoff, oldest first', () => {
+    const occurrences = getRecentOccurrences(
+      'FREQ=HOURLY',
+      { timezone: 'UTC', anchor, after: new Date('2026-01-01T01:00:00Z') },
+      new Date('2026-01-03T00:30:00Z'),
+      3
+    );
+
+    expect(iso(occurrences)).toEqual([
+      '2026-01-02T22:00:00.000Z',
+      '2026-01-02T23:00:00.000Z',
+      '2026-01-03T00:00:00.000Z'
+    ]);
+  });
+
+  it('excludes `after` unless inclusive, and includes the cutoff itself', () => {
+    const query = { timezone: 'UTC', anchor, after: new Date('2026-01-01T01:00:00Z') };
+    const before = new Date('2026-01-01T03:00:00Z');
+
+    expect(iso(getRecentOccurrences('FREQ=HOURLY', query, before, 10)))
+      .toEqual(['2026-01-01T02:00:00.000Z', '2026-01-01T03:00:00.000Z']);
+    expect(getRecentOccurrences('FREQ=HOURLY', { ...query, inclusive: true }, before, 10)).toHaveLength(3);
+  });
+
+  it('walks cron expressions back no further than the anchor', () => {
+    const occurrences = getRecentOccurrences(
+      '0 9 * * *',
+      { timezone: CHICAGO, anchor: new Date('2026-03-07T12:00:00Z'), after: new Date('2026-01-01T00:00:00Z') },
+      new Date('2026-03-09T20:00:00Z'),
+      10
+    );
+
+    expect(iso(occurrences)).toEqual([
+      '2026-03-07T15:00:00.000Z',
+      '2026-03-08T14:00:00.000Z',
+      '2026-03-09T14:00:00.000Z'
+    ]);
+  });
+
+  it('does not repeat an instant for times in the spring-forward gap', () => {
+    const occurrences = getRecentOccurrences(
+      'FREQ=DAILY;BYHOUR=2;BYMINUTE=30;BYSECOND=0',
+      { timezone: CHICAGO, anchor: new Date('2026-03-06T12:00:00Z'), after: new Date('2026-03-06T12:00:00Z') },
+      new Date('2026-03-09T12:00:00Z'),
+      10
+    );
+
+    expect(iso(occurrences)).toEqual([
+      '2026-03-07T08:30:00.000Z',
+      '2026-03-08T08:30:00.000Z',
+      '2026-03-09T07:30:00.000Z'
+    ]);
+  });
+});
@@ -0,0 +1,10 @@
+module.exports = {
+    preset: "ts-jest",
+    testEnvironment: "node",
+    roots: ["<rootDir>/test"],
+    // Mirrors the path aliases in tsconfig.json
+    moduleNameMapper: {
+        "^@server$": "<rootDir>/src/server/index",
+        "^@server/(.*)$": "<rootDir>/src/server/$1"
+    }
+};
@@ -4,6 +4,8 @@ import { isNotEmpty } from "@server/helpers/utils";
 
 // Middleware
 import { AuthMiddleware } from "./middleware/authMiddleware";
+import { ScopeMiddleware } from "./middleware/scopeMiddleware";
+import { RateLimitMiddleware } from "./middleware/rateLimitMiddleware";
 
 // Routers
 import { ThemeRouter } from "./routers/themeRouter";
@@ -24,7 +26,15 @@ import { MacOsRouter } from "./routers/macosRouter";
 import { iCloudRouter } from "./routers/icloudRouter";
 import { FaceTimeRouter } from "./routers/facetimeRouter";
 import { PrivateApiMiddleware } from "./middleware/privateApiMiddleware";
-import { HttpDefinition, HttpMethod, HttpRoute, HttpRouteGroup, KoaMiddleware } from "../../types";
+import {
+    ApiTokenScope,
+    HttpDefinition,
+    HttpMethod,
+    HttpRateLimit,
+    HttpRoute,
+    HttpRouteGroup,
+    KoaMiddleware
+} from "../../types";
 import { SettingsValidator } from "./validators/settingsValidator";
 import { MessageValidator } from "./validators/messageValidator";
 import { HandleValidator } from "./validators/handleValidator";
@@ -40,6 +50,8 @@ import { FindMyRouter } from "./routers/findmyRouter";
 import { getLogger } from "@server/lib/logging/Loggable";
 import { WebhookRouter } from "./routers/webhookRouter";
 import { WebhookValidator } from "./validators/webhookValidator";
+import { ApiTokenRouter } from "./routers/apiTokenRouter";
+import { ApiTokenValidator } from "./validators/apiTokenValidator";
 
 export class HttpRoutes {
     static version = 1;
@@ -61,6 +73,7 @@ export class HttpRoutes {
         routeGroups: [
             {
                 name: "General",
+                scopes: [],
                 middleware: HttpRoutes.protected,
                 routes: [
                     {
@@ -72,6 +85,7 @@ export class HttpRoutes {
             },
             {
                 name: "macOS",
+                scopes: ["server:admin"],
                 middleware: HttpRoutes.protected,
                 prefix: "mac",
                 responseTimeoutMs: 30 * 1000,
@@ -90,6 +104,7 @@ export class HttpRoutes {
             },
             {
                 name: "iCloud",
+                scopes: ["server:admin"],
                 middleware: HttpRoutes.protected,
                 prefix: "icloud",
                 routes: [
@@ -114,36 +129,47 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.GET,
                         path: "findmy/devices",
+                        scopes: ["findmy"],
                         controller: FindMyRouter.devices
                     },
                     {
                         method: HttpMethod.POST,
                         path: "findmy/devices/refresh",
+                        scopes: ["findmy"],
                         controller: FindMyRouter.refreshDevices
                     },
                     {
                         method: HttpMethod.GET,
                         path: "findmy/friends",
+                        scopes: ["findmy"],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         controller: FindMyRouter.friends
                     },
                     {
                         method: HttpMethod.POST,
                         path: "findmy/friends/refresh",
+                        scopes: ["findmy"],
                         controller: FindMyRouter.refreshFriends
                     }
                 ]
             },
             {
                 name: "Server",
+                scopes: ["server:admin"],
                 middleware: HttpRoutes.protected,
                 prefix: "server",
                 routes: [
                     {
                         method: HttpMethod.GET,
                         path: "info",
+                        scopes: [],
                         controller: ServerRouter.getInfo
                     },
+                    {
+                        method: HttpMethod.GET,
+                        path: "metrics",
+                        controller: ServerRouter.getMetrics
+                    },
                     {
                         method: HttpMethod.GET,
                         path: "logs",
@@ -201,6 +227,7 @@ export class HttpRoutes {
             },
             {
                 name: "FCM",
+                scopes: ["server:admin"],
                 middleware: HttpRoutes.protected,
                 prefix: "fcm",
                 routes: [
@@ -219,6 +246,7 @@ export class HttpRoutes {
             },
             {
                 name: "Attachment",
+                scopes: ["messages:read"],
                 middleware: HttpRoutes.protected,
                 prefix: "attachment",
                 routes: [
@@ -230,6 +258,7 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.POST,
                         path: "upload",
+                        scopes: ["messages:send"],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         validators: [AttachmentValidator.validateUpload],
                         controller: AttachmentRouter.uploadAttachment,
@@ -278,12 +307,15 @@ export class HttpRoutes {
             },
             {
                 name: "Chat",
+                scopes: ["chats:write"],
                 middleware: HttpRoutes.protected,
                 prefix: "chat",
                 routes: [
                     {
                         method: HttpMethod.POST,
                         path: "new",
+                        scopes: ["messages:send"],
+                        rateLimit: "send",
                         middleware: [...HttpRoutes.protected],
                         validators: [ChatValidator.validateCreate],
                         controller: ChatRouter.create
@@ -291,29 +323,35 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.GET,
                         path: "count",
+                        scopes: ["messages:read"],
                         controller: ChatRouter.count
                     },
                     {
                         method: HttpMethod.POST,
                         path: "query",
+                        scopes: ["messages:read"],
                         validators: [ChatValidator.validateQuery],
                         controller: ChatRouter.query
                     },
                     {
                         method: HttpMethod.GET,
                         path: ":guid/message",
+                        scopes: ["messages:read"],
                         validators: [ChatValidator.validateGetMessages],
                         controller: ChatRouter.getMessages
                     },
                     {
                         method: HttpMethod.GET,
                         path: ":guid/share/contact/status",
+                        scopes: ["messages:read"],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         controller: ChatRouter.shouldShareContact
                     },
                     {
                         method: HttpMethod.POST,
                         path: ":guid/share/contact",
+                        scopes: ["messages:send"],
+                        rateLimit: "send",
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         controller: ChatRouter.shareContact
                     },
@@ -391,6 +429,7 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.GET,
                         path: ":guid/icon",
+                        scopes: ["messages:read"],
                         middleware: [...HttpRoutes.protected],
                         controller: ChatRouter.getGroupIcon
                     },
@@ -410,6 +449,7 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.GET,
                         path: ":guid",
+                        scopes: ["messages:read"],
                         controller: ChatRouter.find
                     },
                     {
@@ -422,30 +462,35 @@ export class HttpRoutes {
             },
             {
                 name: "Message",
+                scopes: ["messages:send"],
                 middleware: HttpRoutes.protected,
                 prefix: "message",
                 routes: [
                     {
                         method: HttpMethod.POST,
                         path: "text",
+                        rateLimit: "send",
                         validators: [MessageValidator.validateText],
                         controller: MessageRouter.sendText
                     },
                     {
                         method: HttpMethod.POST,
                         path: "attachment",
+                        rateLimit: "send",
                         validators: [MessageValidator.validateAttachment],
                         controller: MessageRouter.sendAttachment
                     },
                     {
                         method: HttpMethod.POST,
                         path: "multipart",
+                        rateLimit: "send",
                         validators: [MessageValidator.validateMultipart],
                         controller: MessageRouter.sendMultipartMessage
                     },
                     {
                         method: HttpMethod.POST,
                         path: "react",
+                        rateLimit: "send",
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         validators: [MessageValidator.validateReaction],
                         controller: MessageRouter.react
@@ -453,29 +498,34 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.GET,
                         path: "count",
+                        scopes: ["messages:read"],
                         validators: [MessageValidator.validateCount],
                         controller: MessageRouter.count
                     },
                     {
                         method: HttpMethod.GET,
                         path: "count/updated",
+                        scopes: ["messages:read"],
                         validators: [MessageValidator.validateUpdatedCount],
                         controller: MessageRouter.countUpdated
                     },
                     {
                         method: HttpMethod.GET,
                         path: "count/me",
+                        scopes: ["messages:read"],
                         controller: MessageRouter.sentCount
                     },
                     {
                         method: HttpMethod.POST,
                         path: "query",
+                        scopes: ["messages:read"],
                         validators: [MessageValidator.validateQuery],
                         controller: MessageRouter.query
                     },
                     {
                         method: HttpMethod.GET,
                         path: "schedule",
+                        scopes: ["messages:read"],
                         controller: ScheduledMessageRouter.getScheduledMessages
                     },
                     {
@@ -484,9 +534,17 @@ export class HttpRoutes {
                         validators: [ScheduledMessageValidator.validateScheduledMessage],
                         controller: ScheduledMessageRouter.createScheduledMessage
                     },
+                    {
+                        method: HttpMethod.POST,
+                        path: "schedule/preview",
+                        scopes: ["messages:read"],
+                        validators: [ScheduledMessageValidator.validatePreview],
+                        controller: ScheduledMessageRouter.previewSchedule
+                    },
                     {
                         method: HttpMethod.GET,
                         path: "schedule/:id",
+                        scopes: ["messages:read"],
                         controller: ScheduledMessageRouter.getById
                     },
                     {
@@ -503,18 +561,21 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.GET,
                         path: ":guid",
+                        scopes: ["messages:read"],
                         validators: [MessageValidator.validateFind],
                         controller: MessageRouter.find
                     },
                     {
                         method: HttpMethod.POST,
                         path: ":guid/edit",
+                        rateLimit: "send",
                         validators: [MessageValidator.validateEdit],
                         controller: MessageRouter.editMessage
                     },
                     {
                         method: HttpMethod.POST,
                         path: ":guid/unsend",
+                        rateLimit: "send",
                         validators: [MessageValidator.validateUnsend],
                         controller: MessageRouter.unsendMessage
                     },
@@ -527,6 +588,7 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.GET,
                         path: ":guid/embedded-media",
+                        scopes: ["messages:read"],
                         middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                         validators: [MessageValidator.validateGetEmbeddedMedia],
                         controller: MessageRouter.getEmbeddedMedia
@@ -535,6 +597,7 @@ export class HttpRoutes {
             },
             {
                 name: "Handle",
+                scopes: ["messages:read"],
                 middleware: HttpRoutes.protected,
                 prefix: "handle",
                 routes: [
@@ -578,6 +641,7 @@ export class HttpRoutes {
             },
             {
                 name: "FaceTime",
+                scopes: ["server:admin"],
                 middleware: [...HttpRoutes.protected, PrivateApiMiddleware],
                 prefix: "facetime",
                 routes: [
@@ -600,6 +664,7 @@ export class HttpRoutes {
             },
             {
                 name: "Contact",
+                scopes: ["contacts:read"],
                 middleware: HttpRoutes.protected,
                 prefix: "contact",
                 routes: [
@@ -611,6 +676,7 @@ export class HttpRoutes {
                     {
                         method: HttpMethod.POST,
                         path: "",
+                        scopes: ["server:admin"],
                         controller: ContactRouter.create,
                         // Increase the timeout to 5 minutes for requests in case there are avatars
                         requestTimeoutMs: 5 * 60 * 1000
@@ -624,6 +690,7 @@ export class HttpRoutes {
             },
             {
                 name: "Backup",
+                scopes: ["server:admin"],
                 middleware: HttpRoutes.protected,
                 prefix: "backup",
                 routes: [
@@ -665,6 +732,7 @@ export class HttpRoutes {
             },
             {
                 name: "Webhooks",
+                scopes: ["server:admin"],
                 middleware: HttpRoutes.protected,
                 prefix: "webhook",
                 routes: [
@@ -680,10 +748,59 @@ export class HttpRoutes {
                         validators: [WebhookValidator.validateCreateWebhook],
                         controller: WebhookRouter.create
                     },
+                    {
+                        method: HttpMethod.PUT,
+                        path: ":id",
+                        validators: [WebhookValidator.validateUpdateWebhook],
+                        controller: WebhookRouter.update
+                    },
                     {
                         method: HttpMethod.DELETE,
                         path: ":id",
                         controller: WebhookRouter.delete
+                    },
+                    {
+                        method: HttpMethod.GET,
+                        path: ":id/deliveries",
+                        validators: [WebhookValidator.validateGetDeliveries],
+                        controller: WebhookRouter.getDeliveries
+                    },
+                    {
+                        method: HttpMethod.POST,
+                        path: ":id/deliveries/:deliveryId/replay",
+                        validators: [WebhookValidator.validateReplayDelivery],
+                        controller: WebhookRouter.replayDelivery
+                    },
+                    {
+                        method: HttpMethod.POST,
+                        path: ":id/replay",
+                        validators: [WebhookValidator.validateReplayFailed],
+                        controller: WebhookRouter.replayFailed
+                    }
+                ]
+            },
+            {
+                name: "API Tokens",
+                scopes: ["server:admin"],
+                middleware: HttpRoutes.protected,
+                prefix: "token",
+                routes: [
+                    {
+                        method: HttpMethod.GET,
+                        path: "",
+                        controller: ApiTokenRouter.get
+                    },
+                    {
+                        method: HttpMethod.POST,
+                        path: "",
+                        validators: [ApiTokenValidator.validateCreate],
+                        controller: ApiTokenRouter.create
+                    },
+                    {
+                        method: HttpMethod.DELETE,
+                        path: ":id",
+                        validators: [ApiTokenValidator.validateDelete],
+                        controller: ApiTokenRouter.delete
                     }
                 ]
             }
@@ -695,6 +812,7 @@ export class HttpRoutes {
         routeGroups: [
             {
                 name: "Index",
+                rateLimit: "none",
                 middleware: HttpRoutes.unprotected,
                 prefix: "/",
                 routes: [
@@ -787,8 +905,14 @@ export class HttpRoutes {
             resTimeout = group.responseTimeoutMs;
         }
 
+        // Routes that don't declare scopes can only be used by admin tokens
+        const scopes: ApiTokenScope[] = route.scopes ?? group.scopes ?? ["server:admin"];
+        const rateLimit: HttpRateLimit = route.rateLimit ?? group.rateLimit ?? "default";
+
         return [
             ...(route?.middleware ?? group.middleware ?? []),
+            ScopeMiddleware(scopes),
+            RateLimitMiddleware(rateLimit),
             this.TimeoutMiddleware(reqTimeout, resTimeout),
             ...(route.validators ?? []),
             route.controller
@@ -1,30 +1,45 @@
 import { Context, Next } from "koa";
 import { Server } from "@server";
-import { safeTrim } from "@server/helpers/utils";
+import { ApiTokenInterface } from "@server/api/interfaces/apiTokenInterface";
 import { ServerError, Unauthorized } from "../responses/errors";
 
-export const AuthMiddleware = async (ctx: Context, next: Next) => {
+/**
+ * Gets the password or API token from the Authorization header
+ * (`Bearer <token>`), falling back to the query params.
+ */
+const getRequestToken = (ctx: Context): string | null => {
+    const header = ctx.get("Authorization");
+    const match = /^Bearer\s+(.+)$/i.exec(header ?? "");
+    if (match) return match[1];
+
     const params = ctx.request.query;
+    return ((params?.guid ?? params?.password ?? params?.token) as string) ?? null;
+};
 
+export const AuthMiddleware = async (ctx: Context, next: Next) => {
     // Make sure we have a token
-    const token = (params?.guid ?? params?.password ?? params?.token) as string;
+    const token = getRequestToken(ctx);
     if (!token) {
         Server().log(`Client (IP: ${ctx.request.ip}) attempted to access the API without a token.`, "debug");
         throw new Unauthorized({ error: "Missing server password!" });
     }
 
-    // Make sure we have a password from the database
-    const password = String(Server().repo.getConfig("password") as string);
-    if (!password) {
-        throw new ServerError({ error: "Failed to retrieve password from the database" });
+    let auth;
+    try {
+        auth = await ApiTokenInterface.authenticate(token, ctx.request.ip);
+    } catch (ex: any) {
+        throw new ServerError({ error: ex?.message ?? String(ex) });
     }
 
-    // Validate the passwords match
-    if (safeTrim(password) !== safeTrim(token)) {
+    // Validate the password or API token
+    if (!auth) {
         Server().log(`Client (IP: ${ctx.request.ip}) tried to authenticate with an incorrect password.`, "debug");
         throw new Unauthorized();
     }
 
+    // Let the scope middleware know what the client is allowed to do
+    ctx.state.auth = auth;
+
     // Go to the next middleware
     await next();
 };
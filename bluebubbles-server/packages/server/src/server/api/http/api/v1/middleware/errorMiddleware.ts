@@ -29,6 +29,9 @@ export const ErrorMiddleware = async (ctx: Context, next: Next) => {
             const err = ex as HTTPError;
             ctx.status = err.status;
             ctx.body = err.response;
+            for (const [key, value] of Object.entries(err.headers ?? {})) {
+                ctx.set(key, value);
+            }
         } else {
             ctx.status = 500;
             ctx.body = createServerErrorResponse(
@@ -6,4 +6,11 @@ export const MetricsMiddleware = async (ctx: Context, next: Next) => {
     await next();
     const later = new Date().getTime();
     Server().log(`Request to ${ctx?.request?.path?.toString() ?? "N/A"} took ${later - now} ms`, "debug");
+
+    // Label by the matched route (not the path) so params don't create a series per request
+    Server().metrics?.httpRequestDuration.observe((later - now) / 1000, {
+        method: ctx.method,
+        route: (ctx as any)._matchedRoute ?? "unmatched",
+        status: ctx.status
+    });
 };
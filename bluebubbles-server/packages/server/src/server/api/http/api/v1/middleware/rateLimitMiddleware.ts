@@ -0,0 +1,42 @@
+import { Context, Next } from "koa";
+import { Server } from "@server";
+import { ApiAuth } from "@server/api/interfaces/apiTokenInterface";
+import type { HttpRateLimit } from "@server/api/http/types";
+import { TooManyRequests } from "../responses/errors";
+
+/**
+ * Limits how fast a client (API token, or IP when not using a token) can call a route.
+ * Sends to a chat also count against that chat's daily send quota.
+ *
+ * @param rateLimit The rate limit the route counts against
+ */
+export const RateLimitMiddleware = (rateLimit: HttpRateLimit) => {
+    return async (ctx: Context, next: Next) => {
+        const service = Server().rateLimitService;
+        if (!service || rateLimit === "none") return await next();
+
+        const auth = ctx.state.auth as ApiAuth;
+        const client = auth?.type === "token" ? `token:${auth.token.id}` : `ip:${ctx.request.ip}`;
+        const limited = service.consume(client, rateLimit);
+        if (!limited.allowed) {
+            throw new TooManyRequests(limited.retryAfter, {
+                error: `Rate limit exceeded! Try again in ${limited.retryAfter} second(s)`
+            });
+        }
+
+        const chatGuid = rateLimit === "send" ? (ctx.request.body as any)?.chatGuid : null;
+        if (!chatGuid || typeof chatGuid !== "string") return await next();
+
+        const quota = service.checkSendQuota(chatGuid);
+        if (!quota.allowed) {
+            throw new TooManyRequests(quota.retryAfter, {
+                error: `The daily send quota for this chat has been reached!`
+            });
+        }
+
+        await next();
+
+        // Only successful sends count towards the quota
+        if (ctx.status < 400) service.recordSend(chatGuid);
+    };
+};
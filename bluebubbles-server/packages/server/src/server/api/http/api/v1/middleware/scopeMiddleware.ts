@@ -0,0 +1,24 @@
+import { Context, Next } from "koa";
+import { Server } from "@server";
+import { ApiAuth, ApiTokenInterface } from "@server/api/interfaces/apiTokenInterface";
+import type { ApiTokenScope } from "@server/api/http/types";
+import { Forbidden } from "../responses/errors";
+
+/**
+ * Makes sure an API token has the scopes a route needs.
+ * Requests that weren't authenticated (public routes) are let through.
+ *
+ * @param scopes The scopes the route needs
+ */
+export const ScopeMiddleware = (scopes: ApiTokenScope[]) => {
+    return async (ctx: Context, next: Next) => {
+        const auth = ctx.state.auth as ApiAuth;
+        if (auth && !ApiTokenInterface.hasScopes(auth, scopes)) {
+            const tokenName = auth.type === "token" ? auth.token.name : null;
+            Server().log(`API token "${tokenName}" (IP: ${ctx.request.ip}) is missing scopes: ${scopes}`, "debug");
+            throw new Forbidden({ error: `This API token needs the following scopes: ${scopes.join(", ")}` });
+        }
+
+        await next();
+    };
+};
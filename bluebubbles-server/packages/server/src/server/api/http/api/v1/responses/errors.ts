@@ -6,11 +6,15 @@ export class HTTPError extends Error {
 
     status: ValidStatuses;
 
-    constructor(response: ResponseJson) {
+    // Extra headers to send with the error response
+    headers: Record<string, string>;
+
+    constructor(response: ResponseJson, headers: Record<string, string> = {}) {
         super(`[${response.status}] ${response.message}`);
         this.name = this.constructor.name;
         this.response = response;
         this.status = response.status;
+        this.headers = headers;
 
         Error.captureStackTrace(this, this.constructor);
     }
@@ -72,6 +76,23 @@ export class NotFound extends HTTPError {
     }
 }
 
+export class TooManyRequests extends HTTPError {
+    constructor(retryAfter: number, response?: ResponseParams) {
+        super(
+            {
+                status: 429,
+                message: response?.message ?? "You've made too many requests! Please slow down",
+                error: {
+                    type: ErrorTypes.RATE_LIMIT_ERROR,
+                    message: response?.error ?? ResponseMessages.TOO_MANY_REQUESTS
+                },
+                data: { retryAfter, ...(response?.data ?? {}) }
+            },
+            { "Retry-After": String(retryAfter) }
+        );
+    }
+}
+
 export class ServerError extends HTTPError {
     constructor(response?: ResponseParams) {
         super({
@@ -5,7 +5,7 @@ import { ResponseFormat, ResponseMessages, ResponseParams, ValidStatuses } from
 
 type ResponseClasses = ResponseParams | string | fs.ReadStream;
 
-type ResponseTypes = "json" | "html" | "file";
+type ResponseTypes = "json" | "html" | "text" | "file";
 
 export class HTTPResponse {
     ctx: RouterContext;
@@ -33,7 +33,7 @@ export class HTTPResponse {
             this.response = { status, message: res?.message ?? "No Message Response" };
             if (res?.data !== undefined) this.response.data = res.data;
             if (res?.metadata !== undefined) this.response.metadata = res.metadata;
-        } else if (responseType === "html") {
+        } else if (responseType === "html" || responseType === "text") {
             this.response = response as string;
         } else if (responseType === "file") {
             this.response = response as fs.ReadStream;
@@ -51,7 +51,7 @@ export class HTTPResponse {
             return `[${this.status}] ${res?.message ?? res?.error ?? "No Response"}`;
         }
 
-        if (this.type === "html") {
+        if (this.type === "html" || this.type === "text") {
             return this.response;
         }
 
@@ -86,6 +86,13 @@ export class HTML extends HTTPResponse {
     }
 }
 
+export class PlainText extends HTTPResponse {
+    constructor(ctx: RouterContext, response: string, mimeType = "text/plain") {
+        ctx.response.set("Content-Type", mimeType);
+        super(ctx, 200, response, "text");
+    }
+}
+
 export class NoData extends HTTPResponse {
     constructor(ctx: RouterContext, response: ResponseParams) {
         const data: ResponseParams = { message: response?.message ?? ResponseMessages.NO_DATA };
@@ -0,0 +1,38 @@
+import { RouterContext } from "koa-router";
+import { Next } from "koa";
+
+import { ApiTokenInterface } from "@server/api/interfaces/apiTokenInterface";
+
+import { Success } from "../responses/success";
+import { NotFound } from "../responses/errors";
+
+export class ApiTokenRouter {
+    static async get(ctx: RouterContext, _: Next) {
+        const tokens = await ApiTokenInterface.find();
+        return new Success(ctx, {
+            message: "Successfully fetched API tokens!",
+            data: tokens.map(ApiTokenInterface.serialize)
+        }).send();
+    }
+
+    static async create(ctx: RouterContext, _: Next) {
+        const { name, scopes, expiresAt } = ctx.request.body;
+        const { apiToken, token } = await ApiTokenInterface.create(
+            name,
+            scopes,
+            expiresAt ? new Date(expiresAt) : null
+        );
+
+        return new Success(ctx, {
+            message: "Successfully created API token! Make sure to copy it, it won't be shown again.",
+            data: { ...ApiTokenInterface.serialize(apiToken), token }
+        }).send();
+    }
+
+    static async delete(ctx: RouterContext, _: Next): Promise<void> {
+        const deleted = await ApiTokenInterface.delete(Number.parseInt(ctx.params.id as string));
+        if (!deleted) throw new NotFound({ error: "API token does not exist!" });
+
+        return new Success(ctx, { message: "Successfully deleted API token!" }).send();
+    }
+}
@@ -32,6 +32,25 @@ export class ScheduledMessageRouter {
         }).send();
     }
 
+    /**
+     * HTTP route for previewing the next occurrences of a schedule.
+     *
+     * @param ctx The Koa context.
+     * @param _ The next function.
+     */
+    static async previewSchedule(ctx: RouterContext, _: Next) {
+        const { scheduledFor, schedule, count } = ctx.request.body;
+
+        const occurrences = ScheduledMessagesInterface.previewSchedule(scheduledFor, schedule, count);
+        const data = occurrences.map(occurrence => ({
+            scheduledFor: occurrence.scheduledFor.getTime(),
+            sendAt: occurrence.sendAt.getTime(),
+            deferred: occurrence.sendAt.getTime() !== occurrence.scheduledFor.getTime()
+        }));
+
+        return new Success(ctx, { message: "Successfully previewed schedule!", data }).send();
+    }
+
     /**
      * HTTP route for handling the updating an existing scheduled message
      *
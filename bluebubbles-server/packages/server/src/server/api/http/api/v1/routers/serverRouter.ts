@@ -4,10 +4,10 @@ import { FileSystem } from "@server/fileSystem";
 import { Server } from "@server";
 import { ServerInterface } from "@server/api/interfaces/serverInterface";
 import { GeneralInterface } from "@server/api/interfaces/generalInterface";
-import { Success } from "../responses/success";
+import { PlainText, Success } from "../responses/success";
 import { AlertsInterface } from "@server/api/interfaces/alertsInterface";
 import { isEmpty, isTruthyBool } from "@server/helpers/utils";
-import { BadRequest } from "../responses/errors";
+import { BadRequest, ServerError } from "../responses/errors";
 import { autoUpdater } from "electron-updater";
 import { SERVER_UPDATE_DOWNLOADING } from "@server/events";
 
@@ -16,6 +16,12 @@ export class ServerRouter {
         return new Success(ctx, { data: await GeneralInterface.getServerMetadata() }).send();
     }
 
+    static async getMetrics(ctx: RouterContext, _: Next) {
+        if (!Server().metrics) throw new ServerError({ error: "Metrics service is not running!" });
+        const metrics = await Server().metrics.render();
+        return new PlainText(ctx, metrics, "text/plain; version=0.0.4; charset=utf-8").send();
+    }
+
     static async checkForUpdate(ctx: RouterContext, _: Next) {
         return new Success(ctx, { data: await GeneralInterface.checkForUpdate() }).send();
     }
@@ -5,7 +5,7 @@ import { Server } from "@server";
 import { isEmpty } from "@server/helpers/utils";
 
 import { Success } from "../responses/success";
-import { NotFound } from "../responses/errors";
+import { BadRequest, NotFound } from "../responses/errors";
 
 export class WebhookRouter {
     static async get(ctx: RouterContext, _: Next) {
@@ -22,8 +22,8 @@ export class WebhookRouter {
     }
 
     static async create(ctx: RouterContext, _: Next) {
-        const { url, events } = ctx.request.body;
-        const webhook = await Server().repo.addWebhook(url, events);
+        const { url, events, secret, filters } = ctx.request.body;
+        const webhook = await Server().repo.addWebhook(url, events, secret ?? null, filters ?? null);
 
         // Convert the events to a list (from json array)
         webhook.events = JSON.parse(webhook.events);
@@ -31,6 +31,23 @@ export class WebhookRouter {
         return new Success(ctx, { data: webhook, message: "Successfully created webhook!" }).send();
     }
 
+    static async update(ctx: RouterContext, _: Next) {
+        const id = Number.parseInt(ctx.params.id as string);
+        const { url, events, enabled, filters } = ctx.request.body;
+
+        // Find it
+        const webhooks = await Server().repo.getWebhooks({ id });
+        if (isEmpty(webhooks) || !webhooks[0]) throw new NotFound({ error: "Webhook does not exist!" });
+
+        const webhook = await Server().repo.updateWebhook({ id, url, events, enabled, filters });
+
+        // Convert the events to a list (from json array)
+        webhook.events = JSON.parse(webhook.events);
+
+        Server().emitToUI("webhook-update", { id });
+        return new Success(ctx, { data: webhook, message: "Successfully updated webhook!" }).send();
+    }
+
     static async delete(ctx: RouterContext, _: Next): Promise<void> {
         const { id } = ctx.params;
 
@@ -44,4 +61,47 @@ export class WebhookRouter {
         // Send success
         return new Success(ctx, { message: "Successfully deleted webhook!" }).send();
     }
+
+    static async getDeliveries(ctx: RouterContext, _: Next) {
+        const id = Number.parseInt(ctx.params.id as string);
+        const { status } = ctx.request.query;
+        const limit = ctx.request.query.limit ? Number.parseInt(ctx.request.query.limit as string, 10) : 25;
+        const offset = ctx.request.query.offset ? Number.parseInt(ctx.request.query.offset as string, 10) : 0;
+
+        const webhooks = await Server().repo.getWebhooks({ id });
+        if (isEmpty(webhooks) || !webhooks[0]) throw new NotFound({ error: "Webhook does not exist!" });
+
+        const deliveries = await Server().webhookService.getDeliveries(id, {
+            status: (status as string) ?? null,
+            limit,
+            offset
+        });
+
+        return new Success(ctx, { message: "Successfully fetched webhook deliveries!", data: deliveries }).send();
+    }
+
+    static async replayDelivery(ctx: RouterContext, _: Next) {
+        const id = Number.parseInt(ctx.params.id as string);
+        const deliveryId = Number.parseInt(ctx.params.deliveryId as string);
+
+        const delivery = await Server().repo.webhookDeliveries().findOneBy({ id: deliveryId, webhookId: id });
+        if (!delivery) throw new NotFound({ error: "Webhook delivery does not exist!" });
+        if (delivery.status === "pending") throw new BadRequest({ error: "Webhook delivery is still pending!" });
+
+        const replay = await Server().webhookService.replayDelivery(deliveryId);
+        return new Success(ctx, { message: "Successfully queued webhook delivery!", data: replay }).send();
+    }
+
+    static async replayFailed(ctx: RouterContext, _: Next) {
+        const id = Number.parseInt(ctx.params.id as string);
+
+        const webhooks = await Server().repo.getWebhooks({ id });
+        if (isEmpty(webhooks) || !webhooks[0]) throw new NotFound({ error: "Webhook does not exist!" });
+
+        const count = await Server().webhookService.replayFailed(id);
+        return new Success(ctx, {
+            message: `Successfully queued ${count} failed webhook deliveries!`,
+            data: { count }
+        }).send();
+    }
 }
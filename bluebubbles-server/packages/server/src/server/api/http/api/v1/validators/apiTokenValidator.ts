@@ -0,0 +1,53 @@
+import { RouterContext } from "koa-router";
+import { Next } from "koa";
+
+import { ValidateInput } from "./index";
+import { BadRequest } from "../responses/errors";
+import { apiTokenScopeOptions } from "@server/api/http/constants";
+
+export class ApiTokenValidator {
+    static scopeValues = apiTokenScopeOptions.map(e => e.value);
+
+    static createRules = {
+        name: "required|string",
+        scopes: "required|array",
+        expiresAt: "numeric|min:1"
+    };
+
+    static async validateCreate(ctx: RouterContext, next: Next) {
+        ValidateInput(ctx?.request?.body, ApiTokenValidator.createRules);
+
+        const { name, scopes, expiresAt } = ctx.request.body;
+        if (name.trim().length === 0) {
+            throw new BadRequest({ error: "API token name is required!" });
+        }
+
+        if (scopes.length === 0) {
+            throw new BadRequest({ error: "API token must have at least one scope!" });
+        }
+
+        for (const scope of scopes) {
+            if (!ApiTokenValidator.scopeValues.includes(scope)) {
+                throw new BadRequest({
+                    error: `Invalid API token scope: ${scope}! Scopes must be one of: ${ApiTokenValidator.scopeValues}`
+                });
+            }
+        }
+
+        if (expiresAt && expiresAt <= new Date().getTime()) {
+            throw new BadRequest({ error: "expiresAt must be in the future" });
+        }
+
+        ctx.request.body.name = name.trim();
+        await next();
+    }
+
+    static deleteRules = {
+        id: "required|numeric"
+    };
+
+    static async validateDelete(ctx: RouterContext, next: Next) {
+        ValidateInput(ctx.params, ApiTokenValidator.deleteRules);
+        await next();
+    }
+}
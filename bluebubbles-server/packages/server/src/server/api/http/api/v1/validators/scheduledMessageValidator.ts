@@ -3,6 +3,7 @@ import { Next } from "koa";
 import { ValidateInput } from "./index";
 import { BadRequest } from "../responses/errors";
 import { ScheduledMessageScheduleType } from "@server/services/scheduledMessagesService";
+import { ScheduledMessagesInterface } from "@server/api/interfaces/scheduledMessagesInterface";
 
 export class ScheduledMessageValidator {
     static defaultRules = {
@@ -12,6 +13,12 @@ export class ScheduledMessageValidator {
         schedule: "json-object|required"
     };
 
+    static previewRules = {
+        scheduledFor: "numeric|min:1|required",
+        schedule: "json-object|required",
+        count: "numeric|min:1|max:100"
+    };
+
     /**
      * Validates the client inputs when creating a new scheduled message.
      *
@@ -45,9 +52,10 @@ export class ScheduledMessageValidator {
 
         if (
             schedule.type === ScheduledMessageScheduleType.RECURRING &&
+            !schedule.rrule &&
             (!schedule.intervalType || !schedule.interval)
         ) {
-            throw new BadRequest({ error: `Recurring schedule requires intervalType and interval` });
+            throw new BadRequest({ error: `Recurring schedule requires an rrule, or intervalType and interval` });
         }
 
         if (schedule.interval && typeof schedule.interval !== "number") {
@@ -63,9 +71,51 @@ export class ScheduledMessageValidator {
             throw new BadRequest({ error: `Schedule intervalType must be one of: ${intervalTypeOpts.join(", ")}` });
         }
 
+        ScheduledMessageValidator.validateRecurrence(schedule);
+
         // Inject the converted version of scheduledFor into the request body
         ctx.request.body.scheduledFor = new Date(scheduledFor);
 
         await next();
     }
+
+    /**
+     * Validates the client inputs when previewing a schedule.
+     *
+     * @param ctx The Koa context.
+     * @param next The next function.
+     */
+    static async validatePreview(ctx: RouterContext, next: Next) {
+        const { scheduledFor, schedule, count } = ValidateInput(
+            ctx?.request?.body,
+            ScheduledMessageValidator.previewRules
+        );
+
+        if (!schedule.type) {
+            throw new BadRequest({ error: `Schedule Type is required` });
+        }
+
+        ScheduledMessageValidator.validateRecurrence(schedule);
+
+        // Inject the converted values into the request body
+        ctx.request.body.scheduledFor = new Date(scheduledFor);
+        ctx.request.body.count = count ?? 5;
+
+        await next();
+    }
+
+    /**
+     * Validates the RRULE, time zone & quiet hours of a schedule
+     */
+    private static validateRecurrence(schedule: NodeJS.Dict<any>) {
+        if (schedule.rrule && typeof schedule.rrule !== "string") {
+            throw new BadRequest({ error: `Schedule rrule must be a string` });
+        }
+
+        try {
+            ScheduledMessagesInterface.validateRecurrence(schedule as any);
+        } catch (ex: any) {
+            throw new BadRequest({ error: ex?.message ?? String(ex) });
+        }
+    }
 }
@@ -4,6 +4,7 @@ import { Next } from "koa";
 import { ValidateInput } from "./index";
 import { BadRequest } from "../responses/errors";
 import { webhookEventOptions } from "@server/api/http/constants";
+import { webhookChatTypes } from "@server/services/webhookService/filters";
 
 export class WebhookValidator {
 
@@ -21,19 +22,50 @@ export class WebhookValidator {
 
     static createRules = {
         url: "required|string",
-        events: "required|array"
+        events: "required|array",
+        secret: "string|min:16",
+        filters: "json-object"
     };
 
     static async validateCreateWebhook(ctx: RouterContext, next: Next) {
         ValidateInput(ctx?.request?.body, WebhookValidator.createRules);
 
-        const { url, events } = ctx.request.body;
+        const { url, events, filters } = ctx.request.body;
+        WebhookValidator.validateUrl(url);
+        ctx.request.body.events = WebhookValidator.validateEvents(events);
+        if (filters) WebhookValidator.validateFilters(filters);
+
+        await next();
+    }
+
+    static updateRules = {
+        id: "required|numeric",
+        url: "string",
+        events: "array",
+        enabled: "boolean",
+        filters: "json-object"
+    };
+
+    static async validateUpdateWebhook(ctx: RouterContext, next: Next) {
+        ValidateInput({ ...ctx?.request?.body, id: ctx.params.id }, WebhookValidator.updateRules);
+
+        const { url, events, filters } = ctx.request.body;
+        if (url !== undefined) WebhookValidator.validateUrl(url);
+        if (events !== undefined) ctx.request.body.events = WebhookValidator.validateEvents(events);
+        if (filters) WebhookValidator.validateFilters(filters);
+
+        await next();
+    }
+
+    private static validateUrl(url: string) {
         if (url.length === 0) {
             throw new BadRequest({ error: "Webhook URL is required!" });
         } else if (!url.startsWith('http')) {
             throw new BadRequest({ error: "Webhook URL must include an HTTP scheme!" });
         }
+    }
 
+    private static validateEvents(events: Array<any>): Array<{ label: string; value: string }> {
         // Ensure that the events are valid
         const validatedEvents = [];
         for (const event of events) {
@@ -51,9 +83,70 @@ export class WebhookValidator {
             validatedEvents.push(webhookEvent);
         }
 
-        // Update the events
-        ctx.request.body.events = validatedEvents;
+        return validatedEvents;
+    }
+
+    private static validateFilters(filters: NodeJS.Dict<any>) {
+        for (const key of ["chatGuids", "excludeChatGuids", "handles"]) {
+            const value = filters[key];
+            if (value == null) continue;
+            if (!Array.isArray(value) || value.some(i => typeof i !== "string")) {
+                throw new BadRequest({ error: `Webhook filter "${key}" must be a list of strings!` });
+            }
+        }
+
+        for (const key of ["isFromMe", "hasAttachments"]) {
+            const value = filters[key];
+            if (value != null && typeof value !== "boolean") {
+                throw new BadRequest({ error: `Webhook filter "${key}" must be a boolean!` });
+            }
+        }
+
+        if (filters.chatType != null && !webhookChatTypes.includes(filters.chatType)) {
+            throw new BadRequest({ error: `Webhook filter "chatType" must be one of: ${webhookChatTypes}` });
+        }
+
+        if (filters.textPattern != null) {
+            if (typeof filters.textPattern !== "string") {
+                throw new BadRequest({ error: `Webhook filter "textPattern" must be a string!` });
+            }
+
+            try {
+                new RegExp(filters.textPattern, "i");
+            } catch (ex: any) {
+                throw new BadRequest({ error: `Webhook filter "textPattern" is not a valid regex: ${ex?.message}` });
+            }
+        }
+    }
+
+    static deliveriesRules = {
+        id: "required|numeric",
+        status: "string|in:pending,success,failed",
+        offset: "numeric|min:0",
+        limit: "numeric|min:1|max:1000"
+    };
+
+    static async validateGetDeliveries(ctx: RouterContext, next: Next) {
+        ValidateInput({ ...ctx?.request?.query, id: ctx.params.id }, WebhookValidator.deliveriesRules);
+        await next();
+    }
+
+    static replayDeliveryRules = {
+        id: "required|numeric",
+        deliveryId: "required|numeric"
+    };
+
+    static async validateReplayDelivery(ctx: RouterContext, next: Next) {
+        ValidateInput(ctx.params, WebhookValidator.replayDeliveryRules);
+        await next();
+    }
+
+    static replayFailedRules = {
+        id: "required|numeric"
+    };
 
+    static async validateReplayFailed(ctx: RouterContext, next: Next) {
+        ValidateInput(ctx.params, WebhookValidator.replayFailedRules);
         await next();
     }
 }
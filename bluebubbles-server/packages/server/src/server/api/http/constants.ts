@@ -107,4 +107,32 @@ export const webhookEventOptions = [
         label: 'Settings Backup Deleted',
         value: 'settings-backup-deleted'
     }
-];
\ No newline at end of file
+];
+
+// Also modify packages/ui/src/app/constants.ts
+export const apiTokenScopeOptions = [
+    {
+        label: "Read Messages",
+        value: "messages:read"
+    },
+    {
+        label: "Send Messages",
+        value: "messages:send"
+    },
+    {
+        label: "Manage Chats",
+        value: "chats:write"
+    },
+    {
+        label: "Read Contacts",
+        value: "contacts:read"
+    },
+    {
+        label: "Server Admin",
+        value: "server:admin"
+    },
+    {
+        label: "Find My",
+        value: "findmy"
+    }
+];
@@ -13,9 +13,10 @@ import * as fs from "fs";
 
 // Internal libraries
 import { Server } from "@server";
-import { isNotEmpty, onlyAlphaNumeric, safeTrim } from "@server/helpers/utils";
+import { isNotEmpty, onlyAlphaNumeric } from "@server/helpers/utils";
 import { EventCache } from "@server/eventCache";
 import { CertificateService } from "@server/services/certificateService";
+import { ApiTokenInterface } from "@server/api/interfaces/apiTokenInterface";
 
 import { HttpRoutes as HttpRoutesV1 } from "./api/v1/httpRoutes";
 import { SocketRoutes as SocketRoutesV1 } from "./api/v1/socketRoutes";
@@ -190,14 +191,15 @@ export class HttpService extends Loggable {
                 this.log.info(`Client disconnected (Total Clients: ${this.socketServer.sockets.sockets.size})`);
             });
 
-            let pass = socket.handshake.query?.password ?? socket.handshake.query?.guid;
-            const cfgPass = String((await Server().repo.getConfig("password")) as string);
+            const header = /^Bearer\s+(.+)$/i.exec(socket.handshake.headers?.authorization ?? "");
+            let pass = header?.[1] ?? socket.handshake.query?.password ?? socket.handshake.query?.guid;
 
             // Decode the param incase it contains URL encoded characters
             pass = decodeURI(pass as string);
 
-            // Basic authentication
-            if (safeTrim(pass) === safeTrim(cfgPass)) {
+            // Socket events aren't scoped, so API tokens need full access
+            const auth = await ApiTokenInterface.authenticate(pass, socket.handshake.address).catch((): null => null);
+            if (auth && ApiTokenInterface.hasScopes(auth, ["server:admin"])) {
                 this.log.info(
                     `Client Authenticated Successfully (Total Clients: ${this.socketServer.sockets.sockets.size})`
                 );
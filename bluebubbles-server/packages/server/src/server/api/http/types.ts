@@ -16,9 +16,24 @@ export type HttpDefinition = {
     routeGroups: HttpRouteGroup[];
 };
 
+export type ApiTokenScope =
+    | "messages:read"
+    | "messages:send"
+    | "chats:write"
+    | "contacts:read"
+    | "server:admin"
+    | "findmy";
+
+// Which per-client rate limit a route counts against ("send" is stricter)
+export type HttpRateLimit = "default" | "send" | "none";
+
 export type HttpRoute = {
     method: HttpMethod;
     path: string;
+    // Scopes an API token needs to call the route (overrides the group's)
+    scopes?: ApiTokenScope[];
+    // Rate limit the route counts against (overrides the group's)
+    rateLimit?: HttpRateLimit;
     middleware?: KoaMiddleware[];
     validators?: KoaMiddleware[];
     controller: KoaMiddleware;
@@ -29,6 +44,10 @@ export type HttpRoute = {
 export type HttpRouteGroup = {
     name: string;
     prefix?: string | null;
+    // Scopes an API token needs to call the group's routes
+    scopes?: ApiTokenScope[];
+    // Rate limit the group's routes count against
+    rateLimit?: HttpRateLimit;
     middleware?: KoaMiddleware[];
     routes: HttpRoute[];
     requestTimeoutMs?: number;
@@ -0,0 +1,128 @@
+import { createHash } from "crypto";
+import { Server } from "@server";
+import { ApiToken } from "@server/databases/server/entity";
+import { safeTrim } from "@server/helpers/utils";
+import { generateRandomString } from "@server/utils/CryptoUtils";
+import type { ApiTokenScope } from "../http/types";
+
+// Prefixed so tokens are easy to tell apart from the server password
+const TOKEN_PREFIX = "bbt_";
+
+// Only record token usage this often, so every request isn't a DB write
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Who a request was authenticated as. The server password has full access;
+ * API tokens are limited to their scopes.
+ */
+export type ApiAuth = { type: "password" } | { type: "token"; token: ApiToken };
+
+/**
+ * An interface to interact with scoped API tokens
+ */
+export class ApiTokenInterface {
+    static async find(): Promise<ApiToken[]> {
+        return await Server().repo.apiTokens().find({ order: { created: "DESC" } });
+    }
+
+    /**
+     * Creates a new API token.
+     *
+     * @param name A name to recognize the token by
+     * @param scopes What the token is allowed to do
+     * @param expiresAt When the token stops working (null = never)
+     * @returns The saved token and its plaintext value, which can't be retrieved again
+     */
+    static async create(
+        name: string,
+        scopes: ApiTokenScope[],
+        expiresAt: Date | null = null
+    ): Promise<{ apiToken: ApiToken; token: string }> {
+        const token = `${TOKEN_PREFIX}${generateRandomString(48)}`;
+        const repo = Server().repo.apiTokens();
+        const apiToken = await repo.save(
+            repo.create({
+                name,
+                scopes: [...new Set(scopes)],
+                tokenHash: ApiTokenInterface.hash(token),
+                tokenPrefix: token.substring(0, TOKEN_PREFIX.length + 6),
+                expiresAt
+            })
+        );
+
+        Server().log(`Created API token "${name}" with scopes: ${apiToken.scopes.join(", ")}`);
+        return { apiToken, token };
+    }
+
+    static async delete(id: number): Promise<boolean> {
+        const result = await Server().repo.apiTokens().delete(id);
+        return (result.affected ?? 0) > 0;
+    }
+
+    /**
+     * Checks a token or the server password.
+     *
+     * @param value The password or API token the client sent
+     * @param ip The client's IP, recorded as the token's last use
+     * @returns How the client authenticated, or null if it didn't
+     */
+    static async authenticate(value: string, ip: string = null): Promise<ApiAuth | null> {
+        const token = safeTrim(value);
+        if (!token) return null;
+
+        // Make sure we have a password from the database
+        const password = String(Server().repo.getConfig("password") as string);
+        if (!password) throw new Error("Failed to retrieve password from the database");
+        if (safeTrim(password) === token) return { type: "password" };
+
+        if (!token.startsWith(TOKEN_PREFIX)) return null;
+        const repo = Server().repo.apiTokens();
+        const apiToken = await repo.findOneBy({ tokenHash: ApiTokenInterface.hash(token) });
+        if (!apiToken) return null;
+
+        if (apiToken.expiresAt && apiToken.expiresAt.getTime() <= Date.now()) {
+            Server().log(`Client (IP: ${ip}) tried to use expired API token "${apiToken.name}"`, "debug");
+            return null;
+        }
+
+        const lastUsed = apiToken.lastUsedAt?.getTime() ?? 0;
+        if (Date.now() - lastUsed >= LAST_USED_RESOLUTION_MS || apiToken.lastUsedIp !== ip) {
+            apiToken.lastUsedAt = new Date();
+            apiToken.lastUsedIp = ip;
+            await repo.update(apiToken.id, { lastUsedAt: apiToken.lastUsedAt, lastUsedIp: ip });
+        }
+
+        return { type: "token", token: apiToken };
+    }
+
+    /**
+     * Converts a token for the API/UI, leaving out its hash
+     */
+    static serialize(token: ApiToken): NodeJS.Dict<any> {
+        return {
+            id: token.id,
+            name: token.name,
+            tokenPrefix: token.tokenPrefix,
+            scopes: token.scopes,
+            expiresAt: token.expiresAt ? token.expiresAt.getTime() : null,
+            lastUsedAt: token.lastUsedAt ? token.lastUsedAt.getTime() : null,
+            lastUsedIp: token.lastUsedIp,
+            created: token.created
+        };
+    }
+
+    /**
+     * Checks if an authenticated client has all of the given scopes
+     */
+    static hasScopes(auth: ApiAuth, scopes: ApiTokenScope[]): boolean {
+        if (auth.type === "password") return true;
+
+        // Admin tokens can do anything the password can
+        if (auth.token.scopes.includes("server:admin")) return true;
+        return scopes.every(scope => auth.token.scopes.includes(scope));
+    }
+
+    private static hash(token: string): string {
+        return createHash("sha256").update(token).digest("hex");
+    }
+}
@@ -22,7 +22,8 @@ export class GeneralInterface {
             detected_imessage: await Server().iMessageRepo.getiMessageAccount(),
             macos_time_sync: await FileSystem.getTimeSync(),
             local_ipv4s: FileSystem.getLocalIps("IPv4"),
-            local_ipv6s: FileSystem.getLocalIps("IPv6")
+            local_ipv6s: FileSystem.getLocalIps("IPv6"),
+            rate_limits: Server().rateLimitService?.getStats() ?? null
         };
     }
 
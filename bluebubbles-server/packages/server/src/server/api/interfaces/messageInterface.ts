@@ -22,6 +22,7 @@ import type {
 import { Chat } from "@server/databases/imessage/entity/Chat";
 import path from "path";
 import { DBWhereItem } from "@server/databases/imessage/types";
+import { CountSend } from "@server/lib/decorators/CountSendDecorator";
 
 export class MessageInterface {
     static possibleReactions: string[] = [
@@ -49,6 +50,7 @@ export class MessageInterface {
      *
      * @returns The command line response
      */
+    @CountSend("text")
     static async sendMessageSync({
         chatGuid,
         message,
@@ -126,6 +128,7 @@ export class MessageInterface {
      *
      * @returns The command line response
      */
+    @CountSend("attachment")
     static async sendAttachmentSync({
         chatGuid,
         attachmentPath,
@@ -317,6 +320,7 @@ export class MessageInterface {
         return retMessage;
     }
 
+    @CountSend("unsend")
     static async unsendMessage({ chatGuid, messageGuid, partIndex = 0 }: UnsendMessageParams) {
         checkPrivateApiStatus();
         if (!isMinVentura) throw new Error("Unsend message is only supported on macOS Ventura and newer!");
@@ -345,6 +349,7 @@ export class MessageInterface {
         return retMessage;
     }
 
+    @CountSend("edit")
     static async editMessage({
         chatGuid,
         messageGuid,
@@ -385,6 +390,7 @@ export class MessageInterface {
         return retMessage;
     }
 
+    @CountSend("reaction")
     static async sendReaction({
         chatGuid,
         message,
@@ -525,6 +531,7 @@ export class MessageInterface {
         return mediaPath;
     }
 
+    @CountSend("multipart")
     static async sendMultipart({
         chatGuid,
         attributedBody = null,
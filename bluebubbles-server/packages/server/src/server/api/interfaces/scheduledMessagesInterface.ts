@@ -1,6 +1,13 @@
 import { Server } from "@server";
 import { ScheduledMessage } from "@server/databases/server/entity";
-import { ScheduledMessageScheduleType, ScheduledMessageType } from "@server/services/scheduledMessagesService";
+import {
+    ScheduledMessageOccurrence,
+    ScheduledMessageSchedule,
+    ScheduledMessageType
+} from "@server/services/scheduledMessagesService";
+import { getOccurrences, parseRRule } from "@server/services/scheduledMessagesService/recurrence";
+import { validateQuietHours } from "@server/services/scheduledMessagesService/quietHours";
+import { getSystemTimeZone, isValidTimeZone } from "@server/utils/TimeUtils";
 import { FindOneOptions } from "typeorm";
 import { SendMessageParams } from "../types";
 
@@ -11,21 +18,8 @@ import { SendMessageParams } from "../types";
  * of directly calling the DB or the service.
  */
 export class ScheduledMessagesInterface {
-    static validateSchedule(
-        scheduledFor: Date,
-        schedule: {
-            type: ScheduledMessageScheduleType;
-            intervalType?: string;
-            interval?: number;
-        }
-    ) {
-        if (schedule.type === "recurring" && !schedule.intervalType) {
-            throw new Error("Recurring schedule must have an interval type");
-        }
-
-        if (schedule.type === "recurring" && (!schedule.interval || schedule.interval === 0)) {
-            throw new Error("Recurring schedule must have an interval > 0");
-        }
+    static validateSchedule(scheduledFor: Date, schedule: ScheduledMessageSchedule) {
+        ScheduledMessagesInterface.validateRecurrence(schedule);
 
         if (!scheduledFor) {
             throw new Error("Scheduled For date is required");
@@ -35,6 +29,72 @@ export class ScheduledMessagesInterface {
             throw new Error("Scheduled For date must be in the future");
         }
     }
+
+    /**
+     * Validates how a schedule repeats: its interval or RRULE, time zone & quiet hours.
+     *
+     * @param schedule The schedule configuration.
+     */
+    static validateRecurrence(schedule: ScheduledMessageSchedule) {
+        if (schedule.timezone && !isValidTimeZone(schedule.timezone)) {
+            throw new Error(`Invalid time zone: ${schedule.timezone}`);
+        }
+
+        if (schedule.quietHours) {
+            validateQuietHours(schedule.quietHours);
+        }
+
+        if (schedule.type === "recurring" && schedule.rrule) {
+            parseRRule(schedule.rrule, schedule.timezone ?? getSystemTimeZone());
+        } else {
+            if (schedule.type === "recurring" && !schedule.intervalType) {
+                throw new Error("Recurring schedule must have an interval type or an RRULE");
+            }
+
+            if (schedule.type === "recurring" && (!schedule.interval || schedule.interval === 0)) {
+                throw new Error("Recurring schedule must have an interval > 0");
+            }
+        }
+    }
+
+    /**
+     * Fills in the derived parts of a schedule. RRULE schedules record their
+     * start & time zone, and are moved to their first occurrence.
+     *
+     * @param scheduledFor The date the message should be sent.
+     * @param schedule The schedule configuration.
+     * @returns The date of the first send & the completed schedule
+     */
+    static prepareSchedule(
+        scheduledFor: Date,
+        schedule: ScheduledMessageSchedule
+    ): { scheduledFor: Date; schedule: ScheduledMessageSchedule } {
+        if (schedule.type !== "recurring" || !schedule.rrule) return { scheduledFor, schedule };
+
+        const timezone = schedule.timezone ?? getSystemTimeZone();
+        const rule = parseRRule(schedule.rrule, timezone);
+        const [first] = getOccurrences(rule, scheduledFor, timezone);
+        if (!first) throw new Error("RRULE has no occurrences after the Scheduled For date");
+
+        return { scheduledFor: first, schedule: { ...schedule, timezone, start: scheduledFor.getTime() } };
+    }
+
+    /**
+     * Previews the next occurrences of a schedule.
+     *
+     * @param scheduledFor The date the schedule starts.
+     * @param schedule The schedule configuration.
+     * @param count The number of occurrences to get.
+     * @returns The occurrences, and when each will be sent (after quiet hours).
+     */
+    static previewSchedule(
+        scheduledFor: Date,
+        schedule: ScheduledMessageSchedule,
+        count: number
+    ): ScheduledMessageOccurrence[] {
+        ScheduledMessagesInterface.validateRecurrence(schedule);
+        return Server().scheduledMessages.previewSchedule(scheduledFor, schedule, count);
+    }
     /**
      * Gets all scheduled messages from the DB.
      *
@@ -57,19 +117,16 @@ export class ScheduledMessagesInterface {
         type: ScheduledMessageType,
         payload: SendMessageParams,
         scheduledFor: Date,
-        schedule: {
-            type: ScheduledMessageScheduleType;
-            intervalType?: string;
-            interval?: number;
-        }
+        schedule: ScheduledMessageSchedule
     ): Promise<ScheduledMessage> {
         ScheduledMessagesInterface.validateSchedule(scheduledFor, schedule);
+        const prepared = ScheduledMessagesInterface.prepareSchedule(scheduledFor, schedule);
 
         const msg = new ScheduledMessage();
         msg.type = type;
         msg.payload = payload;
-        msg.scheduledFor = scheduledFor;
-        msg.schedule = schedule;
+        msg.scheduledFor = prepared.scheduledFor;
+        msg.schedule = prepared.schedule;
         msg.status = "pending";
         return await Server().scheduledMessages.createScheduledMessage(msg);
     }
@@ -88,19 +145,16 @@ export class ScheduledMessagesInterface {
         type: ScheduledMessageType,
         payload: SendMessageParams,
         scheduledFor: Date,
-        schedule: {
-            type: ScheduledMessageScheduleType;
-            intervalType?: string;
-            interval?: number;
-        }
+        schedule: ScheduledMessageSchedule
     ): Promise<ScheduledMessage> {
         ScheduledMessagesInterface.validateSchedule(scheduledFor, schedule);
+        const prepared = ScheduledMessagesInterface.prepareSchedule(scheduledFor, schedule);
 
         const msg = new ScheduledMessage();
         msg.type = type;
         msg.payload = payload;
-        msg.scheduledFor = scheduledFor;
-        msg.schedule = schedule;
+        msg.scheduledFor = prepared.scheduledFor;
+        msg.schedule = prepared.schedule;
 
         return await Server().scheduledMessages.updateScheduledMessage(id, msg);
     }
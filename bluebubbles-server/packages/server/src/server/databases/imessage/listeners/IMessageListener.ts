@@ -1,9 +1,10 @@
 import fs from "fs";
+import { Server } from "@server";
 import { MultiFileWatcher } from "@server/lib/MultiFileWatcher";
 import type { FileChangeEvent } from "@server/lib/MultiFileWatcher";
 import { Loggable } from "@server/lib/logging/Loggable";
 import { Sema } from "async-sema";
-import { IMessageCache, IMessagePoller } from "../pollers";
+import { IMessageCache, IMessagePollResult, IMessagePollType, IMessagePoller } from "../pollers";
 import { MessageRepository } from "..";
 import { waitMs } from "@server/helpers/utils";
 import { DebounceSubsequentWithWait } from "@server/lib/decorators/DebounceDecorator";
@@ -116,9 +117,13 @@ export class IMessageListener extends Loggable {
 
     async poll(after: Date, emitResults = true) {
         for (const poller of this.pollers) {
+            const stopTimer = Server().metrics?.pollDuration.startTimer({ poller: poller.tag });
             const results = await poller.poll(after);
+            stopTimer?.();
 
             if (emitResults) {
+                if (poller.type === IMessagePollType.MESSAGE) this.observeLag(results);
+
                 for (const result of results) {
                     this.emit(result.eventType, result.data);
                     await waitMs(10);
@@ -126,4 +131,16 @@ export class IMessageListener extends Loggable {
             }
         }
     }
+
+    /**
+     * Records how long new messages took to be picked up after they were created
+     */
+    private observeLag(results: IMessagePollResult[]) {
+        const now = Date.now();
+        for (const result of results) {
+            if (result.eventType !== "new-entry" || !result.data?.dateCreated) continue;
+            const lagMs = Math.max(0, now - result.data.dateCreated.getTime());
+            Server().metrics?.pollerLag.observe(lagMs / 1000);
+        }
+    }
 }
@@ -56,4 +56,8 @@ export const DEFAULT_DB_ITEMS: { [key: string]: () => any } = {
     landing_page_path: () => "",
     open_findmy_on_startup: () => 1,
     auto_lock_mac: () => 0,
+    api_rate_limit_enabled: () => 1,
+    api_rate_limit_per_minute: () => 300,
+    api_send_rate_limit_per_minute: () => 20,
+    api_daily_send_quota_per_chat: () => 200,
 };
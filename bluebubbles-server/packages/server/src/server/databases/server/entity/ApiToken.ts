@@ -0,0 +1,41 @@
+import { EpochDateTransformer } from "@server/databases/transformers/EpochDateTransformer";
+import { JsonTransformer } from "@server/databases/transformers/JsonTransformer";
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from "typeorm";
+import type { ApiTokenScope } from "@server/api/http/types";
+
+@Entity({ name: "api_token" })
+export class ApiToken {
+    toString() {
+        return `ApiToken(id=${this.id}, name=${this.name}, scopes=${(this.scopes ?? []).join(",")})`;
+    }
+
+    @PrimaryGeneratedColumn({ name: "id" })
+    id: number;
+
+    @Column("text", { name: "name", nullable: false })
+    name: string;
+
+    // SHA-256 of the token. The token itself is only shown once, when it's created
+    @Column("text", { name: "token_hash", nullable: false, unique: true })
+    tokenHash: string;
+
+    // The start of the token, so it can be recognized in the UI
+    @Column("text", { name: "token_prefix", nullable: false })
+    tokenPrefix: string;
+
+    // JSON String
+    @Column("text", { name: "scopes", nullable: false, transformer: JsonTransformer })
+    scopes: ApiTokenScope[];
+
+    @Column("date", { name: "expires_at", nullable: true, transformer: EpochDateTransformer })
+    expiresAt: Date;
+
+    @Column("date", { name: "last_used_at", nullable: true, transformer: EpochDateTransformer })
+    lastUsedAt: Date;
+
+    @Column("text", { name: "last_used_ip", nullable: true, default: null })
+    lastUsedIp: string;
+
+    @CreateDateColumn()
+    created: Date;
+}
@@ -1,3 +1,6 @@
+import { EpochDateTransformer } from "@server/databases/transformers/EpochDateTransformer";
+import { JsonTransformer } from "@server/databases/transformers/JsonTransformer";
+import type { WebhookFilters } from "@server/services/webhookService/filters";
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from "typeorm";
 
 @Entity({ name: "webhook" })
@@ -12,6 +15,30 @@ export class Webhook {
     @Column("text", { name: "events", nullable: false })
     events: string;
 
+    // Narrows which chat & message events are delivered (null = everything)
+    @Column("text", { name: "filters", nullable: true, default: null, transformer: JsonTransformer })
+    filters: WebhookFilters | null;
+
+    // Shared secret used to sign each delivery (HMAC-SHA256)
+    @Column("text", { name: "secret", nullable: true })
+    secret: string;
+
+    // Disabled webhooks don't receive deliveries
+    @Column("boolean", { name: "enabled", nullable: false, default: true })
+    enabled: boolean;
+
+    // Failed delivery attempts since the last successful one
+    @Column("integer", { name: "consecutive_failures", nullable: false, default: 0 })
+    consecutiveFailures: number;
+
+    // When the current run of failed attempts started
+    @Column("date", { name: "failing_since", nullable: true, transformer: EpochDateTransformer })
+    failingSince: Date;
+
+    // Why the webhook was disabled automatically
+    @Column("text", { name: "disabled_reason", nullable: true, default: null })
+    disabledReason: string;
+
     @CreateDateColumn()
     created: Date;
 }
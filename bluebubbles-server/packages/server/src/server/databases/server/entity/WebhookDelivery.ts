@@ -0,0 +1,57 @@
+import { EpochDateTransformer } from "@server/databases/transformers/EpochDateTransformer";
+import { JsonTransformer } from "@server/databases/transformers/JsonTransformer";
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from "typeorm";
+
+@Entity({ name: "webhook_delivery" })
+@Index(["webhookId", "created"])
+@Index(["status", "nextAttemptAt"])
+export class WebhookDelivery {
+    toString() {
+        return (
+            `WebhookDelivery(id=${this.id}, webhookId=${this.webhookId}, event=${this.eventType}, ` +
+            `status=${this.status}, attempts=${this.attempts})`
+        );
+    }
+
+    @PrimaryGeneratedColumn({ name: "id" })
+    id: number;
+
+    @Column("integer", { name: "webhook_id", nullable: false })
+    webhookId: number;
+
+    @Column("text", { name: "event_type", nullable: false })
+    eventType: string;
+
+    // JSON String containing the event that is POSTed
+    @Column("text", { name: "payload", nullable: false, transformer: JsonTransformer })
+    payload: NodeJS.Dict<any>;
+
+    // pending, success or failed
+    @Column("text", { name: "status", nullable: false, default: "pending" })
+    status: string;
+
+    @Column("integer", { name: "attempts", nullable: false, default: 0 })
+    attempts: number;
+
+    // When the next attempt is due (pending deliveries only)
+    @Column("date", { name: "next_attempt_at", nullable: true, transformer: EpochDateTransformer })
+    nextAttemptAt: Date;
+
+    // HTTP status of the last attempt, if the webhook responded
+    @Column("integer", { name: "response_status", nullable: true, default: null })
+    responseStatus: number;
+
+    // Error from the last failed attempt
+    @Column("text", { name: "error", nullable: true, default: null })
+    error: string;
+
+    @Column("date", { name: "delivered_at", nullable: true, transformer: EpochDateTransformer })
+    deliveredAt: Date;
+
+    // The delivery this one replays, if any
+    @Column("integer", { name: "replay_of", nullable: true, default: null })
+    replayOf: number;
+
+    @CreateDateColumn()
+    created: Date;
+}
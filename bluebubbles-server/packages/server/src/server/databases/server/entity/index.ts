@@ -3,8 +3,10 @@ import { Alert } from "./Alert";
 import { Device } from "./Device";
 import { Queue } from "./Queue";
 import { Webhook } from "./Webhook";
+import { WebhookDelivery } from "./WebhookDelivery";
 import { Contact } from "./Contact";
 import { ContactAddress } from "./ContactAddress";
 import { ScheduledMessage } from "./ScheduledMessage";
+import { ApiToken } from "./ApiToken";
 
-export { Config, Alert, Device, Queue, Webhook, Contact, ContactAddress, ScheduledMessage };
+export { Config, Alert, Device, Queue, Webhook, WebhookDelivery, Contact, ContactAddress, ScheduledMessage, ApiToken };
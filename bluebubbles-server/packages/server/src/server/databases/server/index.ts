@@ -4,10 +4,26 @@ import { EventEmitter } from "events";
 import { DataSource } from "typeorm";
 import { Server } from "@server";
 import { isEmpty, isNotEmpty } from "@server/helpers/utils";
-import { Config, Alert, Device, Queue, Webhook, Contact, ContactAddress, ScheduledMessage } from "./entity";
+import { generateRandomString } from "@server/utils/CryptoUtils";
+import { normalizeWebhookFilters, WebhookFilters } from "@server/services/webhookService/filters";
+import {
+    Config,
+    Alert,
+    Device,
+    Queue,
+    Webhook,
+    WebhookDelivery,
+    Contact,
+    ContactAddress,
+    ScheduledMessage,
+    ApiToken
+} from "./entity";
 import { DEFAULT_DB_ITEMS } from "./constants";
 import { ContactTables1654432080899 } from "./migrations/1654432080899-ContactTables";
 import { ScheduledMessageTable1665083072000 } from "./migrations/1665083072000-ScheduledMessageTable";
+import { WebhookDeliveryTable1792411200000 } from "./migrations/1792411200000-WebhookDeliveryTable";
+import { WebhookFilters1792497600000 } from "./migrations/1792497600000-WebhookFilters";
+import { ApiTokenTable1792584000000 } from "./migrations/1792584000000-ApiTokenTable";
 
 export type ServerConfig = { [key: string]: Date | string | boolean | number };
 export type ServerConfigChange = { prevConfig: ServerConfig; nextConfig: ServerConfig };
@@ -43,8 +59,25 @@ export class ServerRepository extends EventEmitter {
             name: "config",
             type: "better-sqlite3",
             database: dbPath,
-            entities: [Config, Alert, Device, Queue, Webhook, Contact, ContactAddress, ScheduledMessage],
-            migrations: [ContactTables1654432080899, ScheduledMessageTable1665083072000],
+            entities: [
+                Config,
+                Alert,
+                Device,
+                Queue,
+                Webhook,
+                WebhookDelivery,
+                Contact,
+                ContactAddress,
+                ScheduledMessage,
+                ApiToken
+            ],
+            migrations: [
+                ContactTables1654432080899,
+                ScheduledMessageTable1665083072000,
+                WebhookDeliveryTable1792411200000,
+                WebhookFilters1792497600000,
+                ApiTokenTable1792584000000
+            ],
             migrationsRun: !shouldSync,
             migrationsTableName: "migrations",
             synchronize: shouldSync
@@ -93,6 +126,20 @@ export class ServerRepository extends EventEmitter {
         return this.db.getRepository(Webhook);
     }
 
+    /**
+     * Get the webhook deliveries repo
+     */
+    webhookDeliveries() {
+        return this.db.getRepository(WebhookDelivery);
+    }
+
+    /**
+     * Get the API tokens repo
+     */
+    apiTokens() {
+        return this.db.getRepository(ApiToken);
+    }
+
     /**
      * Get the contacts repo
      */
@@ -205,25 +252,39 @@ export class ServerRepository extends EventEmitter {
         return await repo.find({ select: fields, relations: ["addresses"] });
     }
 
-    public async addWebhook(url: string, events: Array<{ label: string; value: string }>): Promise<Webhook> {
+    public async addWebhook(
+        url: string,
+        events: Array<{ label: string; value: string }>,
+        secret: string | null = null,
+        filters: WebhookFilters | null = null
+    ): Promise<Webhook> {
         const repo = this.webhooks();
         const item = await repo.findOneBy({ url });
 
         // If the webhook exists, don't re-add it, just return it
         if (item) return item;
 
-        const webhook = repo.create({ url, events: JSON.stringify(events.map(e => e.value)) });
+        const webhook = repo.create({
+            url,
+            events: JSON.stringify(events.map(e => e.value)),
+            secret: secret ?? generateRandomString(64),
+            filters: normalizeWebhookFilters(filters)
+        });
         return await repo.save(webhook);
     }
 
     public async updateWebhook({
         id,
         url = null,
-        events = null
+        events = null,
+        enabled = null,
+        filters
     }: {
         id: number;
         url: string;
         events: Array<{ label: string; value: string }>;
+        enabled?: boolean | null;
+        filters?: WebhookFilters | null;
     }): Promise<Webhook> {
         const repo = this.webhooks();
         const item = await repo.findOneBy({ id });
@@ -232,6 +293,19 @@ export class ServerRepository extends EventEmitter {
         if (url) item.url = url;
         if (events) item.events = JSON.stringify(events.map(e => e.value));
 
+        // Null clears the filters, undefined leaves them alone
+        if (filters !== undefined) item.filters = normalizeWebhookFilters(filters);
+
+        // Re-enabling starts the failure tracking over
+        if (enabled !== null && enabled !== undefined) {
+            item.enabled = enabled;
+            if (enabled) {
+                item.consecutiveFailures = 0;
+                item.failingSince = null;
+                item.disabledReason = null;
+            }
+        }
+
         await repo.update(id, item);
         return item;
     }
@@ -241,6 +315,7 @@ export class ServerRepository extends EventEmitter {
         const repo = this.webhooks();
         const item = url ? await repo.findOneBy({ url }) : await repo.findOneBy({ id });
         if (!item) return;
+        await this.webhookDeliveries().delete({ webhookId: item.id });
         await repo.delete(item.id);
     }
 
@@ -0,0 +1,62 @@
+import { Server } from "@server";
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class WebhookDeliveryTable1792411200000 implements MigrationInterface {
+    name = "WebhookDeliveryTable1792411200000";
+
+    webhookColumns: Record<string, string> = {
+        secret: `ALTER TABLE "webhook" ADD COLUMN "secret" text DEFAULT NULL;`,
+        enabled: `ALTER TABLE "webhook" ADD COLUMN "enabled" boolean NOT NULL DEFAULT (1);`,
+        consecutive_failures: `ALTER TABLE "webhook" ADD COLUMN "consecutive_failures" integer NOT NULL DEFAULT (0);`,
+        failing_since: `ALTER TABLE "webhook" ADD COLUMN "failing_since" date DEFAULT NULL;`,
+        disabled_reason: `ALTER TABLE "webhook" ADD COLUMN "disabled_reason" text DEFAULT NULL;`
+    };
+
+    createWebhookDeliveryTable = `
+        CREATE TABLE IF NOT EXISTS "webhook_delivery" (
+            "id" integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+            "webhook_id" integer NOT NULL,
+            "event_type" text NOT NULL,
+            "payload" text NOT NULL,
+            "status" text NOT NULL DEFAULT 'pending',
+            "attempts" integer NOT NULL DEFAULT (0),
+            "next_attempt_at" date DEFAULT NULL,
+            "response_status" integer DEFAULT NULL,
+            "error" text DEFAULT NULL,
+            "delivered_at" date DEFAULT NULL,
+            "replay_of" integer DEFAULT NULL,
+            "created" datetime NOT NULL DEFAULT (datetime('now'))
+        );
+    `;
+
+    createIndexes = [
+        `CREATE INDEX IF NOT EXISTS "IDX_webhook_delivery_webhook_created"
+            ON "webhook_delivery" ("webhook_id", "created");`,
+        `CREATE INDEX IF NOT EXISTS "IDX_webhook_delivery_status_next_attempt"
+            ON "webhook_delivery" ("status", "next_attempt_at");`
+    ];
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        Server().log(`Migration[${this.name}] Adding Webhook delivery columns...`, "debug");
+        for (const [column, query] of Object.entries(this.webhookColumns)) {
+            if (!(await queryRunner.hasColumn("webhook", column))) {
+                await queryRunner.query(query);
+            }
+        }
+
+        // Existing webhooks get a signing secret too
+        await queryRunner.query(`UPDATE "webhook" SET "secret" = lower(hex(randomblob(32))) WHERE "secret" IS NULL;`);
+
+        Server().log(`Migration[${this.name}] Creating WebhookDelivery table...`, "debug");
+        await queryRunner.query(this.createWebhookDeliveryTable);
+        for (const query of this.createIndexes) {
+            await queryRunner.query(query);
+        }
+
+        Server().log(`Migration[${this.name}] Success!`, "debug");
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        // Don't do anything
+    }
+}
@@ -0,0 +1,21 @@
+import { Server } from "@server";
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class WebhookFilters1792497600000 implements MigrationInterface {
+    name = "WebhookFilters1792497600000";
+
+    addFiltersColumn = `ALTER TABLE "webhook" ADD COLUMN "filters" text DEFAULT NULL;`;
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        Server().log(`Migration[${this.name}] Adding Webhook filters column...`, "debug");
+        if (!(await queryRunner.hasColumn("webhook", "filters"))) {
+            await queryRunner.query(this.addFiltersColumn);
+        }
+
+        Server().log(`Migration[${this.name}] Success!`, "debug");
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        // Don't do anything
+    }
+}
@@ -29,6 +29,8 @@ import {
     UpdateService,
     CloudflareService,
     WebhookService,
+    RateLimitService,
+    MetricsService,
     ScheduledMessagesService,
     OauthService,
     ZrokService
@@ -145,6 +147,10 @@ class BlueBubblesServer extends EventEmitter {
 
     webhookService: WebhookService;
 
+    rateLimitService: RateLimitService;
+
+    metrics: MetricsService;
+
     oauthService: OauthService;
 
     actionHandler: ActionHandler;
@@ -232,6 +238,8 @@ class BlueBubblesServer extends EventEmitter {
         this.updater = null;
         this.messageManager = null;
         this.webhookService = null;
+        this.rateLimitService = null;
+        this.metrics = null;
         this.scheduledMessages = null;
         this.oauthService = null;
         this.iMessageListener = null;
@@ -448,6 +456,13 @@ class BlueBubblesServer extends EventEmitter {
     }
 
     async initServices(): Promise<void> {
+        try {
+            this.logger.info("Initializing Metrics Service...");
+            this.metrics = new MetricsService();
+        } catch (ex: any) {
+            this.logger.error(`Failed to start Metrics service! ${ex?.message ?? String(ex)}`);
+        }
+
         this.initFcm();
 
         try {
@@ -491,6 +506,13 @@ class BlueBubblesServer extends EventEmitter {
             this.logger.error(`Failed to start Webhook service! ${ex?.message ?? String(ex)}}`);
         }
 
+        try {
+            this.logger.info("Initializing Rate Limit Service...");
+            this.rateLimitService = new RateLimitService();
+        } catch (ex: any) {
+            this.logger.error(`Failed to start Rate Limit service! ${ex?.message ?? String(ex)}`);
+        }
+
         try {
             this.logger.info("Initializing Scheduled Messages Service...");
             this.scheduledMessages = new ScheduledMessagesService();
@@ -539,6 +561,13 @@ class BlueBubblesServer extends EventEmitter {
             this.logger.error(`Failed to start Scheduled Messages service! ${ex?.message ?? String(ex)}}`);
         }
 
+        try {
+            this.logger.info("Starting Webhook service...");
+            this.webhookService.start();
+        } catch (ex: any) {
+            this.logger.error(`Failed to start Webhook service! ${ex?.message ?? String(ex)}`);
+        }
+
         const privateApiEnabled = this.repo.getConfig("enable_private_api") as boolean;
         const ftPrivateApiEnabled = this.repo.getConfig("enable_ft_private_api") as boolean;
         if (privateApiEnabled || ftPrivateApiEnabled) {
@@ -606,6 +635,12 @@ class BlueBubblesServer extends EventEmitter {
             this.logger.error(`Failed to stop Scheduled Messages service! ${ex?.message ?? ex}`);
         }
 
+        try {
+            this.webhookService?.stop();
+        } catch (ex: any) {
+            this.logger.error(`Failed to stop Webhook service! ${ex?.message ?? ex}`);
+        }
+
         this.logger.info("Finished stopping services...");
     }
 
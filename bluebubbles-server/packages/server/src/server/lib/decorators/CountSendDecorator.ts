@@ -0,0 +1,26 @@
+import { Server } from "@server";
+
+/**
+ * Counts the successes & failures of an async send method
+ * in the message sends metric.
+ *
+ * @param type The kind of send (e.g. text, attachment, reaction)
+ */
+export const CountSend = <T extends (...args: any[]) => any>(type: string): MethodDecorator => {
+    return (_target: any, _propertyKey: string | symbol, descriptor: PropertyDescriptor) => {
+        const originalMethod = descriptor.value;
+
+        descriptor.value = async function (...args: any[]): Promise<ReturnType<T>> {
+            try {
+                const result = await originalMethod.apply(this, args);
+                Server().metrics?.messageSends.inc({ type, result: "success" });
+                return result;
+            } catch (ex) {
+                Server().metrics?.messageSends.inc({ type, result: "failure" });
+                throw ex;
+            }
+        };
+
+        return descriptor;
+    };
+};
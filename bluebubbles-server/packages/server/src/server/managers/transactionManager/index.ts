@@ -1,10 +1,20 @@
-import { TransactionPromise } from "./transactionPromise";
+import { Server } from "@server";
+import { TransactionPromise, TransactionType } from "./transactionPromise";
 
 export class TransactionManager {
     promises: TransactionPromise[] = [];
 
     add(promise: TransactionPromise) {
         this.promises.push(promise);
+
+        const type = TransactionType[promise.type]?.toLowerCase() ?? "unknown";
+        const stopTimer = Server().metrics?.privateApiTransactionDuration.startTimer({ type });
+        if (!stopTimer) return;
+
+        promise.promise.then(
+            () => stopTimer({ result: "success" }),
+            (err: any) => stopTimer({ result: err === "Transaction timeout" ? "timeout" : "error" })
+        );
     }
 
     findIndex(transactionId: string, includeResolved = false): number {
@@ -465,6 +465,8 @@ export class FCMService extends Loggable {
 
             this.log.debug(`Sending FCM notification (Priority: ${priority}) to ${devices.length} device(s)`);
             const response = await FCMService.getApp().messaging().sendEachForMulticast(payload);
+            Server().metrics?.fcmNotifications.inc({ result: "success" }, response.successCount);
+            Server().metrics?.fcmNotifications.inc({ result: "failure" }, response.failureCount);
             if (response.failureCount > 0) {
                 response.responses.forEach(resp => {
                     if (!resp.success && resp.error) {
@@ -489,6 +491,7 @@ export class FCMService extends Loggable {
             return response;
         } catch (ex: any) {
             this.log.debug(`Failed to send notification! ${ex.message}`);
+            Server().metrics?.fcmNotifications.inc({ result: "failure" }, devices.length);
         }
 
         return { responses: [], successCount: 0, failureCount: 0 };
@@ -9,6 +9,8 @@ import { QueueService } from "./queueService";
 import { IPCService } from "./ipcService";
 import { CertificateService } from "./certificateService";
 import { WebhookService } from "./webhookService";
+import { RateLimitService } from "./rateLimitService";
+import { MetricsService } from "./metricsService";
 import { ScheduledMessagesService } from "./scheduledMessagesService";
 import { OauthService } from "./oauthService";
 
@@ -24,6 +26,8 @@ export {
     CertificateService,
     CloudflareService,
     WebhookService,
+    RateLimitService,
+    MetricsService,
     ScheduledMessagesService,
     OauthService
 };
@@ -5,6 +5,7 @@ import process from "process";
 import { Server } from "@server";
 import { FileSystem } from "@server/fileSystem";
 import { AlertsInterface } from "@server/api/interfaces/alertsInterface";
+import { ApiTokenInterface } from "@server/api/interfaces/apiTokenInterface";
 import { openLogs, openAppData } from "@server/api/apple/scripts";
 import { fixServerUrl } from "@server/helpers/utils";
 import { ContactInterface } from "@server/api/interfaces/contactInterface";
@@ -26,6 +27,7 @@ import {
 import { Loggable, getLogger } from "@server/lib/logging/Loggable";
 import { ZrokManager } from "@server/managers/zrokManager";
 import { ProxyServices } from "@server/databases/server/constants";
+import { Webhook } from "@server/databases/server/entity";
 
 export class IPCService extends Loggable {
     tag = "IPCService";
@@ -148,15 +150,27 @@ export class IPCService extends Loggable {
             return FileSystem.getFCMClient();
         });
 
+        const serializeWebhook = (e: Webhook) => ({
+            id: e.id,
+            url: e.url,
+            events: e.events,
+            filters: e.filters,
+            secret: e.secret,
+            enabled: e.enabled,
+            consecutiveFailures: e.consecutiveFailures,
+            failingSince: e.failingSince,
+            disabledReason: e.disabledReason,
+            created: e.created
+        });
+
         ipcMain.handle("get-webhooks", async (event, args) => {
             const res = await Server().repo.getWebhooks();
-            return res.map(e => ({ id: e.id, url: e.url, events: e.events, created: e.created }));
+            return res.map(serializeWebhook);
         });
 
         ipcMain.handle("create-webhook", async (event, payload) => {
-            const res = await Server().repo.addWebhook(payload.url, payload.events);
-            const output = { id: res.id, url: res.url, events: res.events, created: res.created };
-            return output;
+            const res = await Server().repo.addWebhook(payload.url, payload.events, null, payload?.filters ?? null);
+            return serializeWebhook(res);
         });
 
         ipcMain.handle("delete-webhook", async (event, args) => {
@@ -164,7 +178,48 @@ export class IPCService extends Loggable {
         });
 
         ipcMain.handle("update-webhook", async (event, args) => {
-            return await Server().repo.updateWebhook({ id: args.id, url: args?.url, events: args?.events });
+            const res = await Server().repo.updateWebhook({
+                id: args.id,
+                url: args?.url,
+                events: args?.events,
+                enabled: args?.enabled,
+                filters: args?.filters
+            });
+            return serializeWebhook(res);
+        });
+
+        ipcMain.handle("get-webhook-deliveries", async (event, args) => {
+            return await Server().webhookService.getDeliveries(args.id, {
+                status: args?.status ?? null,
+                limit: args?.limit ?? 50,
+                offset: args?.offset ?? 0
+            });
+        });
+
+        ipcMain.handle("replay-webhook-delivery", async (event, args) => {
+            return await Server().webhookService.replayDelivery(args.id);
+        });
+
+        ipcMain.handle("replay-failed-webhook-deliveries", async (event, args) => {
+            return await Server().webhookService.replayFailed(args.id);
+        });
+
+        ipcMain.handle("get-api-tokens", async (event, _) => {
+            const res = await ApiTokenInterface.find();
+            return res.map(ApiTokenInterface.serialize);
+        });
+
+        ipcMain.handle("create-api-token", async (event, args) => {
+            const { apiToken, token } = await ApiTokenInterface.create(
+                args.name,
+                args.scopes,
+                args?.expiresAt ? new Date(args.expiresAt) : null
+            );
+            return { ...ApiTokenInterface.serialize(apiToken), token };
+        });
+
+        ipcMain.handle("delete-api-token", async (event, args) => {
+            return await ApiTokenInterface.delete(args.id);
         });
 
         ipcMain.handle("contact-permission-status", async (event, _) => {
@@ -422,6 +477,19 @@ export class IPCService extends Loggable {
             );
         });
 
+        ipcMain.handle("preview-scheduled-message", async (_, msg) => {
+            const occurrences = ScheduledMessagesInterface.previewSchedule(
+                new Date(msg.scheduledFor),
+                msg.schedule,
+                msg.count ?? 5
+            );
+
+            return occurrences.map(occurrence => ({
+                scheduledFor: occurrence.scheduledFor.getTime(),
+                sendAt: occurrence.sendAt.getTime()
+            }));
+        });
+
         ipcMain.handle("get-chats", async (_, msg) => {
             const [chats, __] = await ChatInterface.get({ limit: 10000 });
             return chats;
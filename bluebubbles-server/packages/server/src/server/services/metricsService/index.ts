@@ -0,0 +1,97 @@
+import { Server } from "@server";
+import { Loggable } from "@server/lib/logging/Loggable";
+import { WebhookDeliveryStatus } from "@server/services/webhookService";
+import { Counter, Gauge, Histogram, Metric } from "./metrics";
+
+/**
+ * Collects server health & throughput metrics, and renders them
+ * in the Prometheus text format for the `server/metrics` endpoint.
+ */
+export class MetricsService extends Loggable {
+    tag = "MetricsService";
+
+    httpRequestDuration = new Histogram(
+        "bluebubbles_http_request_duration_seconds",
+        "How long HTTP API requests took to handle, by route"
+    );
+
+    messageSends = new Counter(
+        "bluebubbles_message_sends_total",
+        "Messages, attachments, reactions, edits & unsends sent, by type and result"
+    );
+
+    privateApiTransactionDuration = new Histogram(
+        "bluebubbles_private_api_transaction_duration_seconds",
+        "How long Private API transactions took to resolve, by type and result"
+    );
+
+    pollerLag = new Histogram(
+        "bluebubbles_poller_lag_seconds",
+        "Time between a new message being created and the poller picking it up",
+        [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 300]
+    );
+
+    pollDuration = new Histogram(
+        "bluebubbles_poll_duration_seconds",
+        "How long each iMessage database poll took, by poller"
+    );
+
+    webhookDeliveries = new Counter(
+        "bluebubbles_webhook_deliveries_total",
+        "Webhook delivery attempts, by result (success, retry or failed)"
+    );
+
+    webhookQueueSize = new Gauge(
+        "bluebubbles_webhook_deliveries_pending",
+        "Webhook deliveries waiting to be sent or retried"
+    );
+
+    socketClients = new Gauge(
+        "bluebubbles_socket_clients",
+        "Socket.io clients currently connected",
+        () => Server().httpService?.socketServer?.sockets?.sockets?.size ?? 0
+    );
+
+    fcmNotifications = new Counter(
+        "bluebubbles_fcm_notifications_total",
+        "FCM notifications sent to devices, by result"
+    );
+
+    uptime = new Gauge("bluebubbles_uptime_seconds", "How long the server has been running", () => process.uptime());
+
+    memory = new Gauge(
+        "bluebubbles_resident_memory_bytes",
+        "Resident memory used by the server process",
+        () => process.memoryUsage().rss
+    );
+
+    private get metrics(): Metric[] {
+        return [
+            this.httpRequestDuration,
+            this.messageSends,
+            this.privateApiTransactionDuration,
+            this.pollerLag,
+            this.pollDuration,
+            this.webhookDeliveries,
+            this.webhookQueueSize,
+            this.socketClients,
+            this.fcmNotifications,
+            this.uptime,
+            this.memory
+        ];
+    }
+
+    /**
+     * Renders all of the metrics in the Prometheus text format
+     */
+    async render(): Promise<string> {
+        try {
+            const pending = await Server().repo.webhookDeliveries().countBy({ status: WebhookDeliveryStatus.PENDING });
+            this.webhookQueueSize.set(pending);
+        } catch (ex: any) {
+            this.log.debug(`Failed to count pending webhook deliveries: ${ex?.message ?? String(ex)}`);
+        }
+
+        return `${this.metrics.map(metric => metric.render()).join("\n\n")}\n`;
+    }
+}
@@ -0,0 +1,150 @@
+/* eslint-disable max-classes-per-file */
+
+export type MetricLabels = Record<string, string | number>;
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+// Seconds, suited to everything from HTTP requests to iMessage sends
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+const escapeLabelValue = (value: string | number): string => {
+    return String(value).replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+};
+
+const formatLabels = (labels: MetricLabels): string => {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) return "";
+    return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+};
+
+const formatValue = (value: number): string => {
+    if (value === Infinity) return "+Inf";
+    if (value === -Infinity) return "-Inf";
+    return String(value);
+};
+
+/**
+ * A metric in the Prometheus text exposition format.
+ * Series are keyed by their labels, so label values should be low-cardinality.
+ */
+export abstract class Metric {
+    name: string;
+
+    help: string;
+
+    abstract type: MetricType;
+
+    constructor(name: string, help: string) {
+        this.name = name;
+        this.help = help;
+    }
+
+    render(): string {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.renderSeries()];
+        return lines.join("\n");
+    }
+
+    protected abstract renderSeries(): string[];
+}
+
+export class Counter extends Metric {
+    type: MetricType = "counter";
+
+    private series: Map<string, number> = new Map();
+
+    inc(labels: MetricLabels = {}, amount = 1) {
+        const key = formatLabels(labels);
+        this.series.set(key, (this.series.get(key) ?? 0) + amount);
+    }
+
+    protected renderSeries(): string[] {
+        return [...this.series.entries()].map(([key, value]) => `${this.name}${key} ${formatValue(value)}`);
+    }
+}
+
+/**
+ * A gauge is either set directly, or read from `collect` each time it's rendered
+ */
+export class Gauge extends Metric {
+    type: MetricType = "gauge";
+
+    private series: Map<string, number> = new Map();
+
+    private collect: (() => number) | null;
+
+    constructor(name: string, help: string, collect: (() => number) | null = null) {
+        super(name, help);
+        this.collect = collect;
+    }
+
+    set(value: number, labels: MetricLabels = {}) {
+        this.series.set(formatLabels(labels), value);
+    }
+
+    protected renderSeries(): string[] {
+        if (this.collect) this.set(this.collect());
+        return [...this.series.entries()].map(([key, value]) => `${this.name}${key} ${formatValue(value)}`);
+    }
+}
+
+type HistogramSeries = {
+    labels: MetricLabels;
+    counts: number[];
+    sum: number;
+    count: number;
+};
+
+export class Histogram extends Metric {
+    type: MetricType = "histogram";
+
+    private buckets: number[];
+
+    private series: Map<string, HistogramSeries> = new Map();
+
+    constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) {
+        super(name, help);
+        this.buckets = [...buckets].sort((a, b) => a - b);
+    }
+
+    observe(value: number, labels: MetricLabels = {}) {
+        const key = formatLabels(labels);
+        const series = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+
+        for (let i = 0; i < this.buckets.length; i++) {
+            if (value <= this.buckets[i]) series.counts[i] += 1;
+        }
+
+        series.sum += value;
+        series.count += 1;
+        this.series.set(key, series);
+    }
+
+    /**
+     * Starts a timer, which observes the elapsed seconds when called
+     */
+    startTimer(labels: MetricLabels = {}): (extraLabels?: MetricLabels) => number {
+        const start = process.hrtime();
+        return (extraLabels: MetricLabels = {}) => {
+            const [elapsedSeconds, elapsedNanos] = process.hrtime(start);
+            const seconds = elapsedSeconds + elapsedNanos / 1e9;
+            this.observe(seconds, { ...labels, ...extraLabels });
+            return seconds;
+        };
+    }
+
+    protected renderSeries(): string[] {
+        const lines: string[] = [];
+        for (const series of this.series.values()) {
+            for (let i = 0; i < this.buckets.length; i++) {
+                const labels = formatLabels({ ...series.labels, le: formatValue(this.buckets[i]) });
+                lines.push(`${this.name}_bucket${labels} ${series.counts[i]}`);
+            }
+
+            lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: "+Inf" })} ${series.count}`);
+            lines.push(`${this.name}_sum${formatLabels(series.labels)} ${formatValue(series.sum)}`);
+            lines.push(`${this.name}_count${formatLabels(series.labels)} ${series.count}`);
+        }
+
+        return lines;
+    }
+}
@@ -0,0 +1,172 @@
+import { Server } from "@server";
+import { Loggable } from "@server/lib/logging/Loggable";
+import type { HttpRateLimit } from "@server/api/http/types";
+
+// Buckets that have been full this long are forgotten
+const BUCKET_IDLE_MS = 10 * 60 * 1000;
+
+type TokenBucket = {
+    tokens: number;
+    updatedAt: number;
+};
+
+export type RateLimitResult = {
+    allowed: boolean;
+    // Seconds until the request would be allowed
+    retryAfter: number;
+};
+
+export type RateLimitStats = {
+    enabled: boolean;
+    requests_per_minute: number;
+    sends_per_minute: number;
+    daily_send_quota_per_chat: number;
+    tracked_clients: number;
+    rate_limited_requests: number;
+    rate_limited_sends: number;
+    quota_rejections: number;
+    sends_today: number;
+    chats_at_quota: number;
+};
+
+/**
+ * Rate limits the HTTP API per client (API token or IP address).
+ *
+ * Each client gets a token bucket per rate limit class, which refills
+ * continuously up to its per-minute limit. Sends are additionally capped
+ * per chat per day, so a runaway client can't flood a conversation.
+ */
+export class RateLimitService extends Loggable {
+    tag = "RateLimitService";
+
+    private buckets: Map<string, TokenBucket> = new Map();
+
+    private sendCounts: Map<string, number> = new Map();
+
+    private sendCountsDay: string = RateLimitService.getDay();
+
+    private rateLimitedRequests = 0;
+
+    private rateLimitedSends = 0;
+
+    private quotaRejections = 0;
+
+    get enabled(): boolean {
+        return !!Server().repo.getConfig("api_rate_limit_enabled");
+    }
+
+    /**
+     * Takes a token from the client's bucket for a rate limit class.
+     *
+     * @param client Identifies the client (e.g. `token:1` or `ip:127.0.0.1`)
+     * @param rateLimit The route's rate limit class
+     */
+    consume(client: string, rateLimit: HttpRateLimit): RateLimitResult {
+        const perMinute = this.getLimit(rateLimit);
+        if (!this.enabled || perMinute <= 0) return { allowed: true, retryAfter: 0 };
+
+        const now = Date.now();
+        const key = `${rateLimit}:${client}`;
+        const refillPerMs = perMinute / (60 * 1000);
+        const bucket = this.buckets.get(key) ?? { tokens: perMinute, updatedAt: now };
+
+        // Refill for the time that has passed (the limit may have been lowered too)
+        bucket.tokens = Math.min(perMinute, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+        bucket.updatedAt = now;
+        this.buckets.set(key, bucket);
+        this.pruneBuckets(now);
+
+        if (bucket.tokens >= 1) {
+            bucket.tokens -= 1;
+            return { allowed: true, retryAfter: 0 };
+        }
+
+        if (rateLimit === "send") {
+            this.rateLimitedSends += 1;
+        } else {
+            this.rateLimitedRequests += 1;
+        }
+
+        this.log.debug(`Rate limited client ${client} (${rateLimit}: ${perMinute}/min)`);
+        return { allowed: false, retryAfter: Math.ceil((1 - bucket.tokens) / refillPerMs / 1000) };
+    }
+
+    /**
+     * Checks if a chat still has sends left today
+     *
+     * @param chatGuid The chat being sent to
+     */
+    checkSendQuota(chatGuid: string): RateLimitResult {
+        const quota = Number(Server().repo.getConfig("api_daily_send_quota_per_chat") ?? 0);
+        if (!this.enabled || quota <= 0) return { allowed: true, retryAfter: 0 };
+
+        this.resetSendCountsIfNeeded();
+        if ((this.sendCounts.get(chatGuid) ?? 0) < quota) return { allowed: true, retryAfter: 0 };
+
+        this.quotaRejections += 1;
+        this.log.debug(`Daily send quota (${quota}) reached for chat ${chatGuid}`);
+        return { allowed: false, retryAfter: RateLimitService.getSecondsUntilTomorrow() };
+    }
+
+    /**
+     * Counts a send against a chat's daily quota
+     *
+     * @param chatGuid The chat that was sent to
+     */
+    recordSend(chatGuid: string) {
+        this.resetSendCountsIfNeeded();
+        this.sendCounts.set(chatGuid, (this.sendCounts.get(chatGuid) ?? 0) + 1);
+    }
+
+    getStats(): RateLimitStats {
+        this.resetSendCountsIfNeeded();
+
+        const quota = Number(Server().repo.getConfig("api_daily_send_quota_per_chat") ?? 0);
+        const counts = [...this.sendCounts.values()];
+        return {
+            enabled: this.enabled,
+            requests_per_minute: this.getLimit("default"),
+            sends_per_minute: this.getLimit("send"),
+            daily_send_quota_per_chat: quota,
+            tracked_clients: new Set([...this.buckets.keys()].map(key => key.substring(key.indexOf(":") + 1))).size,
+            rate_limited_requests: this.rateLimitedRequests,
+            rate_limited_sends: this.rateLimitedSends,
+            quota_rejections: this.quotaRejections,
+            sends_today: counts.reduce((total, count) => total + count, 0),
+            chats_at_quota: quota > 0 ? counts.filter(count => count >= quota).length : 0
+        };
+    }
+
+    private getLimit(rateLimit: HttpRateLimit): number {
+        if (rateLimit === "none") return 0;
+        const name = rateLimit === "send" ? "api_send_rate_limit_per_minute" : "api_rate_limit_per_minute";
+        return Number(Server().repo.getConfig(name) ?? 0);
+    }
+
+    private pruneBuckets(now: number) {
+        // Only bother once there's a meaningful number of clients
+        if (this.buckets.size < 100) return;
+
+        for (const [key, bucket] of this.buckets.entries()) {
+            if (now - bucket.updatedAt >= BUCKET_IDLE_MS) this.buckets.delete(key);
+        }
+    }
+
+    private resetSendCountsIfNeeded() {
+        const today = RateLimitService.getDay();
+        if (today === this.sendCountsDay) return;
+
+        this.sendCounts.clear();
+        this.sendCountsDay = today;
+    }
+
+    private static getDay(): string {
+        return new Date().toLocaleDateString();
+    }
+
+    private static getSecondsUntilTomorrow(): number {
+        const tomorrow = new Date();
+        tomorrow.setHours(24, 0, 0, 0);
+        return Math.ceil((tomorrow.getTime() - Date.now()) / 1000);
+    }
+}
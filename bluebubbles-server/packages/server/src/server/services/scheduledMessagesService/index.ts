@@ -11,7 +11,9 @@ import {
     SCHEDULED_MESSAGE_UPDATED
 } from "@server/events";
 import { Loggable } from "@server/lib/logging/Loggable";
-import { safeTimeout } from "@server/utils/TimeUtils";
+import { getSystemTimeZone, safeTimeout } from "@server/utils/TimeUtils";
+import { getOccurrences, parseRRule } from "./recurrence";
+import { QuietHours, deferForQuietHours } from "./quietHours";
 
 /**
  * The possible states of a scheduled message
@@ -51,6 +53,33 @@ export enum ScheduledMessageScheduleRecurringType {
     YEARLY = "yearly"
 }
 
+/**
+ * The schedule configuration for a scheduled message
+ */
+export type ScheduledMessageSchedule = {
+    type: ScheduledMessageScheduleType;
+    intervalType?: ScheduledMessageScheduleRecurringType;
+    interval?: number;
+    // An RRULE (i.e. FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR), used instead of the interval
+    rrule?: string;
+    // When the RRULE started (DTSTART), in epoch ms
+    start?: number;
+    // The IANA time zone to evaluate the RRULE & quiet hours in (defaults to the server's)
+    timezone?: string;
+    // Sends that fall in this window are deferred until it ends
+    quietHours?: QuietHours | null;
+};
+
+/**
+ * A previewed occurrence of a schedule
+ */
+export type ScheduledMessageOccurrence = {
+    // When the occurrence is scheduled for
+    scheduledFor: Date;
+    // When it will actually be sent, after quiet hours
+    sendAt: Date;
+};
+
 /**
  * Service that manages scheduled messages
  */
@@ -274,7 +303,11 @@ export class ScheduledMessagesService extends Loggable {
         }
 
         const now = new Date();
-        const diff = scheduledMessage.scheduledFor.getTime() - now.getTime();
+        const sendAt = this.getSendDate(scheduledMessage.scheduledFor, scheduledMessage.schedule);
+        const diff = sendAt.getTime() - now.getTime();
+        if (sendAt.getTime() !== scheduledMessage.scheduledFor.getTime()) {
+            this.log.info(`Deferring until ${sendAt.toISOString()} (quiet hours): ${scheduledMessage.toString()}`);
+        }
 
         // If the schedule has passed, do not schedule it.
         if (diff <= 0) {
@@ -355,7 +388,13 @@ export class ScheduledMessagesService extends Loggable {
         const isRecurring = scheduledMessage.schedule.type === ScheduledMessageScheduleType.RECURRING;
         if (isRecurring) {
             if (recalc) {
-                scheduledMessage.scheduledFor = this.getNextRecurringDate(scheduledMessage);
+                const next = this.getNextRecurringDate(scheduledMessage);
+                if (!next) {
+                    this.log.info(`No more occurrences: ${scheduledMessage.toString()}`);
+                    return false;
+                }
+
+                scheduledMessage.scheduledFor = next;
             }
 
             this.log.info(`Rescheduling: ${scheduledMessage.toString()}`);
@@ -371,13 +410,24 @@ export class ScheduledMessagesService extends Loggable {
      * Gets the next date for a recurring message.
      *
      * @param schedule The scheduling configruation
-     * @returns A future date
+     * @returns A future date, or null if an RRULE has no more occurrences
      */
-    getNextRecurringDate(scheduledMessage: ScheduledMessage): Date {
+    getNextRecurringDate(scheduledMessage: ScheduledMessage): Date | null {
         if (scheduledMessage.schedule.type !== ScheduledMessageScheduleType.RECURRING) {
             throw new Error('Schedule must be of type "recurring" to get the next date!');
         }
 
+        const schedule = scheduledMessage.schedule as ScheduledMessageSchedule;
+        if (schedule.rrule) {
+            // Skip any occurrences that were missed (i.e. the server was offline)
+            const previousTime = scheduledMessage.scheduledFor.getTime();
+            const after = new Date(Math.max(previousTime, new Date().getTime()));
+            const timeZone = this.getTimeZone(schedule);
+            const rule = parseRRule(schedule.rrule, timeZone);
+            const start = new Date(schedule.start ?? previousTime);
+            return getOccurrences(rule, start, timeZone, { after })[0] ?? null;
+        }
+
         let nowTime = new Date().getTime();
         const previousTime = scheduledMessage.scheduledFor.getTime();
         const nextTs = this.getMillisecondsForSchedule(scheduledMessage.schedule);
@@ -397,6 +447,52 @@ export class ScheduledMessagesService extends Loggable {
         return new Date(startTime);
     }
 
+    /**
+     * Gets the time zone a schedule's RRULE & quiet hours are in
+     *
+     * @param schedule The configured schedule
+     */
+    getTimeZone(schedule: NodeJS.Dict<any>): string {
+        return schedule.timezone ?? getSystemTimeZone();
+    }
+
+    /**
+     * Gets when a message scheduled for a date will be sent,
+     * deferring it to the end of the schedule's quiet hours.
+     *
+     * @param scheduledFor When the message is scheduled for
+     * @param schedule The configured schedule
+     */
+    getSendDate(scheduledFor: Date, schedule: NodeJS.Dict<any>): Date {
+        return deferForQuietHours(scheduledFor, schedule.quietHours ?? null, this.getTimeZone(schedule));
+    }
+
+    /**
+     * Gets the first occurrences of a schedule, without scheduling anything.
+     *
+     * @param scheduledFor When the schedule starts
+     * @param schedule The configured schedule
+     * @param count The max number of occurrences to get
+     * @returns The occurrences (fewer than the count if the schedule ends)
+     */
+    previewSchedule(
+        scheduledFor: Date,
+        schedule: ScheduledMessageSchedule,
+        count: number
+    ): ScheduledMessageOccurrence[] {
+        let dates: Date[] = [scheduledFor];
+        if (schedule.type === ScheduledMessageScheduleType.RECURRING && schedule.rrule) {
+            const timeZone = this.getTimeZone(schedule);
+            const rule = parseRRule(schedule.rrule, timeZone);
+            dates = getOccurrences(rule, scheduledFor, timeZone, { limit: count });
+        } else if (schedule.type === ScheduledMessageScheduleType.RECURRING) {
+            const intervalMs = this.getMillisecondsForSchedule(schedule);
+            dates = [...Array(count).keys()].map(i => new Date(scheduledFor.getTime() + i * intervalMs));
+        }
+
+        return dates.map(date => ({ scheduledFor: date, sendAt: this.getSendDate(date, schedule) }));
+    }
+
     /**
      * Gets the number of milliseconds until the next schedule.
      *
@@ -438,8 +534,11 @@ export class ScheduledMessagesService extends Loggable {
         scheduledMessage.status = ScheduledMessageStatus.IN_PROGRESS;
 
         // Calculate the next schedule time (for recurring only)
+        let hasNext = false;
         if (scheduledMessage.schedule.type === ScheduledMessageScheduleType.RECURRING) {
-            scheduledMessage.scheduledFor = this.getNextRecurringDate(scheduledMessage);
+            const next = this.getNextRecurringDate(scheduledMessage);
+            if (next) scheduledMessage.scheduledFor = next;
+            hasNext = !!next;
         }
 
         // Save the updated information
@@ -475,7 +574,11 @@ export class ScheduledMessagesService extends Loggable {
 
         // Don't recalculate because we already did it above,
         // before the action was taken.
-        await this.tryReschedule(scheduledMessage, true, false);
+        if (hasNext) {
+            await this.tryReschedule(scheduledMessage, true, false);
+        } else {
+            this.removeTimer(scheduledMessage.id);
+        }
 
         // Save the message
         await this.saveScheduledMessage(scheduledMessage);
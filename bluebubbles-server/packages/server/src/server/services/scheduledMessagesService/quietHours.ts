@@ -0,0 +1,70 @@
+import { getZonedDateTime, zonedDateTimeToDate } from "@server/utils/TimeUtils";
+
+/**
+ * A daily window (in the schedule's time zone) when scheduled messages
+ * shouldn't be sent. Windows can wrap past midnight, i.e. 22:00 - 08:00.
+ */
+export type QuietHours = {
+    // HH:mm (24-hour)
+    start: string;
+    // HH:mm (24-hour)
+    end: string;
+};
+
+const parseTime = (value: string): number | null => {
+    const match = String(value ?? "").match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) return null;
+
+    const hour = Number(match[1]);
+    const minute = Number(match[2]);
+    if (hour > 23 || minute > 59) return null;
+    return hour * 60 + minute;
+};
+
+/**
+ * Validates a quiet hours window
+ *
+ * @param quietHours The window to validate
+ * @throws An error describing what's wrong with the window
+ */
+export const validateQuietHours = (quietHours: QuietHours) => {
+    if (typeof quietHours !== "object") throw new Error("Quiet hours must be an object with a start and end");
+    if (parseTime(quietHours.start) === null) throw new Error("Quiet hours start must be a time formatted as HH:mm");
+    if (parseTime(quietHours.end) === null) throw new Error("Quiet hours end must be a time formatted as HH:mm");
+    if (quietHours.start === quietHours.end) throw new Error("Quiet hours start and end must be different");
+};
+
+/**
+ * Gets when a message due at a date can be sent. Dates in quiet hours
+ * are deferred until the end of the window, any others are unchanged.
+ *
+ * @param date When the message is due
+ * @param quietHours The window to avoid (null = no window)
+ * @param timeZone The IANA time zone the window is in
+ */
+export const deferForQuietHours = (date: Date, quietHours: QuietHours | null, timeZone: string): Date => {
+    if (!quietHours) return date;
+
+    const start = parseTime(quietHours.start);
+    const end = parseTime(quietHours.end);
+    if (start === null || end === null || start === end) return date;
+
+    const zoned = getZonedDateTime(date, timeZone);
+    const minutes = zoned.hour * 60 + zoned.minute;
+    const wraps = start > end;
+    const isQuiet = wraps ? minutes >= start || minutes < end : minutes >= start && minutes < end;
+    if (!isQuiet) return date;
+
+    // Wrapping windows started before midnight end the next day
+    const endsTomorrow = wraps && minutes >= start;
+    return zonedDateTimeToDate(
+        {
+            year: zoned.year,
+            month: zoned.month,
+            day: zoned.day + (endsTomorrow ? 1 : 0),
+            hour: Math.floor(end / 60),
+            minute: end % 60
+        },
+        timeZone
+    );
+};
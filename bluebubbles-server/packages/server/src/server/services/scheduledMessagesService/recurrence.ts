@@ -0,0 +1,399 @@
+import { getZonedDateTime, zonedDateTimeToDate } from "@server/utils/TimeUtils";
+
+/**
+ * The supported RRULE frequencies
+ */
+export enum RRuleFrequency {
+    HOURLY = "HOURLY",
+    DAILY = "DAILY",
+    WEEKLY = "WEEKLY",
+    MONTHLY = "MONTHLY",
+    YEARLY = "YEARLY"
+}
+
+export type RRuleWeekday = {
+    // 0 (Sunday) - 6 (Saturday)
+    weekday: number;
+    // i.e. 2 for the 2nd Monday, -1 for the last Monday (MONTHLY/YEARLY only)
+    nth: number | null;
+};
+
+/**
+ * A parsed RRULE (RFC 5545). Supports FREQ, INTERVAL, COUNT, UNTIL,
+ * BYDAY, BYMONTHDAY, BYMONTH, BYHOUR, BYMINUTE and BYSETPOS.
+ * For YEARLY rules, BYDAY ordinals (i.e. -1FR) count within each month.
+ */
+export type RRule = {
+    freq: RRuleFrequency;
+    interval: number;
+    count: number | null;
+    until: Date | null;
+    byDay: RRuleWeekday[] | null;
+    byMonthDay: number[] | null;
+    byMonth: number[] | null;
+    byHour: number[] | null;
+    byMinute: number[] | null;
+    bySetPos: number[] | null;
+};
+
+type WallClockTime = {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+};
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stop looking for the next occurrence after this many periods without one (i.e. February 30th)
+const MAX_EMPTY_PERIODS = 50000;
+
+const parseIntList = (key: string, value: string, min: number, max: number, allowNegative = false): number[] => {
+    return value.split(",").map(item => {
+        const num = Number(item);
+        const abs = Math.abs(num);
+        if (!Number.isInteger(num) || (num < 0 && !allowNegative) || abs < min || abs > max) {
+            throw new Error(`Invalid ${key} value: ${item}`);
+        }
+
+        return num;
+    });
+};
+
+const parseUntil = (value: string, timeZone: string): Date => {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!match) throw new Error(`Invalid UNTIL value: ${value}`);
+
+    const [, year, month, day, hour, minute, second, utc] = match;
+    if (!hour) {
+        // A date-only UNTIL includes the whole day
+        const nextDay = { year: Number(year), month: Number(month), day: Number(day) + 1 };
+        return new Date(zonedDateTimeToDate(nextDay, timeZone).getTime() - 1000);
+    }
+
+    const time = {
+        year: Number(year),
+        month: Number(month),
+        day: Number(day),
+        hour: Number(hour),
+        minute: Number(minute),
+        second: Number(second)
+    };
+
+    if (utc) {
+        return new Date(Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute, time.second));
+    }
+
+    return zonedDateTimeToDate(time, timeZone);
+};
+
+/**
+ * Parses an RRULE string, i.e. `FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR`
+ *
+ * @param value The RRULE (with or without the `RRULE:` prefix)
+ * @param timeZone The time zone to interpret a floating UNTIL in
+ * @returns The parsed rule
+ * @throws An error describing the first invalid part of the rule
+ */
+export const parseRRule = (value: string, timeZone: string): RRule => {
+    if (!value || typeof value !== "string") throw new Error("RRULE must be a string");
+
+    const rule: RRule = {
+        freq: null,
+        interval: 1,
+        count: null,
+        until: null,
+        byDay: null,
+        byMonthDay: null,
+        byMonth: null,
+        byHour: null,
+        byMinute: null,
+        bySetPos: null
+    };
+
+    const body = value.trim().replace(/^RRULE:/i, "");
+    for (const part of body.split(";").filter(item => item.length > 0)) {
+        const [rawKey, rawValue] = part.split("=");
+        const key = (rawKey ?? "").trim().toUpperCase();
+        const val = (rawValue ?? "").trim().toUpperCase();
+        if (!val) throw new Error(`Missing value for ${key}`);
+
+        switch (key) {
+            case "FREQ":
+                if (!Object.values(RRuleFrequency).includes(val as RRuleFrequency)) {
+                    throw new Error(`FREQ must be one of: ${Object.values(RRuleFrequency).join(", ")}`);
+                }
+
+                rule.freq = val as RRuleFrequency;
+                break;
+            case "INTERVAL":
+                rule.interval = parseIntList(key, val, 1, 1000)[0];
+                break;
+            case "COUNT":
+                rule.count = parseIntList(key, val, 1, 100000)[0];
+                break;
+            case "UNTIL":
+                rule.until = parseUntil(val, timeZone);
+                break;
+            case "BYDAY":
+                rule.byDay = val.split(",").map(item => {
+                    const match = item.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+                    if (!match) throw new Error(`Invalid BYDAY value: ${item}`);
+
+                    const nth = match[1] ? Number(match[1]) : null;
+                    if (nth !== null && (nth === 0 || Math.abs(nth) > 5)) {
+                        throw new Error(`Invalid BYDAY value: ${item}`);
+                    }
+
+                    return { weekday: WEEKDAYS.indexOf(match[2]), nth };
+                });
+                break;
+            case "BYMONTHDAY":
+                rule.byMonthDay = parseIntList(key, val, 1, 31, true);
+                break;
+            case "BYMONTH":
+                rule.byMonth = parseIntList(key, val, 1, 12);
+                break;
+            case "BYHOUR":
+                rule.byHour = parseIntList(key, val, 0, 23);
+                break;
+            case "BYMINUTE":
+                rule.byMinute = parseIntList(key, val, 0, 59);
+                break;
+            case "BYSETPOS":
+                rule.bySetPos = parseIntList(key, val, 1, 366, true);
+                break;
+            case "WKST":
+                // Weeks always start on Monday
+                break;
+            default:
+                throw new Error(`Unsupported RRULE part: ${key}`);
+        }
+    }
+
+    if (!rule.freq) throw new Error("RRULE must have a FREQ");
+    if (rule.count && rule.until) throw new Error("RRULE can't have both COUNT and UNTIL");
+
+    const hasNthDay = (rule.byDay ?? []).some(day => day.nth !== null);
+    if (hasNthDay && ![RRuleFrequency.MONTHLY, RRuleFrequency.YEARLY].includes(rule.freq)) {
+        throw new Error("Numbered BYDAY values (i.e. -1FR) are only supported for MONTHLY and YEARLY rules");
+    }
+
+    return rule;
+};
+
+const daysInMonth = (year: number, month: number): number => {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+};
+
+const dayNumberToDate = (dayNumber: number): { year: number; month: number; day: number; weekday: number } => {
+    const date = new Date(dayNumber * DAY_MS);
+    return {
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+        weekday: date.getUTCDay()
+    };
+};
+
+const matchesMonthDay = (rule: RRule, year: number, month: number, day: number): boolean => {
+    if (!rule.byMonthDay) return true;
+
+    const length = daysInMonth(year, month);
+    return rule.byMonthDay.some(monthDay => (monthDay > 0 ? monthDay : length + monthDay + 1) === day);
+};
+
+/**
+ * Gets the days of a month that match a MONTHLY/YEARLY rule
+ */
+const getMonthDays = (rule: RRule, year: number, month: number, defaultDay: number): number[] => {
+    const length = daysInMonth(year, month);
+    let days: number[] = null;
+
+    if (rule.byMonthDay) {
+        days = rule.byMonthDay.map(day => (day > 0 ? day : length + day + 1)).filter(day => day >= 1 && day <= length);
+    }
+
+    if (rule.byDay) {
+        const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+        const matching: number[] = [];
+        for (const { weekday, nth } of rule.byDay) {
+            const all: number[] = [];
+            for (let day = 1 + ((weekday - firstWeekday + 7) % 7); day <= length; day += 7) {
+                all.push(day);
+            }
+
+            if (nth === null) {
+                matching.push(...all);
+            } else {
+                const picked = nth > 0 ? all[nth - 1] : all[all.length + nth];
+                if (picked) matching.push(picked);
+            }
+        }
+
+        days = days ? days.filter(day => matching.includes(day)) : matching;
+    }
+
+    // With no BY* day parts, repeat on the start date's day (skipping months that are too short)
+    if (!days) days = defaultDay <= length ? [defaultDay] : [];
+    return [...new Set(days)].sort((a, b) => a - b);
+};
+
+/**
+ * Gets the (unfiltered by start/count/until) wall-clock times in a period of the rule
+ */
+const getPeriodTimes = (rule: RRule, start: WallClockTime, startWeekday: number, period: number): WallClockTime[] => {
+    const step = period * rule.interval;
+    const hours = rule.byHour ?? [start.hour];
+    const minutes = rule.byMinute ?? [start.minute];
+    const startDay = Math.floor(Date.UTC(start.year, start.month - 1, start.day) / DAY_MS);
+    const days: { year: number; month: number; day: number }[] = [];
+
+    const withTimes = (dayList: { year: number; month: number; day: number }[], hourList: number[]) => {
+        const times: WallClockTime[] = [];
+        for (const day of dayList) {
+            for (const hour of [...hourList].sort((a, b) => a - b)) {
+                for (const minute of [...minutes].sort((a, b) => a - b)) {
+                    times.push({ ...day, hour, minute, second: start.second });
+                }
+            }
+        }
+
+        return times;
+    };
+
+    const matchesFilters = (date: { year: number; month: number; day: number; weekday: number }) => {
+        if (rule.byMonth && !rule.byMonth.includes(date.month)) return false;
+        if (rule.byDay && !rule.byDay.some(day => day.weekday === date.weekday)) return false;
+        return matchesMonthDay(rule, date.year, date.month, date.day);
+    };
+
+    switch (rule.freq) {
+        case RRuleFrequency.HOURLY: {
+            const time = new Date(Date.UTC(start.year, start.month - 1, start.day, start.hour) + step * 60 * 60 * 1000);
+            const date = dayNumberToDate(Math.floor(time.getTime() / DAY_MS));
+            if (!matchesFilters(date)) return [];
+            if (rule.byHour && !rule.byHour.includes(time.getUTCHours())) return [];
+            return withTimes([date], [time.getUTCHours()]);
+        }
+        case RRuleFrequency.DAILY: {
+            const date = dayNumberToDate(startDay + step);
+            return matchesFilters(date) ? withTimes([date], hours) : [];
+        }
+        case RRuleFrequency.WEEKLY: {
+            // Weeks start on Monday
+            const weekStart = startDay - ((startWeekday + 6) % 7) + step * 7;
+            const weekdays = rule.byDay ? rule.byDay.map(day => day.weekday) : [startWeekday];
+            for (let i = 0; i < 7; i++) {
+                const date = dayNumberToDate(weekStart + i);
+                if (!weekdays.includes(date.weekday)) continue;
+                if (rule.byMonth && !rule.byMonth.includes(date.month)) continue;
+                if (!matchesMonthDay(rule, date.year, date.month, date.day)) continue;
+                days.push(date);
+            }
+
+            return withTimes(days, hours);
+        }
+        case RRuleFrequency.MONTHLY: {
+            const monthIndex = start.year * 12 + (start.month - 1) + step;
+            const year = Math.floor(monthIndex / 12);
+            const month = (monthIndex % 12) + 1;
+            if (rule.byMonth && !rule.byMonth.includes(month)) return [];
+
+            for (const day of getMonthDays(rule, year, month, start.day)) {
+                days.push({ year, month, day });
+            }
+
+            return withTimes(days, hours);
+        }
+        case RRuleFrequency.YEARLY: {
+            const year = start.year + step;
+            for (const month of [...(rule.byMonth ?? [start.month])].sort((a, b) => a - b)) {
+                for (const day of getMonthDays(rule, year, month, start.day)) {
+                    days.push({ year, month, day });
+                }
+            }
+
+            return withTimes(days, hours);
+        }
+        default:
+            return [];
+    }
+};
+
+const applySetPos = (rule: RRule, times: WallClockTime[]): WallClockTime[] => {
+    if (!rule.bySetPos || times.length === 0) return times;
+
+    const picked = new Set<WallClockTime>();
+    for (const pos of rule.bySetPos) {
+        const time = pos > 0 ? times[pos - 1] : times[times.length + pos];
+        if (time) picked.add(time);
+    }
+
+    return times.filter(time => picked.has(time));
+};
+
+/**
+ * Iterates over the occurrences of a rule, in order.
+ * The start is the rule's DTSTART: it's only an occurrence if it matches the rule.
+ *
+ * @param rule The parsed rule
+ * @param start When the rule starts, which also sets the default time of day
+ * @param timeZone The IANA time zone to evaluate the rule's days & times in
+ */
+export function* iterateOccurrences(rule: RRule, start: Date, timeZone: string): Generator<Date> {
+    const startTime = Math.floor(start.getTime() / 1000) * 1000;
+    const zonedStart = getZonedDateTime(start, timeZone);
+
+    let count = 0;
+    let lastTime = 0;
+    let emptyPeriods = 0;
+    for (let period = 0; emptyPeriods < MAX_EMPTY_PERIODS; period++) {
+        const times = applySetPos(rule, getPeriodTimes(rule, zonedStart, zonedStart.weekday, period));
+        emptyPeriods = times.length === 0 ? emptyPeriods + 1 : 0;
+
+        for (const time of times) {
+            const date = zonedDateTimeToDate(time, timeZone);
+
+            // Skip anything before the start, or repeated by a DST change
+            if (date.getTime() < startTime || date.getTime() <= lastTime) continue;
+            if (rule.until && date.getTime() > rule.until.getTime()) return;
+
+            yield date;
+            lastTime = date.getTime();
+            count += 1;
+            if (rule.count && count >= rule.count) return;
+        }
+    }
+}
+
+/**
+ * Gets the next occurrences of a rule
+ *
+ * @param rule The parsed rule
+ * @param start When the rule starts (DTSTART)
+ * @param timeZone The IANA time zone to evaluate the rule in
+ * @param after Only include occurrences after this date
+ * @param limit The max number of occurrences to get
+ * @returns The occurrences (fewer than the limit when the rule ends)
+ */
+export const getOccurrences = (
+    rule: RRule,
+    start: Date,
+    timeZone: string,
+    { after = null, limit = 1 }: { after?: Date | null; limit?: number } = {}
+): Date[] => {
+    const occurrences: Date[] = [];
+    for (const date of iterateOccurrences(rule, start, timeZone)) {
+        if (after && date.getTime() <= after.getTime()) continue;
+
+        occurrences.push(date);
+        if (occurrences.length >= limit) break;
+    }
+
+    return occurrences;
+};
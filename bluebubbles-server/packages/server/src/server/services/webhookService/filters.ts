@@ -0,0 +1,194 @@
+import { Server } from "@server";
+import { isEmpty } from "@server/helpers/utils";
+import {
+    CHAT_READ_STATUS_CHANGED,
+    GROUP_ICON_CHANGED,
+    GROUP_ICON_REMOVED,
+    GROUP_NAME_CHANGE,
+    MESSAGE_UPDATED,
+    NEW_MESSAGE,
+    PARTICIPANT_ADDED,
+    PARTICIPANT_LEFT,
+    PARTICIPANT_REMOVED,
+    TYPING_INDICATOR
+} from "@server/events";
+
+/**
+ * Per-webhook filters. Every filter that is set must match for an event to be
+ * delivered. Filters only narrow events about a chat or a message; other
+ * events (server updates, FaceTime calls, etc.) are delivered as usual.
+ */
+export type WebhookFilters = {
+    // Only deliver events for these chats
+    chatGuids?: string[];
+
+    // Never deliver events for these chats
+    excludeChatGuids?: string[];
+
+    // Only deliver messages whose handle is one of these addresses
+    handles?: string[];
+
+    // Only deliver messages sent by you (true) or received (false)
+    isFromMe?: boolean | null;
+
+    // Only deliver events for group chats or direct chats
+    chatType?: "group" | "direct" | null;
+
+    // Only deliver messages with (true) or without (false) attachments
+    hasAttachments?: boolean | null;
+
+    // Only deliver messages whose text matches this (case-insensitive) regex
+    textPattern?: string | null;
+};
+
+export const webhookChatTypes = ["group", "direct"];
+
+// Events whose data is a serialized message
+const messageEvents = [
+    NEW_MESSAGE,
+    MESSAGE_UPDATED,
+    "message-send-error",
+    GROUP_NAME_CHANGE,
+    GROUP_ICON_CHANGED,
+    GROUP_ICON_REMOVED,
+    PARTICIPANT_ADDED,
+    PARTICIPANT_REMOVED,
+    PARTICIPANT_LEFT
+];
+
+// Events whose data only references a chat
+const chatEvents = [CHAT_READ_STATUS_CHANGED, TYPING_INDICATOR];
+
+/**
+ * Checks if a set of filters narrows anything at all
+ */
+export const hasWebhookFilters = (filters: WebhookFilters | null): boolean => {
+    if (!filters) return false;
+    return (
+        !isEmpty(filters.chatGuids ?? []) ||
+        !isEmpty(filters.excludeChatGuids ?? []) ||
+        !isEmpty(filters.handles ?? []) ||
+        filters.isFromMe != null ||
+        filters.chatType != null ||
+        filters.hasAttachments != null ||
+        !isEmpty(filters.textPattern ?? "")
+    );
+};
+
+/**
+ * Removes unset filters so that only the ones in use are stored.
+ * Returns null when no filters are in use.
+ */
+export const normalizeWebhookFilters = (filters: WebhookFilters | null): WebhookFilters | null => {
+    if (!hasWebhookFilters(filters)) return null;
+
+    const output: WebhookFilters = {};
+    if (!isEmpty(filters.chatGuids ?? [])) output.chatGuids = filters.chatGuids;
+    if (!isEmpty(filters.excludeChatGuids ?? [])) output.excludeChatGuids = filters.excludeChatGuids;
+    if (!isEmpty(filters.handles ?? [])) output.handles = filters.handles;
+    if (filters.isFromMe != null) output.isFromMe = filters.isFromMe;
+    if (filters.chatType != null) output.chatType = filters.chatType;
+    if (filters.hasAttachments != null) output.hasAttachments = filters.hasAttachments;
+    if (!isEmpty(filters.textPattern ?? "")) output.textPattern = filters.textPattern;
+    return output;
+};
+
+/**
+ * Lazily resolves the chat GUIDs an event belongs to. Message updates are
+ * serialized without their chats, so those are looked up once per event
+ * and shared between all of the webhooks being checked.
+ */
+export class WebhookEventChats {
+    private chatGuids: string[] = null;
+
+    constructor(private type: string, private data: any) {}
+
+    async get(): Promise<string[]> {
+        if (this.chatGuids) return this.chatGuids;
+
+        if (chatEvents.includes(this.type)) {
+            const guid = this.data?.chatGuid ?? this.data?.guid;
+            this.chatGuids = guid ? [guid] : [];
+        } else if (!isEmpty(this.data?.chats ?? [])) {
+            this.chatGuids = this.data.chats.map((chat: any) => chat.guid);
+        } else if (this.data?.guid) {
+            const message = await Server().iMessageRepo.getMessage(this.data.guid, true, false);
+            this.chatGuids = (message?.chats ?? []).map(chat => chat.guid);
+        } else {
+            this.chatGuids = [];
+        }
+
+        return this.chatGuids;
+    }
+}
+
+const normalizeAddress = (address: string): string => {
+    const value = (address ?? "").trim().toLowerCase();
+
+    // Phone numbers are compared by their digits only
+    return value.includes("@") ? value : value.replace(/[^\d+]/g, "");
+};
+
+/**
+ * Checks if an event passes a webhook's filters
+ *
+ * @param filters The webhook's filters
+ * @param type The event type
+ * @param data The event data
+ * @param chats Resolves the chat GUIDs for the event
+ */
+export const matchesWebhookFilters = async (
+    filters: WebhookFilters | null,
+    type: string,
+    data: any,
+    chats: WebhookEventChats
+): Promise<boolean> => {
+    if (!hasWebhookFilters(filters)) return true;
+
+    const isMessageEvent = messageEvents.includes(type);
+    if (!isMessageEvent && !chatEvents.includes(type)) return true;
+
+    // Chat filters apply to both message & chat events
+    if (!isEmpty(filters.chatGuids ?? []) || !isEmpty(filters.excludeChatGuids ?? []) || filters.chatType) {
+        const chatGuids = await chats.get();
+        if (!isEmpty(filters.chatGuids ?? []) && !chatGuids.some(guid => filters.chatGuids.includes(guid))) {
+            return false;
+        }
+
+        if (chatGuids.some(guid => (filters.excludeChatGuids ?? []).includes(guid))) return false;
+
+        if (filters.chatType) {
+            const isGroup = chatGuids.some(guid => guid.includes(";+;"));
+            if ((filters.chatType === "group") !== isGroup) return false;
+        }
+    }
+
+    // The rest only apply to messages
+    if (!isMessageEvent) {
+        return (
+            isEmpty(filters.handles ?? []) &&
+            filters.isFromMe == null &&
+            filters.hasAttachments == null &&
+            isEmpty(filters.textPattern ?? "")
+        );
+    }
+
+    if (!isEmpty(filters.handles ?? [])) {
+        const address = normalizeAddress(data?.handle?.address);
+        if (isEmpty(address) || !filters.handles.some(handle => normalizeAddress(handle) === address)) {
+            return false;
+        }
+    }
+
+    if (filters.isFromMe != null && !!data?.isFromMe !== filters.isFromMe) return false;
+
+    if (filters.hasAttachments != null && !isEmpty(data?.attachments ?? []) !== filters.hasAttachments) {
+        return false;
+    }
+
+    if (!isEmpty(filters.textPattern ?? "")) {
+        if (!new RegExp(filters.textPattern, "i").test(data?.text ?? "")) return false;
+    }
+
+    return true;
+};
@@ -1,6 +1,12 @@
 import axios from "axios";
+import { createHmac } from "crypto";
+import { In, LessThan, LessThanOrEqual, Not } from "typeorm";
 import { Server } from "@server";
+import { Webhook, WebhookDelivery } from "@server/databases/server/entity";
+import { AlertsInterface } from "@server/api/interfaces/alertsInterface";
+import { isEmpty } from "@server/helpers/utils";
 import { Loggable } from "@server/lib/logging/Loggable";
+import { matchesWebhookFilters, WebhookEventChats } from "./filters";
 
 export type WebhookEvent = {
     type: string;
@@ -8,28 +14,434 @@ export type WebhookEvent = {
 };
 
 /**
- * Handles dispatching webhooks
+ * The possible states of a webhook delivery
+ */
+export enum WebhookDeliveryStatus {
+    PENDING = "pending",
+    SUCCESS = "success",
+    FAILED = "failed"
+}
+
+// How often due deliveries are picked up
+const POLL_INTERVAL_MS = 5000;
+
+// Deliveries sent per pass
+const BATCH_SIZE = 50;
+
+// Attempts before a delivery is marked as failed
+const MAX_ATTEMPTS = 10;
+
+// Backoff between attempts: 10s, 20s, 40s, ... capped at an hour
+const BASE_RETRY_DELAY_MS = 10 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+
+// A webhook is disabled once it has failed this many attempts in a row
+// over at least this long, without a single success in between
+const DISABLE_AFTER_FAILURES = 25;
+const DISABLE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+// Finished deliveries are kept this long for the delivery history
+const HISTORY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Handles dispatching webhooks.
+ *
+ * Events are matched against each webhook's event types and filters, then
+ * written to a persistent delivery queue, so nothing is lost if the receiver
+ * is down or the server restarts. Each delivery is signed with the webhook's
+ * secret and retried with exponential backoff. Webhooks that keep failing are
+ * disabled until they are re-enabled from the UI.
  */
 export class WebhookService extends Loggable {
     tag = "WebhookService";
 
+    private timer: NodeJS.Timeout = null;
+
+    private isProcessing = false;
+
+    private processAgain = false;
+
+    // Webhooks with deliveries currently being sent
+    private activeWebhooks: Set<number> = new Set();
+
+    private lastPrune = 0;
+
+    /**
+     * Starts processing the delivery queue, including anything
+     * left pending from before a restart.
+     */
+    start() {
+        if (this.timer) return;
+
+        this.timer = setInterval(() => this.processQueue(), POLL_INTERVAL_MS);
+        this.processQueue();
+    }
+
+    /**
+     * Stops processing the delivery queue.
+     */
+    stop() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    /**
+     * Queues an event for every enabled webhook subscribed to it.
+     *
+     * @param event The event to deliver
+     */
     async dispatch(event: WebhookEvent) {
-        const webhooks = await Server().repo.getWebhooks();
-        for (const i of webhooks) {
-            const eventTypes = JSON.parse(i.events) as Array<string>;
-            if (!eventTypes.includes("*") && !eventTypes.includes(event.type)) continue;
-            this.log.debug(`Dispatching event to webhook: ${i.url}`);
-
-            // We don't need to await this
-            this.sendPost(i.url, event).catch(ex => {
-                this.log.debug(`Failed to dispatch "${event.type}" event to webhook: ${i.url}`);
-                this.log.debug(`  -> Error: ${ex?.message ?? String(ex)}`);
-                this.log.debug(`  -> Status Text: ${ex?.response?.statusText}`);
+        try {
+            const webhooks = await Server().repo.getWebhooks();
+            const repo = Server().repo.webhookDeliveries();
+
+            const chats = new WebhookEventChats(event.type, event.data);
+
+            const deliveries: WebhookDelivery[] = [];
+            for (const i of webhooks) {
+                if (!i.enabled) continue;
+
+                const eventTypes = JSON.parse(i.events) as Array<string>;
+                if (!eventTypes.includes("*") && !eventTypes.includes(event.type)) continue;
+                if (!(await this.matchesFilters(i, event, chats))) continue;
+                this.log.debug(`Queueing event "${event.type}" for webhook: ${i.url}`);
+
+                deliveries.push(repo.create({
+                    webhookId: i.id,
+                    eventType: event.type,
+                    payload: event,
+                    status: WebhookDeliveryStatus.PENDING,
+                    attempts: 0,
+                    nextAttemptAt: new Date()
+                }));
+            }
+
+            if (isEmpty(deliveries)) return;
+            await repo.save(deliveries);
+            this.processQueue();
+        } catch (ex: any) {
+            this.log.error(`Failed to queue "${event.type}" event for webhooks: ${ex?.message ?? String(ex)}`);
+        }
+    }
+
+    private async matchesFilters(webhook: Webhook, event: WebhookEvent, chats: WebhookEventChats) {
+        try {
+            return await matchesWebhookFilters(webhook.filters, event.type, event.data, chats);
+        } catch (ex: any) {
+            // Filters keep conversations away from a webhook, so don't guess
+            this.log.warn(
+                `Skipping webhook ${webhook.url}, failed to evaluate its filters: ${ex?.message ?? String(ex)}`
+            );
+            return false;
+        }
+    }
+
+    /**
+     * Gets the delivery history for a webhook, newest first.
+     *
+     * @param webhookId The webhook's ID
+     * @param status Only return deliveries with this status
+     * @param limit Max number of deliveries to return
+     * @param offset Number of deliveries to skip
+     */
+    async getDeliveries(
+        webhookId: number,
+        { status = null, limit = 25, offset = 0 }: { status?: string | null; limit?: number; offset?: number } = {}
+    ): Promise<WebhookDelivery[]> {
+        return await Server().repo.webhookDeliveries().find({
+            where: status ? { webhookId, status } : { webhookId },
+            order: { id: "DESC" },
+            take: limit,
+            skip: offset
+        });
+    }
+
+    /**
+     * Queues a new delivery with the same payload as an earlier one.
+     *
+     * @param deliveryId The delivery to replay
+     * @returns The new delivery, or null if the original doesn't exist
+     */
+    async replayDelivery(deliveryId: number): Promise<WebhookDelivery | null> {
+        const repo = Server().repo.webhookDeliveries();
+        const original = await repo.findOneBy({ id: deliveryId });
+        if (!original) return null;
+        if (original.status === WebhookDeliveryStatus.PENDING) {
+            throw new Error("Delivery is still pending!");
+        }
+
+        const [replay] = await this.queueReplays([original]);
+        this.processQueue();
+        return replay;
+    }
+
+    /**
+     * Replays every failed delivery still in a webhook's history.
+     *
+     * @param webhookId The webhook's ID
+     * @returns The number of deliveries queued
+     */
+    async replayFailed(webhookId: number): Promise<number> {
+        const failed = await Server().repo.webhookDeliveries().find({
+            where: { webhookId, status: WebhookDeliveryStatus.FAILED },
+            order: { id: "ASC" }
+        });
+        if (isEmpty(failed)) return 0;
+
+        await this.queueReplays(failed);
+        this.processQueue();
+        return failed.length;
+    }
+
+    /**
+     * Computes the signature sent in the `X-BlueBubbles-Signature` header.
+     * Receivers should recompute it over `${timestamp}.${rawBody}` and reject
+     * requests whose timestamp is too old.
+     *
+     * @param secret The webhook's secret
+     * @param timestamp Unix timestamp (seconds) sent in `X-BlueBubbles-Timestamp`
+     * @param body The raw request body
+     */
+    static sign(secret: string, timestamp: string, body: string): string {
+        return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+    }
+
+    private async queueReplays(originals: WebhookDelivery[]): Promise<WebhookDelivery[]> {
+        const repo = Server().repo.webhookDeliveries();
+        const replays = originals.map(original =>
+            repo.create({
+                webhookId: original.webhookId,
+                eventType: original.eventType,
+                payload: original.payload,
+                status: WebhookDeliveryStatus.PENDING,
+                attempts: 0,
+                nextAttemptAt: new Date(),
+                replayOf: original.id
+            })
+        );
+
+        this.log.info(`Replaying ${replays.length} webhook deliveries`);
+        return await repo.save(replays);
+    }
+
+    /**
+     * Sends every due delivery. Each webhook gets its own lane, so a slow or
+     * failing receiver never holds up the others, and deliveries to the same
+     * webhook go out in order.
+     */
+    private async processQueue() {
+        if (this.isProcessing) {
+            this.processAgain = true;
+            return;
+        }
+
+        this.isProcessing = true;
+        try {
+            let due: WebhookDelivery[];
+            do {
+                this.processAgain = false;
+                due = await Server().repo.webhookDeliveries().find({
+                    where: {
+                        status: WebhookDeliveryStatus.PENDING,
+                        nextAttemptAt: LessThanOrEqual(new Date()),
+                        ...(this.activeWebhooks.size > 0 && { webhookId: Not(In([...this.activeWebhooks])) })
+                    },
+                    order: { id: "ASC" },
+                    take: BATCH_SIZE
+                });
+                if (isEmpty(due)) break;
+
+                for (const webhookId of new Set(due.map(delivery => delivery.webhookId))) {
+                    this.activeWebhooks.add(webhookId);
+                    this.processWebhook(webhookId, due.filter(delivery => delivery.webhookId === webhookId));
+                }
+            } while (this.processAgain || due.length === BATCH_SIZE);
+
+            await this.pruneHistory();
+        } catch (ex: any) {
+            this.log.error(`Failed to process webhook delivery queue: ${ex?.message ?? String(ex)}`);
+        } finally {
+            this.isProcessing = false;
+        }
+    }
+
+    /**
+     * Sends a webhook's due deliveries one at a time. Once one fails, the rest
+     * wait for its retry instead of overtaking it, which also keeps a receiver
+     * that's down (or hanging) to a single attempt per pass.
+     *
+     * @param webhookId The webhook's ID
+     * @param deliveries Its due deliveries, oldest first
+     */
+    private async processWebhook(webhookId: number, deliveries: WebhookDelivery[]) {
+        const repo = Server().repo.webhookDeliveries();
+        try {
+            const webhook = await Server().repo.webhooks().findOneBy({ id: webhookId });
+
+            // An older delivery may already be waiting on a retry
+            const oldest = await repo.findOne({
+                where: { webhookId, status: WebhookDeliveryStatus.PENDING },
+                order: { id: "ASC" }
             });
+            let holdUntil = oldest && oldest.nextAttemptAt > new Date() ? oldest.nextAttemptAt : null;
+
+            for (const [index, delivery] of deliveries.entries()) {
+                if (!holdUntil) {
+                    await this.deliver(webhook, delivery);
+                    if (delivery.status === WebhookDeliveryStatus.PENDING) holdUntil = delivery.nextAttemptAt;
+                    continue;
+                }
+
+                const held = deliveries.slice(index).map(i => i.id);
+                await repo.update({ id: In(held) }, { nextAttemptAt: holdUntil });
+                this.log.debug(`Holding ${held.length} webhook deliveries until ${holdUntil.toISOString()}`);
+                break;
+            }
+        } catch (ex: any) {
+            this.log.error(`Failed to process deliveries for webhook ${webhookId}: ${ex?.message ?? String(ex)}`);
+            return;
+        } finally {
+            this.activeWebhooks.delete(webhookId);
+        }
+
+        // Pick up anything that was left behind while this lane was busy
+        this.processQueue();
+    }
+
+    private async deliver(webhook: Webhook | null, delivery: WebhookDelivery) {
+        const repo = Server().repo.webhookDeliveries();
+
+        // The webhook was deleted while this was queued
+        if (!webhook) {
+            await repo.delete(delivery.id);
+            return;
+        }
+
+        // A webhook disabled mid-batch may still have deliveries in this pass
+        if (!webhook.enabled) {
+            delivery.status = WebhookDeliveryStatus.FAILED;
+            delivery.error = "Webhook is disabled";
+            delivery.nextAttemptAt = null;
+            await repo.save(delivery);
+            return;
+        }
+
+        const body = JSON.stringify(delivery.payload);
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        const headers: Record<string, string> = {
+            "Content-Type": "application/json",
+            "X-BlueBubbles-Event": delivery.eventType,
+            "X-BlueBubbles-Delivery": String(delivery.id),
+            "X-BlueBubbles-Timestamp": timestamp
+        };
+        if (webhook.secret) {
+            headers["X-BlueBubbles-Signature"] = `sha256=${WebhookService.sign(webhook.secret, timestamp, body)}`;
+        }
+
+        delivery.attempts += 1;
+        try {
+            const response = await axios.post(webhook.url, body, { headers, timeout: REQUEST_TIMEOUT_MS });
+
+            delivery.status = WebhookDeliveryStatus.SUCCESS;
+            delivery.responseStatus = response.status;
+            delivery.error = null;
+            delivery.deliveredAt = new Date();
+            delivery.nextAttemptAt = null;
+            await repo.save(delivery);
+            Server().metrics?.webhookDeliveries.inc({ result: "success" });
+
+            if (webhook.consecutiveFailures > 0) {
+                this.log.info(
+                    `Webhook recovered after ${webhook.consecutiveFailures} failed attempt(s): ${webhook.url}`
+                );
+                webhook.consecutiveFailures = 0;
+                webhook.failingSince = null;
+                await Server().repo.webhooks().save(webhook);
+                this.notifyUpdateUi(webhook);
+            }
+        } catch (ex: any) {
+            delivery.responseStatus = ex?.response?.status ?? null;
+            delivery.error = ex?.response?.statusText || ex?.message || String(ex);
+
+            if (delivery.attempts >= MAX_ATTEMPTS) {
+                delivery.status = WebhookDeliveryStatus.FAILED;
+                delivery.nextAttemptAt = null;
+                Server().metrics?.webhookDeliveries.inc({ result: "failed" });
+                this.log.warn(`Giving up on "${delivery.eventType}" event for webhook ${webhook.url} ` +
+                    `after ${delivery.attempts} attempts: ${delivery.error}`);
+            } else {
+                delivery.nextAttemptAt = new Date(Date.now() + WebhookService.getRetryDelay(delivery.attempts));
+                Server().metrics?.webhookDeliveries.inc({ result: "retry" });
+                this.log.debug(`Failed to deliver "${delivery.eventType}" event to webhook: ${webhook.url} ` +
+                    `(attempt ${delivery.attempts}, retrying at ${delivery.nextAttemptAt.toISOString()})`);
+                this.log.debug(`  -> Error: ${delivery.error}`);
+            }
+            await repo.save(delivery);
+
+            await this.recordFailure(webhook);
         }
     }
 
-    private async sendPost(url: string, event: WebhookEvent) {
-        return await axios.post(url, event, { headers: { "Content-Type": "application/json" } });
+    /**
+     * Tracks a failed attempt against the webhook and disables it
+     * once the failures have gone on long enough.
+     */
+    private async recordFailure(webhook: Webhook) {
+        webhook.consecutiveFailures += 1;
+        webhook.failingSince = webhook.failingSince ?? new Date();
+
+        const failingForMs = Date.now() - webhook.failingSince.getTime();
+        if (webhook.consecutiveFailures >= DISABLE_AFTER_FAILURES && failingForMs >= DISABLE_AFTER_MS) {
+            webhook.enabled = false;
+            webhook.disabledReason = `Disabled after ${webhook.consecutiveFailures} failed attempts ` +
+                `since ${webhook.failingSince.toLocaleString()}`;
+
+            // Nothing else will be sent, so close out what's still queued
+            await Server().repo.webhookDeliveries().update(
+                { webhookId: webhook.id, status: WebhookDeliveryStatus.PENDING },
+                { status: WebhookDeliveryStatus.FAILED, error: "Webhook is disabled", nextAttemptAt: null }
+            );
+
+            this.log.warn(`Disabled webhook ${webhook.url}: ${webhook.disabledReason}`);
+            await AlertsInterface.create(
+                "warn",
+                `Webhook ${webhook.url} was disabled because it kept failing. ` +
+                    "Re-enable it from the API & Webhooks page once it is reachable again."
+            );
+        }
+
+        await Server().repo.webhooks().save(webhook);
+        this.notifyUpdateUi(webhook);
+    }
+
+    private async pruneHistory() {
+        if (Date.now() - this.lastPrune < PRUNE_INTERVAL_MS) return;
+        this.lastPrune = Date.now();
+
+        const cutoff = new Date(Date.now() - HISTORY_RETENTION_MS);
+        const result = await Server().repo.webhookDeliveries().delete({
+            status: Not(WebhookDeliveryStatus.PENDING),
+            created: LessThan(cutoff)
+        });
+        if (result.affected) {
+            this.log.debug(`Pruned ${result.affected} old webhook deliveries`);
+        }
+    }
+
+    /**
+     * Lets the UI know that a webhook's delivery state changed.
+     */
+    private notifyUpdateUi(webhook: Webhook) {
+        Server().emitToUI("webhook-update", { id: webhook.id });
+    }
+
+    private static getRetryDelay(attempts: number): number {
+        const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+
+        // Up to 10% jitter so retries to the same receiver don't line up
+        return delay + Math.floor(Math.random() * delay * 0.1);
     }
 }
@@ -1,4 +1,5 @@
 import { NSAttributedString } from "node-typedstream";
+import type { RateLimitStats } from "@server/services/rateLimitService";
 
 export type ServerMetadataResponse = {
     computer_id: string;
@@ -12,6 +13,7 @@ export type ServerMetadataResponse = {
     macos_time_sync: number | null;
     local_ipv4s: string[];
     local_ipv6s: string[];
+    rate_limits: RateLimitStats | null;
 };
 
 /**
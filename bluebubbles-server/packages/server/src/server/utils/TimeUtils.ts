@@ -23,3 +23,109 @@ export const safeTimeout = (
         }
     }, max32BitInt);
 };
+
+/**
+ * A wall-clock date & time in a specific time zone
+ */
+export type ZonedDateTime = {
+    year: number;
+    // 1-12
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    // 0 (Sunday) - 6 (Saturday)
+    weekday: number;
+};
+
+const zonedFormatters: Record<string, Intl.DateTimeFormat> = {};
+
+const getZonedFormatter = (timeZone: string): Intl.DateTimeFormat => {
+    if (!zonedFormatters[timeZone]) {
+        zonedFormatters[timeZone] = new Intl.DateTimeFormat("en-US", {
+            timeZone,
+            hourCycle: "h23",
+            year: "numeric",
+            month: "numeric",
+            day: "numeric",
+            hour: "numeric",
+            minute: "numeric",
+            second: "numeric"
+        });
+    }
+
+    return zonedFormatters[timeZone];
+};
+
+// The time zone the server is running in (i.e. America/New_York)
+export const getSystemTimeZone = (): string => {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+};
+
+// Checks if a time zone is a valid IANA time zone name
+export const isValidTimeZone = (timeZone: string): boolean => {
+    if (!timeZone || typeof timeZone !== "string") return false;
+
+    try {
+        getZonedFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+// Gets the wall-clock time of an instant in a time zone
+export const getZonedDateTime = (date: Date, timeZone: string): ZonedDateTime => {
+    const parts: Record<string, number> = {};
+    for (const part of getZonedFormatter(timeZone).formatToParts(date)) {
+        if (part.type !== "literal") parts[part.type] = Number.parseInt(part.value, 10);
+    }
+
+    return {
+        year: parts.year,
+        month: parts.month,
+        day: parts.day,
+        hour: parts.hour,
+        minute: parts.minute,
+        second: parts.second,
+        weekday: new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay()
+    };
+};
+
+// How far (in ms) a time zone is ahead of UTC at an instant
+const getTimeZoneOffset = (timestamp: number, timeZone: string): number => {
+    const zoned = getZonedDateTime(new Date(timestamp), timeZone);
+    const asUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second);
+    return asUtc - Math.floor(timestamp / 1000) * 1000;
+};
+
+/**
+ * Converts a wall-clock time in a time zone to an instant.
+ * Values out of range roll over (i.e. day 32 is the next month).
+ * Times skipped by a DST change are moved forward, and repeated
+ * times resolve to the first occurrence.
+ */
+export const zonedDateTimeToDate = (
+    {
+        year,
+        month,
+        day,
+        hour = 0,
+        minute = 0,
+        second = 0
+    }: { year: number; month: number; day: number; hour?: number; minute?: number; second?: number },
+    timeZone: string
+): Date => {
+    const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+
+    // Guess with the offset at that time, then correct if the guess crossed a DST change
+    const firstOffset = getTimeZoneOffset(asUtc, timeZone);
+    const secondOffset = getTimeZoneOffset(asUtc - firstOffset, timeZone);
+    if (firstOffset === secondOffset) return new Date(asUtc - firstOffset);
+
+    // Prefer the earlier of the two, as long as it maps back to the same wall-clock time
+    const earlier = asUtc - Math.max(firstOffset, secondOffset);
+    if (getTimeZoneOffset(earlier, timeZone) === Math.max(firstOffset, secondOffset)) return new Date(earlier);
+    return new Date(asUtc - Math.min(firstOffset, secondOffset));
+};
@@ -0,0 +1,122 @@
+import { createHash } from "crypto";
+import { ApiAuth, ApiTokenInterface } from "@server/api/interfaces/apiTokenInterface";
+import { ScopeMiddleware } from "@server/api/http/api/v1/middleware/scopeMiddleware";
+import { Forbidden } from "@server/api/http/api/v1/responses/errors";
+import type { ApiToken } from "@server/databases/server/entity";
+import type { ApiTokenScope } from "@server/api/http/types";
+
+const apiTokens = {
+    findOneBy: jest.fn(),
+    update: jest.fn()
+};
+
+const server = {
+    log: jest.fn(),
+    repo: {
+        getConfig: jest.fn((name: string) => (name === "password" ? "hunter2" : null)),
+        apiTokens: () => apiTokens
+    }
+};
+
+// The real modules pull in Electron and the iMessage databases
+jest.mock("@server", () => ({ Server: () => server }));
+jest.mock("@server/databases/server/entity", () => ({ ApiToken: class {} }));
+jest.mock("@server/helpers/utils", () => ({ safeTrim: (value: string) => (value ?? "").trim() }));
+
+const makeToken = (scopes: ApiTokenScope[], fields: Partial<ApiToken> = {}): ApiToken =>
+    ({ id: 1, name: "Test", scopes, expiresAt: null, lastUsedAt: null, lastUsedIp: null, ...fields } as ApiToken);
+
+const tokenAuth = (scopes: ApiTokenScope[]): ApiAuth => ({ type: "token", token: makeToken(scopes) });
+
+const hash = (token: string) => createHash("sha256").update(token).digest("hex");
+
+beforeEach(() => {
+    jest.clearAllMocks();
+});
+
+describe("ApiTokenInterface.hasScopes", () => {
+    it("gives the server password every scope", () => {
+        expect(ApiTokenInterface.hasScopes({ type: "password" }, ["messages:send", "server:admin"])).toBe(true);
+    });
+
+    it("requires a token to have every scope", () => {
+        const auth = tokenAuth(["messages:read", "messages:send"]);
+
+        expect(ApiTokenInterface.hasScopes(auth, ["messages:read"])).toBe(true);
+        expect(ApiTokenInterface.hasScopes(auth, ["messages:read", "messages:send"])).toBe(true);
+        expect(ApiTokenInterface.hasScopes(auth, ["messages:read", "chats:write"])).toBe(false);
+        expect(ApiTokenInterface.hasScopes(tokenAuth([]), ["findmy"])).toBe(false);
+    });
+
+    it("lets admin tokens do anything", () => {
+        expect(ApiTokenInterface.hasScopes(tokenAuth(["server:admin"]), ["findmy", "chats:write"])).toBe(true);
+    });
+
+    it("passes routes that need no scopes", () => {
+        expect(ApiTokenInterface.hasScopes(tokenAuth([]), [])).toBe(true);
+    });
+});
+
+describe("ApiTokenInterface.authenticate", () => {
+    it("accepts the server password", async () => {
+        await expect(ApiTokenInterface.authenticate(" hunter2 ")).resolves.toEqual({ type: "password" });
+        expect(apiTokens.findOneBy).not.toHaveBeenCalled();
+    });
+
+    it("rejects values that aren't the password or a token", async () => {
+        await expect(ApiTokenInterface.authenticate("")).resolves.toBeNull();
+        await expect(ApiTokenInterface.authenticate("letmein")).resolves.toBeNull();
+        expect(apiTokens.findOneBy).not.toHaveBeenCalled();
+    });
+
+    it("looks tokens up by hash", async () => {
+        const token = makeToken(["messages:read"]);
+        apiTokens.findOneBy.mockResolvedValue(token);
+
+        await expect(ApiTokenInterface.authenticate("bbt_abc", "10.0.0.2")).resolves.toEqual({ type: "token", token });
+        expect(apiTokens.findOneBy).toHaveBeenCalledWith({ tokenHash: hash("bbt_abc") });
+        expect(apiTokens.update).toHaveBeenCalledWith(1, { lastUsedAt: expect.any(Date), lastUsedIp: "10.0.0.2" });
+    });
+
+    it("only records recent use again when the client changes", async () => {
+        const token = makeToken(["messages:read"], { lastUsedAt: new Date(), lastUsedIp: "10.0.0.2" });
+        apiTokens.findOneBy.mockResolvedValue(token);
+
+        await ApiTokenInterface.authenticate("bbt_abc", "10.0.0.2");
+        expect(apiTokens.update).not.toHaveBeenCalled();
+
+        await ApiTokenInterface.authenticate("bbt_abc", "10.0.0.3");
+        expect(apiTokens.update).toHaveBeenCalledTimes(1);
+    });
+
+    it("rejects unknown and expired tokens", async () => {
+        apiTokens.findOneBy.mockResolvedValueOnce(null);
+        await expect(ApiTokenInterface.authenticate("bbt_unknown")).resolves.toBeNull();
+
+        apiTokens.findOneBy.mockResolvedValueOnce(makeToken(["server:admin"], { expiresAt: new Date(Date.now() - 1) }));
+        await expect(ApiTokenInterface.authenticate("bbt_expired")).resolves.toBeNull();
+        expect(apiTokens.update).not.toHaveBeenCalled();
+    });
+});
+
+describe("ScopeMiddleware", () => {
+    const run = async (auth: ApiAuth | undefined, scopes: ApiTokenScope[]) => {
+        const next = jest.fn();
+        const ctx = { state: { auth }, request: { ip: "10.0.0.2" } } as any;
+        await ScopeMiddleware(scopes)(ctx, next);
+        return next;
+    };
+
+    it("lets clients with the scopes through", async () => {
+        expect(await run(tokenAuth(["contacts:read"]), ["contacts:read"])).toHaveBeenCalled();
+        expect(await run({ type: "password" }, ["server:admin"])).toHaveBeenCalled();
+    });
+
+    it("lets unauthenticated (public) requests through", async () => {
+        expect(await run(undefined, ["server:admin"])).toHaveBeenCalled();
+    });
+
+    it("rejects tokens missing a scope", async () => {
+        await expect(run(tokenAuth(["messages:read"]), ["messages:send"])).rejects.toBeInstanceOf(Forbidden);
+    });
+});
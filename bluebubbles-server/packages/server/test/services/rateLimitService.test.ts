@@ -0,0 +1,148 @@
+import { RateLimitService } from "@server/services/rateLimitService";
+
+let config: Record<string, any> = {};
+
+// The real modules pull in Electron and the server databases
+jest.mock("@server", () => ({ Server: () => ({ repo: { getConfig: (name: string) => config[name] } }) }));
+jest.mock("@server/lib/logging/Loggable", () => ({
+    Loggable: class {
+        log = { debug: jest.fn() };
+    }
+}));
+
+const START = new Date(2026, 5, 15, 12, 0, 0);
+
+let service: RateLimitService;
+
+const drain = (client: string, count: number, rateLimit: "default" | "send" = "default") => {
+    for (let i = 0; i < count; i++) {
+        expect(service.consume(client, rateLimit).allowed).toBe(true);
+    }
+};
+
+beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+    config = {
+        api_rate_limit_enabled: true,
+        api_rate_limit_per_minute: 60,
+        api_send_rate_limit_per_minute: 6,
+        api_daily_send_quota_per_chat: 3
+    };
+    service = new RateLimitService();
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+describe("RateLimitService.consume", () => {
+    it("allows a full bucket's worth of requests, then asks the client to wait", () => {
+        drain("ip:10.0.0.2", 60);
+
+        // Refills at one token per second
+        expect(service.consume("ip:10.0.0.2", "default")).toEqual({ allowed: false, retryAfter: 1 });
+    });
+
+    it("refills continuously over time", () => {
+        drain("ip:10.0.0.2", 60);
+
+        jest.advanceTimersByTime(2500);
+        drain("ip:10.0.0.2", 2);
+        expect(service.consume("ip:10.0.0.2", "default").allowed).toBe(false);
+    });
+
+    it("reports how long until the next token", () => {
+        drain("token:1", 6, "send");
+
+        // Sends refill at one token every 10 seconds
+        expect(service.consume("token:1", "send")).toEqual({ allowed: false, retryAfter: 10 });
+        jest.advanceTimersByTime(4000);
+        expect(service.consume("token:1", "send")).toEqual({ allowed: false, retryAfter: 6 });
+    });
+
+    it("never refills past the limit", () => {
+        jest.advanceTimersByTime(60 * 60 * 1000);
+        drain("ip:10.0.0.2", 60);
+        expect(service.consume("ip:10.0.0.2", "default").allowed).toBe(false);
+    });
+
+    it("keeps separate buckets per client and rate limit class", () => {
+        drain("token:1", 6, "send");
+
+        expect(service.consume("token:1", "send").allowed).toBe(false);
+        expect(service.consume("token:2", "send").allowed).toBe(true);
+        expect(service.consume("token:1", "default").allowed).toBe(true);
+    });
+
+    it("caps an existing bucket when the limit is lowered", () => {
+        drain("ip:10.0.0.2", 10);
+        config.api_rate_limit_per_minute = 5;
+
+        drain("ip:10.0.0.2", 5);
+        expect(service.consume("ip:10.0.0.2", "default").allowed).toBe(false);
+    });
+
+    it("allows everything when disabled or unlimited", () => {
+        config.api_rate_limit_enabled = false;
+        drain("ip:10.0.0.2", 100);
+
+        config.api_rate_limit_enabled = true;
+        config.api_rate_limit_per_minute = 0;
+        drain("ip:10.0.0.2", 100);
+        expect(service.consume("ip:10.0.0.2", "none")).toEqual({ allowed: true, retryAfter: 0 });
+    });
+});
+
+describe("RateLimitService send quota", () => {
+    it("rejects sends to a chat once its daily quota is used", () => {
+        for (let i = 0; i < 3; i++) {
+            expect(service.checkSendQuota("chat-a").allowed).toBe(true);
+            service.recordSend("chat-a");
+        }
+
+        // Retry once the day rolls over at midnight
+        expect(service.checkSendQuota("chat-a")).toEqual({ allowed: false, retryAfter: 12 * 60 * 60 });
+        expect(service.checkSendQuota("chat-b").allowed).toBe(true);
+    });
+
+    it("resets the counts the next day", () => {
+        for (let i = 0; i < 3; i++) service.recordSend("chat-a");
+
+        jest.setSystemTime(new Date(2026, 5, 16, 0, 0, 1));
+        expect(service.checkSendQuota("chat-a").allowed).toBe(true);
+    });
+
+    it("skips the quota when disabled", () => {
+        for (let i = 0; i < 3; i++) service.recordSend("chat-a");
+
+        config.api_daily_send_quota_per_chat = 0;
+        expect(service.checkSendQuota("chat-a").allowed).toBe(true);
+    });
+});
+
+describe("RateLimitService.getStats", () => {
+    it("reports usage", () => {
+        drain("token:1", 6, "send");
+        service.consume("token:1", "send");
+        drain("token:1", 1);
+        drain("ip:10.0.0.2", 60);
+        service.consume("ip:10.0.0.2", "default");
+
+        for (let i = 0; i < 3; i++) service.recordSend("chat-a");
+        service.recordSend("chat-b");
+        service.checkSendQuota("chat-a");
+
+        expect(service.getStats()).toEqual({
+            enabled: true,
+            requests_per_minute: 60,
+            sends_per_minute: 6,
+            daily_send_quota_per_chat: 3,
+            tracked_clients: 2,
+            rate_limited_requests: 1,
+            rate_limited_sends: 1,
+            quota_rejections: 1,
+            sends_today: 4,
+            chats_at_quota: 1
+        });
+    });
+});
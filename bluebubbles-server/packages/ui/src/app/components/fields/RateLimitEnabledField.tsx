@@ -0,0 +1,32 @@
+import React from 'react';
+import {
+    FormControl,
+    FormHelperText,
+    Checkbox,
+    Text
+} from '@chakra-ui/react';
+import { useAppSelector } from '../../hooks';
+import { onCheckboxToggle } from '../../actions/ConfigActions';
+
+export interface RateLimitEnabledFieldProps {
+    helpText?: string;
+}
+
+export const RateLimitEnabledField = ({ helpText }: RateLimitEnabledFieldProps): JSX.Element => {
+    const enabled: boolean = (useAppSelector(state => state.config.api_rate_limit_enabled) ?? false);
+
+    return (
+        <FormControl>
+            <Checkbox id='api_rate_limit_enabled' isChecked={enabled} onChange={onCheckboxToggle}>Enable API Rate Limiting</Checkbox>
+            <FormHelperText>
+                {helpText ?? (
+                    <Text>
+                        When enabled, each API client (API token, or IP address when using the password) is limited in
+                        how many requests it can make. Clients that go over the limit will receive a 429 response.
+                        This helps prevent a misbehaving client from getting your Apple ID flagged for spam.
+                    </Text>
+                )}
+            </FormHelperText>
+        </FormControl>
+    );
+};
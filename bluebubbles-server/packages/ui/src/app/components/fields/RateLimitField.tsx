@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import {
+    FormControl,
+    FormLabel,
+    FormHelperText,
+    Input,
+    IconButton,
+    FormErrorMessage,
+    Flex
+} from '@chakra-ui/react';
+import { useAppDispatch, useAppSelector } from '../../hooks';
+import { showSuccessToast } from '../../utils/ToastUtils';
+import { setConfig } from '../../slices/ConfigSlice';
+import { AiOutlineSave } from 'react-icons/ai';
+
+
+export interface RateLimitFieldProps {
+    name: 'api_rate_limit_per_minute' | 'api_send_rate_limit_per_minute' | 'api_daily_send_quota_per_chat';
+    label: string;
+    helpText: string;
+}
+
+export const RateLimitField = ({ name, label, helpText }: RateLimitFieldProps): JSX.Element => {
+    const dispatch = useAppDispatch();
+
+    const limit: number = Number(useAppSelector(state => state.config[name]) ?? 0);
+    const [newLimit, setNewLimit] = useState(limit);
+    const [limitError, setLimitError] = useState('');
+    const hasLimitError: boolean = (limitError ?? '').length > 0;
+
+    useEffect(() => { setNewLimit(limit); }, [limit]);
+
+    /**
+     * A handler & validator for saving a new limit
+     *
+     * @param theNewLimit - The new limit to save
+     */
+    const saveLimit = (theNewLimit: number): void => {
+        // Validate the limit
+        if (Number.isNaN(theNewLimit) || theNewLimit < 0) {
+            setLimitError('The limit must be a positive number (or 0 for no limit)');
+            return;
+        }
+
+        dispatch(setConfig({ name, value: theNewLimit }));
+        if (hasLimitError) setLimitError('');
+        showSuccessToast({
+            id: 'settings',
+            duration: 4000,
+            description: `Successfully saved new ${label.toLowerCase()}!`
+        });
+    };
+
+    return (
+        <FormControl isInvalid={hasLimitError}>
+            <FormLabel htmlFor={name}>{label}</FormLabel>
+            <Flex flexDirection='row' justifyContent='flex-start' alignItems='center'>
+                <Input
+                    id={name}
+                    type='number'
+                    maxWidth="6em"
+                    value={newLimit}
+                    onChange={(e) => {
+                        if (hasLimitError) setLimitError('');
+                        setNewLimit(Number.parseInt(e.target.value));
+                    }}
+                />
+                <IconButton
+                    ml={3}
+                    verticalAlign='top'
+                    aria-label={`Save ${label.toLowerCase()}`}
+                    icon={<AiOutlineSave />}
+                    onClick={() => saveLimit(newLimit)}
+                />
+            </Flex>
+            {!hasLimitError ? (
+                <FormHelperText>{helpText}</FormHelperText>
+            ) : (
+                <FormErrorMessage>{limitError}</FormErrorMessage>
+            )}
+        </FormControl>
+    );
+};
@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import {
+    AlertDialog,
+    AlertDialogOverlay,
+    AlertDialogBody,
+    AlertDialogContent,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    Button,
+    Code,
+    Input,
+    FormControl,
+    FormErrorMessage,
+    FormHelperText,
+    FormLabel,
+    Text
+} from '@chakra-ui/react';
+import { Select as MultiSelect } from 'chakra-react-select';
+import { FocusableElement } from '@chakra-ui/utils';
+import { apiTokenScopeOptions } from '../../constants';
+import { MultiSelectValue } from '../../types';
+import { createApiToken } from '../../utils/IpcUtils';
+import { copyToClipboard } from '../../utils/GenericUtils';
+import { showErrorToast } from '../../utils/ToastUtils';
+
+
+interface AddApiTokenDialogProps {
+    isOpen: boolean;
+    modalRef: React.RefObject<FocusableElement>;
+    onClose: () => void;
+    onCreate?: () => void;
+}
+
+
+export const AddApiTokenDialog = ({
+    isOpen,
+    modalRef,
+    onClose,
+    onCreate
+}: AddApiTokenDialogProps): JSX.Element => {
+    const [name, setName] = useState('');
+    const [nameError, setNameError] = useState('');
+    const isNameInvalid = (nameError ?? '').length > 0;
+    const [selectedScopes, setSelectedScopes] = useState([] as Array<MultiSelectValue>);
+    const [scopesError, setScopesError] = useState('');
+    const isScopesInvalid = (scopesError ?? '').length > 0;
+    const [expiresAt, setExpiresAt] = useState('');
+    const [expiresError, setExpiresError] = useState('');
+    const isExpiresInvalid = (expiresError ?? '').length > 0;
+
+    // Only shown once, right after the token is created
+    const [createdToken, setCreatedToken] = useState(null as string | null);
+
+    const reset = () => {
+        setName('');
+        setNameError('');
+        setSelectedScopes([]);
+        setScopesError('');
+        setExpiresAt('');
+        setExpiresError('');
+        setCreatedToken(null);
+    };
+
+    const close = () => {
+        reset();
+        onClose();
+    };
+
+    const save = () => {
+        if (name.trim().length === 0) {
+            setNameError('Please enter a name for the token!');
+            return;
+        }
+
+        if (selectedScopes.length === 0) {
+            setScopesError('Please select at least 1 scope!');
+            return;
+        }
+
+        const expiry = expiresAt.length > 0 ? new Date(expiresAt).getTime() : null;
+        if (expiry !== null && expiry <= new Date().getTime()) {
+            setExpiresError('The expiration must be in the future!');
+            return;
+        }
+
+        createApiToken({
+            name: name.trim(),
+            scopes: selectedScopes.map(e => e.value),
+            expiresAt: expiry
+        }).then((res: any) => {
+            setCreatedToken(res.token);
+            if (onCreate) onCreate();
+        }).catch(e => {
+            showErrorToast({
+                id: 'api-tokens',
+                duration: 5000,
+                description: `Failed to create API token! Error: ${e}`
+            });
+        });
+    };
+
+    return (
+        <AlertDialog
+            isOpen={isOpen}
+            leastDestructiveRef={modalRef}
+            onClose={() => close()}
+        >
+            <AlertDialogOverlay>
+                <AlertDialogContent>
+                    <AlertDialogHeader fontSize='lg' fontWeight='bold'>
+                        {createdToken ? 'API Token Created' : 'Add a new API Token'}
+                    </AlertDialogHeader>
+
+                    {createdToken ? (
+                        <AlertDialogBody>
+                            <Text>
+                                Copy your new token now. It won&apos;t be shown again! Send it in
+                                the <Code>Authorization: Bearer &lt;token&gt;</Code> header, or in
+                                place of the password in the <Code>password</Code> query parameter.
+                            </Text>
+                            <Code mt={5} p={3} display='block' wordBreak='break-all'>{createdToken}</Code>
+                        </AlertDialogBody>
+                    ) : (
+                        <AlertDialogBody>
+                            <Text>API tokens let apps use the API without the server password, limited to the selected scopes</Text>
+                            <FormControl isInvalid={isNameInvalid} mt={5}>
+                                <FormLabel htmlFor='name'>Name</FormLabel>
+                                <Input
+                                    id='name'
+                                    type='text'
+                                    value={name}
+                                    placeholder='My Bot'
+                                    onChange={(e) => {
+                                        setNameError('');
+                                        setName(e.target.value);
+                                    }}
+                                />
+                                {isNameInvalid ? (
+                                    <FormErrorMessage>{nameError}</FormErrorMessage>
+                                ) : null}
+                            </FormControl>
+                            <FormControl isInvalid={isScopesInvalid} mt={5}>
+                                <FormLabel htmlFor='scopes'>Scopes</FormLabel>
+                                <MultiSelect
+                                    size='md'
+                                    isMulti={true}
+                                    options={apiTokenScopeOptions}
+                                    value={selectedScopes}
+                                    onChange={(newValues) => {
+                                        setScopesError('');
+                                        setSelectedScopes(newValues as Array<MultiSelectValue>);
+                                    }}
+                                />
+                                {isScopesInvalid ? (
+                                    <FormErrorMessage>{scopesError}</FormErrorMessage>
+                                ) : (
+                                    <FormHelperText>Server Admin grants full access, including socket connections</FormHelperText>
+                                )}
+                            </FormControl>
+                            <FormControl isInvalid={isExpiresInvalid} mt={5}>
+                                <FormLabel htmlFor='expiresAt'>Expires (Optional)</FormLabel>
+                                <Input
+                                    id='expiresAt'
+                                    type='datetime-local'
+                                    value={expiresAt}
+                                    onChange={(e) => {
+                                        setExpiresError('');
+                                        setExpiresAt(e.target.value);
+                                    }}
+                                />
+                                {isExpiresInvalid ? (
+                                    <FormErrorMessage>{expiresError}</FormErrorMessage>
+                                ) : null}
+                            </FormControl>
+                        </AlertDialogBody>
+                    )}
+
+                    <AlertDialogFooter>
+                        {createdToken ? (
+                            <>
+                                <Button onClick={() => copyToClipboard(createdToken)}>
+                                    Copy
+                                </Button>
+                                <Button
+                                    ml={3}
+                                    bg='brand.primary'
+                                    ref={modalRef as React.LegacyRef<HTMLButtonElement> | undefined}
+                                    onClick={() => close()}
+                                >
+                                    Done
+                                </Button>
+                            </>
+                        ) : (
+                            <>
+                                <Button
+                                    ref={modalRef as React.LegacyRef<HTMLButtonElement> | undefined}
+                                    onClick={() => close()}
+                                >
+                                    Cancel
+                                </Button>
+                                <Button
+                                    ml={3}
+                                    bg='brand.primary'
+                                    onClick={() => save()}
+                                >
+                                    Create
+                                </Button>
+                            </>
+                        )}
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialogOverlay>
+        </AlertDialog>
+    );
+};
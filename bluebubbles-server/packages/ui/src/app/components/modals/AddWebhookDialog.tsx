@@ -11,17 +11,48 @@ import {
     FormControl,
     FormErrorMessage,
     FormLabel,
-    Text
+    FormHelperText,
+    Text,
+    Stack
 } from '@chakra-ui/react';
 import { Select as MultiSelect } from 'chakra-react-select';
 import { FocusableElement } from '@chakra-ui/utils';
 import { webhookEventOptions } from '../../constants';
 import { MultiSelectValue } from '../../types';
 import { useAppDispatch, useAppSelector } from '../../hooks';
-import { create, update } from '../../slices/WebhooksSlice';
+import { create, update, WebhookFilters } from '../../slices/WebhooksSlice';
 import { convertMultiSelectValues } from '../../utils/GenericUtils';
 
 
+type FilterOption = { label: string, value: string };
+
+const fromMeOptions: Array<FilterOption> = [
+    { label: 'Sent & Received', value: '' },
+    { label: 'Sent by Me', value: 'true' },
+    { label: 'Received', value: 'false' }
+];
+
+const chatTypeOptions: Array<FilterOption> = [
+    { label: 'All Chats', value: '' },
+    { label: 'Group Chats', value: 'group' },
+    { label: 'Direct Chats', value: 'direct' }
+];
+
+const attachmentOptions: Array<FilterOption> = [
+    { label: 'With or Without Attachments', value: '' },
+    { label: 'With Attachments', value: 'true' },
+    { label: 'Without Attachments', value: 'false' }
+];
+
+const splitList = (value: string): Array<string> => value.split(',').map(e => e.trim()).filter(e => e.length > 0);
+
+const toOption = (options: Array<FilterOption>, value: any) => {
+    return options.find(e => e.value === (value == null ? '' : String(value))) ?? options[0];
+};
+
+const toBoolean = (value: string): boolean | null => (value === '' ? null : value === 'true');
+
+
 interface AddWebhookDialogProps {
     onCancel?: () => void;
     isOpen: boolean;
@@ -47,6 +78,36 @@ export const AddWebhookDialog = ({
     const isUrlInvalid = (urlError ?? '').length > 0;
     const [eventsError, setEventsError] = useState('');
     const isEventsError = (eventsError ?? '').length > 0;
+    const [chatGuids, setChatGuids] = useState('');
+    const [excludeChatGuids, setExcludeChatGuids] = useState('');
+    const [handles, setHandles] = useState('');
+    const [isFromMe, setIsFromMe] = useState(fromMeOptions[0]);
+    const [chatType, setChatType] = useState(chatTypeOptions[0]);
+    const [hasAttachments, setHasAttachments] = useState(attachmentOptions[0]);
+    const [textPattern, setTextPattern] = useState('');
+    const [patternError, setPatternError] = useState('');
+    const isPatternInvalid = (patternError ?? '').length > 0;
+
+    const loadFilters = (filters: WebhookFilters | null) => {
+        setChatGuids((filters?.chatGuids ?? []).join(', '));
+        setExcludeChatGuids((filters?.excludeChatGuids ?? []).join(', '));
+        setHandles((filters?.handles ?? []).join(', '));
+        setIsFromMe(toOption(fromMeOptions, filters?.isFromMe));
+        setChatType(toOption(chatTypeOptions, filters?.chatType));
+        setHasAttachments(toOption(attachmentOptions, filters?.hasAttachments));
+        setTextPattern(filters?.textPattern ?? '');
+        setPatternError('');
+    };
+
+    const buildFilters = (): WebhookFilters => ({
+        chatGuids: splitList(chatGuids),
+        excludeChatGuids: splitList(excludeChatGuids),
+        handles: splitList(handles),
+        isFromMe: toBoolean(isFromMe.value),
+        chatType: chatType.value === '' ? null : chatType.value as 'group' | 'direct',
+        hasAttachments: toBoolean(hasAttachments.value),
+        textPattern: textPattern.trim().length > 0 ? textPattern.trim() : null
+    });
 
     useEffect(() => {
         if (!existingId) return;
@@ -55,6 +116,7 @@ export const AddWebhookDialog = ({
         if (webhook) {
             setUrl(webhook.url);
             setSelectedEvents(convertMultiSelectValues(JSON.parse(webhook.events)));
+            loadFilters(webhook.filters);
         }
     }, [existingId]);
 
@@ -63,6 +125,7 @@ export const AddWebhookDialog = ({
             isOpen={isOpen}
             leastDestructiveRef={modalRef}
             onClose={() => onClose()}
+            scrollBehavior='inside'
         >
             <AlertDialogOverlay>
                 <AlertDialogContent>
@@ -104,7 +167,88 @@ export const AddWebhookDialog = ({
                                 <FormErrorMessage>{eventsError}</FormErrorMessage>
                             ) : null}
                         </FormControl>
-                        
+
+                        <Text mt={5} fontWeight='bold'>Filters (Optional)</Text>
+                        <Text fontSize='sm'>
+                            Only deliver chat & message events that match all of the filters below.
+                            Separate multiple values with commas.
+                        </Text>
+                        <FormControl mt={3}>
+                            <FormLabel htmlFor='chatGuids'>Only These Chats</FormLabel>
+                            <Input
+                                id='chatGuids'
+                                type='text'
+                                value={chatGuids}
+                                placeholder='iMessage;-;+15555550100'
+                                onChange={(e) => setChatGuids(e.target.value)}
+                            />
+                        </FormControl>
+                        <FormControl mt={3}>
+                            <FormLabel htmlFor='excludeChatGuids'>Never These Chats</FormLabel>
+                            <Input
+                                id='excludeChatGuids'
+                                type='text'
+                                value={excludeChatGuids}
+                                onChange={(e) => setExcludeChatGuids(e.target.value)}
+                            />
+                        </FormControl>
+                        <FormControl mt={3}>
+                            <FormLabel htmlFor='handles'>Only These Handles</FormLabel>
+                            <Input
+                                id='handles'
+                                type='text'
+                                value={handles}
+                                placeholder='+15555550100, someone@icloud.com'
+                                onChange={(e) => setHandles(e.target.value)}
+                            />
+                        </FormControl>
+                        <Stack direction='row' mt={3}>
+                            <FormControl>
+                                <FormLabel>Direction</FormLabel>
+                                <MultiSelect
+                                    size='sm'
+                                    options={fromMeOptions}
+                                    value={isFromMe}
+                                    onChange={(e) => setIsFromMe(e as FilterOption)}
+                                />
+                            </FormControl>
+                            <FormControl>
+                                <FormLabel>Chat Type</FormLabel>
+                                <MultiSelect
+                                    size='sm'
+                                    options={chatTypeOptions}
+                                    value={chatType}
+                                    onChange={(e) => setChatType(e as FilterOption)}
+                                />
+                            </FormControl>
+                        </Stack>
+                        <FormControl mt={3}>
+                            <FormLabel>Attachments</FormLabel>
+                            <MultiSelect
+                                size='sm'
+                                options={attachmentOptions}
+                                value={hasAttachments}
+                                onChange={(e) => setHasAttachments(e as FilterOption)}
+                            />
+                        </FormControl>
+                        <FormControl isInvalid={isPatternInvalid} mt={3}>
+                            <FormLabel htmlFor='textPattern'>Message Text (Regex)</FormLabel>
+                            <Input
+                                id='textPattern'
+                                type='text'
+                                value={textPattern}
+                                placeholder='^hey bot'
+                                onChange={(e) => {
+                                    setPatternError('');
+                                    setTextPattern(e.target.value);
+                                }}
+                            />
+                            {isPatternInvalid ? (
+                                <FormErrorMessage>{patternError}</FormErrorMessage>
+                            ) : (
+                                <FormHelperText>Case-insensitive</FormHelperText>
+                            )}
+                        </FormControl>
                     </AlertDialogBody>
 
                     <AlertDialogFooter>
@@ -113,6 +257,7 @@ export const AddWebhookDialog = ({
                             onClick={() => {
                                 if (onCancel) onCancel();
                                 setUrl('');
+                                loadFilters(null);
                                 onClose();
                             }}
                         >
@@ -133,13 +278,24 @@ export const AddWebhookDialog = ({
                                     return;
                                 }
 
+                                const filters = buildFilters();
+                                if (filters.textPattern) {
+                                    try {
+                                        new RegExp(filters.textPattern, 'i');
+                                    } catch (ex: any) {
+                                        setPatternError(`Invalid regex: ${ex?.message ?? ex}`);
+                                        return;
+                                    }
+                                }
+
                                 if (existingId) {
-                                    dispatch(update({ id: existingId, url, events: selectedEvents }));
+                                    dispatch(update({ id: existingId, url, events: selectedEvents, filters }));
                                 } else {
-                                    dispatch(create({ url, events: selectedEvents }));
+                                    dispatch(create({ url, events: selectedEvents, filters }));
                                 }
 
                                 setUrl('');
+                                loadFilters(null);
                                 onClose();
                             }}
                         >
@@ -11,16 +11,19 @@ import {
     Input,
     FormControl,
     FormErrorMessage,
+    FormHelperText,
     FormLabel,
     RadioGroup,
     Stack,
-    Radio
+    Radio,
+    Text
 } from '@chakra-ui/react';
 import { FocusableElement } from '@chakra-ui/utils';
 import { ScheduledMessageItem } from '../tables/ScheduledMessagesTable';
 import { Options, Select } from 'chakra-react-select';
 import { intervalTypeOpts, scheduledMessageTypeOptions, scheduleTypeOptions } from 'app/constants';
 import { useAppSelector } from 'app/hooks';
+import { previewScheduledMessage } from 'app/utils/IpcUtils';
 
 
 interface ScheduledMessageDialogProps {
@@ -72,6 +75,46 @@ export const ScheduledMessageDialog = ({
     const hasDateError = (dateError ?? '').length > 0;
     const [intervalError, setIntervalError] = useState('');
     const hasIntervalError = (intervalError ?? '').length > 0;
+    const [repeatMode, setRepeatMode] = useState('interval');
+    const [rrule, setRrule] = useState('');
+    const [rruleError, setRruleError] = useState('');
+    const hasRruleError = (rruleError ?? '').length > 0;
+    const [quietStart, setQuietStart] = useState('');
+    const [quietEnd, setQuietEnd] = useState('');
+    const [quietError, setQuietError] = useState('');
+    const hasQuietError = (quietError ?? '').length > 0;
+    const [preview, setPreview] = useState([] as Array<{ scheduledFor: number, sendAt: number }>);
+
+    const buildSchedule = (): ScheduledMessageItem['schedule'] => {
+        const schedule: ScheduledMessageItem['schedule'] = {
+            type: scheduleType.value,
+            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+            quietHours: (quietStart && quietEnd) ? { start: quietStart, end: quietEnd } : null
+        };
+
+        if (scheduleType.value === 'recurring' && repeatMode === 'rrule') {
+            schedule.rrule = rrule.trim();
+        } else {
+            schedule.interval = interval ?? 1;
+            schedule.intervalType = intervalType.value;
+        }
+
+        return schedule;
+    };
+
+    const loadPreview = () => {
+        if (!scheduledFor) {
+            setDateError('Please enter a date to preview from!');
+            return;
+        }
+
+        previewScheduledMessage(scheduledFor.getTime(), buildSchedule()).then(occurrences => {
+            setPreview(occurrences ?? []);
+        }).catch(e => {
+            setPreview([]);
+            setRruleError(String(e?.message ?? e).replace(/^Error invoking remote method '.+?': (Error: )?/, ''));
+        });
+    };
 
     useEffect(() => {
         ipcRenderer.invoke('get-chats').then((chats: any[]) => {
@@ -101,6 +144,13 @@ export const ScheduledMessageDialog = ({
         setMessageError('');
         setGuidError('');
         setIntervalError('');
+        setRepeatMode('interval');
+        setRrule('');
+        setRruleError('');
+        setQuietStart('');
+        setQuietEnd('');
+        setQuietError('');
+        setPreview([]);
 
         if (onClose) onClose();
     };
@@ -219,6 +269,43 @@ export const ScheduledMessageDialog = ({
                             ) : null}
                         </FormControl>
                         {scheduleType.value === 'recurring' ? (
+                            <FormControl mt={5}>
+                                <RadioGroup onChange={(value) => {
+                                    setPreview([]);
+                                    setRepeatMode(value);
+                                }} value={repeatMode}>
+                                    <Stack direction='row'>
+                                        <Radio value='interval'>Interval</Radio>
+                                        <Radio value='rrule'>Recurrence Rule</Radio>
+                                    </Stack>
+                                </RadioGroup>
+                            </FormControl>
+                        ) : null}
+                        {scheduleType.value === 'recurring' && repeatMode === 'rrule' ? (
+                            <FormControl isInvalid={hasRruleError} mt={5}>
+                                <FormLabel htmlFor='rrule'>Recurrence Rule (RRULE)</FormLabel>
+                                <Input
+                                    id='rrule'
+                                    type='text'
+                                    value={rrule}
+                                    placeholder='FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR'
+                                    onChange={(e) => {
+                                        setRruleError('');
+                                        setPreview([]);
+                                        setRrule(e.target.value);
+                                    }}
+                                />
+                                {hasRruleError ? (
+                                    <FormErrorMessage>{rruleError}</FormErrorMessage>
+                                ) : (
+                                    <FormHelperText>
+                                        i.e. FREQ=MONTHLY;BYDAY=-1FR for the last Friday of every month.
+                                        Supports COUNT and UNTIL to end the schedule.
+                                    </FormHelperText>
+                                )}
+                            </FormControl>
+                        ) : null}
+                        {scheduleType.value === 'recurring' && repeatMode === 'interval' ? (
                             <>
                                 <FormControl isInvalid={hasIntervalError} mt={5}>
                                     <FormLabel htmlFor='scheduleInterval'>Every</FormLabel>
@@ -244,6 +331,54 @@ export const ScheduledMessageDialog = ({
                                 </FormControl>
                             </>
                         ) : null}
+                        <FormControl isInvalid={hasQuietError} mt={5}>
+                            <FormLabel htmlFor='quietStart'>Quiet Hours (Optional)</FormLabel>
+                            <Stack direction='row' alignItems='center'>
+                                <Input
+                                    id='quietStart'
+                                    type='time'
+                                    value={quietStart}
+                                    onChange={(e) => {
+                                        setQuietError('');
+                                        setPreview([]);
+                                        setQuietStart(e.target.value);
+                                    }}
+                                />
+                                <Text>to</Text>
+                                <Input
+                                    id='quietEnd'
+                                    type='time'
+                                    value={quietEnd}
+                                    onChange={(e) => {
+                                        setQuietError('');
+                                        setPreview([]);
+                                        setQuietEnd(e.target.value);
+                                    }}
+                                />
+                            </Stack>
+                            {hasQuietError ? (
+                                <FormErrorMessage>{quietError}</FormErrorMessage>
+                            ) : (
+                                <FormHelperText>
+                                    Messages due during quiet hours will be sent when they end
+                                </FormHelperText>
+                            )}
+                        </FormControl>
+                        {scheduleType.value === 'recurring' ? (
+                            <FormControl mt={5}>
+                                <Button size='sm' onClick={() => loadPreview()}>
+                                    Preview Next Sends
+                                </Button>
+                                {preview.map(occurrence => (
+                                    <Text key={occurrence.scheduledFor} mt={2} fontSize='sm'>
+                                        {new Date(occurrence.sendAt).toLocaleString()}
+                                        {occurrence.sendAt !== occurrence.scheduledFor
+                                            ? ' (deferred by quiet hours)'
+                                            : ''}
+                                    </Text>
+                                ))}
+                            </FormControl>
+                        ) : null}
                     </AlertDialogBody>
 
                     <AlertDialogFooter>
@@ -282,14 +417,26 @@ export const ScheduledMessageDialog = ({
                                     return;
                                 }
 
-                                if (!interval) {
+                                const usesRrule = scheduleType.value === 'recurring' && repeatMode === 'rrule';
+                                if (usesRrule && rrule.trim().length === 0) {
+                                    setRruleError('Please enter a recurrence rule!');
+                                    return;
+                                } else if (!usesRrule && !interval) {
                                     setIntervalError('Please enter a valid interval!');
                                     return;
-                                } else if (interval < 1) {
+                                } else if (!usesRrule && interval < 1) {
                                     setIntervalError('Interval must be > 0!');
                                     return;
                                 }
 
+                                if ((quietStart.length > 0) !== (quietEnd.length > 0)) {
+                                    setQuietError('Please enter both a start and end time!');
+                                    return;
+                                } else if (quietStart.length > 0 && quietStart === quietEnd) {
+                                    setQuietError('The start and end times must be different!');
+                                    return;
+                                }
+
                                 if (onCreate) {
                                     onCreate({
                                         id: null,
@@ -300,11 +447,7 @@ export const ScheduledMessageDialog = ({
                                             method: usePrivateApi ? 'private-api' : 'apple-script'
                                         },
                                         scheduledFor: scheduledFor.getTime(),
-                                        schedule: {
-                                            type: scheduleType.value,
-                                            interval: interval ?? 1,
-                                            intervalType: intervalType.value
-                                        }
+                                        schedule: buildSchedule()
                                     });
                                 }
 
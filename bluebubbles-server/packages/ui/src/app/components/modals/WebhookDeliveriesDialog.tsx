@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import {
+    AlertDialog,
+    AlertDialogOverlay,
+    AlertDialogBody,
+    AlertDialogContent,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    Badge,
+    Button,
+    Table,
+    Thead,
+    Tbody,
+    Tr,
+    Th,
+    Td,
+    Text,
+    Tooltip
+} from '@chakra-ui/react';
+import { FocusableElement } from '@chakra-ui/utils';
+import { getWebhookDeliveries, replayFailedWebhookDeliveries, replayWebhookDelivery } from '../../utils/IpcUtils';
+import { webhookEventValueToLabel } from '../../utils/GenericUtils';
+import { showErrorToast, showSuccessToast } from '../../utils/ToastUtils';
+
+type WebhookDeliveryItem = {
+    id: number;
+    eventType: string;
+    status: 'pending' | 'success' | 'failed';
+    attempts: number;
+    responseStatus: number | null;
+    error: string | null;
+    nextAttemptAt: Date | null;
+    replayOf: number | null;
+    created: Date;
+};
+
+interface WebhookDeliveriesDialogProps {
+    webhookId?: number;
+    isOpen: boolean;
+    modalRef: React.RefObject<FocusableElement>;
+    onClose: () => void;
+}
+
+const statusColors = {
+    pending: 'yellow',
+    success: 'green',
+    failed: 'red'
+};
+
+export const WebhookDeliveriesDialog = ({
+    webhookId,
+    isOpen,
+    modalRef,
+    onClose
+}: WebhookDeliveriesDialogProps): JSX.Element => {
+    const [deliveries, setDeliveries] = useState([] as Array<WebhookDeliveryItem>);
+
+    const loadDeliveries = () => {
+        if (!webhookId) return;
+        getWebhookDeliveries({ id: webhookId }).then(items => {
+            setDeliveries(items ?? []);
+        }).catch(e => {
+            showErrorToast({
+                id: 'webhooks',
+                duration: 5000,
+                description: `Failed to load webhook deliveries! Error: ${e}`
+            });
+        });
+    };
+
+    useEffect(() => {
+        if (!isOpen) return;
+        loadDeliveries();
+    }, [isOpen, webhookId]);
+
+    const replay = (id: number) => {
+        replayWebhookDelivery(id).then(() => {
+            showSuccessToast({
+                id: 'webhooks',
+                description: 'Queued webhook delivery for replay!'
+            });
+            loadDeliveries();
+        }).catch(e => {
+            showErrorToast({
+                id: 'webhooks',
+                duration: 5000,
+                description: `Failed to replay webhook delivery! Error: ${e}`
+            });
+        });
+    };
+
+    const replayFailed = () => {
+        if (!webhookId) return;
+        replayFailedWebhookDeliveries(webhookId).then((count: number) => {
+            showSuccessToast({
+                id: 'webhooks',
+                description: `Queued ${count} failed webhook deliveries for replay!`
+            });
+            loadDeliveries();
+        }).catch(e => {
+            showErrorToast({
+                id: 'webhooks',
+                duration: 5000,
+                description: `Failed to replay webhook deliveries! Error: ${e}`
+            });
+        });
+    };
+
+    return (
+        <AlertDialog
+            isOpen={isOpen}
+            leastDestructiveRef={modalRef}
+            onClose={() => onClose()}
+            size='4xl'
+        >
+            <AlertDialogOverlay>
+                <AlertDialogContent>
+                    <AlertDialogHeader fontSize='lg' fontWeight='bold'>
+                        Webhook Deliveries
+                    </AlertDialogHeader>
+
+                    <AlertDialogBody>
+                        {deliveries.length === 0 ? (
+                            <Text>No deliveries in the last 7 days</Text>
+                        ) : (
+                            <Table size='sm'>
+                                <Thead>
+                                    <Tr>
+                                        <Th>Event</Th>
+                                        <Th>Status</Th>
+                                        <Th isNumeric>Attempts</Th>
+                                        <Th isNumeric>Response</Th>
+                                        <Th>Created</Th>
+                                        <Th isNumeric>Actions</Th>
+                                    </Tr>
+                                </Thead>
+                                <Tbody>
+                                    {deliveries.map(item => (
+                                        <Tr key={item.id}>
+                                            <Td>{webhookEventValueToLabel(item.eventType)}</Td>
+                                            <Td>
+                                                <Tooltip label={item.error ?? ''} isDisabled={!item.error} placement='bottom'>
+                                                    <Badge colorScheme={statusColors[item.status]}>{item.status}</Badge>
+                                                </Tooltip>
+                                            </Td>
+                                            <Td isNumeric>{item.attempts}</Td>
+                                            <Td isNumeric>{item.responseStatus ?? '-'}</Td>
+                                            <Td>{new Date(item.created).toLocaleString()}</Td>
+                                            <Td isNumeric>
+                                                <Button
+                                                    size='xs'
+                                                    isDisabled={item.status === 'pending'}
+                                                    onClick={() => replay(item.id)}
+                                                >
+                                                    Replay
+                                                </Button>
+                                            </Td>
+                                        </Tr>
+                                    ))}
+                                </Tbody>
+                            </Table>
+                        )}
+                    </AlertDialogBody>
+
+                    <AlertDialogFooter>
+                        <Button
+                            mr={3}
+                            isDisabled={!deliveries.some(e => e.status === 'failed')}
+                            onClick={() => replayFailed()}
+                        >
+                            Replay Failed
+                        </Button>
+                        <Button
+                            ref={modalRef as React.LegacyRef<HTMLButtonElement> | undefined}
+                            onClick={() => onClose()}
+                        >
+                            Close
+                        </Button>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialogOverlay>
+        </AlertDialog>
+    );
+};
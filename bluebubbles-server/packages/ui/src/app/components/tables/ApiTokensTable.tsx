@@ -0,0 +1,105 @@
+import React from 'react';
+import {
+    Table,
+    Thead,
+    Tbody,
+    Tr,
+    Th,
+    Td,
+    TableCaption,
+    Badge,
+    Box,
+    Code,
+    Icon,
+    Text,
+    Tooltip,
+    Wrap,
+    WrapItem
+} from '@chakra-ui/react';
+import { BsTrash } from 'react-icons/bs';
+import { apiTokenScopeOptions } from '../../constants';
+
+
+export interface ApiTokenItem {
+    id: number;
+    name: string;
+    tokenPrefix: string;
+    scopes: Array<string>;
+    expiresAt: number | null;
+    lastUsedAt: number | null;
+    lastUsedIp: string | null;
+    created: Date;
+}
+
+const scopeToLabel = (value: string) => {
+    return apiTokenScopeOptions.find(e => e.value === value)?.label ?? value;
+};
+
+export const ApiTokensTable = ({
+    tokens,
+    onDelete
+}: {
+    tokens: Array<ApiTokenItem>,
+    onDelete?: (id: number) => void
+}): JSX.Element => {
+    return (
+        <Box>
+            <Table variant="striped" colorScheme="blue" size='sm'>
+                <TableCaption>API tokens can be used in place of the server password, limited to their scopes</TableCaption>
+                <Thead>
+                    <Tr>
+                        <Th>Name</Th>
+                        <Th>Token</Th>
+                        <Th>Scopes</Th>
+                        <Th>Expires</Th>
+                        <Th>Last Used</Th>
+                        <Th isNumeric>Delete</Th>
+                    </Tr>
+                </Thead>
+                <Tbody>
+                    {tokens.map(item => {
+                        const isExpired = !!item.expiresAt && item.expiresAt <= new Date().getTime();
+                        return (
+                            <Tr key={item.id}>
+                                <Td><Text>{item.name}</Text></Td>
+                                <Td><Code>{item.tokenPrefix}…</Code></Td>
+                                <Td>
+                                    <Wrap>
+                                        {item.scopes.map(scope => (
+                                            <WrapItem key={scope}>
+                                                <Badge colorScheme={scope === 'server:admin' ? 'red' : 'blue'}>
+                                                    {scopeToLabel(scope)}
+                                                </Badge>
+                                            </WrapItem>
+                                        ))}
+                                    </Wrap>
+                                </Td>
+                                <Td>
+                                    {isExpired ? (
+                                        <Badge colorScheme='red'>Expired</Badge>
+                                    ) : (
+                                        <Text>{item.expiresAt ? new Date(item.expiresAt).toLocaleString() : 'Never'}</Text>
+                                    )}
+                                </Td>
+                                <Td>
+                                    <Tooltip label={item.lastUsedIp ?? ''} isDisabled={!item.lastUsedIp} hasArrow>
+                                        <Text>{item.lastUsedAt ? new Date(item.lastUsedAt).toLocaleString() : 'Never'}</Text>
+                                    </Tooltip>
+                                </Td>
+                                <Td isNumeric _hover={{ cursor: 'pointer' }} onClick={() => {
+                                    if (onDelete) onDelete(item.id);
+                                }}>
+                                    <Tooltip label="Delete" hasArrow aria-label='delete'>
+                                        <span>
+                                            <Icon as={BsTrash} />
+                                        </span>
+                                    </Tooltip>
+                                </Td>
+                            </Tr>
+                        );
+                    })}
+                </Tbody>
+            </Table>
+        </Box>
+    );
+};
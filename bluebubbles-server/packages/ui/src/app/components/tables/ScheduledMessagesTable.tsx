@@ -37,7 +37,10 @@ export interface ScheduledMessageItem {
     schedule: {
         type: string,
         interval?: number,
-        intervalType?: 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly'
+        intervalType?: 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly',
+        rrule?: string,
+        timezone?: string,
+        quietHours?: { start: string, end: string } | null
     },
     error?: string,
     status?: string,
@@ -98,10 +101,18 @@ export const ScheduledMessagesTable = ({
 
                         const date = new Date(item.scheduledFor);
                         let freq = '';
-                        if (item.schedule.type === 'recurring') {
+                        if (item.schedule.type === 'recurring' && item.schedule.rrule) {
+                            freq = item.schedule.rrule;
+                        } else if (item.schedule.type === 'recurring') {
                             freq = `Every ${item.schedule.interval} ${intervalTypeToLabel[item.schedule.intervalType as string]}`;
                         }
 
+                        if (item.schedule.quietHours) {
+                            const { start, end } = item.schedule.quietHours;
+                            const quietHours = `Quiet ${start} - ${end}`;
+                            freq = freq.length > 0 ? `${freq}; ${quietHours}` : quietHours;
+                        }
+
                         const chatText = `Sending to ${item.payload.chatGuid}`;
                         return (
                             <Tr key={item.id}>
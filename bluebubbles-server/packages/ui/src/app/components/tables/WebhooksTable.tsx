@@ -12,19 +12,46 @@ import {
     GridItem,
     Tooltip,
     Stack,
+    Badge,
 } from '@chakra-ui/react';
-import { FiTrash } from 'react-icons/fi';
-import { AiOutlineEdit } from 'react-icons/ai';
-import { remove, WebhookItem } from '../../slices/WebhooksSlice';
+import { FiTrash, FiPause, FiPlay } from 'react-icons/fi';
+import { AiOutlineEdit, AiOutlineHistory } from 'react-icons/ai';
+import { BiCopy } from 'react-icons/bi';
+import { remove, setEnabled, WebhookItem } from '../../slices/WebhooksSlice';
 import { useAppDispatch } from '../../hooks';
-import { webhookEventValueToLabel } from '../../utils/GenericUtils';
+import { copyToClipboard, webhookEventValueToLabel } from '../../utils/GenericUtils';
 import { AddWebhookDialog } from '../modals/AddWebhookDialog';
+import { WebhookDeliveriesDialog } from '../modals/WebhookDeliveriesDialog';
+
+
+const WebhookStatus = ({ webhook }: { webhook: WebhookItem }): JSX.Element => {
+    if (!webhook.enabled) {
+        return (
+            <Tooltip label={webhook.disabledReason ?? 'Disabled'} placement='bottom'>
+                <Badge colorScheme='red'>Disabled</Badge>
+            </Tooltip>
+        );
+    }
+
+    if (webhook.consecutiveFailures > 0) {
+        const since = webhook.failingSince ? ` since ${new Date(webhook.failingSince).toLocaleString()}` : '';
+        return (
+            <Tooltip label={`${webhook.consecutiveFailures} failed attempt(s) in a row${since}`} placement='bottom'>
+                <Badge colorScheme='yellow'>Failing ({webhook.consecutiveFailures})</Badge>
+            </Tooltip>
+        );
+    }
+
+    return <Badge colorScheme='green'>Active</Badge>;
+};
 
 
 export const WebhooksTable = ({ webhooks }: { webhooks: Array<WebhookItem> }): JSX.Element => {
     const dispatch = useAppDispatch();
     const dialogRef = useRef(null);
+    const deliveriesRef = useRef(null);
     const [selectedId, setSelectedId] = useState(undefined as number | undefined);
+    const [deliveriesId, setDeliveriesId] = useState(undefined as number | undefined);
     return (
         <Box>
             <Table variant="striped" colorScheme="blue">
@@ -33,6 +60,7 @@ export const WebhooksTable = ({ webhooks }: { webhooks: Array<WebhookItem> }): J
                     <Tr>
                         <Th>URL</Th>
                         <Th>Event Subscriptions</Th>
+                        <Th>Status</Th>
                         <Th isNumeric>Actions</Th>
                     </Tr>
                 </Thead>
@@ -40,9 +68,41 @@ export const WebhooksTable = ({ webhooks }: { webhooks: Array<WebhookItem> }): J
                     {webhooks.map(item => (
                         <Tr key={item.id}>
                             <Td>{item.url}</Td>
-                            <Td>{JSON.parse(item.events).map((e: string) => webhookEventValueToLabel(e)).join(', ')}</Td>
+                            <Td>
+                                {JSON.parse(item.events).map((e: string) => webhookEventValueToLabel(e)).join(', ')}
+                                {item.filters ? (
+                                    <Tooltip label='Only events matching the filters are sent' placement='bottom'>
+                                        <Badge ml={2} colorScheme='purple'>Filtered</Badge>
+                                    </Tooltip>
+                                ) : null}
+                            </Td>
+                            <Td><WebhookStatus webhook={item} /></Td>
                             <Td isNumeric>
                                 <Stack direction="row" justifyContent="end">
+                                    {item.secret ? (
+                                        <Tooltip label='Copy Signing Secret' placement='bottom'>
+                                            <GridItem _hover={{ cursor: 'pointer' }} onClick={() => copyToClipboard(item.secret as string)} marginRight={1}>
+                                                <Icon as={BiCopy} />
+                                            </GridItem>
+                                        </Tooltip>
+                                    ) : null}
+
+                                    <Tooltip label='Deliveries' placement='bottom'>
+                                        <GridItem _hover={{ cursor: 'pointer' }} onClick={() => setDeliveriesId(item.id)} marginRight={1}>
+                                            <Icon as={AiOutlineHistory} />
+                                        </GridItem>
+                                    </Tooltip>
+
+                                    <Tooltip label={item.enabled ? 'Disable' : 'Enable'} placement='bottom'>
+                                        <GridItem
+                                            _hover={{ cursor: 'pointer' }}
+                                            onClick={() => dispatch(setEnabled({ id: item.id, enabled: !item.enabled }))}
+                                            marginRight={1}
+                                        >
+                                            <Icon as={item.enabled ? FiPause : FiPlay} />
+                                        </GridItem>
+                                    </Tooltip>
+
                                     <Tooltip label='Edit' placement='bottom'>
                                         <GridItem _hover={{ cursor: 'pointer' }} onClick={() => setSelectedId(item.id)} marginRight={1}>
                                             <Icon as={AiOutlineEdit} />
@@ -69,6 +129,15 @@ export const WebhooksTable = ({ webhooks }: { webhooks: Array<WebhookItem> }): J
                     setSelectedId(undefined);
                 }}
             />
+
+            <WebhookDeliveriesDialog
+                webhookId={deliveriesId}
+                modalRef={deliveriesRef}
+                isOpen={!!deliveriesId}
+                onClose={() => {
+                    setDeliveriesId(undefined);
+                }}
+            />
         </Box>
     );
 };
@@ -153,4 +153,32 @@ export const intervalTypeToLabel: Record<string, string> = {
     'weekly': 'Week(s)',
     'monthly': 'Month(s)',
     'yearly': 'Year(s)'
-};
\ No newline at end of file
+};
+
+// Also modify packages/server/src/server/api/http/constants.ts
+export const apiTokenScopeOptions = [
+    {
+        label: 'Read Messages',
+        value: 'messages:read'
+    },
+    {
+        label: 'Send Messages',
+        value: 'messages:send'
+    },
+    {
+        label: 'Manage Chats',
+        value: 'chats:write'
+    },
+    {
+        label: 'Read Contacts',
+        value: 'contacts:read'
+    },
+    {
+        label: 'Server Admin',
+        value: 'server:admin'
+    },
+    {
+        label: 'Find My',
+        value: 'findmy'
+    }
+];
@@ -1,4 +1,4 @@
-import React, { useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Box, Divider, Flex, LinkBox, Spacer, Stack, Text, useBoolean } from '@chakra-ui/react';
 import {
     Menu,
@@ -20,13 +20,46 @@ import { BsChevronDown } from 'react-icons/bs';
 import { AiOutlineInfoCircle, AiOutlinePlus } from 'react-icons/ai';
 import { WebhooksTable } from '../../components/tables/WebhooksTable';
 import { AddWebhookDialog } from '../../components/modals/AddWebhookDialog';
+import { ApiTokenItem, ApiTokensTable } from '../../components/tables/ApiTokensTable';
+import { AddApiTokenDialog } from '../../components/modals/AddApiTokenDialog';
 import { useAppSelector } from '../../hooks';
+import { deleteApiToken, getApiTokens } from '../../utils/IpcUtils';
+import { showErrorToast, showSuccessToast } from '../../utils/ToastUtils';
 
 
 export const ApiLayout = (): JSX.Element => {
     const dialogRef = useRef(null);
     const [dialogOpen, setDialogOpen] = useBoolean();
     const webhooks = useAppSelector(state => state.webhookStore.webhooks);
+    const tokenDialogRef = useRef(null);
+    const [tokenDialogOpen, setTokenDialogOpen] = useBoolean();
+    const [apiTokens, setApiTokens] = useState([] as Array<ApiTokenItem>);
+
+    const loadApiTokens = () => {
+        getApiTokens().then(tokens => {
+            setApiTokens(tokens ?? []);
+        });
+    };
+
+    const onDeleteApiToken = (id: number) => {
+        deleteApiToken(id).then(() => {
+            showSuccessToast({
+                id: 'api-tokens',
+                description: 'Successfully deleted API token!'
+            });
+            loadApiTokens();
+        }).catch(e => {
+            showErrorToast({
+                id: 'api-tokens',
+                duration: 5000,
+                description: `Failed to delete API token! Error: ${e}`
+            });
+        });
+    };
+
+    useEffect(() => {
+        loadApiTokens();
+    }, []);
 
     return (
         <Box p={3} borderRadius={10}>
@@ -118,6 +151,50 @@ export const ApiLayout = (): JSX.Element => {
                     <Spacer />
                     <WebhooksTable webhooks={webhooks} />
                 </Stack>
+                <Stack direction='column' p={5}>
+                    <Flex flexDirection='row' justifyContent='flex-start' alignItems='center'>
+                        <Text fontSize='2xl'>API Tokens</Text>
+                        <Popover trigger='hover'>
+                            <PopoverTrigger>
+                                <Box ml={2} _hover={{ color: 'brand.primary', cursor: 'pointer' }}>
+                                    <AiOutlineInfoCircle />
+                                </Box>
+                            </PopoverTrigger>
+                            <PopoverContent>
+                                <PopoverArrow />
+                                <PopoverCloseButton />
+                                <PopoverHeader>Information</PopoverHeader>
+                                <PopoverBody>
+                                    <Text>
+                                        API tokens can be used instead of the server password, so you can give an app
+                                        access to only what it needs. Each token is limited to its scopes and can be
+                                        set to expire. Tokens can be sent in the Authorization header as a Bearer token.
+                                    </Text>
+                                </PopoverBody>
+                            </PopoverContent>
+                        </Popover>
+                    </Flex>
+                    <Divider orientation='horizontal' />
+                    <Spacer />
+                    <Box>
+                        <Menu>
+                            <MenuButton
+                                as={Button}
+                                rightIcon={<BsChevronDown />}
+                                width="12em"
+                            >
+                                Manage
+                            </MenuButton>
+                            <MenuList>
+                                <MenuItem icon={<AiOutlinePlus />} onClick={setTokenDialogOpen.on}>
+                                    Add API Token
+                                </MenuItem>
+                            </MenuList>
+                        </Menu>
+                    </Box>
+                    <Spacer />
+                    <ApiTokensTable tokens={apiTokens} onDelete={onDeleteApiToken} />
+                </Stack>
             </Flex>
 
             <AddWebhookDialog
@@ -125,6 +202,13 @@ export const ApiLayout = (): JSX.Element => {
                 isOpen={dialogOpen}
                 onClose={() => setDialogOpen.off()}
             />
+
+            <AddApiTokenDialog
+                modalRef={tokenDialogRef}
+                isOpen={tokenDialogOpen}
+                onClose={() => setTokenDialogOpen.off()}
+                onCreate={() => loadApiTokens()}
+            />
         </Box>
     );
 };
\ No newline at end of file
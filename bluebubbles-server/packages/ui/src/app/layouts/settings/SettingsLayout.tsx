@@ -4,6 +4,7 @@ import { ConnectionSettings } from './connection/ConnectionSettings';
 import { FeatureSettings } from './features/FeatureSettings';
 import { PrivateApiSettings } from './privateApi/PrivateApiSettings';
 import { UpdateSettings } from './update/UpdateSettings';
+import { RateLimitSettings } from './rateLimits/RateLimitSettings';
 import { ResetSettings } from './reset/ResetSettings';
 import { ThemeSettings } from './theme/ThemeSettings';
 import { PermissionRequirements } from '../../components/PermissionRequirements';
@@ -17,6 +18,7 @@ export const SettingsLayout = (): JSX.Element => {
                 <ConnectionSettings />
                 <PrivateApiSettings />
                 <FeatureSettings />
+                <RateLimitSettings />
                 <UpdateSettings />
                 <ThemeSettings />
                 <Stack direction='row' align='flex-start' flexWrap='wrap' p={5}>
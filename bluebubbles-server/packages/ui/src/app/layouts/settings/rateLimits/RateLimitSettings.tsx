@@ -0,0 +1,48 @@
+import React from 'react';
+import {
+    Divider,
+    Stack,
+    Text,
+    Spacer
+} from '@chakra-ui/react';
+import { useAppSelector } from '../../../hooks';
+import { RateLimitEnabledField } from '../../../components/fields/RateLimitEnabledField';
+import { RateLimitField } from '../../../components/fields/RateLimitField';
+
+
+export const RateLimitSettings = (): JSX.Element => {
+    const enabled: boolean = (useAppSelector(state => state.config.api_rate_limit_enabled) ?? false);
+
+    return (
+        <section>
+            <Stack direction='column' p={5}>
+                <Text fontSize='2xl'>API Rate Limits</Text>
+                <Divider orientation='horizontal' />
+                <Spacer />
+                <RateLimitEnabledField />
+                {enabled ? (
+                    <>
+                        <Spacer />
+                        <RateLimitField
+                            name='api_rate_limit_per_minute'
+                            label='Requests Per Minute'
+                            helpText='How many API requests each client can make per minute (0 for no limit)'
+                        />
+                        <Spacer />
+                        <RateLimitField
+                            name='api_send_rate_limit_per_minute'
+                            label='Sends Per Minute'
+                            helpText='How many messages, reactions, edits, etc. each client can send per minute (0 for no limit)'
+                        />
+                        <Spacer />
+                        <RateLimitField
+                            name='api_daily_send_quota_per_chat'
+                            label='Daily Sends Per Chat'
+                            helpText='How many messages can be sent to a single chat per day via the API (0 for no limit)'
+                        />
+                    </>
+                ) : null}
+            </Stack>
+        </section>
+    );
+};
@@ -4,10 +4,26 @@ import { MultiSelectValue } from '../types';
 import { createWebhook, deleteWebhook, updateWebhook } from '../utils/IpcUtils';
 import { showErrorToast, showSuccessToast } from '../utils/ToastUtils';
 
+export interface WebhookFilters {
+    chatGuids?: Array<string>;
+    excludeChatGuids?: Array<string>;
+    handles?: Array<string>;
+    isFromMe?: boolean | null;
+    chatType?: 'group' | 'direct' | null;
+    hasAttachments?: boolean | null;
+    textPattern?: string | null;
+}
+
 export interface WebhookItem {
     id: number;
     url: string;
     events: string;
+    filters: WebhookFilters | null;
+    secret: string | null;
+    enabled: boolean;
+    consecutiveFailures: number;
+    failingSince: Date | null;
+    disabledReason: string | null;
     created: Date;
 }
 
@@ -29,7 +45,10 @@ export const WebhooksSlice = createSlice({
                 if (!exists) state.webhooks.push(i);
             }
         },
-        create: (state, action: PayloadAction<{ url: string, events: Array<MultiSelectValue> }>) => {
+        replaceAll: (state, action: PayloadAction<Array<WebhookItem>>) => {
+            state.webhooks = action.payload;
+        },
+        create: (state, action: PayloadAction<{ url: string, events: Array<MultiSelectValue>, filters: WebhookFilters | null }>) => {
             const exists = state.webhooks.find(e => e.url === action.payload.url);
             if (exists) {
                 return showErrorToast({
@@ -53,7 +72,12 @@ export const WebhooksSlice = createSlice({
                 });
             });
         },
-        update: (state, action: PayloadAction<{ id: number, url: string, events: Array<MultiSelectValue> }>) => {
+        update: (state, action: PayloadAction<{
+            id: number,
+            url: string,
+            events: Array<MultiSelectValue>,
+            filters: WebhookFilters | null
+        }>) => {
             const existingIndex = state.webhooks.findIndex(e => e.id === action.payload.id);
             if (existingIndex === -1) {
                 return showErrorToast({
@@ -65,7 +89,7 @@ export const WebhooksSlice = createSlice({
 
             // Update it in the state
             state.webhooks = state.webhooks.map(e => (e.id === action.payload.id) ?
-                { ...e, url: action.payload.url, events: JSON.stringify(action.payload.events.map(i => {
+                { ...e, url: action.payload.url, filters: action.payload.filters, events: JSON.stringify(action.payload.events.map(i => {
                     return i.value;
                 })) } : e);
 
@@ -73,7 +97,8 @@ export const WebhooksSlice = createSlice({
             updateWebhook({
                 id: action.payload.id,
                 url: action.payload.url,
-                events: action.payload.events
+                events: action.payload.events,
+                filters: action.payload.filters
             }).then(() => {
                 showSuccessToast({
                     id: 'webhooks',
@@ -87,6 +112,34 @@ export const WebhooksSlice = createSlice({
                 });
             });
         },
+        setEnabled: (state, action: PayloadAction<{ id: number, enabled: boolean }>) => {
+            const existingIndex = state.webhooks.findIndex(e => e.id === action.payload.id);
+            if (existingIndex === -1) {
+                return showErrorToast({
+                    id: 'webhooks',
+                    duration: 5000,
+                    description: 'Failed to update webhook! Unable to find webhook in database!'
+                });
+            }
+
+            const { id, enabled } = action.payload;
+            updateWebhook({ id, enabled }).then((e: any) => {
+                store.dispatch(replaceOne(e));
+                showSuccessToast({
+                    id: 'webhooks',
+                    description: `Successfully ${enabled ? 'enabled' : 'disabled'} webhook!`
+                });
+            }).catch(e => {
+                showErrorToast({
+                    id: 'webhooks',
+                    duration: 5000,
+                    description: `Failed to update webhook! Error: ${e}`
+                });
+            });
+        },
+        replaceOne: (state, action: PayloadAction<WebhookItem>) => {
+            state.webhooks = state.webhooks.map(e => (e.id === action.payload.id) ? action.payload : e);
+        },
         remove: (state, action: PayloadAction<number>) => {
             const existingIndex = state.webhooks.findIndex(e => e.id === action.payload);
             if (existingIndex === -1) {
@@ -115,6 +168,6 @@ export const WebhooksSlice = createSlice({
 });
 
 // Action creators are generated for each case reducer function
-export const { create, remove, update, addAll } = WebhooksSlice.actions;
+export const { create, remove, update, addAll, replaceAll, replaceOne, setEnabled } = WebhooksSlice.actions;
 
 export default WebhooksSlice.reducer;
\ No newline at end of file
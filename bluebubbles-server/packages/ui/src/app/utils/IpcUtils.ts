@@ -1,6 +1,7 @@
 import { ScheduledMessageItem } from 'app/components/tables/ScheduledMessagesTable';
 import { ipcRenderer } from 'electron';
 import { MultiSelectValue } from '../types';
+import { WebhookFilters } from '../slices/WebhooksSlice';
 import { showErrorToast, showSuccessToast } from './ToastUtils';
 
 export const getConfig = async () => {
@@ -73,7 +74,7 @@ export const getWebhooks = async () => {
     return await ipcRenderer.invoke('get-webhooks');
 };
 
-export const createWebhook = async (payload: { url: string, events: Array<MultiSelectValue> }) => {
+export const createWebhook = async (payload: { url: string, events: Array<MultiSelectValue>, filters?: WebhookFilters | null }) => {
     return await ipcRenderer.invoke('create-webhook', payload);
 };
 
@@ -81,8 +82,43 @@ export const deleteWebhook = async ({ url = null, id = null }: { url?: string |
     return await ipcRenderer.invoke('delete-webhook', { url, id });
 };
 
-export const updateWebhook = async ({ id, url, events }: { id: number, url?: string, events?: Array<MultiSelectValue> }) => {
-    return await ipcRenderer.invoke('update-webhook', { id, url, events });
+export const updateWebhook = async ({ id, url, events, enabled, filters }: {
+    id: number,
+    url?: string,
+    events?: Array<MultiSelectValue>,
+    enabled?: boolean,
+    filters?: WebhookFilters | null
+}) => {
+    return await ipcRenderer.invoke('update-webhook', { id, url, events, enabled, filters });
+};
+
+export const getWebhookDeliveries = async ({ id, status = null, limit = 50, offset = 0 }: {
+    id: number,
+    status?: string | null,
+    limit?: number,
+    offset?: number
+}) => {
+    return await ipcRenderer.invoke('get-webhook-deliveries', { id, status, limit, offset });
+};
+
+export const replayWebhookDelivery = async (id: number) => {
+    return await ipcRenderer.invoke('replay-webhook-delivery', { id });
+};
+
+export const replayFailedWebhookDeliveries = async (id: number) => {
+    return await ipcRenderer.invoke('replay-failed-webhook-deliveries', { id });
+};
+
+export const getApiTokens = async () => {
+    return await ipcRenderer.invoke('get-api-tokens');
+};
+
+export const createApiToken = async (payload: { name: string, scopes: Array<string>, expiresAt: number | null }) => {
+    return await ipcRenderer.invoke('create-api-token', payload);
+};
+
+export const deleteApiToken = async (id: number) => {
+    return await ipcRenderer.invoke('delete-api-token', { id });
 };
 
 export const reinstallHelperBundle = async () => {
@@ -138,6 +174,14 @@ export const createScheduledMessage = async (message: ScheduledMessageItem) => {
     return await ipcRenderer.invoke('create-scheduled-message', message);
 };
 
+export const previewScheduledMessage = async (
+    scheduledFor: number,
+    schedule: ScheduledMessageItem['schedule'],
+    count = 5
+) => {
+    return await ipcRenderer.invoke('preview-scheduled-message', { scheduledFor, schedule, count });
+};
+
 export const getBinaryPath = async () => {
     return await ipcRenderer.invoke('get-binary-path');
 };
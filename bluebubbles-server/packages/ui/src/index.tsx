@@ -12,7 +12,7 @@ import { setConfigBulk, ConfigItem, setConfig } from './app/slices/ConfigSlice';
 import { addAll as addAllDevices } from './app/slices/DevicesSlice';
 import { DeviceItem } from './app/slices/DevicesSlice';
 import { add as addLog } from './app/slices/LogsSlice';
-import { addAll as addAllWebhooks } from './app/slices/WebhooksSlice';
+import { addAll as addAllWebhooks, replaceAll as replaceAllWebhooks } from './app/slices/WebhooksSlice';
 import { add as addAlert, addAll as addAllAlerts, NotificationItem, clear as clearAlerts } from './app/slices/NotificationsSlice';
 import { getRandomInt } from './app/utils/GenericUtils';
 
@@ -144,6 +144,14 @@ ipcRenderer.on('refresh-alerts', (_: any, __: any) => {
     loadAlerts(true);
 });
 
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+ipcRenderer.on('webhook-update', (_: any, __: any) => {
+    getWebhooks().then(hooks => {
+        if (!hooks) return;
+        store.dispatch(replaceAllWebhooks(hooks));
+    });
+});
+
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 ipcRenderer.on('update-available', (_: any, data: any) => {
     store.dispatch(setConfig({